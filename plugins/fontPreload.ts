@@ -0,0 +1,35 @@
+// Adds <link rel="preload"> hints for the font files the first screen needs,
+// so the browser fetches them alongside the stylesheet instead of after it.
+// Files are matched by their original name, since the emitted ones are hashed.
+
+import type { Plugin, Rollup } from 'vite';
+
+export function fontPreload(files: string[]): Plugin {
+  let base = '/';
+
+  return {
+    name: 'nura:font-preload',
+    apply: 'build',
+
+    configResolved(config) {
+      base = config.base;
+    },
+
+    transformIndexHtml: {
+      order: 'post',
+      handler(_html, { bundle }) {
+        if (!bundle) return;
+        const assets = Object.values(bundle).filter((output): output is Rollup.OutputAsset => output.type === 'asset');
+        return files.map(file => {
+          const asset = assets.find(candidate => candidate.names.includes(file));
+          if (!asset) throw new Error(`Font preload: ${file} isn't in the bundle; is its stylesheet still imported?`);
+          return {
+            tag: 'link',
+            attrs: { rel: 'preload', as: 'font', type: 'font/woff2', href: `${base}${asset.fileName}`, crossorigin: '' },
+            injectTo: 'head' as const,
+          };
+        });
+      },
+    },
+  };
+}
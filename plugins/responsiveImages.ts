@@ -0,0 +1,117 @@
+// Imports ending in `?responsive` (`import hero from './hero.jpg?responsive'`)
+// become a ResponsiveImageSource: AVIF and WebP srcsets at several widths, a
+// JPEG fallback, and a tiny blurred placeholder inlined as a data URL. File
+// names come from the master's content hash rather than Rollup's, so the dev
+// server (which scripts/prerender.ts renders through) hands out the same URLs
+// the production build emits. In dev the variants are encoded on first request.
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import type { Plugin } from 'vite';
+
+const QUERY = '?responsive';
+const WIDTHS = [640, 1024, 1600, 2400];
+/** Width of the JPEG fallback, which also serves as the link-preview image. */
+const FALLBACK_WIDTH = 1600;
+const PLACEHOLDER_WIDTH = 24;
+
+type Format = 'avif' | 'webp' | 'jpeg';
+
+interface Variant {
+  master: string;
+  width: number;
+  format: Format;
+}
+
+function encode(variant: Variant) {
+  const image = sharp(variant.master).rotate().resize({ width: variant.width, withoutEnlargement: true });
+  switch (variant.format) {
+    case 'avif': return image.avif({ quality: 50, effort: 4 }).toBuffer();
+    case 'webp': return image.webp({ quality: 72 }).toBuffer();
+    case 'jpeg': return image.jpeg({ quality: 76, progressive: true, mozjpeg: true }).toBuffer();
+  }
+}
+
+export function responsiveImages(): Plugin {
+  let base = '/';
+  let serving = false;
+  /** Every generated file, keyed by its path under the output directory. */
+  const variants = new Map<string, Variant>();
+  const encoded = new Map<string, Promise<Buffer>>();
+
+  return {
+    name: 'nura:responsive-images',
+    enforce: 'pre',
+
+    configResolved(config) {
+      base = config.base;
+      serving = config.command === 'serve';
+    },
+
+    async resolveId(source, importer) {
+      if (!source.endsWith(QUERY)) return null;
+      const resolved = await this.resolve(source.slice(0, -QUERY.length), importer, { skipSelf: true });
+      return resolved && `${resolved.id}${QUERY}`;
+    },
+
+    async load(id) {
+      if (!id.endsWith(QUERY)) return null;
+      const master = id.slice(0, -QUERY.length);
+      this.addWatchFile(master);
+
+      const buffer = await readFile(master);
+      const { width = 0, height = 0 } = await sharp(buffer).rotate().metadata();
+      if (!width || !height) this.error(`Couldn't read the dimensions of ${master}`);
+
+      const hash = createHash('sha256').update(buffer).digest('hex').slice(0, 8);
+      const name = path.basename(master, path.extname(master));
+      const widths = WIDTHS.filter(w => w < width).concat(width > WIDTHS[WIDTHS.length - 1] ? [] : [width]);
+      const fallbackWidth = Math.min(FALLBACK_WIDTH, width);
+
+      const url = async (format: Format, w: number) => {
+        const fileName = `assets/${name}-${hash}-${w}.${format === 'jpeg' ? 'jpg' : format}`;
+        const variant = { master, width: w, format };
+        variants.set(fileName, variant);
+        if (!serving) this.emitFile({ type: 'asset', fileName, source: await encode(variant) });
+        return `${base}${fileName}`;
+      };
+      const srcSet = async (format: Format) =>
+        (await Promise.all(widths.map(async w => `${await url(format, w)} ${w}w`))).join(', ');
+
+      const placeholder = await sharp(buffer).rotate().resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 40 }).toBuffer();
+      const image = {
+        src: await url('jpeg', fallbackWidth),
+        width,
+        height,
+        sources: [
+          { type: 'image/avif', srcSet: await srcSet('avif') },
+          { type: 'image/webp', srcSet: await srcSet('webp') },
+        ],
+        placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+      };
+      return `export default ${JSON.stringify(image)};`;
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const fileName = req.url?.split('?')[0].slice(base.length);
+        const variant = fileName && variants.get(fileName);
+        if (!variant) return next();
+        if (!encoded.has(fileName)) encoded.set(fileName, encode(variant));
+        encoded.get(fileName)!.then(
+          body => {
+            res.setHeader('Content-Type', `image/${variant.format}`);
+            res.setHeader('Cache-Control', 'no-cache');
+            res.end(body);
+          },
+          error => {
+            encoded.delete(fileName);
+            next(error);
+          }
+        );
+      });
+    },
+  };
+}
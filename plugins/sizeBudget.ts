@@ -0,0 +1,48 @@
+// Fails the production build when its output outgrows the budgets set in
+// vite.config.ts. Each budget matches emitted files by name and caps either
+// their combined size or, with `each`, every file on its own.
+
+import { gzipSync } from 'zlib';
+import type { Plugin } from 'vite';
+
+export interface SizeBudget {
+  label: string;
+  match: RegExp;
+  /** Bytes. */
+  max: number;
+  /** Measures the gzipped size, which is what scripts and styles go over the wire as. */
+  gzip?: boolean;
+  /** Caps every matching file rather than their total. */
+  each?: boolean;
+}
+
+const kB = (bytes: number) => `${(bytes / 1024).toFixed(1)} kB`;
+
+export function sizeBudget(budgets: SizeBudget[]): Plugin {
+  return {
+    name: 'nura:size-budget',
+    apply: (config, { command }) => command === 'build' && !config.build?.ssr,
+    enforce: 'post',
+
+    generateBundle(_options, bundle) {
+      const files = Object.values(bundle).map(output => {
+        const source = output.type === 'chunk' ? output.code : output.source;
+        return { name: output.fileName, source: typeof source === 'string' ? Buffer.from(source) : source };
+      });
+
+      const failures: string[] = [];
+      for (const budget of budgets) {
+        const sizes = files
+          .filter(file => budget.match.test(file.name))
+          .map(file => ({ name: file.name, size: budget.gzip ? gzipSync(file.source).length : file.source.length }));
+        const over = budget.each
+          ? sizes.filter(file => file.size > budget.max)
+          : [{ name: 'total', size: sizes.reduce((sum, file) => sum + file.size, 0) }].filter(total => total.size > budget.max);
+        for (const file of over) {
+          failures.push(`${budget.label}: ${file.name} is ${kB(file.size)}${budget.gzip ? ' gzipped' : ''}, over the ${kB(budget.max)} budget`);
+        }
+      }
+      if (failures.length) this.error(`Size budget exceeded:\n  ${failures.join('\n  ')}`);
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// Makes the site installable: renders PNG icons from one SVG, writes
+// manifest.webmanifest with the brand's name and colors, and links both from
+// the page head. The name and description come from the default locale's
+// content, so renaming the brand there renames the installed app too.
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import type { Plugin } from 'vite';
+
+export interface WebManifestOptions {
+  /** Square SVG the icons are rendered from, relative to the project root. */
+  icon: string;
+  /** Locale content file to take the name and description from. */
+  content: string;
+  themeColor: string;
+  backgroundColor: string;
+}
+
+const ICONS = [
+  { name: 'icon-192.png', size: 192, purpose: 'any' },
+  { name: 'icon-512.png', size: 512, purpose: 'any' },
+  // Platforms crop maskable icons to their own shape, so the SVG's rounded
+  // corners are filled with the theme color; its mark sits inside the safe zone.
+  { name: 'icon-maskable-512.png', size: 512, purpose: 'maskable' },
+  // iOS draws transparent corners black, and rounds the icon itself.
+  { name: 'apple-touch-icon.png', size: 180, purpose: 'apple' },
+] as const;
+
+export function webManifest(options: WebManifestOptions): Plugin {
+  let base = '/';
+  let root = process.cwd();
+  const references = new Map<string, string>();
+
+  return {
+    name: 'nura:web-manifest',
+    apply: (config, { command }) => command === 'build' && !config.build?.ssr,
+
+    configResolved(config) {
+      base = config.base;
+      root = config.root;
+    },
+
+    async buildStart() {
+      const svg = await readFile(path.join(root, options.icon));
+      for (const icon of ICONS) {
+        // Rasterized at twice the viewBox size and scaled down, for clean edges.
+        const image = sharp(svg, { density: 144 }).resize(icon.size, icon.size);
+        const source = await (icon.purpose === 'any' ? image : image.flatten({ background: options.themeColor })).png().toBuffer();
+        references.set(icon.name, this.emitFile({ type: 'asset', name: icon.name, source }));
+      }
+    },
+
+    async generateBundle() {
+      const { brand, seo } = JSON.parse(await readFile(path.join(root, options.content), 'utf8'));
+      const manifest = {
+        id: base,
+        name: brand.name,
+        short_name: brand.name,
+        description: seo.description,
+        start_url: base,
+        scope: base,
+        display: 'standalone',
+        theme_color: options.themeColor,
+        background_color: options.backgroundColor,
+        icons: ICONS.filter(icon => icon.purpose !== 'apple').map(icon => ({
+          src: `${base}${this.getFileName(references.get(icon.name)!)}`,
+          sizes: `${icon.size}x${icon.size}`,
+          type: 'image/png',
+          purpose: icon.purpose,
+        })),
+      };
+      this.emitFile({ type: 'asset', fileName: 'manifest.webmanifest', source: `${JSON.stringify(manifest, null, 2)}\n` });
+    },
+
+    transformIndexHtml: {
+      order: 'post',
+      handler(_html, { bundle }) {
+        if (!bundle) return;
+        const appleIcon = Object.values(bundle).find(output => output.type === 'asset' && output.names.includes('apple-touch-icon.png'));
+        return [
+          { tag: 'link', attrs: { rel: 'manifest', href: `${base}manifest.webmanifest` }, injectTo: 'head' as const },
+          { tag: 'meta', attrs: { name: 'theme-color', content: options.themeColor }, injectTo: 'head' as const },
+          { tag: 'link', attrs: { rel: 'apple-touch-icon', href: `${base}${appleIcon!.fileName}` }, injectTo: 'head' as const },
+        ];
+      },
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// Runs last in `npm run build`, once the pages are prerendered: bundles
+// src/serviceWorker/sw.ts into dist/sw.js with the list of files to precache
+// and a version hashed from their contents. Any change to the build changes
+// sw.js, which is what makes browsers install the new worker.
+//
+// Pages, scripts, stylesheets, fonts, the manifest and the SVG icon are
+// precached. Images are left to the worker's runtime cache, since the
+// responsive variants add up to far more than any one visitor downloads.
+
+import { createHash } from 'crypto';
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { build } from 'vite';
+
+const DIST = path.join(process.cwd(), 'dist');
+const ENTRY = path.join(process.cwd(), 'src/serviceWorker/sw.ts');
+const OUTPUT = 'sw.js';
+const PRECACHED = new Set(['.html', '.js', '.css', '.woff2', '.webmanifest', '.svg']);
+
+/** The URL each file is served at: pages by path, as scripts/prerender.ts lays them out, everything else by file name. */
+function urlFor(file: string) {
+  const relative = path.relative(DIST, file).split(path.sep).join('/');
+  if (relative === 'index.html') return '/';
+  return `/${relative.replace(/\.html$/, '')}`;
+}
+
+try {
+  const files = (await readdir(DIST, { recursive: true, withFileTypes: true }))
+    .filter(entry => entry.isFile() && PRECACHED.has(path.extname(entry.name)) && entry.name !== OUTPUT)
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .sort();
+
+  const hash = createHash('sha256');
+  for (const file of files) hash.update(urlFor(file)).update(await readFile(file));
+  const version = hash.digest('hex').slice(0, 12);
+  const urls = files.map(urlFor);
+
+  await build({
+    configFile: false,
+    logLevel: 'warn',
+    publicDir: false,
+    define: {
+      __PRECACHE__: JSON.stringify(urls),
+      __VERSION__: JSON.stringify(version),
+    },
+    build: {
+      outDir: DIST,
+      emptyOutDir: false,
+      lib: { entry: ENTRY, formats: ['iife'], name: 'nuraServiceWorker', fileName: () => OUTPUT },
+    },
+  });
+  console.log(`Service worker ${version} precaches ${urls.length} files`);
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,41 @@
+// Fails the build when any file in src/content/locales (or the telemetry scenarios)
+// doesn't match its schema, when a legal page is missing or lacks its front matter,
+// or when a privacy policy's date isn't the version new consents record.
+// Importing the content module runs the schema validation.
+
+import { readFile } from 'fs/promises';
+import { LOCALES } from '../src/i18n/locales.ts';
+import { LEGAL_PAGES } from '../src/lib/legal.ts';
+import { parseMarkdown } from '../src/lib/markdown.ts';
+import { PRIVACY_POLICY_VERSION } from '../src/lib/privacy.ts';
+
+async function checkLegalPages() {
+  const issues: string[] = [];
+  for (const locale of LOCALES) {
+    for (const page of LEGAL_PAGES) {
+      const file = `src/content/legal/${locale}/${page}.md`;
+      const source = await readFile(file, 'utf8').catch(() => undefined);
+      if (source === undefined) {
+        issues.push(`${file}: missing`);
+        continue;
+      }
+      const { meta, blocks } = parseMarkdown(source);
+      if (!meta.title) issues.push(`${file}: front matter needs a title`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(meta.updated ?? '')) issues.push(`${file}: front matter needs an updated date (YYYY-MM-DD)`);
+      if (page === 'privacy' && meta.updated !== PRIVACY_POLICY_VERSION) {
+        issues.push(`${file}: updated date must match PRIVACY_POLICY_VERSION (${PRIVACY_POLICY_VERSION}) in src/lib/privacy.ts`);
+      }
+      if (blocks.length === 0) issues.push(`${file}: page has no content`);
+    }
+  }
+  if (issues.length > 0) throw new Error(`Invalid legal pages:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+}
+
+try {
+  await import('../src/content/index.ts');
+  await checkLegalPages();
+  console.log('Site content OK');
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
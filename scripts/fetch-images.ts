@@ -0,0 +1,22 @@
+// Downloads the photo masters into src/assets/images, where the responsive
+// image pipeline (plugins/responsiveImages.ts) picks them up. Run it once when
+// adding or replacing a photo and commit the result; builds never hit the network.
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+const DIR = path.join(process.cwd(), 'src/assets/images');
+
+/** Unsplash photo ids, fetched at full quality a little wider than the largest variant. */
+const MASTERS: Record<string, string> = {
+  'hero.jpg': 'photo-1511497584788-876760111969',
+  'philosophy.jpg': 'photo-1618423835718-20fa0480e118',
+};
+
+await mkdir(DIR, { recursive: true });
+for (const [file, photo] of Object.entries(MASTERS)) {
+  const response = await fetch(`https://images.unsplash.com/${photo}?q=90&w=2800&fm=jpg`);
+  if (!response.ok) throw new Error(`${photo}: HTTP ${response.status}`);
+  await writeFile(path.join(DIR, file), Buffer.from(await response.arrayBuffer()));
+  console.log(`Saved ${file}`);
+}
@@ -0,0 +1,53 @@
+// Runs after `vite build`: renders the public pages into dist so crawlers and
+// link previews get real markup and meta tags, then writes sitemap.xml and
+// robots.txt. The app is loaded through Vite because it relies on
+// import.meta.glob and asset imports that plain Node can't resolve.
+
+import 'dotenv/config';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createServer } from 'vite';
+
+const DIST = path.join(process.cwd(), 'dist');
+const FALLBACK_URL = 'http://localhost:3000';
+
+function siteUrl() {
+  const raw = process.env.APP_URL ?? '';
+  try {
+    const url = new URL(raw);
+    if (url.protocol === 'http:' || url.protocol === 'https:') return url.origin + url.pathname.replace(/\/+$/, '');
+  } catch {
+    // Falls through to the warning below.
+  }
+  console.warn(`APP_URL is not an http(s) URL; canonical links and the sitemap will use ${FALLBACK_URL}.`);
+  return FALLBACK_URL;
+}
+
+const fileFor = (pagePath: string) => path.join(DIST, pagePath === '/' ? 'index.html' : `${pagePath.slice(1)}.html`);
+
+const vite = await createServer({ server: { middlewareMode: true, hmr: false }, appType: 'custom', logLevel: 'warn' });
+try {
+  const { PRERENDER_PATHS, SITEMAP_PATHS, prerenderPage, robotsTxt, sitemapXml } = await vite.ssrLoadModule('/src/entry-server.tsx') as typeof import('../src/entry-server.tsx');
+  const url = siteUrl();
+  const template = await readFile(path.join(DIST, 'index.html'), 'utf8');
+
+  for (const pagePath of PRERENDER_PATHS) {
+    const { html, head } = await prerenderPage(pagePath, url);
+    const page = template
+      .replace(/<title>.*?<\/title>\s*<meta name="description"[^>]*>\s*/s, '')
+      .replace('<!--app-head-->', () => head)
+      .replace('<div id="root"></div>', () => `<div id="root" data-prerendered="${pagePath}">${html}</div>`);
+    // Nested pages such as /privacy/requests need their directory first.
+    await mkdir(path.dirname(fileFor(pagePath)), { recursive: true });
+    await writeFile(fileFor(pagePath), page);
+  }
+
+  await writeFile(path.join(DIST, 'sitemap.xml'), sitemapXml(url, SITEMAP_PATHS, new Date().toISOString().slice(0, 10)));
+  await writeFile(path.join(DIST, 'robots.txt'), robotsTxt(url));
+  console.log(`Prerendered ${PRERENDER_PATHS.length} pages for ${url}`);
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+} finally {
+  await vite.close();
+}
@@ -0,0 +1,83 @@
+import 'dotenv/config';
+import compression from 'compression';
+import express from 'express';
+import path from 'path';
+import { createApiRouter } from './server/api.ts';
+import { db } from './server/db.ts';
+import { MailQueue } from './server/mailQueue.ts';
+import { createMailTransport } from './server/mailTransports.ts';
+import { logRequests } from './server/requestLog.ts';
+import { securityHeaders } from './server/security.ts';
+import { createSiteRouter } from './server/site.ts';
+
+const PORT = Number(process.env.PORT ?? 3000);
+const PRODUCTION = process.env.NODE_ENV === 'production';
+/** Open streams (chat replies, the telemetry feed) get this long to finish before they're cut. */
+const SHUTDOWN_GRACE_MS = 10_000;
+
+/**
+ * Express setting for which proxies to believe about the client address. The
+ * per-address rate limits depend on it: with too little trust every visitor
+ * shares the proxy's address, with too much a client can claim any address.
+ */
+function trustProxy(raw = process.env.TRUST_PROXY ?? '1') {
+  if (/^\d+$/.test(raw)) return Number(raw);
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  return raw;
+}
+
+async function startServer() {
+  const app = express();
+  app.disable('x-powered-by');
+  app.set('trust proxy', trustProxy());
+
+  const mail = new MailQueue(createMailTransport()).start();
+
+  app.use(securityHeaders({ production: PRODUCTION }));
+  app.use(compression());
+  // The dev server's module requests would drown out the API lines.
+  app.use(PRODUCTION ? '/' : '/api', logRequests());
+  app.use('/api', createApiRouter(mail));
+
+  let vite: import('vite').ViteDevServer | undefined;
+  if (!PRODUCTION) {
+    const { createServer: createViteServer } = await import('vite');
+    vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    app.use(createSiteRouter(path.join(process.cwd(), 'dist')));
+  }
+
+  const server = app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Nura Health running on http://localhost:${PORT}`);
+  });
+
+  // Stop taking connections, let requests in flight finish, then flush the
+  // mail queue and close the database so the WAL is checkpointed.
+  let stopping = false;
+  const shutdown = (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    console.log(`[server] ${signal} received, shutting down`);
+    setTimeout(() => server.closeAllConnections(), SHUTDOWN_GRACE_MS).unref();
+    server.close(async () => {
+      try {
+        await vite?.close();
+        await mail.stop();
+        db.close();
+      } catch (error) {
+        console.error('[server] Shutdown failed:', error);
+        process.exitCode = 1;
+      }
+      process.exit();
+    });
+    server.closeIdleConnections();
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+startServer();
@@ -0,0 +1,216 @@
+import { Router, type Request } from 'express';
+import { db } from './db.ts';
+import { checkAdminPassword, endAdminSession, hasAdminSession, requireAdmin, startAdminSession } from './auth.ts';
+import { funnelReport } from './events.ts';
+import { experimentReport } from './experiments.ts';
+import type { MailQueue } from './mailQueue.ts';
+import { rateLimit } from './rateLimit.ts';
+import { addIncidentUpdate, createIncident, listIncidents } from './status.ts';
+import { SITE_ORIGIN } from './urls.ts';
+import { sendEnrollInvite, sendPositionUpdates } from './waitlist.ts';
+import {
+  ADMIN_PAGE_SIZE,
+  LEAD_STATUSES,
+  type EnrollmentRecord,
+  type LeadStatus,
+  type Page,
+  type RecordFilters,
+  type WaitlistRecord,
+} from '../src/lib/admin.ts';
+import { validateIncidentInput, validateIncidentUpdate } from '../src/lib/status.ts';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function readFilters(req: Request): RecordFilters {
+  const param = (key: string) => {
+    const value = req.query[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const page = Number(param('page'));
+  return {
+    q: param('q'),
+    tier: param('tier'),
+    status: param('status'),
+    from: DATE_PATTERN.test(param('from') ?? '') ? param('from') : undefined,
+    to: DATE_PATTERN.test(param('to') ?? '') ? param('to') : undefined,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+function nextDay(date: string) {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString();
+}
+
+function buildWhere(filters: RecordFilters) {
+  const clauses: string[] = [];
+  const params: string[] = [];
+
+  if (filters.q) {
+    const pattern = `%${filters.q.toLowerCase().replace(/[\\%_]/g, char => `\\${char}`)}%`;
+    clauses.push("(lower(name) LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\')");
+    params.push(pattern, pattern);
+  }
+  if (filters.tier) {
+    clauses.push('tier = ?');
+    params.push(filters.tier);
+  }
+  if (filters.status) {
+    clauses.push('status = ?');
+    params.push(filters.status);
+  }
+  if (filters.from) {
+    clauses.push('created_at >= ?');
+    params.push(`${filters.from}T00:00:00.000Z`);
+  }
+  if (filters.to) {
+    clauses.push('created_at < ?');
+    params.push(nextDay(filters.to));
+  }
+
+  return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+const WAITLIST_COLUMNS = `id, name, email, tier, referral_code AS referralCode, status,
+  estimated_age AS estimatedAge, created_at AS createdAt, status_updated_at AS statusUpdatedAt,
+  confirmed_at AS confirmedAt, unsubscribed_at AS unsubscribedAt,
+  (SELECT COUNT(*) FROM waitlist referred WHERE referred.referred_by = waitlist.id AND referred.confirmed_at IS NOT NULL) AS referrals`;
+const ENROLLMENT_COLUMNS = `id, name, email, tier, billing_period AS billingPeriod, amount, currency, status,
+  created_at AS createdAt`;
+
+function queryPage<T>(table: string, columns: string, filters: RecordFilters): Page<T> {
+  const { where, params } = buildWhere(filters);
+  const page = filters.page ?? 1;
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${table} ${where}`).get(...params) as { total: number };
+  const items = db
+    .prepare(`SELECT ${columns} FROM ${table} ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+    .all(...params, ADMIN_PAGE_SIZE, (page - 1) * ADMIN_PAGE_SIZE) as T[];
+  return { items, total, page, pageSize: ADMIN_PAGE_SIZE };
+}
+
+function queryAll<T>(table: string, columns: string, filters: RecordFilters) {
+  const { where, params } = buildWhere(filters);
+  return db.prepare(`SELECT ${columns} FROM ${table} ${where} ORDER BY created_at DESC`).all(...params) as T[];
+}
+
+function csvCell(value: unknown) {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Stop spreadsheet apps from evaluating user-supplied text as a formula.
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv<T extends object>(rows: T[], columns: (keyof T)[]) {
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+const updateLeadStatus = db.prepare<[string, number]>(
+  `UPDATE waitlist SET status = ?, status_updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?`
+);
+const findLead = db.prepare<[number], WaitlistRecord>(`SELECT ${WAITLIST_COLUMNS} FROM waitlist WHERE id = ?`);
+
+export function createAdminRouter(mail: MailQueue) {
+  const router = Router();
+
+  router.get('/session', (req, res) => {
+    res.json({ authenticated: hasAdminSession(req) });
+  });
+
+  // Slows password guessing; the console has a single shared password.
+  router.post('/session', rateLimit({ limit: 10, windowMs: 15 * 60 * 1000, message: 'Too many sign-in attempts. Please wait and try again.' }), (req, res) => {
+    if (!checkAdminPassword(req.body?.password)) {
+      res.status(401).json({ error: 'Incorrect password.' });
+      return;
+    }
+    startAdminSession(res);
+    res.json({ authenticated: true });
+  });
+
+  router.delete('/session', (req, res) => {
+    endAdminSession(req, res);
+    res.json({ authenticated: false });
+  });
+
+  router.use(requireAdmin);
+
+  router.get('/waitlist', (req, res) => {
+    res.json(queryPage<WaitlistRecord>('waitlist', WAITLIST_COLUMNS, readFilters(req)));
+  });
+
+  router.get('/waitlist.csv', (req, res) => {
+    const rows = queryAll<WaitlistRecord>('waitlist', WAITLIST_COLUMNS, readFilters(req));
+    res.attachment(`nura-waitlist-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.type('text/csv').send(toCsv(rows, ['id', 'name', 'email', 'tier', 'referralCode', 'estimatedAge', 'status', 'createdAt', 'statusUpdatedAt', 'confirmedAt', 'unsubscribedAt', 'referrals']));
+  });
+
+  router.patch('/waitlist/:id', (req, res) => {
+    const status = req.body?.status as LeadStatus;
+    if (!LEAD_STATUSES.includes(status)) {
+      res.status(400).json({ error: `Status must be one of ${LEAD_STATUSES.join(', ')}.` });
+      return;
+    }
+    const id = Number(req.params.id);
+    const previous = findLead.get(id);
+    if (!previous) {
+      res.status(404).json({ error: 'Signup not found.' });
+      return;
+    }
+    updateLeadStatus.run(status, id);
+    if (status === 'invited' && previous.status !== 'invited') sendEnrollInvite(mail, SITE_ORIGIN, id);
+    res.json(findLead.get(id));
+  });
+
+  // Emails confirmed leads who have moved up the list since they last heard from us.
+  router.post('/waitlist/position-updates', (req, res) => {
+    res.json({ queued: sendPositionUpdates(mail, SITE_ORIGIN) });
+  });
+
+  router.get('/enrollments', (req, res) => {
+    res.json(queryPage<EnrollmentRecord>('enrollments', ENROLLMENT_COLUMNS, readFilters(req)));
+  });
+
+  router.get('/enrollments.csv', (req, res) => {
+    const rows = queryAll<EnrollmentRecord>('enrollments', ENROLLMENT_COLUMNS, readFilters(req));
+    res.attachment(`nura-enrollments-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.type('text/csv').send(toCsv(rows, ['id', 'name', 'email', 'tier', 'billingPeriod', 'amount', 'currency', 'status', 'createdAt']));
+  });
+
+  router.get('/analytics/funnel', (req, res) => {
+    res.json(funnelReport(readFilters(req)));
+  });
+
+  router.get('/analytics/experiments', (req, res) => {
+    res.json(experimentReport(readFilters(req)));
+  });
+
+  router.get('/incidents', (_req, res) => {
+    res.json(listIncidents());
+  });
+
+  router.post('/incidents', (req, res) => {
+    const result = validateIncidentInput(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fieldErrors: result.errors });
+      return;
+    }
+    res.status(201).json(createIncident(result.value));
+  });
+
+  router.post('/incidents/:id/updates', (req, res) => {
+    const result = validateIncidentUpdate(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fieldErrors: result.errors });
+      return;
+    }
+    const incident = addIncidentUpdate(Number(req.params.id), result.value);
+    if (!incident) {
+      res.status(404).json({ error: 'Incident not found.' });
+      return;
+    }
+    res.json(incident);
+  });
+
+  return router;
+}
@@ -0,0 +1,52 @@
+import express, { Router, type ErrorRequestHandler } from 'express';
+import { createAdminRouter } from './admin.ts';
+import { createBookingsRouter } from './bookings.ts';
+import { createChatRouter } from './chat.ts';
+import { createChatModel } from './chatModels.ts';
+import { createEnrollmentsRouter, createMockPaymentsRouter } from './enrollments.ts';
+import { createEventsRouter } from './events.ts';
+import { ChatModelHealthCheck, DatabaseHealthCheck } from './healthChecks.ts';
+import type { MailQueue } from './mailQueue.ts';
+import { createPaymentProvider } from './payments.ts';
+import { createPrivacyRouter, startRetentionJob } from './privacy.ts';
+import { createStatusRouter } from './status.ts';
+import { createTelemetryRouter } from './telemetry.ts';
+import { createWaitlistRouter } from './waitlist.ts';
+
+const handleErrors: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err?.type === 'entity.parse.failed') {
+    res.status(400).json({ error: 'Request body must be valid JSON.' });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'Something went wrong. Please try again.' });
+};
+
+/** The JSON API. The caller owns `mail` so it can stop the queue on shutdown. */
+export function createApiRouter(mail: MailQueue) {
+  const router = Router();
+  router.use(express.json({ limit: '100kb' }));
+
+  const payments = createPaymentProvider();
+  const chatModel = createChatModel();
+  startRetentionJob();
+
+  router.use('/waitlist', createWaitlistRouter(mail));
+  router.use('/enrollments', createEnrollmentsRouter(payments));
+  if (payments.name === 'mock') {
+    router.use('/payments/mock', createMockPaymentsRouter());
+  }
+  router.use('/admin', createAdminRouter(mail));
+  router.use('/consultations', createBookingsRouter(mail));
+  router.use('/chat', createChatRouter(chatModel));
+  router.use('/events', createEventsRouter());
+  router.use('/privacy', createPrivacyRouter(mail));
+  router.use('/status', createStatusRouter([new DatabaseHealthCheck(), new ChatModelHealthCheck(chatModel)]));
+  router.use('/telemetry', createTelemetryRouter());
+
+  router.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+  router.use(handleErrors);
+  return router;
+}
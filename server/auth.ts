@@ -0,0 +1,72 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request, RequestHandler, Response } from 'express';
+import { db } from './db.ts';
+
+const SESSION_COOKIE = 'nura_admin';
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+const insertSession = db.prepare<[string, string]>('INSERT INTO admin_sessions (token_hash, expires_at) VALUES (?, ?)');
+const findSession = db.prepare<[string, string], { token_hash: string }>(
+  'SELECT token_hash FROM admin_sessions WHERE token_hash = ? AND expires_at > ?'
+);
+const deleteSession = db.prepare<[string]>('DELETE FROM admin_sessions WHERE token_hash = ?');
+const purgeExpired = db.prepare<[string]>('DELETE FROM admin_sessions WHERE expires_at <= ?');
+
+function sha256(value: string) {
+  return createHash('sha256').update(value).digest();
+}
+
+/** Tokens are only ever stored hashed, so a leaked database can't be replayed as a login. */
+export function hashToken(token: string) {
+  return sha256(token).toString('hex');
+}
+
+export function readCookie(req: Request, name: string) {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return undefined;
+}
+
+export function checkAdminPassword(candidate: unknown) {
+  const expected = process.env.ADMIN_PASSWORD;
+  if (!expected || typeof candidate !== 'string') return false;
+  // Compare fixed-length digests so neither length nor content leaks through timing.
+  return timingSafeEqual(sha256(candidate), sha256(expected));
+}
+
+export function startAdminSession(res: Response) {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  purgeExpired.run(new Date().toISOString());
+  insertSession.run(hashToken(token), expiresAt.toISOString());
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/admin',
+    expires: expiresAt,
+  });
+}
+
+export function endAdminSession(req: Request, res: Response) {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) deleteSession.run(hashToken(token));
+  res.clearCookie(SESSION_COOKIE, { path: '/api/admin' });
+}
+
+export function hasAdminSession(req: Request) {
+  const token = readCookie(req, SESSION_COOKIE);
+  return !!token && !!findSession.get(hashToken(token), new Date().toISOString());
+}
+
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!hasAdminSession(req)) {
+    res.status(401).json({ error: 'Sign in to continue.' });
+    return;
+  }
+  next();
+};
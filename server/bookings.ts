@@ -0,0 +1,291 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { Router, type Response } from 'express';
+import { hashToken } from './auth.ts';
+import { db } from './db.ts';
+import type { MailQueue } from './mailQueue.ts';
+import { rateLimit } from './rateLimit.ts';
+import { SITE_ORIGIN } from './urls.ts';
+import {
+  BOOKING_HORIZON_DAYS,
+  BOOKING_LEAD_HOURS,
+  MAX_AVAILABILITY_DAYS,
+  SLOT_MINUTES,
+  addDays,
+  manageBookingHref,
+  validateBookingInput,
+  validateRescheduleInput,
+  weekday,
+  zonedDate,
+  zonedTimeToUtc,
+  type Availability,
+  type Booking,
+  type BookingInput,
+  type BookingResponse,
+  type Clinician,
+  type Slot,
+} from '../src/lib/booking.ts';
+import { toIcs } from '../src/lib/ics.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SLOT_MS = SLOT_MINUTES * 60_000;
+
+interface HoursRow {
+  clinicianId: string;
+  weekday: number;
+  startMinute: number;
+  endMinute: number;
+}
+
+interface BookingRow {
+  id: string;
+  start: string;
+  end: string;
+  name: string;
+  email: string;
+  timeZone: string;
+  status: Booking['status'];
+  sequence: number;
+  clinicianId: string;
+  clinicianName: string;
+  clinicianTitle: string;
+  clinicianTimeZone: string;
+}
+
+const activeClinicians = db.prepare<[], Clinician>(
+  `SELECT id, name, title, time_zone AS timeZone FROM clinicians WHERE active = 1 ORDER BY name`
+);
+const clinicianHours = db.prepare<[], HoursRow>(
+  `SELECT clinician_id AS clinicianId, weekday, start_minute AS startMinute, end_minute AS endMinute FROM clinician_hours`
+);
+const bookedStarts = db.prepare<[string, string], { clinicianId: string; start: string }>(
+  `SELECT clinician_id AS clinicianId, starts_at AS start FROM bookings
+   WHERE status = 'confirmed' AND starts_at >= ? AND starts_at < ?`
+);
+const insertBooking = db.prepare<[string, string, string, string, string, string, string, string | null, string, string, string | null]>(
+  `INSERT INTO bookings (id, clinician_id, starts_at, ends_at, name, email, time_zone, notes, token_hash,
+     consent_version, consented_at, analytics_session_id)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), ?)`
+);
+const moveBooking = db.prepare<[string, string, string, string]>(
+  `UPDATE bookings SET clinician_id = ?, starts_at = ?, ends_at = ?, sequence = sequence + 1,
+     updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+   WHERE id = ?`
+);
+const cancelBooking = db.prepare<[string]>(
+  `UPDATE bookings SET status = 'cancelled', sequence = sequence + 1, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+   WHERE id = ? AND status = 'confirmed'`
+);
+const findBooking = db.prepare<[string], BookingRow>(
+  `SELECT b.id, b.starts_at AS start, b.ends_at AS "end", b.name, b.email, b.time_zone AS timeZone, b.status, b.sequence,
+     c.id AS clinicianId, c.name AS clinicianName, c.title AS clinicianTitle, c.time_zone AS clinicianTimeZone
+   FROM bookings b JOIN clinicians c ON c.id = b.clinician_id
+   WHERE b.token_hash = ?`
+);
+
+function toBooking(row: BookingRow): Booking {
+  return {
+    id: row.id,
+    clinician: { id: row.clinicianId, name: row.clinicianName, title: row.clinicianTitle, timeZone: row.clinicianTimeZone },
+    start: row.start,
+    end: row.end,
+    name: row.name,
+    email: row.email,
+    timeZone: row.timeZone,
+    status: row.status,
+  };
+}
+
+/**
+ * Open slots starting in [from, to), clipped to the booking lead time and
+ * horizon. Each clinician's hours are laid out on their own calendar, so a
+ * slot stays at the same wall-clock time for them across DST changes.
+ */
+function availableSlots(from: number, to: number): Slot[] {
+  const now = Date.now();
+  const start = Math.max(from, now + BOOKING_LEAD_HOURS * 60 * 60 * 1000);
+  const end = Math.min(to, now + BOOKING_HORIZON_DAYS * DAY_MS);
+  if (start >= end) return [];
+
+  const startIso = new Date(start).toISOString();
+  const booked = new Set(bookedStarts.all(startIso, new Date(end).toISOString()).map(row => `${row.clinicianId} ${row.start}`));
+  const hours = clinicianHours.all();
+  const slots: Slot[] = [];
+
+  for (const clinician of activeClinicians.all()) {
+    const own = hours.filter(row => row.clinicianId === clinician.id);
+    // Start a day early and stop a day late so days that straddle the window's edges in this zone are covered.
+    for (let day = zonedDate(start - DAY_MS, clinician.timeZone); ; day = addDays(day, 1)) {
+      const midnight = zonedTimeToUtc(day, 0, clinician.timeZone) ?? zonedTimeToUtc(day, 60, clinician.timeZone)!;
+      if (midnight > end + DAY_MS) break;
+      for (const row of own.filter(row => row.weekday === weekday(day))) {
+        for (let minute = row.startMinute; minute + SLOT_MINUTES <= row.endMinute; minute += SLOT_MINUTES) {
+          const instant = zonedTimeToUtc(day, minute, clinician.timeZone);
+          if (instant === undefined || instant < start || instant >= end || instant % SLOT_MS !== 0) continue;
+          const iso = new Date(instant).toISOString();
+          if (!booked.has(`${clinician.id} ${iso}`)) slots.push({ clinicianId: clinician.id, start: iso });
+        }
+      }
+    }
+  }
+  return slots.sort((a, b) => a.start.localeCompare(b.start) || a.clinicianId.localeCompare(b.clinicianId));
+}
+
+function isOpenSlot(clinicianId: string, start: string) {
+  const time = Date.parse(start);
+  return availableSlots(time, time + 1).some(slot => slot.clinicianId === clinicianId);
+}
+
+class SlotTakenError extends Error {
+  constructor() {
+    super('That time is no longer available.');
+    this.name = 'SlotTakenError';
+  }
+}
+
+const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string })?.code === 'SQLITE_CONSTRAINT_UNIQUE';
+
+/**
+ * Checks and claims a slot inside one IMMEDIATE transaction, which takes the
+ * write lock before reading, so two requests can't both see a slot as free.
+ * The partial unique index on confirmed bookings backs this up.
+ */
+function reserve<T>(clinicianId: string, start: string, write: () => T): T {
+  try {
+    return db.transaction(() => {
+      if (!isOpenSlot(clinicianId, start)) throw new SlotTakenError();
+      return write();
+    }).immediate();
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new SlotTakenError();
+    throw error;
+  }
+}
+
+const endOf = (start: string) => new Date(Date.parse(start) + SLOT_MS).toISOString();
+
+function createBooking(input: BookingInput) {
+  const id = randomUUID();
+  const token = randomBytes(24).toString('base64url');
+  const tokenHash = hashToken(token);
+  reserve(input.clinicianId, input.start, () =>
+    insertBooking.run(
+      id, input.clinicianId, input.start, endOf(input.start), input.name, input.email, input.timeZone, input.notes ?? null, tokenHash,
+      input.consentVersion, input.analyticsSessionId ?? null
+    )
+  );
+  return { booking: toBooking(findBooking.get(tokenHash)!), token };
+}
+
+const CONFLICT_MESSAGE = 'That time was just booked by someone else. Please choose another.';
+
+function sendSlotTaken(res: Response) {
+  res.status(409).json({ error: CONFLICT_MESSAGE, fieldErrors: { start: CONFLICT_MESSAGE } });
+}
+
+export function createBookingsRouter(mail: MailQueue) {
+  const router = Router();
+
+  router.get('/availability', (req, res) => {
+    const from = Date.parse(String(req.query.from));
+    const to = Date.parse(String(req.query.to));
+    if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from || to - from > MAX_AVAILABILITY_DAYS * DAY_MS) {
+      res.status(400).json({ error: `from and to must be ISO timestamps at most ${MAX_AVAILABILITY_DAYS} days apart.` });
+      return;
+    }
+    const body: Availability = { clinicians: activeClinicians.all(), slots: availableSlots(from, to) };
+    res.set('Cache-Control', 'no-store').json(body);
+  });
+
+  router.post('/', rateLimit({ limit: 10, windowMs: 10 * 60 * 1000 }), (req, res, next) => {
+    const result = validateBookingInput(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fieldErrors: result.errors });
+      return;
+    }
+    try {
+      const body: BookingResponse = createBooking(result.value);
+      const { booking, token } = body;
+      mail.enqueue('bookingConfirmation', booking.email, {
+        name: booking.name,
+        clinicianName: booking.clinician.name,
+        clinicianTitle: booking.clinician.title,
+        start: booking.start,
+        timeZone: booking.timeZone,
+        manageUrl: `${SITE_ORIGIN}${manageBookingHref(token)}`,
+        inviteUrl: `${SITE_ORIGIN}${req.baseUrl}/${encodeURIComponent(token)}/invite.ics`,
+      });
+      res.status(201).json(body);
+    } catch (error) {
+      if (error instanceof SlotTakenError) sendSlotTaken(res);
+      else next(error);
+    }
+  });
+
+  // Everything below is addressed by the secret token from the manage link.
+  router.param('token', (req, res, next, token: string) => {
+    const row = findBooking.get(hashToken(token));
+    if (!row) {
+      res.status(404).json({ error: 'We couldn\'t find that consultation. Check the link in your confirmation.' });
+      return;
+    }
+    res.locals.booking = row;
+    next();
+  });
+
+  router.get('/:token', (_req, res) => {
+    res.set('Cache-Control', 'no-store').json(toBooking(res.locals.booking));
+  });
+
+  router.post('/:token/cancel', (req, res) => {
+    const row: BookingRow = res.locals.booking;
+    if (row.status === 'confirmed' && Date.parse(row.start) <= Date.now()) {
+      res.status(409).json({ error: 'This consultation has already started.' });
+      return;
+    }
+    cancelBooking.run(row.id);
+    res.json(toBooking(findBooking.get(hashToken(req.params.token))!));
+  });
+
+  router.post('/:token/reschedule', (req, res, next) => {
+    const row: BookingRow = res.locals.booking;
+    const result = validateRescheduleInput(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fieldErrors: result.errors });
+      return;
+    }
+    if (row.status !== 'confirmed' || Date.parse(row.start) <= Date.now()) {
+      res.status(409).json({ error: 'Only upcoming consultations can be rescheduled.' });
+      return;
+    }
+    const { clinicianId, start } = result.value;
+    try {
+      reserve(clinicianId, start, () => moveBooking.run(clinicianId, start, endOf(start), row.id));
+      res.json(toBooking(findBooking.get(hashToken(req.params.token))!));
+    } catch (error) {
+      if (error instanceof SlotTakenError) sendSlotTaken(res);
+      else next(error);
+    }
+  });
+
+  router.get('/:token/invite.ics', (req, res) => {
+    const row: BookingRow = res.locals.booking;
+    const ics = toIcs([{
+      uid: `${row.id}@nura.health`,
+      sequence: row.sequence,
+      start: row.start,
+      end: row.end,
+      summary: `Nura consultation with ${row.clinicianName}`,
+      description: `${row.clinicianName}, ${row.clinicianTitle}. To reschedule or cancel: ${SITE_ORIGIN}${manageBookingHref(req.params.token)}`,
+      url: `${SITE_ORIGIN}${manageBookingHref(req.params.token)}`,
+      status: row.status === 'confirmed' ? 'CONFIRMED' : 'CANCELLED',
+    }], 'Consultations');
+    res
+      .set('Content-Type', 'text/calendar; charset=utf-8')
+      .set('Content-Disposition', 'attachment; filename="nura-consultation.ics"')
+      .set('Cache-Control', 'no-store')
+      .send(ics);
+  });
+
+  return router;
+}
@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import type { ChatModel } from './chatModels.ts';
+import { rateLimit } from './rateLimit.ts';
+import { siteContentByLocale } from '../src/content/index.ts';
+import { LOCALE_INFO, type Locale } from '../src/i18n/locales.ts';
+import { catalogs } from '../src/i18n/messages/index.ts';
+import { validateChatRequest } from '../src/lib/chat.ts';
+import { MEMBERSHIP_TIERS, annualDiscountPercent, formatPrice } from '../src/lib/membership.ts';
+
+const INSTRUCTIONS = `You are Nura Health's concierge. Answer questions about Nura's protocol, \
+features and membership tiers using only the site facts below. If the facts do not cover a \
+question, say so and suggest joining the waitlist to speak with the care team. Never diagnose, \
+interpret a person's symptoms or lab results, or recommend doses or medication changes; explain \
+that only a Nura physician can do that after an assessment. Keep answers under 120 words and \
+reply in the language of the user's last message.`;
+
+/**
+ * Asking about one's own symptoms, results or doses gets the canned refusal
+ * without a model call, so the guardrail holds even if a model ignores its
+ * instructions. The model prompt covers the phrasings this misses.
+ */
+const PERSONAL_MEDICAL_PATTERN = new RegExp(
+  [
+    'diagnos', 'do i have', 'am i sick', 'my (symptoms?|results?|labs?|blood ?work|pain)', 'should i (take|stop|start)',
+    'how much .* should i', 'dosage', 'prescri',
+    'tengo (una? )?(enfermedad|c[aá]ncer|diabetes)', 'mis (s[ií]ntomas|resultados|an[aá]lisis)', 'deber[ií]a tomar',
+    'تشخيص', 'أعراضي', 'نتائجي', 'هل لدي', 'جرعة',
+  ].join('|'),
+  'i'
+);
+
+/** Site content flattened into short, self-contained facts the model can quote. */
+function groundingDocuments(locale: Locale) {
+  const content = siteContentByLocale[locale];
+  const price = (amount: number) => formatPrice(amount, LOCALE_INFO[locale].intl);
+  return [
+    `${content.brand.name}: ${content.brand.tagline} ${content.hero.subheading}`,
+    ...content.features.map(feature => `${feature.title}: ${feature.description}`),
+    `${content.philosophy.contrastLead} ${content.philosophy.contrastText} ${content.philosophy.focusLead} ${content.philosophy.focusText}`,
+    content.protocol.steps.map((step, index) => `${index + 1}. ${step.title}: ${step.description}`).join(' '),
+    `${content.assessment.heading}: ${content.assessment.subheading}`,
+    ...MEMBERSHIP_TIERS.map(tier => {
+      const copy = content.membership.tiers[tier.id];
+      return `${tier.name} membership: ${price(tier.prices.monthly)} per month or ${price(tier.prices.annual)} per year ` +
+        `(${annualDiscountPercent(tier)}% off annually). ${copy.cadence}. ${copy.features.join('. ')}.`;
+    }),
+  ];
+}
+
+/** Enough to stop a script from burning the model quota. */
+const RATE_LIMIT = 20;
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+
+export function createChatRouter(model: ChatModel) {
+  const router = Router();
+  const limit = rateLimit({ limit: RATE_LIMIT, windowMs: RATE_WINDOW_MS, message: 'Too many messages. Please wait a few minutes and try again.' });
+
+  router.post('/', limit, async (req, res, next) => {
+    const result = validateChatRequest(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: result.errors });
+      return;
+    }
+
+    const { locale, messages } = result.value;
+    res.type('text/plain; charset=utf-8');
+    // no-transform keeps compression from buffering the streamed reply.
+    res.setHeader('Cache-Control', 'no-store, no-transform');
+    res.setHeader('X-Chat-Model', model.name);
+
+    if (PERSONAL_MEDICAL_PATTERN.test(messages[messages.length - 1].content)) {
+      res.end(catalogs[locale]['chat.refusal'] as string);
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    try {
+      const stream = model.stream({
+        instructions: INSTRUCTIONS,
+        documents: groundingDocuments(locale),
+        messages,
+        signal: controller.signal,
+      });
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        res.write(chunk);
+      }
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (!res.headersSent) {
+        next(error);
+        return;
+      }
+      // Mid-stream failures can't change the status code any more; log and cut the reply short.
+      console.error(error);
+      res.end();
+    }
+  });
+
+  return router;
+}
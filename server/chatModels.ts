@@ -0,0 +1,96 @@
+import { GoogleGenAI } from '@google/genai';
+import type { ChatMessage } from '../src/lib/chat.ts';
+
+export interface ChatModelRequest {
+  /** Behavioural rules the model must follow. */
+  instructions: string;
+  /** Site facts the answer must be grounded in, one topic per entry. */
+  documents: string[];
+  messages: ChatMessage[];
+  signal: AbortSignal;
+}
+
+/**
+ * The seam between the chat proxy and whichever model writes the reply. A
+ * model streams plain-text chunks; the proxy forwards them as they arrive.
+ */
+export interface ChatModel {
+  readonly name: string;
+  stream(request: ChatModelRequest): AsyncIterable<string>;
+  /** Resolves when the model is reachable; used by the status health checks. */
+  ping(signal: AbortSignal): Promise<void>;
+}
+
+export class GeminiChatModel implements ChatModel {
+  readonly name = 'gemini';
+  private readonly client: GoogleGenAI;
+
+  constructor(apiKey: string, private readonly model = process.env.GEMINI_MODEL || 'gemini-2.5-flash') {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async *stream({ instructions, documents, messages, signal }: ChatModelRequest) {
+    const response = await this.client.models.generateContentStream({
+      model: this.model,
+      contents: messages.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+      config: {
+        systemInstruction: `${instructions}\n\nSite facts:\n${documents.map(document => `- ${document}`).join('\n')}`,
+        temperature: 0.3,
+        maxOutputTokens: 600,
+        abortSignal: signal,
+      },
+    });
+    for await (const chunk of response) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  // Reading the model's metadata proves the key and the API work without spending tokens.
+  async ping(signal: AbortSignal) {
+    await this.client.models.get({ model: this.model, config: { abortSignal: signal } });
+  }
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]{4,}/gu;
+
+function words(text: string) {
+  return new Set(text.toLowerCase().match(WORD_PATTERN) ?? []);
+}
+
+/**
+ * Answers offline with the site fact that shares the most words with the
+ * question, streamed word by word. Same input, same output, no network.
+ */
+export class StubChatModel implements ChatModel {
+  readonly name = 'stub';
+
+  async *stream({ documents, messages, signal }: ChatModelRequest) {
+    const question = words(messages[messages.length - 1].content);
+    const overlap = (document: string) => [...words(document)].filter(word => question.has(word)).length;
+    const answer = documents.reduce((best, document) => overlap(document) > overlap(best) ? document : best, documents[0]);
+
+    for (const word of answer.split(/(?<=\s)/)) {
+      if (signal.aborted) return;
+      yield word;
+    }
+  }
+
+  async ping() {}
+}
+
+export function createChatModel(
+  name = process.env.CHAT_MODEL || (process.env.GEMINI_API_KEY ? 'gemini' : 'stub')
+): ChatModel {
+  switch (name) {
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) throw new Error('CHAT_MODEL "gemini" requires GEMINI_API_KEY');
+      return new GeminiChatModel(process.env.GEMINI_API_KEY);
+    case 'stub':
+      return new StubChatModel();
+    default:
+      throw new Error(`Unknown CHAT_MODEL "${name}"`);
+  }
+}
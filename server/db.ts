@@ -0,0 +1,195 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+const DATABASE_PATH = process.env.DATABASE_PATH ?? path.join(process.cwd(), 'data', 'nura.db');
+
+// Each entry runs once, in order. `user_version` records how many have been
+// applied, so only ever append to this list.
+const migrations: string[] = [
+  `CREATE TABLE waitlist (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL UNIQUE,
+    tier TEXT NOT NULL,
+    referral_code TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+  `CREATE TABLE enrollments (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    tier TEXT NOT NULL,
+    billing_period TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    currency TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    payment_provider TEXT NOT NULL,
+    checkout_id TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+  `ALTER TABLE waitlist ADD COLUMN status TEXT NOT NULL DEFAULT 'new';
+   ALTER TABLE waitlist ADD COLUMN status_updated_at TEXT;
+   CREATE INDEX waitlist_created_at ON waitlist (created_at);
+   CREATE TABLE admin_sessions (
+     token_hash TEXT PRIMARY KEY,
+     expires_at TEXT NOT NULL
+   )`,
+  `ALTER TABLE waitlist ADD COLUMN assessment_answers TEXT;
+   ALTER TABLE waitlist ADD COLUMN estimated_age REAL`,
+  `CREATE TABLE events (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     session_id TEXT NOT NULL,
+     type TEXT NOT NULL,
+     target TEXT NOT NULL,
+     placement TEXT,
+     value REAL,
+     path TEXT NOT NULL,
+     occurred_at TEXT NOT NULL,
+     received_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+   );
+   CREATE INDEX events_type_target ON events (type, target, occurred_at)`,
+  `ALTER TABLE events ADD COLUMN variant TEXT;
+   CREATE INDEX events_session ON events (session_id, type)`,
+  `CREATE TABLE incidents (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     title TEXT NOT NULL,
+     impact TEXT NOT NULL,
+     status TEXT NOT NULL,
+     created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+     resolved_at TEXT
+   );
+   CREATE TABLE incident_updates (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     incident_id INTEGER NOT NULL REFERENCES incidents (id),
+     status TEXT NOT NULL,
+     message TEXT NOT NULL,
+     created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+   );
+   CREATE INDEX incident_updates_incident ON incident_updates (incident_id, created_at)`,
+  `CREATE TABLE clinicians (
+     id TEXT PRIMARY KEY,
+     name TEXT NOT NULL,
+     title TEXT NOT NULL,
+     time_zone TEXT NOT NULL,
+     active INTEGER NOT NULL DEFAULT 1
+   );
+   CREATE TABLE clinician_hours (
+     clinician_id TEXT NOT NULL REFERENCES clinicians (id),
+     weekday INTEGER NOT NULL,
+     start_minute INTEGER NOT NULL,
+     end_minute INTEGER NOT NULL
+   );
+   CREATE TABLE bookings (
+     id TEXT PRIMARY KEY,
+     clinician_id TEXT NOT NULL REFERENCES clinicians (id),
+     starts_at TEXT NOT NULL,
+     ends_at TEXT NOT NULL,
+     name TEXT NOT NULL,
+     email TEXT NOT NULL,
+     time_zone TEXT NOT NULL,
+     notes TEXT,
+     status TEXT NOT NULL DEFAULT 'confirmed',
+     token_hash TEXT NOT NULL UNIQUE,
+     sequence INTEGER NOT NULL DEFAULT 0,
+     created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+     updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+   );
+   CREATE UNIQUE INDEX bookings_slot ON bookings (clinician_id, starts_at) WHERE status = 'confirmed';
+   INSERT INTO clinicians (id, name, title, time_zone) VALUES
+     ('amara-okafor', 'Dr. Amara Okafor', 'Internal medicine', 'America/New_York'),
+     ('erik-lindqvist', 'Dr. Erik Lindqvist', 'Preventive cardiology', 'Europe/Stockholm');
+   INSERT INTO clinician_hours (clinician_id, weekday, start_minute, end_minute) VALUES
+     ('amara-okafor', 1, 540, 720), ('amara-okafor', 1, 780, 1020),
+     ('amara-okafor', 3, 540, 720), ('amara-okafor', 3, 780, 1020),
+     ('amara-okafor', 5, 540, 720),
+     ('erik-lindqvist', 2, 480, 960),
+     ('erik-lindqvist', 4, 480, 960)`,
+  // Signups from before double opt-in count as confirmed.
+  `ALTER TABLE waitlist ADD COLUMN confirmed_at TEXT;
+   ALTER TABLE waitlist ADD COLUMN unsubscribed_at TEXT;
+   ALTER TABLE waitlist ADD COLUMN notified_position INTEGER;
+   UPDATE waitlist SET confirmed_at = created_at;
+   CREATE TABLE outbound_emails (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     template TEXT NOT NULL,
+     recipient TEXT NOT NULL,
+     subject TEXT NOT NULL,
+     html TEXT NOT NULL,
+     text TEXT NOT NULL,
+     headers TEXT NOT NULL DEFAULT '{}',
+     status TEXT NOT NULL DEFAULT 'pending',
+     attempts INTEGER NOT NULL DEFAULT 0,
+     next_attempt_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+     last_error TEXT,
+     created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+     sent_at TEXT
+   );
+   CREATE INDEX outbound_emails_due ON outbound_emails (status, next_attempt_at);
+   CREATE INDEX outbound_emails_recipient ON outbound_emails (recipient, template, created_at)`,
+  // `referral_code` is the code a signup joined with; `own_referral_code` is the one they share.
+  `ALTER TABLE waitlist ADD COLUMN own_referral_code TEXT;
+   UPDATE waitlist SET own_referral_code = upper(hex(randomblob(4)));
+   CREATE UNIQUE INDEX waitlist_own_referral_code ON waitlist (own_referral_code);
+   ALTER TABLE waitlist ADD COLUMN referred_by INTEGER REFERENCES waitlist (id);
+   ALTER TABLE waitlist ADD COLUMN ip_hash TEXT;
+   CREATE INDEX waitlist_referred_by ON waitlist (referred_by);
+   CREATE INDEX waitlist_ip_hash ON waitlist (ip_hash, created_at)`,
+  // Consent is stored with each record: the privacy policy version agreed to and when.
+  // Records from before consent capture have none. The audit log never holds an
+  // email address, only its hash, so it outlives the deletions it records.
+  `ALTER TABLE waitlist ADD COLUMN consent_version TEXT;
+   ALTER TABLE waitlist ADD COLUMN consented_at TEXT;
+   ALTER TABLE waitlist ADD COLUMN analytics_session_id TEXT;
+   ALTER TABLE bookings ADD COLUMN consent_version TEXT;
+   ALTER TABLE bookings ADD COLUMN consented_at TEXT;
+   ALTER TABLE bookings ADD COLUMN analytics_session_id TEXT;
+   CREATE INDEX bookings_email ON bookings (email);
+   CREATE INDEX enrollments_email ON enrollments (email);
+   CREATE TABLE privacy_audit_log (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     action TEXT NOT NULL,
+     subject_hash TEXT,
+     details TEXT NOT NULL DEFAULT '{}',
+     created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+   );
+   CREATE INDEX privacy_audit_log_created_at ON privacy_audit_log (created_at)`,
+  // Signup addresses were stored as a plain SHA-256, which can be reversed by
+  // brute force. They're keyed with MAIL_SECRET now; the old ones are dropped,
+  // since the limits they fed only look back a day.
+  `UPDATE waitlist SET ip_hash = NULL`,
+  // The same for the privacy audit log's email hashes, which a list of
+  // candidate addresses would reverse. The addresses behind deleted subjects
+  // are gone, so they can't be rehashed; the audit entries themselves stay.
+  `UPDATE privacy_audit_log SET subject_hash = NULL`,
+  // Experiments assign variants per visitor, so they count exposures and
+  // conversions per visitor too. Earlier events only know their session.
+  `ALTER TABLE events ADD COLUMN visitor_id TEXT;
+   UPDATE events SET visitor_id = session_id;
+   CREATE INDEX events_visitor ON events (visitor_id, type)`,
+];
+
+function migrate(database: Database.Database) {
+  const current = database.pragma('user_version', { simple: true }) as number;
+  const pending = migrations.slice(current);
+  if (pending.length === 0) return;
+
+  database.transaction(() => {
+    pending.forEach((sql) => database.exec(sql));
+    database.pragma(`user_version = ${migrations.length}`);
+  })();
+}
+
+function openDatabase() {
+  if (DATABASE_PATH !== ':memory:') {
+    fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+  }
+  const database = new Database(DATABASE_PATH);
+  database.pragma('journal_mode = WAL');
+  database.pragma('foreign_keys = ON');
+  migrate(database);
+  return database;
+}
+
+export const db = openDatabase();
@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import { Router } from 'express';
+import { db } from './db.ts';
+import type { PaymentProvider } from './payments.ts';
+import { rateLimit } from './rateLimit.ts';
+import {
+  CURRENCY,
+  getTier,
+  validateEnrollmentInput,
+  type EnrollmentResponse,
+} from '../src/lib/membership.ts';
+
+const insertEnrollment = db.prepare<[string, string, string, string, string, number, string, string, string]>(
+  `INSERT INTO enrollments (id, name, email, tier, billing_period, amount, currency, payment_provider, checkout_id)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+);
+const activateByCheckout = db.prepare<[string]>(
+  `UPDATE enrollments SET status = 'active', updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+   WHERE checkout_id = ? AND status = 'pending'`
+);
+
+export function createEnrollmentsRouter(payments: PaymentProvider) {
+  const router = Router();
+
+  router.post('/', rateLimit({ limit: 10, windowMs: 10 * 60 * 1000 }), async (req, res, next) => {
+    const result = validateEnrollmentInput(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fieldErrors: result.errors });
+      return;
+    }
+
+    const { tierId, billingPeriod, name, email } = result.value;
+    const tier = getTier(tierId);
+    // Always price from the server-side config; never trust an amount from the client.
+    const amount = tier.prices[billingPeriod];
+    const enrollmentId = randomUUID();
+
+    try {
+      const checkout = await payments.createCheckout({
+        enrollmentId,
+        amount,
+        currency: CURRENCY,
+        description: `Nura ${tier.name} membership (${billingPeriod})`,
+        customerEmail: email,
+      });
+      insertEnrollment.run(enrollmentId, name, email, tierId, billingPeriod, amount, CURRENCY, payments.name, checkout.id);
+
+      const body: EnrollmentResponse = {
+        enrollmentId,
+        status: 'pending',
+        amount,
+        currency: CURRENCY,
+        checkoutUrl: checkout.url,
+      };
+      res.status(201).json(body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+/** Stand-in for a provider's hosted checkout page: visiting it pays for the enrollment. */
+export function createMockPaymentsRouter() {
+  const router = Router();
+
+  router.get('/:checkoutId/complete', (req, res) => {
+    const { changes } = activateByCheckout.run(req.params.checkoutId);
+    res.redirect(changes > 0 ? '/?enrollment=active#membership' : '/?enrollment=unknown#membership');
+  });
+
+  return router;
+}
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { db } from './db.ts';
+import { rateLimit } from './rateLimit.ts';
+import { FUNNEL_STEPS, validateEventBatch, type FunnelReport } from '../src/lib/analytics.ts';
+import type { RecordFilters } from '../src/lib/admin.ts';
+
+const insertEvent = db.prepare<[string, string, string, string, string | null, number | null, string | null, string, string]>(
+  `INSERT INTO events (session_id, visitor_id, type, target, placement, value, variant, path, occurred_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+);
+
+export function createEventsRouter() {
+  const router = Router();
+
+  // sendBeacon can't read the response, so failures are only reported for debugging.
+  // Batches are sent every ten seconds and on page hide, so an open tab stays far below this.
+  router.post('/', rateLimit({ limit: 120, windowMs: 60 * 1000 }), (req, res) => {
+    const result = validateEventBatch(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: result.errors });
+      return;
+    }
+
+    const { sessionId, visitorId = sessionId, events } = result.value;
+    db.transaction(() => {
+      events.forEach(event => insertEvent.run(
+        sessionId, visitorId, event.type, event.target, event.placement ?? null, event.value ?? null, event.variant ?? null, event.path, event.occurredAt
+      ));
+    })();
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+export function dateRange(filters: RecordFilters) {
+  const clauses: string[] = [];
+  const params: string[] = [];
+  if (filters.from) {
+    clauses.push('occurred_at >= ?');
+    params.push(`${filters.from}T00:00:00.000Z`);
+  }
+  if (filters.to) {
+    clauses.push("occurred_at < strftime('%Y-%m-%dT%H:%M:%fZ', ?, '+1 day')");
+    params.push(filters.to);
+  }
+  return { clauses, params };
+}
+
+export function funnelReport(filters: RecordFilters): FunnelReport {
+  const range = dateRange(filters);
+
+  let reached: Set<string> | null = null;
+  const steps = FUNNEL_STEPS.map(step => {
+    const clauses = ['type = ?', ...(step.target ? ['target = ?'] : []), ...range.clauses];
+    const params = [step.type, ...(step.target ? [step.target] : []), ...range.params];
+    const sessions = db
+      .prepare(`SELECT DISTINCT session_id AS sessionId FROM events WHERE ${clauses.join(' AND ')}`)
+      .all(...params) as { sessionId: string }[];
+    // Only sessions that also reached every earlier step carry forward.
+    const current = new Set(sessions.map(row => row.sessionId).filter(id => !reached || reached.has(id)));
+    reached = current;
+    return { id: step.id, label: step.label, sessions: current.size };
+  });
+
+  const ctaClicks = db
+    .prepare(
+      `SELECT target, COALESCE(placement, '') AS placement, COUNT(*) AS clicks FROM events
+       WHERE ${['type = ?', ...range.clauses].join(' AND ')}
+       GROUP BY target, placement ORDER BY clicks DESC`
+    )
+    .all('cta_click', ...range.params) as FunnelReport['ctaClicks'];
+
+  return { steps, ctaClicks };
+}
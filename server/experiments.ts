@@ -0,0 +1,63 @@
+import { db } from './db.ts';
+import { dateRange } from './events.ts';
+import type { RecordFilters } from '../src/lib/admin.ts';
+import {
+  EXPERIMENTS,
+  EXPERIMENT_IDS,
+  compareVariants,
+  type ExperimentReport,
+  type ExperimentResult,
+} from '../src/lib/experiments.ts';
+
+interface VariantRow {
+  variant: string;
+  visitors: number;
+  conversions: number;
+}
+
+function experimentResult(id: ExperimentResult['id'], filters: RecordFilters): ExperimentResult {
+  const experiment = EXPERIMENTS[id];
+  const goal: { type: string; target?: string } = experiment.goal;
+  const range = dateRange(filters);
+
+  // Counted per visitor, the unit variants are assigned to: a visitor converts
+  // when the goal event happens, in any session, at or after their first exposure.
+  const rows = db
+    .prepare(
+      `SELECT exposed.variant AS variant, COUNT(*) AS visitors,
+         SUM(EXISTS (
+           SELECT 1 FROM events AS goal
+           WHERE goal.visitor_id = exposed.visitor_id AND goal.type = ? ${goal.target ? 'AND goal.target = ?' : ''}
+             AND goal.occurred_at >= exposed.first_seen
+         )) AS conversions
+       FROM (
+         SELECT visitor_id, variant, MIN(occurred_at) AS first_seen FROM events
+         WHERE ${["type = 'exposure'", 'target = ?', ...range.clauses].join(' AND ')}
+         GROUP BY visitor_id, variant
+       ) AS exposed
+       GROUP BY exposed.variant`
+    )
+    .all(goal.type, ...(goal.target ? [goal.target] : []), id, ...range.params) as VariantRow[];
+
+  const counts = experiment.variants.map(variant => {
+    const row = rows.find(candidate => candidate.variant === variant.id);
+    return { id: variant.id, visitors: row?.visitors ?? 0, conversions: row?.conversions ?? 0 };
+  });
+  const [control] = counts;
+
+  return {
+    id,
+    description: experiment.description,
+    status: experiment.status,
+    goal: experiment.goal.label,
+    variants: counts.map((variant, index) => ({
+      ...variant,
+      rate: variant.visitors ? variant.conversions / variant.visitors : 0,
+      ...(index > 0 ? { comparison: compareVariants(control, variant) } : {}),
+    })),
+  };
+}
+
+export function experimentReport(filters: RecordFilters): ExperimentReport {
+  return { experiments: EXPERIMENT_IDS.map(id => experimentResult(id, filters)) };
+}
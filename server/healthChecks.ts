@@ -0,0 +1,69 @@
+import { db } from './db.ts';
+import type { ChatModel } from './chatModels.ts';
+import type { CheckResult, SystemState } from '../src/lib/status.ts';
+
+/**
+ * One dependency the status endpoint reports on. `run` rejects (or times out)
+ * when the dependency is down; the check's `impact` says how bad that is for
+ * visitors. A check that succeeds but takes longer than `slowMs` reports degraded.
+ */
+export interface HealthCheck {
+  readonly id: string;
+  readonly label: string;
+  readonly impact: Exclude<SystemState, 'operational'>;
+  readonly slowMs: number;
+  run(signal: AbortSignal): Promise<void>;
+}
+
+export class DatabaseHealthCheck implements HealthCheck {
+  readonly id = 'database';
+  readonly label = 'Waitlist and enrollment database';
+  readonly impact = 'outage';
+  readonly slowMs = 250;
+
+  async run() {
+    db.prepare('SELECT 1').get();
+  }
+}
+
+export class ChatModelHealthCheck implements HealthCheck {
+  readonly id = 'chat';
+  readonly label = 'Ask Nura concierge';
+  // The site works without the concierge, so losing it only degrades it.
+  readonly impact = 'degraded';
+  readonly slowMs = 2000;
+
+  constructor(private readonly model: ChatModel) {}
+
+  run(signal: AbortSignal) {
+    return this.model.ping(signal);
+  }
+}
+
+const CHECK_TIMEOUT_MS = 5000;
+
+export async function runHealthCheck(check: HealthCheck): Promise<CheckResult> {
+  const controller = new AbortController();
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`timed out after ${CHECK_TIMEOUT_MS}ms`));
+    }, CHECK_TIMEOUT_MS);
+  });
+
+  let state: SystemState;
+  try {
+    await Promise.race([check.run(controller.signal), timeout]);
+    state = performance.now() - started > check.slowMs ? 'degraded' : 'operational';
+  } catch (error) {
+    // Details stay in the server log; the public report only says which check failed.
+    console.error(`Health check "${check.id}" failed:`, error instanceof Error ? error.message : error);
+    state = check.impact;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return { id: check.id, label: check.label, state, latencyMs: Math.round(performance.now() - started) };
+}
@@ -0,0 +1,112 @@
+import { db } from './db.ts';
+import { renderMail, type MailTemplate, type MailTemplates } from './mailTemplates.ts';
+import type { MailTransport } from './mailTransports.ts';
+
+/** Minutes to wait before each retry; once they run out the message is marked failed. */
+const RETRY_MINUTES = [1, 5, 30, 120, 720];
+const POLL_MS = 15_000;
+const BATCH_SIZE = 20;
+
+interface QueuedMail {
+  id: number;
+  recipient: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers: string;
+  attempts: number;
+}
+
+const insertMail = db.prepare<[string, string, string, string, string, string]>(
+  `INSERT INTO outbound_emails (template, recipient, subject, html, text, headers) VALUES (?, ?, ?, ?, ?, ?)`
+);
+const dueMail = db.prepare<[string, number], QueuedMail>(
+  `SELECT id, recipient, subject, html, text, headers, attempts FROM outbound_emails
+   WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?`
+);
+const markSent = db.prepare<[number]>(
+  `UPDATE outbound_emails SET status = 'sent', attempts = attempts + 1, last_error = NULL,
+     sent_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+   WHERE id = ?`
+);
+const markRetry = db.prepare<[string, string, number]>(
+  `UPDATE outbound_emails SET attempts = attempts + 1, next_attempt_at = ?, last_error = ? WHERE id = ?`
+);
+const markFailed = db.prepare<[string, number]>(
+  `UPDATE outbound_emails SET status = 'failed', attempts = attempts + 1, last_error = ? WHERE id = ?`
+);
+const lastQueued = db.prepare<[string, string], { createdAt: string }>(
+  `SELECT created_at AS createdAt FROM outbound_emails WHERE recipient = ? AND template = ? ORDER BY created_at DESC LIMIT 1`
+);
+
+/**
+ * Outgoing email goes through SQLite. `enqueue` renders and stores the message
+ * and returns at once; the worker sends whatever is due, retrying failures
+ * with backoff, so a mail-server outage or a restart delays mail instead of
+ * losing it.
+ */
+export class MailQueue {
+  private timer?: NodeJS.Timeout;
+  private flushing?: Promise<void>;
+
+  constructor(private readonly transport: MailTransport, private readonly pollMs = POLL_MS) {}
+
+  start() {
+    this.timer ??= setInterval(() => void this.flush(), this.pollMs);
+    this.timer.unref();
+    void this.flush();
+    return this;
+  }
+
+  /** Stops polling and waits for a send in progress, so shutting down doesn't cut a message off. */
+  async stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.flushing;
+  }
+
+  enqueue<K extends MailTemplate>(template: K, to: string, data: MailTemplates[K], headers: Record<string, string> = {}) {
+    const { subject, html, text } = renderMail(template, data);
+    insertMail.run(template, to, subject, html, text, JSON.stringify(headers));
+    void this.flush();
+  }
+
+  /** When `template` was last queued for `to`, so repeated form submits don't resend it every time. */
+  lastQueuedAt(template: MailTemplate, to: string) {
+    const row = lastQueued.get(to, template);
+    return row ? new Date(row.createdAt) : undefined;
+  }
+
+  flush() {
+    this.flushing ??= this.sendDue().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  private async sendDue() {
+    for (let batch = dueMail.all(new Date().toISOString(), BATCH_SIZE); batch.length; batch = dueMail.all(new Date().toISOString(), BATCH_SIZE)) {
+      for (const mail of batch) {
+        try {
+          await this.transport.send({
+            to: mail.recipient,
+            subject: mail.subject,
+            html: mail.html,
+            text: mail.text,
+            headers: JSON.parse(mail.headers),
+          });
+          markSent.run(mail.id);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const delay = RETRY_MINUTES[mail.attempts];
+          if (delay === undefined) {
+            markFailed.run(message, mail.id);
+            console.error(`[mail] Giving up on message ${mail.id} to ${mail.recipient}: ${message}`);
+          } else {
+            markRetry.run(new Date(Date.now() + delay * 60_000).toISOString(), message, mail.id);
+          }
+        }
+      }
+    }
+  }
+}
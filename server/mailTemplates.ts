@@ -0,0 +1,196 @@
+// Every email the site sends, each rendered to HTML and plain text from the
+// same copy. Templates only say what to write; `renderMail` lays it out in one
+// shared, table-based layout, since mail clients ignore stylesheets and most
+// of modern CSS. Copy is English-only, like the prerendered pages.
+
+import { SLOT_MINUTES } from '../src/lib/booking.ts';
+import { REFERRAL_BOOST } from '../src/lib/referrals.ts';
+
+export interface MailTemplates {
+  confirmSignup: { name: string; confirmUrl: string; validDays: number };
+  waitlistPosition: { name: string; position: number; previousPosition?: number; statusUrl: string; unsubscribeUrl: string };
+  enrollInvite: { name: string; tierName?: string; enrollUrl: string; unsubscribeUrl: string };
+  bookingConfirmation: {
+    name: string;
+    clinicianName: string;
+    clinicianTitle: string;
+    start: string;
+    /** The visitor's zone, which the time is written in. */
+    timeZone: string;
+    manageUrl: string;
+    inviteUrl: string;
+  };
+  privacyRequest: { requestUrl: string; validMinutes: number };
+}
+
+export type MailTemplate = keyof MailTemplates;
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface MailContent {
+  subject: string;
+  /** The line inboxes show after the subject. */
+  preheader: string;
+  heading: string;
+  paragraphs: string[];
+  /** Set large in the display face, e.g. a waitlist position. */
+  highlight?: string;
+  action?: { label: string; url: string };
+  footnote?: string;
+  unsubscribeUrl?: string;
+}
+
+// The brand tokens from src/index.css, spelled out because email can't read CSS variables.
+const BRAND = {
+  moss: '#2E4036',
+  cream: '#F2F0E9',
+  charcoal: '#1A1A1A',
+  muted: 'rgba(26, 26, 26, 0.6)',
+  rule: 'rgba(26, 26, 26, 0.1)',
+  sans: "'Plus Jakarta Sans', 'Helvetica Neue', Helvetica, Arial, sans-serif",
+  heading: "Outfit, 'Helvetica Neue', Helvetica, Arial, sans-serif",
+  drama: "'Cormorant Garamond', Georgia, 'Times New Roman', serif",
+  mono: "'IBM Plex Mono', Menlo, Consolas, monospace",
+};
+
+const firstName = (name: string) => name.trim().split(/\s+/)[0];
+
+function formatStart(start: string, timeZone: string) {
+  return new Intl.DateTimeFormat('en-US', {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit', timeZone, timeZoneName: 'short',
+  }).format(new Date(start));
+}
+
+const TEMPLATES: { [K in MailTemplate]: (data: MailTemplates[K]) => MailContent } = {
+  confirmSignup: ({ name, confirmUrl, validDays }) => ({
+    subject: 'Confirm your place on the Nura waitlist',
+    preheader: 'One click and your place is held.',
+    heading: `Almost there, ${firstName(name)}.`,
+    paragraphs: [
+      'Please confirm this is your email address. Your place on the waitlist is held once you do, and we\'ll write when a spot opens up.',
+    ],
+    action: { label: 'Confirm my email', url: confirmUrl },
+    footnote: `This link works for ${validDays} days. If you didn't sign up for Nura, ignore this email and you won't hear from us again.`,
+  }),
+
+  waitlistPosition: ({ name, position, previousPosition, statusUrl, unsubscribeUrl }) => ({
+    subject: previousPosition ? `You've moved up to #${position} on the Nura waitlist` : `You're #${position} on the Nura waitlist`,
+    preheader: position === 1 ? 'Nobody is ahead of you.' : `${position - 1} ${position === 2 ? 'person is' : 'people are'} ahead of you.`,
+    heading: previousPosition ? `Good news, ${firstName(name)}.` : `You're on the list, ${firstName(name)}.`,
+    paragraphs: previousPosition
+      ? [`You were #${previousPosition}. Members are joining from the front of the list, and you're getting closer.`]
+      : ['This is your current place on the waitlist. We\'ll let you know as it moves.'],
+    highlight: `#${position}`,
+    footnote: `Each friend who joins with your referral link and confirms their email moves you up ${REFERRAL_BOOST} places.`,
+    action: { label: 'See your referral link', url: statusUrl },
+    unsubscribeUrl,
+  }),
+
+  enrollInvite: ({ name, tierName, enrollUrl, unsubscribeUrl }) => ({
+    subject: 'Your Nura membership is ready',
+    preheader: 'A place in the membership is waiting for you.',
+    heading: `It's your turn, ${firstName(name)}.`,
+    paragraphs: [
+      tierName
+        ? `A spot has opened up and it's yours. You told us you were interested in ${tierName}; you can choose any tier when you enroll.`
+        : 'A spot has opened up and it\'s yours. You can choose your tier when you enroll.',
+      'Enrollment takes a couple of minutes.',
+    ],
+    action: { label: 'Enroll now', url: enrollUrl },
+    unsubscribeUrl,
+  }),
+
+  bookingConfirmation: ({ name, clinicianName, clinicianTitle, start, timeZone, manageUrl, inviteUrl }) => ({
+    subject: `Your consultation with ${clinicianName} is booked`,
+    preheader: formatStart(start, timeZone),
+    heading: `See you soon, ${firstName(name)}.`,
+    paragraphs: [
+      `Your free ${SLOT_MINUTES}-minute consultation with ${clinicianName} (${clinicianTitle}) is confirmed for ${formatStart(start, timeZone)}.`,
+      `Add it to your calendar with the invite: ${inviteUrl}`,
+    ],
+    action: { label: 'Reschedule or cancel', url: manageUrl },
+    footnote: 'Keep this email: its reschedule link is the only way to change your booking.',
+  }),
+
+  privacyRequest: ({ requestUrl, validMinutes }) => ({
+    subject: 'Your Nura privacy request',
+    preheader: 'Open the link to see, download or delete your data.',
+    heading: 'Your data, on request.',
+    paragraphs: [
+      'Someone asked to see the personal data Nura holds for this email address. The link below opens a page where you can download it or have it deleted.',
+    ],
+    action: { label: 'Open my privacy request', url: requestUrl },
+    footnote: `This link works for ${validMinutes} minutes. If you didn't ask for it, ignore this email; nothing changes until the link is used.`,
+  }),
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function toHtml(content: MailContent) {
+  const paragraph = (text: string) =>
+    `<p style="margin:0 0 16px;font-family:${BRAND.sans};font-size:16px;line-height:1.6;color:${BRAND.charcoal};">${escapeHtml(text)}</p>`;
+  const highlight = content.highlight
+    ? `<p style="margin:8px 0 24px;font-family:${BRAND.drama};font-style:italic;font-size:64px;line-height:1;color:${BRAND.moss};">${escapeHtml(content.highlight)}</p>`
+    : '';
+  const action = content.action
+    ? `<table role="presentation" cellpadding="0" cellspacing="0" style="margin:8px 0 24px;"><tr><td style="border-radius:999px;background:${BRAND.moss};">
+        <a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:14px 32px;font-family:${BRAND.sans};font-size:14px;font-weight:600;color:${BRAND.cream};text-decoration:none;">${escapeHtml(content.action.label)}</a>
+      </td></tr></table>`
+    : '';
+  const footnote = content.footnote
+    ? `<p style="margin:0;font-family:${BRAND.sans};font-size:13px;line-height:1.6;color:${BRAND.muted};">${escapeHtml(content.footnote)}</p>`
+    : '';
+  const unsubscribe = content.unsubscribeUrl
+    ? ` · <a href="${escapeHtml(content.unsubscribeUrl)}" style="color:${BRAND.muted};">Unsubscribe from waitlist emails</a>`
+    : '';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(content.subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:${BRAND.cream};">
+<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(content.preheader)}</div>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:${BRAND.cream};">
+  <tr><td align="center" style="padding:40px 16px;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;">
+      <tr><td style="padding:0 8px 24px;font-family:${BRAND.heading};font-size:22px;font-weight:700;letter-spacing:-0.02em;color:${BRAND.charcoal};">Nura Health</td></tr>
+      <tr><td style="padding:40px;border:1px solid ${BRAND.rule};border-radius:32px;">
+        <h1 style="margin:0 0 20px;font-family:${BRAND.heading};font-size:28px;font-weight:700;line-height:1.2;color:${BRAND.charcoal};">${escapeHtml(content.heading)}</h1>
+        ${content.paragraphs.map(paragraph).join('\n        ')}
+        ${highlight}${action}${footnote}
+      </td></tr>
+      <tr><td style="padding:24px 8px 0;font-family:${BRAND.mono};font-size:11px;letter-spacing:0.08em;text-transform:uppercase;color:${BRAND.muted};">
+        Nura Health · Precision longevity${unsubscribe}
+      </td></tr>
+    </table>
+  </td></tr>
+</table>
+</body>
+</html>
+`;
+}
+
+function toText(content: MailContent) {
+  return [
+    content.heading,
+    ...content.paragraphs,
+    content.highlight,
+    content.action && `${content.action.label}: ${content.action.url}`,
+    content.footnote,
+    '—\nNura Health · Precision longevity',
+    content.unsubscribeUrl && `Unsubscribe from waitlist emails: ${content.unsubscribeUrl}`,
+  ].filter(Boolean).join('\n\n') + '\n';
+}
+
+export function renderMail<K extends MailTemplate>(template: K, data: MailTemplates[K]): RenderedMail {
+  const content = TEMPLATES[template](data);
+  return { subject: content.subject, html: toHtml(content), text: toText(content) };
+}
@@ -0,0 +1,72 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * The seam between the mail queue and whatever delivers the message. `send`
+ * rejects when delivery fails; the queue retries later.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Nura Health <hello@nura.health>';
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(url: string, private readonly from = process.env.MAIL_FROM || DEFAULT_FROM) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Delivers nowhere: each message is written to the outbox directory as an
+ * .eml file (any mail client opens it) and announced on the console, so the
+ * whole flow, links included, can be followed without a mail service.
+ */
+export class LocalMailTransport implements MailTransport {
+  readonly name = 'local';
+  private readonly composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(
+    private readonly outbox = process.env.MAIL_OUTBOX_DIR ?? path.join(process.cwd(), 'data', 'outbox'),
+    private readonly from = process.env.MAIL_FROM || DEFAULT_FROM
+  ) {}
+
+  async send(message: MailMessage) {
+    const { message: raw } = await this.composer.sendMail({ from: this.from, ...message });
+    const file = path.join(this.outbox, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`);
+    await fs.mkdir(this.outbox, { recursive: true });
+    await fs.writeFile(file, raw as Buffer);
+    console.log(`[mail] "${message.subject}" to ${message.to} → ${path.relative(process.cwd(), file)}`);
+  }
+}
+
+export function createMailTransport(
+  name = process.env.MAIL_TRANSPORT || (process.env.SMTP_URL ? 'smtp' : 'local')
+): MailTransport {
+  switch (name) {
+    case 'smtp':
+      if (!process.env.SMTP_URL) throw new Error('MAIL_TRANSPORT "smtp" requires SMTP_URL');
+      return new SmtpMailTransport(process.env.SMTP_URL);
+    case 'local':
+      return new LocalMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+}
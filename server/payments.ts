@@ -0,0 +1,42 @@
+import { randomUUID } from 'crypto';
+
+export interface CheckoutRequest {
+  enrollmentId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  customerEmail: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+/**
+ * The seam between enrollments and whoever takes the money. A real provider
+ * creates a hosted checkout and later calls back to mark the enrollment paid;
+ * the mock does the same thing without leaving the machine.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+}
+
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  async createCheckout(_request: CheckoutRequest): Promise<CheckoutSession> {
+    const id = `mock_${randomUUID()}`;
+    return { id, url: `/api/payments/mock/${id}/complete` };
+  }
+}
+
+export function createPaymentProvider(name = process.env.PAYMENT_PROVIDER ?? 'mock'): PaymentProvider {
+  switch (name) {
+    case 'mock':
+      return new MockPaymentProvider();
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+}
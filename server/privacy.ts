@@ -0,0 +1,209 @@
+import { Router, type Response } from 'express';
+import { db } from './db.ts';
+import type { MailQueue } from './mailQueue.ts';
+import { rateLimit } from './rateLimit.ts';
+import { keyedHash, signToken, verifyToken } from './signedTokens.ts';
+import { SITE_ORIGIN } from './urls.ts';
+import {
+  PRIVACY_LINK_MINUTES,
+  PRIVACY_POLICY_VERSION,
+  UNCONFIRMED_SIGNUP_RETENTION_DAYS,
+  privacyRequestHref,
+  validatePrivacyRequest,
+  type DeletionResult,
+  type PrivacySummary,
+} from '../src/lib/privacy.ts';
+
+// Subject-rights requests. A visitor proves they own an address by opening a
+// link emailed to it, then can download or delete what's stored under it.
+// Each export, deletion and retention purge is written to privacy_audit_log
+// under a keyed hash of the address, never the address itself.
+
+/** Asking again within this window doesn't send another email. */
+const RESEND_REQUEST_MS = 5 * 60 * 1000;
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+type AuditAction = 'export' | 'delete' | 'retention-purge';
+
+const insertAudit = db.prepare<[AuditAction, string | null, string]>(
+  'INSERT INTO privacy_audit_log (action, subject_hash, details) VALUES (?, ?, ?)'
+);
+
+function audit(action: AuditAction, email: string | null, details: object) {
+  insertAudit.run(action, email && keyedHash('privacy-audit', email), JSON.stringify(details));
+}
+
+// Analytics events carry no email; they're linked through the session ids
+// stored on signups and bookings made while analytics was allowed.
+const SESSIONS_FOR_EMAIL = `SELECT analytics_session_id FROM waitlist WHERE email = @email AND analytics_session_id IS NOT NULL
+  UNION SELECT analytics_session_id FROM bookings WHERE email = @email AND analytics_session_id IS NOT NULL`;
+
+const selectWaitlist = db.prepare<{ email: string }, Record<string, unknown>>('SELECT * FROM waitlist WHERE email = @email');
+// The manage-link hash is a credential, not data about the visitor.
+const selectBookings = db.prepare<{ email: string }, Record<string, unknown>>(
+  `SELECT id, clinician_id, starts_at, ends_at, name, email, time_zone, notes, status, consent_version, consented_at,
+     analytics_session_id, created_at, updated_at
+   FROM bookings WHERE email = @email ORDER BY starts_at`
+);
+const selectEnrollments = db.prepare<{ email: string }, Record<string, unknown>>('SELECT * FROM enrollments WHERE email = @email');
+const selectEvents = db.prepare<{ email: string }, Record<string, unknown>>(
+  `SELECT * FROM events WHERE session_id IN (${SESSIONS_FOR_EMAIL}) ORDER BY occurred_at`
+);
+const selectEmails = db.prepare<{ email: string }, Record<string, unknown>>(
+  `SELECT template, recipient, subject, text, status, created_at, sent_at FROM outbound_emails WHERE recipient = @email ORDER BY created_at`
+);
+
+const countSummary = db.prepare<{ email: string }, Omit<PrivacySummary, 'email'>>(
+  `SELECT
+     (SELECT COUNT(*) FROM waitlist WHERE email = @email) AS waitlist,
+     (SELECT COUNT(*) FROM bookings WHERE email = @email) AS bookings,
+     (SELECT COUNT(*) FROM enrollments WHERE email = @email) AS enrollments,
+     (SELECT COUNT(*) FROM events WHERE session_id IN (${SESSIONS_FOR_EMAIL})) AS analyticsEvents,
+     (SELECT COUNT(*) FROM outbound_emails WHERE recipient = @email) AS emails`
+);
+
+const deleteEvents = db.prepare<{ email: string }>(`DELETE FROM events WHERE session_id IN (${SESSIONS_FOR_EMAIL})`);
+const detachReferrals = db.prepare<{ email: string }>(
+  'UPDATE waitlist SET referred_by = NULL WHERE referred_by IN (SELECT id FROM waitlist WHERE email = @email)'
+);
+const deleteWaitlist = db.prepare<{ email: string }>('DELETE FROM waitlist WHERE email = @email');
+const deleteBookings = db.prepare<{ email: string }>('DELETE FROM bookings WHERE email = @email');
+const deleteEmails = db.prepare<{ email: string }>('DELETE FROM outbound_emails WHERE recipient = @email');
+
+// The retention purge works on rows rather than addresses: an unconfirmed
+// signup goes, but a booking made with the same address stays.
+const STALE_SIGNUPS = 'SELECT id FROM waitlist WHERE confirmed_at IS NULL AND created_at < @cutoff';
+const purgeStaleEvents = db.prepare<{ cutoff: string }>(
+  `DELETE FROM events WHERE session_id IN (
+     SELECT analytics_session_id FROM waitlist WHERE id IN (${STALE_SIGNUPS}) AND analytics_session_id IS NOT NULL
+   )`
+);
+const purgeStaleEmails = db.prepare<{ cutoff: string }>(
+  `DELETE FROM outbound_emails WHERE template = 'confirmSignup'
+     AND recipient IN (SELECT email FROM waitlist WHERE id IN (${STALE_SIGNUPS}))`
+);
+const detachStaleReferrals = db.prepare<{ cutoff: string }>(
+  `UPDATE waitlist SET referred_by = NULL WHERE referred_by IN (${STALE_SIGNUPS})`
+);
+const purgeStaleWaitlist = db.prepare<{ cutoff: string }>(`DELETE FROM waitlist WHERE id IN (${STALE_SIGNUPS})`);
+
+export function privacySummary(email: string): PrivacySummary {
+  return { email, ...countSummary.get({ email })! };
+}
+
+export function exportPersonalData(email: string) {
+  const params = { email };
+  const data = {
+    email,
+    exportedAt: new Date().toISOString(),
+    currentPrivacyPolicyVersion: PRIVACY_POLICY_VERSION,
+    waitlist: selectWaitlist.all(params),
+    bookings: selectBookings.all(params),
+    enrollments: selectEnrollments.all(params),
+    analyticsEvents: selectEvents.all(params),
+    emails: selectEmails.all(params),
+  };
+  audit('export', email, { waitlist: data.waitlist.length, bookings: data.bookings.length, analyticsEvents: data.analyticsEvents.length });
+  return data;
+}
+
+/**
+ * Deletes everything stored under `email` except enrollments, which accounting
+ * rules require us to keep. Friends they referred stay on the list, unlinked.
+ */
+export function deletePersonalData(email: string): DeletionResult {
+  return db.transaction(() => {
+    const params = { email };
+    // Events first: they're found through the session ids on the rows deleted below.
+    const analyticsEvents = deleteEvents.run(params).changes;
+    detachReferrals.run(params);
+    const result: DeletionResult = {
+      waitlist: deleteWaitlist.run(params).changes,
+      bookings: deleteBookings.run(params).changes,
+      analyticsEvents,
+      emails: deleteEmails.run(params).changes,
+      enrollmentsRetained: countSummary.get(params)!.enrollments,
+    };
+    audit('delete', email, result);
+    return result;
+  })();
+}
+
+/** Deletes waitlist signups never confirmed within the retention window. Returns how many went. */
+export function purgeStaleSignups(now = Date.now()) {
+  return db.transaction(() => {
+    const params = { cutoff: new Date(now - UNCONFIRMED_SIGNUP_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString() };
+    const analyticsEvents = purgeStaleEvents.run(params).changes;
+    const emails = purgeStaleEmails.run(params).changes;
+    detachStaleReferrals.run(params);
+    const waitlist = purgeStaleWaitlist.run(params).changes;
+    if (waitlist > 0) audit('retention-purge', null, { waitlist, analyticsEvents, emails, cutoff: params.cutoff });
+    return waitlist;
+  })();
+}
+
+/** Runs the retention purge now and then daily. The timer doesn't keep the process alive. */
+export function startRetentionJob(intervalMs = RETENTION_INTERVAL_MS) {
+  const run = () => {
+    try {
+      const purged = purgeStaleSignups();
+      if (purged > 0) console.log(`[privacy] Purged ${purged} unconfirmed waitlist signup(s)`);
+    } catch (error) {
+      console.error('[privacy] Retention purge failed:', error);
+    }
+  };
+  run();
+  setInterval(run, intervalMs).unref();
+}
+
+export function createPrivacyRouter(mail: MailQueue) {
+  const router = Router();
+
+  /** The verified address behind the request link, or a 404 when it's expired or forged. */
+  const verifiedEmail = (token: unknown, res: Response) => {
+    const email = verifyToken('privacy-request', token);
+    if (!email) res.status(404).json({ error: "That link has expired or isn't valid. Request a new one." });
+    return email;
+  };
+
+  // Answers the same whether or not anything is stored, so the form can't be
+  // used to find out who is on the waitlist; only known addresses get an email.
+  router.post('/requests', rateLimit({ limit: 5, windowMs: 15 * 60 * 1000 }), (req, res) => {
+    const result = validatePrivacyRequest(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fieldErrors: result.errors });
+      return;
+    }
+    const { email } = result.value;
+    const summary = privacySummary(email);
+    const stored = summary.waitlist + summary.bookings + summary.enrollments > 0;
+    const lastSent = mail.lastQueuedAt('privacyRequest', email);
+    if (stored && (!lastSent || Date.now() - lastSent.getTime() > RESEND_REQUEST_MS)) {
+      const token = signToken('privacy-request', email, PRIVACY_LINK_MINUTES * 60 * 1000);
+      mail.enqueue('privacyRequest', email, {
+        requestUrl: `${SITE_ORIGIN}${privacyRequestHref(token)}`,
+        validMinutes: PRIVACY_LINK_MINUTES,
+      });
+    }
+    res.status(202).json({ requested: true });
+  });
+
+  router.get('/summary', (req, res) => {
+    const email = verifiedEmail(req.query.token, res);
+    if (email) res.json(privacySummary(email));
+  });
+
+  router.get('/export', (req, res) => {
+    const email = verifiedEmail(req.query.token, res);
+    if (!email) return;
+    res.attachment(`nura-data-${new Date().toISOString().slice(0, 10)}.json`);
+    res.type('application/json').send(JSON.stringify(exportPersonalData(email), null, 2));
+  });
+
+  router.post('/delete', (req, res) => {
+    const email = verifiedEmail(req.query.token, res);
+    if (email) res.json(deletePersonalData(email));
+  });
+
+  return router;
+}
@@ -0,0 +1,33 @@
+import type { RequestHandler } from 'express';
+
+/**
+ * Fixed-window limit per client address for one route. Counts live in memory,
+ * so they reset on restart and aren't shared between instances; that's enough
+ * to stop a script hammering a form. Addresses come from `req.ip`, which is
+ * only the visitor's when `trust proxy` matches the deployment (see server.ts).
+ */
+export function rateLimit({ limit, windowMs, message = 'Too many requests. Please wait a few minutes and try again.' }: {
+  limit: number;
+  windowMs: number;
+  message?: string;
+}): RequestHandler {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip ?? 'unknown';
+    const current = windows.get(key);
+    if (!current || current.resetAt <= now) {
+      if (windows.size > 10_000) windows.clear();
+      windows.set(key, { count: 1, resetAt: now + windowMs });
+      next();
+      return;
+    }
+    current.count += 1;
+    if (current.count > limit) {
+      res.set('Retry-After', String(Math.ceil((current.resetAt - now) / 1000)));
+      res.status(429).json({ error: message });
+      return;
+    }
+    next();
+  };
+}
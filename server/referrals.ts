@@ -0,0 +1,72 @@
+import { randomInt } from 'crypto';
+import { db } from './db.ts';
+import { normalizeReferralCode } from '../src/lib/referrals.ts';
+
+// The anti-abuse rules for referrals. A referral is credited when the signup
+// is made, and only counts toward position and rewards once the friend
+// confirms their email. Rejected codes fail silently, so the form can't be
+// used to probe which codes exist or which rule tripped.
+
+/** New signups accepted from one network (by hashed IP) in a day, referred or not. */
+export const SIGNUPS_PER_IP_PER_DAY = 5;
+/** Referrals one referrer can be credited with from the same network, so one person can't refer their own inboxes. */
+const REFERRALS_PER_IP = 2;
+
+// No 0/O or 1/I/L, so codes survive being read aloud or retyped.
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+interface Referrer {
+  id: number;
+  email: string;
+  ipHash: string | null;
+}
+
+const findReferrer = db.prepare<[string], Referrer>(
+  'SELECT id, email, ip_hash AS ipHash FROM waitlist WHERE own_referral_code = ?'
+);
+const recentSignups = db.prepare<[string, string], { count: number }>(
+  'SELECT COUNT(*) AS count FROM waitlist WHERE ip_hash = ? AND created_at >= ?'
+);
+const referralsFromIp = db.prepare<[number, string], { count: number }>(
+  'SELECT COUNT(*) AS count FROM waitlist WHERE referred_by = ? AND ip_hash = ?'
+);
+const countReferrals = db.prepare<[number], { referrals: number; pendingReferrals: number }>(
+  `SELECT COUNT(confirmed_at) AS referrals, COUNT(*) - COUNT(confirmed_at) AS pendingReferrals
+   FROM waitlist WHERE referred_by = ?`
+);
+
+export function generateReferralCode() {
+  return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+}
+
+/**
+ * One key per real inbox: drops `+tags`, and for Gmail the dots too, which
+ * the provider ignores. Stops someone referring ada+1@… from ada@….
+ */
+function mailboxKey(email: string) {
+  const [local, domain] = email.toLowerCase().split('@');
+  const gmail = domain === 'gmail.com' || domain === 'googlemail.com';
+  const base = local.split('+')[0];
+  return `${gmail ? base.replace(/\./g, '') : base}@${gmail ? 'gmail.com' : domain}`;
+}
+
+export function isOverSignupLimit(ipHash: string) {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  return recentSignups.get(ipHash, since)!.count >= SIGNUPS_PER_IP_PER_DAY;
+}
+
+/** The id of the lead whose code this signup may be credited to, if any rule allows it. */
+export function creditedReferrer(code: string | undefined, email: string, ipHash: string) {
+  if (!code) return undefined;
+  const referrer = findReferrer.get(normalizeReferralCode(code));
+  if (!referrer) return undefined;
+  if (mailboxKey(referrer.email) === mailboxKey(email)) return undefined;
+  if (referrer.ipHash === ipHash) return undefined;
+  if (referralsFromIp.get(referrer.id, ipHash)!.count >= REFERRALS_PER_IP) return undefined;
+  return referrer.id;
+}
+
+export function referralCounts(id: number) {
+  return countReferrals.get(id)!;
+}
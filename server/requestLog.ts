@@ -0,0 +1,18 @@
+import type { RequestHandler } from 'express';
+
+/**
+ * Logs one line per request once its connection is done with it: method, path,
+ * status and duration, with "aborted" when the client left first (streams end
+ * that way). Query strings are left out because emailed links carry tokens there.
+ */
+export function logRequests(): RequestHandler {
+  return (req, res, next) => {
+    const started = process.hrtime.bigint();
+    const url = req.originalUrl.split('?')[0];
+    res.on('close', () => {
+      const ms = Number(process.hrtime.bigint() - started) / 1e6;
+      console.log(`[http] ${req.method} ${url} ${res.statusCode} ${ms.toFixed(1)}ms${res.writableFinished ? '' : ' aborted'}`);
+    });
+    next();
+  };
+}
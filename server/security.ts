@@ -0,0 +1,54 @@
+import type { RequestHandler } from 'express';
+
+// Response headers for every request. The Content-Security-Policy is only sent
+// in production: the Vite dev server injects inline scripts for hot reload.
+
+/**
+ * Scripts and stylesheets come only from our own origin. Two exceptions:
+ * - Inline `style` attributes are allowed. GSAP animates through them, and so
+ *   do React `style` props such as the blurred photo placeholder, which is
+ *   also why images allow `data:` URLs.
+ * - The JSON-LD block in prerendered pages needs nothing. It is a data block
+ *   (`type="application/ld+json"`), which browsers never execute.
+ *
+ * There are no inline `<style>` elements; the component styles are all in the
+ * built stylesheet. Browsers that don't understand the `-elem` and `-attr`
+ * directives fall back to `style-src`. A consented third-party script
+ * (src/lib/consent.ts) needs its origin added to `script-src` and
+ * `connect-src`.
+ */
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'self'",
+  "script-src 'self'",
+  "style-src 'self' 'unsafe-inline'",
+  "style-src-elem 'self'",
+  "style-src-attr 'unsafe-inline'",
+  "img-src 'self' data:",
+  "font-src 'self'",
+  "connect-src 'self'",
+  "object-src 'none'",
+  "base-uri 'self'",
+  "form-action 'self'",
+  "frame-ancestors 'none'",
+  'upgrade-insecure-requests',
+].join('; ');
+
+export function securityHeaders({ production }: { production: boolean }): RequestHandler {
+  const headers: Record<string, string> = {
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+    'Permissions-Policy': 'camera=(), microphone=(), geolocation=(), payment=()',
+    'Cross-Origin-Opener-Policy': 'same-origin',
+    'Cross-Origin-Resource-Policy': 'same-origin',
+  };
+  if (production) {
+    headers['Content-Security-Policy'] = CONTENT_SECURITY_POLICY;
+    // Browsers ignore HSTS over plain HTTP, so this only takes effect behind TLS.
+    headers['Strict-Transport-Security'] = 'max-age=63072000; includeSubDomains';
+  }
+  return (_req, res, next) => {
+    res.set(headers);
+    next();
+  };
+}
@@ -0,0 +1,63 @@
+// Stateless tokens for links in emails. Each one names what it's for, whom it
+// concerns and when it expires, signed with MAIL_SECRET so it can't be forged
+// or reused for another purpose. Nothing is stored, so there's nothing to purge.
+// The same secret keys the hashes of values that are stored only to be matched.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type TokenPurpose = 'confirm-signup' | 'unsubscribe' | 'waitlist-status' | 'privacy-request';
+
+interface TokenPayload {
+  purpose: TokenPurpose;
+  subject: string;
+  /** Epoch ms; absent for tokens that never expire, like unsubscribe and status links. */
+  expires?: number;
+}
+
+function mailSecret() {
+  const secret = process.env.MAIL_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') throw new Error('MAIL_SECRET must be set in production');
+  // A fixed development secret keeps emailed links working across dev-server restarts.
+  return 'nura-development-mail-secret';
+}
+
+const SECRET = mailSecret();
+
+const sign = (payload: string) => createHmac('sha256', SECRET).update(payload).digest();
+
+/**
+ * A keyed hash for values that are stored only so later requests can be
+ * matched against them, like client addresses. A plain SHA-256 of an IPv4
+ * address is reversed by hashing all four billion of them; this isn't
+ * without the secret. `purpose` keeps the hashes of different fields apart.
+ */
+export function keyedHash(purpose: string, value: string) {
+  return createHmac('sha256', SECRET).update(`${purpose}:${value}`).digest('hex');
+}
+
+export function signToken(purpose: TokenPurpose, subject: string, ttlMs?: number) {
+  const payload: TokenPayload = { purpose, subject, ...(ttlMs ? { expires: Date.now() + ttlMs } : {}) };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded).toString('base64url')}`;
+}
+
+/** The token's subject, or undefined when it's tampered with, expired or meant for something else. */
+export function verifyToken(purpose: TokenPurpose, token: unknown) {
+  if (typeof token !== 'string') return undefined;
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length) return undefined;
+
+  const expected = sign(encoded);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as TokenPayload;
+    if (payload.purpose !== purpose || typeof payload.subject !== 'string') return undefined;
+    if (payload.expires !== undefined && payload.expires <= Date.now()) return undefined;
+    return payload.subject;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,65 @@
+import express, { Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+
+// Serves the production build in dist/. Vite puts every bundled file under
+// assets/ with a content hash in its name, so those can be cached forever.
+// Pages are revalidated on each visit so a deploy shows up at once, and so is
+// the service worker, whose bytes are how browsers notice a deploy.
+
+const IMMUTABLE = 'public, max-age=31536000, immutable';
+const REVALIDATE = 'no-cache';
+/** robots.txt, sitemap.xml and anything else copied as-is: not hashed, rarely changed. */
+const UNHASHED = 'public, max-age=3600';
+const SERVICE_WORKER = 'sw.js';
+
+/** Maps each prerendered page's URL path to its file: `/` to index.html, `/privacy/requests` to privacy/requests.html. */
+function prerenderedPages(distPath: string) {
+  const pages = new Map<string, string>();
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'assets') visit(file);
+      } else if (entry.name.endsWith('.html')) {
+        const route = `/${path.relative(distPath, file).split(path.sep).join('/').replace(/\.html$/, '')}`;
+        pages.set(route === '/index' ? '/' : route, file);
+      }
+    }
+  };
+  visit(distPath);
+  return pages;
+}
+
+export function createSiteRouter(distPath: string) {
+  if (!fs.existsSync(path.join(distPath, 'index.html'))) {
+    throw new Error(`No build found in ${distPath}. Run \`npm run build\` first.`);
+  }
+  const router = Router();
+  const pages = prerenderedPages(distPath);
+  const fallback = pages.get('/')!;
+
+  router.use(express.static(distPath, {
+    index: false,
+    // /privacy is a page and privacy/ a directory; pages are matched below, not redirected.
+    redirect: false,
+    setHeaders: (res, file) => {
+      const relative = path.relative(distPath, file);
+      res.setHeader('Cache-Control', relative.startsWith(`assets${path.sep}`) ? IMMUTABLE : file.endsWith('.html') || relative === SERVICE_WORKER ? REVALIDATE : UNHASHED);
+    },
+  }));
+
+  router.get('*', (req, res, next) => {
+    const page = pages.get(req.path.replace(/(.)\/+$/, '$1'));
+    // A missing /assets/app-1a2b.js after a deploy must 404, not come back as HTML.
+    if (!page && path.extname(req.path)) {
+      next();
+      return;
+    }
+    // Routes without a prerendered page (/admin, /waitlist) render in the browser.
+    res.setHeader('Cache-Control', REVALIDATE);
+    res.sendFile(page ?? fallback);
+  });
+
+  return router;
+}
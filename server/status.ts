@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { db } from './db.ts';
+import { runHealthCheck, type HealthCheck } from './healthChecks.ts';
+import {
+  INCIDENT_HISTORY_DAYS,
+  worstState,
+  type CheckResult,
+  type Incident,
+  type IncidentInput,
+  type IncidentUpdate,
+  type IncidentUpdateInput,
+  type StatusReport,
+} from '../src/lib/status.ts';
+
+const INCIDENT_COLUMNS = `id, title, impact, status, created_at AS createdAt, resolved_at AS resolvedAt`;
+
+const insertIncident = db.prepare<[string, string, string]>(
+  `INSERT INTO incidents (title, impact, status) VALUES (?, ?, ?)`
+);
+const insertUpdate = db.prepare<[number, string, string]>(
+  `INSERT INTO incident_updates (incident_id, status, message) VALUES (?, ?, ?)`
+);
+const updateIncident = db.prepare<[string, string, string, number]>(
+  `UPDATE incidents SET status = ?, impact = ?,
+     resolved_at = CASE WHEN ? = 'resolved' THEN COALESCE(resolved_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) ELSE NULL END
+   WHERE id = ?`
+);
+const findIncident = db.prepare<[number], Omit<Incident, 'updates'>>(`SELECT ${INCIDENT_COLUMNS} FROM incidents WHERE id = ?`);
+const recentIncidents = db.prepare<[string], Omit<Incident, 'updates'>>(
+  `SELECT ${INCIDENT_COLUMNS} FROM incidents
+   WHERE resolved_at IS NULL OR resolved_at >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?)
+   ORDER BY created_at DESC`
+);
+const latestIncidents = db.prepare<[number], Omit<Incident, 'updates'>>(
+  `SELECT ${INCIDENT_COLUMNS} FROM incidents ORDER BY created_at DESC LIMIT ?`
+);
+const findUpdates = db.prepare<[number], IncidentUpdate>(
+  `SELECT status, message, created_at AS createdAt FROM incident_updates WHERE incident_id = ? ORDER BY created_at DESC, id DESC`
+);
+
+function withUpdates(incident: Omit<Incident, 'updates'>): Incident {
+  return { ...incident, updates: findUpdates.all(incident.id) };
+}
+
+export function getIncident(id: number): Incident | undefined {
+  const incident = findIncident.get(id);
+  return incident && withUpdates(incident);
+}
+
+export function listIncidents(limit = 50) {
+  return latestIncidents.all(limit).map(withUpdates);
+}
+
+export function createIncident({ title, impact, status, message }: IncidentInput) {
+  const id = db.transaction(() => {
+    const { lastInsertRowid } = insertIncident.run(title, impact, status);
+    insertUpdate.run(Number(lastInsertRowid), status, message);
+    updateIncident.run(status, impact, status, Number(lastInsertRowid));
+    return Number(lastInsertRowid);
+  })();
+  return getIncident(id)!;
+}
+
+/** Appends an update and moves the incident to its status; returns `undefined` for an unknown id. */
+export function addIncidentUpdate(id: number, { status, message, impact }: IncidentUpdateInput) {
+  const incident = findIncident.get(id);
+  if (!incident) return undefined;
+  db.transaction(() => {
+    insertUpdate.run(id, status, message);
+    updateIncident.run(status, impact ?? incident.impact, status, id);
+  })();
+  return getIncident(id);
+}
+
+// Checks can call paid upstream APIs, so every visitor polling the footer pill
+// shares one run per interval instead of triggering their own.
+const CHECK_CACHE_MS = 30_000;
+
+export function createStatusRouter(checks: HealthCheck[]) {
+  const router = Router();
+  let cached: { at: number; results: Promise<CheckResult[]> } | undefined;
+
+  const runChecks = () => {
+    if (!cached || Date.now() - cached.at > CHECK_CACHE_MS) {
+      cached = { at: Date.now(), results: Promise.all(checks.map(runHealthCheck)) };
+    }
+    return cached;
+  };
+
+  router.get('/', async (_req, res, next) => {
+    try {
+      const run = runChecks();
+      const results = await run.results;
+      let incidents: Incident[] = [];
+      try {
+        incidents = recentIncidents.all(`-${INCIDENT_HISTORY_DAYS} days`).map(withUpdates);
+      } catch (error) {
+        // The database check already reports this; still answer with the check results.
+        console.error('Could not load incidents:', error);
+      }
+      const open = incidents.filter(incident => incident.status !== 'resolved');
+      const body: StatusReport = {
+        state: worstState([...results.map(check => check.state), ...open.map(incident => incident.impact)]),
+        checkedAt: new Date(run.at).toISOString(),
+        checks: results,
+        incidents,
+      };
+      res.set('Cache-Control', 'no-cache').json(body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
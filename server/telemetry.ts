@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { TELEMETRY_EVENTS, telemetryScenario } from '../src/lib/telemetry.ts';
+
+const RETRY_MS = 3000;
+const HEARTBEAT_MS = 15_000;
+
+/** Resolves after `ms`, or early on abort. The stream sleeps forever, so each wake-up removes its abort listener. */
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const wake = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    signal.addEventListener('abort', wake, { once: true });
+  });
+
+export function createTelemetryRouter() {
+  const router = Router();
+
+  // Replays a scenario forever as server-sent events. Reconnecting clients send
+  // Last-Event-ID and pick up at the following line instead of starting over.
+  router.get('/', async (req, res) => {
+    const scenario = telemetryScenario(typeof req.query.scenario === 'string' ? req.query.scenario : undefined);
+    // Browsers send the header on automatic reconnects; the query parameter covers a fresh EventSource resuming a feed.
+    const lastId = Number(req.get('Last-Event-ID') ?? req.query.lastEventId);
+    // Resuming after the last line lands on the end of the loop, so it still gets the pause and the reset.
+    let index = Number.isInteger(lastId) && lastId >= 0 && lastId < scenario.lines.length ? lastId + 1 : 0;
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const controller = new AbortController();
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      controller.abort();
+    });
+
+    while (!controller.signal.aborted) {
+      if (index === scenario.lines.length) {
+        await sleep(scenario.loopDelayMs, controller.signal);
+        if (controller.signal.aborted) break;
+        res.write(`event: ${TELEMETRY_EVENTS.reset}\ndata: ""\n\n`);
+        index = 0;
+      }
+
+      const line = scenario.lines[index];
+      await sleep(line.delayMs, controller.signal);
+      if (controller.signal.aborted) break;
+      res.write(`event: ${TELEMETRY_EVENTS.line}\nid: ${index}\ndata: ${JSON.stringify(line.text)}\n\n`);
+
+      index++;
+    }
+    res.end();
+  });
+
+  return router;
+}
@@ -0,0 +1,18 @@
+/**
+ * Base for absolute links that leave the site (emails, calendar invites),
+ * from APP_URL. Never the request's Host header: anyone can send a forged one,
+ * and a signed link built from it would mail the victim a token for the
+ * attacker's server. Required in production, like MAIL_SECRET.
+ */
+function appOrigin() {
+  try {
+    const url = new URL(process.env.APP_URL ?? '');
+    if (url.protocol === 'http:' || url.protocol === 'https:') return url.origin + url.pathname.replace(/\/+$/, '');
+  } catch {
+    // Handled below.
+  }
+  if (process.env.NODE_ENV === 'production') throw new Error('APP_URL must be set to an http(s) URL in production');
+  return `http://localhost:${process.env.PORT ?? 3000}`;
+}
+
+export const SITE_ORIGIN = appOrigin();
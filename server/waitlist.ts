@@ -0,0 +1,273 @@
+import { Router } from 'express';
+import { db } from './db.ts';
+import type { MailQueue } from './mailQueue.ts';
+import { rateLimit } from './rateLimit.ts';
+import { creditedReferrer, generateReferralCode, isOverSignupLimit, referralCounts } from './referrals.ts';
+import { keyedHash, signToken, verifyToken, type TokenPurpose } from './signedTokens.ts';
+import { SITE_ORIGIN } from './urls.ts';
+import { scoreAssessment } from '../src/lib/assessment.ts';
+import { REFERRAL_BOOST, normalizeReferralCode, waitlistStatusHref, type ReferralStatus } from '../src/lib/referrals.ts';
+import { TIER_INTEREST_LABELS, validateWaitlistInput, type TierInterest, type WaitlistResponse } from '../src/lib/waitlist.ts';
+
+/** Confirmation links expire after this; signing up again sends a fresh one. */
+const CONFIRM_LINK_DAYS = 7;
+/** Signing up again with the same address resends its email at most this often. */
+const RESEND_MS = 15 * 60 * 1000;
+
+interface Lead {
+  id: number;
+  name: string;
+  email: string;
+  tier: TierInterest;
+  status: string;
+  confirmedAt: string | null;
+  unsubscribedAt: string | null;
+  referralCode: string;
+}
+
+const LEAD_COLUMNS =
+  'id, name, email, tier, status, confirmed_at AS confirmedAt, unsubscribed_at AS unsubscribedAt, own_referral_code AS referralCode';
+
+// Position is join order, less REFERRAL_BOOST places per confirmed referral;
+// ties go to whoever joined first.
+const RANKING = `ranking AS (
+  SELECT id, ROW_NUMBER() OVER (ORDER BY score, id) AS position FROM (
+    SELECT w.id, ROW_NUMBER() OVER (ORDER BY w.id) - ${REFERRAL_BOOST} * COALESCE(credited.referrals, 0) AS score
+    FROM waitlist w
+    LEFT JOIN (
+      SELECT referred_by, COUNT(*) AS referrals FROM waitlist
+      WHERE referred_by IS NOT NULL AND confirmed_at IS NOT NULL GROUP BY referred_by
+    ) credited ON credited.referred_by = w.id
+  )
+)`;
+
+const findByEmail = db.prepare<[string], Lead>(`SELECT ${LEAD_COLUMNS} FROM waitlist WHERE email = ?`);
+const findById = db.prepare<[number], Lead>(`SELECT ${LEAD_COLUMNS} FROM waitlist WHERE id = ?`);
+type SignupValues = [
+  name: string,
+  email: string,
+  tier: string,
+  referralCode: string | null,
+  assessment: string | null,
+  estimatedAge: number | null,
+  consentVersion: string,
+  analyticsSessionId: string | null,
+];
+
+const insertSignup = db.prepare<[...SignupValues, string, number | null, string]>(
+  `INSERT INTO waitlist (name, email, tier, referral_code, assessment_answers, estimated_age, consent_version, analytics_session_id,
+     consented_at, own_referral_code, referred_by, ip_hash)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), ?, ?, ?)`
+);
+const findPosition = db.prepare<[number], { position: number }>(
+  `WITH ${RANKING} SELECT position FROM ranking WHERE id = ?`
+);
+const markConfirmed = db.prepare<[number, number]>(
+  `UPDATE waitlist SET confirmed_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), notified_position = ?
+   WHERE id = ? AND confirmed_at IS NULL`
+);
+const markUnsubscribed = db.prepare<[number]>(
+  `UPDATE waitlist SET unsubscribed_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ? AND unsubscribed_at IS NULL`
+);
+const setNotifiedPosition = db.prepare<[number, number]>('UPDATE waitlist SET notified_position = ? WHERE id = ?');
+const movedUp = db.prepare<[], Lead & { position: number; notifiedPosition: number | null }>(
+  `WITH ${RANKING}
+   SELECT * FROM (
+     SELECT ${LEAD_COLUMNS}, notified_position AS notifiedPosition, position FROM waitlist JOIN ranking USING (id)
+   )
+   WHERE confirmedAt IS NOT NULL AND unsubscribedAt IS NULL AND status != 'invited'
+     AND (notifiedPosition IS NULL OR position < notifiedPosition)`
+);
+
+export function waitlistPosition(id: number) {
+  return findPosition.get(id)!.position;
+}
+
+/** Inserts the signup with a fresh referral code, drawing again on the rare collision. */
+function insertLead(
+  values: SignupValues,
+  referredBy: number | undefined,
+  ipHash: string
+) {
+  for (;;) {
+    try {
+      return Number(insertSignup.run(...values, generateReferralCode(), referredBy ?? null, ipHash).lastInsertRowid);
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('own_referral_code'))) throw error;
+    }
+  }
+}
+
+function leadFromToken(purpose: TokenPurpose, token: unknown) {
+  const id = Number(verifyToken(purpose, token));
+  return Number.isInteger(id) ? findById.get(id) : undefined;
+}
+
+const canEmail = (lead: Lead) => !!lead.confirmedAt && !lead.unsubscribedAt;
+
+/** Waitlist updates carry an unsubscribe link, plus the headers for mail clients' one-click unsubscribe. */
+function unsubscribeLink(origin: string, lead: Lead) {
+  const url = `${origin}/api/waitlist/unsubscribe?token=${signToken('unsubscribe', String(lead.id))}`;
+  return { url, headers: { 'List-Unsubscribe': `<${url}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' } };
+}
+
+function sendConfirmation(mail: MailQueue, origin: string, lead: Lead) {
+  const token = signToken('confirm-signup', String(lead.id), CONFIRM_LINK_DAYS * 24 * 60 * 60 * 1000);
+  mail.enqueue('confirmSignup', lead.email, {
+    name: lead.name,
+    confirmUrl: `${origin}/api/waitlist/confirm?token=${token}`,
+    validDays: CONFIRM_LINK_DAYS,
+  });
+}
+
+/** The status page link never expires; it's the lead's way back to their position and referral link. */
+const statusToken = (lead: Pick<Lead, 'id'>) => signToken('waitlist-status', String(lead.id));
+
+function sendPosition(mail: MailQueue, origin: string, lead: Lead, position: number, previousPosition?: number) {
+  const unsubscribe = unsubscribeLink(origin, lead);
+  mail.enqueue('waitlistPosition', lead.email, {
+    name: lead.name,
+    position,
+    previousPosition,
+    statusUrl: `${origin}${waitlistStatusHref(statusToken(lead))}`,
+    unsubscribeUrl: unsubscribe.url,
+  }, unsubscribe.headers);
+}
+
+/**
+ * Answers a repeat signup by email: the confirmation link again if it hasn't
+ * been clicked, otherwise the lead's position.
+ */
+function resendStatus(mail: MailQueue, lead: Lead) {
+  const template = lead.confirmedAt ? 'waitlistPosition' : 'confirmSignup';
+  const lastSent = mail.lastQueuedAt(template, lead.email);
+  if (lastSent && Date.now() - lastSent.getTime() <= RESEND_MS) return;
+  if (!lead.confirmedAt) {
+    sendConfirmation(mail, SITE_ORIGIN, lead);
+  } else if (!lead.unsubscribedAt) {
+    const position = waitlistPosition(lead.id);
+    sendPosition(mail, SITE_ORIGIN, lead, position);
+    setNotifiedPosition.run(position, lead.id);
+  }
+}
+
+/** Emails a confirmed, subscribed lead their invitation to enroll. Returns whether one was queued. */
+export function sendEnrollInvite(mail: MailQueue, origin: string, id: number) {
+  const lead = findById.get(id);
+  if (!lead || !canEmail(lead)) return false;
+  const unsubscribe = unsubscribeLink(origin, lead);
+  mail.enqueue('enrollInvite', lead.email, {
+    name: lead.name,
+    tierName: lead.tier === 'undecided' ? undefined : TIER_INTEREST_LABELS[lead.tier],
+    enrollUrl: `${origin}/#membership`,
+    unsubscribeUrl: unsubscribe.url,
+  }, unsubscribe.headers);
+  return true;
+}
+
+/** Tells every confirmed lead who has moved up since their last email where they stand now. */
+export function sendPositionUpdates(mail: MailQueue, origin: string) {
+  return db.transaction(() => {
+    const leads = movedUp.all();
+    for (const lead of leads) {
+      sendPosition(mail, origin, lead, lead.position, lead.notifiedPosition ?? undefined);
+      setNotifiedPosition.run(lead.position, lead.id);
+    }
+    return leads.length;
+  })();
+}
+
+export function createWaitlistRouter(mail: MailQueue) {
+  const router = Router();
+
+  // The daily per-network cap counts new signups; this also covers repeat submits.
+  router.post('/', rateLimit({ limit: 10, windowMs: 10 * 60 * 1000 }), (req, res) => {
+    const result = validateWaitlistInput(req.body);
+    if ('errors' in result) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fieldErrors: result.errors });
+      return;
+    }
+
+    const { name, email, tier, referralCode, assessment, consentVersion, analyticsSessionId } = result.value;
+    // Checked before the address is looked up, so a network over the limit
+    // gets the same answer whether or not the address has joined.
+    const ipHash = keyedHash('signup-ip', req.ip ?? 'unknown');
+    if (isOverSignupLimit(ipHash)) {
+      res.status(429).json({ error: 'Too many signups from your network today. Please try again tomorrow.' });
+      return;
+    }
+
+    // New and repeat signups get the same answer; only the email differs.
+    const body: WaitlistResponse = { received: true };
+    const existing = findByEmail.get(email);
+    if (existing) {
+      resendStatus(mail, existing);
+      res.status(202).json(body);
+      return;
+    }
+
+    // Re-score on the server so the stored estimate always matches the stored answers.
+    const estimatedAge = assessment ? scoreAssessment(assessment).estimatedAge : null;
+    const id = insertLead(
+      [
+        name, email, tier, referralCode ? normalizeReferralCode(referralCode) : null,
+        assessment ? JSON.stringify(assessment) : null, estimatedAge, consentVersion, analyticsSessionId ?? null,
+      ],
+      creditedReferrer(referralCode, email, ipHash),
+      ipHash
+    );
+    sendConfirmation(mail, SITE_ORIGIN, findById.get(id)!);
+    res.status(202).json(body);
+  });
+
+  // The personal status page: position, referral link and progress toward the rewards.
+  router.get('/status', (req, res) => {
+    const lead = leadFromToken('waitlist-status', req.query.token);
+    if (!lead) {
+      res.status(404).json({ error: "We couldn't find that waitlist link. Check the latest email from us." });
+      return;
+    }
+    const body: ReferralStatus = {
+      name: lead.name,
+      position: waitlistPosition(lead.id),
+      confirmed: !!lead.confirmedAt,
+      referralCode: lead.referralCode,
+      ...referralCounts(lead.id),
+    };
+    res.json(body);
+  });
+
+  // The link in the confirmation email. Confirming twice is harmless.
+  router.get('/confirm', (req, res) => {
+    const lead = leadFromToken('confirm-signup', req.query.token);
+    if (!lead) {
+      res.redirect('/?waitlist=link-expired#membership');
+      return;
+    }
+    if (!lead.confirmedAt) {
+      const position = waitlistPosition(lead.id);
+      markConfirmed.run(position, lead.id);
+      if (!lead.unsubscribedAt) sendPosition(mail, SITE_ORIGIN, lead, position);
+    }
+    res.redirect('/?waitlist=confirmed#membership');
+  });
+
+  // GET is the link in the email footer; POST is a mail client's one-click unsubscribe (RFC 8058).
+  router.get('/unsubscribe', (req, res) => {
+    const lead = leadFromToken('unsubscribe', req.query.token);
+    if (lead) markUnsubscribed.run(lead.id);
+    res.redirect(lead ? '/?waitlist=unsubscribed#membership' : '/?waitlist=link-expired#membership');
+  });
+
+  router.post('/unsubscribe', (req, res) => {
+    const lead = leadFromToken('unsubscribe', req.query.token);
+    if (!lead) {
+      res.status(404).json({ error: 'Unknown unsubscribe link.' });
+      return;
+    }
+    markUnsubscribed.run(lead.id);
+    res.json({ unsubscribed: true });
+  });
+
+  return router;
+}
@@ -1,21 +1,61 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
-import { ArrowRight, Activity, Dna, Droplet, MousePointer2 } from 'lucide-react';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
+import { ArrowRight, Activity, Dna, Droplet, Flame, Globe, HeartPulse, Menu, Sun, Upload, Zap } from 'lucide-react';
+import heroImage from './assets/images/hero.jpg?responsive';
+import philosophyImage from './assets/images/philosophy.jpg?responsive';
+import { AnalyticsProvider, useAnalytics, useSectionImpression } from './components/Analytics.tsx';
+import { Assessment } from './components/Assessment.tsx';
+import { Chat } from './components/Chat.tsx';
+import { ConsentProvider, useConsent } from './components/Consent.tsx';
+import { ConsultationPage, ConsultationPreview } from './components/Consultation.tsx';
+import { EnrollmentDialog } from './components/Enrollment.tsx';
+import { useVariant } from './components/Experiments.tsx';
+import { LegalPage } from './components/LegalPage.tsx';
+import { Link } from './components/Link.tsx';
+import { MobileNav } from './components/MobileNav.tsx';
+import { Loop, MotionProvider, MotionToggle, useLoopActive, useMotion } from './components/Motion.tsx';
+import { OfflinePage, ServiceWorkerNotices } from './components/Offline.tsx';
+import { PrivacyRequestsPage } from './components/Privacy.tsx';
+import { ProtocolBuilderPage } from './components/ProtocolBuilder.tsx';
+import { WaitlistStatusPage } from './components/Referrals.tsx';
+import { StatusPage, StatusPill } from './components/Status.tsx';
+import { useTelemetryFeed } from './components/TelemetryFeed.tsx';
+import { ThemeToggle } from './components/Theme.tsx';
+import { Badge, Button, Card, Picture, Section, type BadgeTone } from './components/ui/index.ts';
+import { WaitlistProvider, useWaitlist } from './components/Waitlist.tsx';
+import { BIOMARKER_SAMPLES, type FeatureId, type ProtocolVisual } from './content/schema.ts';
+import { I18nProvider, useI18n } from './i18n/I18nProvider.tsx';
+import { LOCALES, LOCALE_INFO, type Locale } from './i18n/locales.ts';
+import type { MessageKey } from './i18n/messages/index.ts';
+import { formatRange, type BiomarkerCategory, type BiomarkerStatus } from './lib/biomarkers.ts';
+import { CONSULTATION_PATH } from './lib/booking.ts';
+import { LAB_FILE_ACCEPT, LabReportError, readLabFile, type LabReportErrorCode, type LabResult } from './lib/labReports.ts';
+import { legalPageForPath } from './lib/legal.ts';
+import {
+  BILLING_PERIODS,
+  MEMBERSHIP_TIERS,
+  annualDiscountPercent,
+  type BillingPeriod,
+  type MembershipTier,
+} from './lib/membership.ts';
+import { OFFLINE_PATH } from './lib/offline.ts';
+import { PRIVACY_REQUESTS_PATH } from './lib/privacy.ts';
+import { PROTOCOL_BUILDER_PATH } from './lib/protocols.ts';
+import { WAITLIST_STATUS_PATH } from './lib/referrals.ts';
+import { usePathname, useSearchParam } from './lib/router.ts';
+import { NAV_SECTIONS, sectionHref, useActiveSection } from './lib/sections.ts';
+import { offlineFallbackPath } from './lib/serviceWorker.ts';
+import { STATUS_PATH } from './lib/status.ts';
+import { cn } from './lib/utils.ts';
 
 gsap.registerPlugin(ScrollTrigger);
 
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
 // --- Components ---
 
 function NoiseOverlay() {
   return (
-    <svg className="noise-overlay">
+    <svg className="noise-overlay print:hidden">
       <filter id="noise">
         <feTurbulence type="fractalNoise" baseFrequency="0.8" numOctaves="3" stitchTiles="stitch" />
       </filter>
@@ -24,29 +64,45 @@ function NoiseOverlay() {
   );
 }
 
-function Button({ children, className, variant = 'primary', ...props }: React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'outline' }) {
+function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
   return (
-    <button
-      className={cn(
-        "relative overflow-hidden rounded-full px-8 py-4 font-sans text-sm font-semibold tracking-wide transition-all duration-300 ease-[cubic-bezier(0.25,0.46,0.45,0.94)] hover:scale-[1.03] hover:-translate-y-[1px] group",
-        variant === 'primary' ? "bg-moss text-cream" : "bg-transparent border border-charcoal/20 text-charcoal hover:border-charcoal",
-        className
-      )}
-      {...props}
-    >
-      <span className="relative z-10 flex items-center justify-center gap-2">
-        {children}
-      </span>
-      {variant === 'primary' && (
-        <span className="absolute inset-0 z-0 bg-clay translate-y-full transition-transform duration-300 ease-out group-hover:translate-y-0" />
-      )}
-    </button>
+    <label className="relative flex items-center gap-1.5 font-mono text-[10px] uppercase tracking-widest">
+      <Globe className="h-3.5 w-3.5" aria-hidden="true" />
+      <span className="sr-only">{t('nav.language')}</span>
+      <select
+        value={locale}
+        onChange={event => setLocale(event.target.value as Locale)}
+        className="cursor-pointer appearance-none bg-transparent uppercase outline-none"
+      >
+        {LOCALES.map(code => (
+          <option key={code} value={code} lang={code} className="text-ink">
+            {code} · {LOCALE_INFO[code].label}
+          </option>
+        ))}
+      </select>
+    </label>
   );
 }
 
-function Navbar() {
+/** The waitlist button label for this visitor's `waitlist-cta` variant. */
+function useWaitlistCtaLabel(controlLabel: string) {
+  const { content } = useI18n();
+  const variant = useVariant('waitlist-cta');
+  return variant === 'control' ? controlLabel : content.experiments.waitlistCta[variant];
+}
+
+function Navbar({ solid }: { solid: boolean }) {
   const navRef = useRef<HTMLDivElement>(null);
+  const menuId = useId();
+  const { openWaitlist } = useWaitlist();
+  const { content, t } = useI18n();
+  const ctaLabel = useWaitlistCtaLabel(content.nav.cta);
   const [isScrolled, setIsScrolled] = useState(false);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const closeMenu = useCallback(() => setMenuOpen(false), []);
+  const activeSection = useActiveSection(usePathname() === '/');
 
   useEffect(() => {
     const handleScroll = () => {
@@ -56,33 +112,81 @@ function Navbar() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  // Pages without the dark hero behind the bar need the opaque style from the start.
+  const opaque = solid || isScrolled;
+
   return (
-    <nav
-      ref={navRef}
-      className={cn(
-        "fixed left-1/2 top-6 z-50 flex -translate-x-1/2 items-center justify-between rounded-full px-6 py-3 transition-all duration-500 w-[90%] max-w-5xl",
-        isScrolled 
-          ? "bg-cream/60 backdrop-blur-xl border border-charcoal/10 shadow-sm text-charcoal" 
-          : "bg-transparent text-cream"
+    <>
+      <nav
+        data-placement="nav"
+        ref={navRef}
+        className={cn(
+          "fixed left-1/2 top-6 z-50 flex print:hidden -translate-x-1/2 items-center justify-between gap-4 rounded-full px-6 py-3 transition-all duration-500 w-[90%] max-w-5xl",
+          opaque
+            ? "bg-surface/60 backdrop-blur-xl border border-ink/10 shadow-sm text-ink" 
+            : "bg-transparent text-cream"
+        )}
+      >
+        <Link href="/" className="font-heading text-xl font-bold tracking-tight">{content.brand.name}</Link>
+        <div className="hidden md:flex items-center gap-8 font-sans text-sm font-medium">
+          {NAV_SECTIONS.map(section => (
+            <Link
+              key={section}
+              href={sectionHref(section)}
+              aria-current={activeSection === section ? 'location' : undefined}
+              className={cn(
+                "relative hover:-translate-y-[1px] transition-transform after:absolute after:inset-x-0 after:-bottom-1.5 after:mx-auto after:h-1 after:w-1 after:rounded-full after:bg-clay after:opacity-0 after:transition-opacity",
+                activeSection === section && "after:opacity-100"
+              )}
+            >
+              {content.nav.sections[section]}
+            </Link>
+          ))}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="hidden md:flex items-center gap-4">
+            <MotionToggle />
+            <ThemeToggle />
+            <LocaleSwitcher />
+          </div>
+          <Button cta="waitlist" size="sm" variant={opaque ? 'primary' : 'secondary'} className="px-6" onClick={() => openWaitlist()}>
+            {ctaLabel}
+          </Button>
+          <button
+            type="button"
+            onClick={() => setMenuOpen(true)}
+            aria-label={t('nav.menu')}
+            aria-expanded={menuOpen}
+            aria-controls={menuOpen ? menuId : undefined}
+            className="-me-2 rounded-full p-2 md:hidden"
+          >
+            <Menu className="h-5 w-5" />
+          </button>
+        </div>
+      </nav>
+      {menuOpen && (
+        <MobileNav id={menuId} active={activeSection} onClose={closeMenu}>
+          <MotionToggle />
+          <ThemeToggle />
+          <LocaleSwitcher />
+        </MobileNav>
       )}
-    >
-      <div className="font-heading text-xl font-bold tracking-tight">Nura Health</div>
-      <div className="hidden md:flex items-center gap-8 font-sans text-sm font-medium">
-        <a href="#features" className="hover:-translate-y-[1px] transition-transform">Protocol</a>
-        <a href="#philosophy" className="hover:-translate-y-[1px] transition-transform">Philosophy</a>
-        <a href="#membership" className="hover:-translate-y-[1px] transition-transform">Membership</a>
-      </div>
-      <Button className={cn("px-6 py-2.5 text-xs", isScrolled ? "bg-moss" : "bg-cream text-moss")} variant="primary">
-        Join the waitlist
-      </Button>
-    </nav>
+    </>
   );
 }
 
 function Hero() {
   const containerRef = useRef<HTMLDivElement>(null);
+  const { openWaitlist } = useWaitlist();
+  const { hero, experiments } = useI18n().content;
+  const { motionEnabled } = useMotion();
+  const headlineVariant = useVariant('hero-headline');
+  const headline = headlineVariant === 'control' ? hero : experiments.heroHeadline[headlineVariant];
+  const ctaLabel = useWaitlistCtaLabel(hero.cta);
+  useSectionImpression(containerRef, 'hero');
 
   useEffect(() => {
+    if (!motionEnabled) return;
     const ctx = gsap.context(() => {
       gsap.fromTo(
         ".hero-anim",
@@ -91,32 +195,29 @@ function Hero() {
       );
     }, containerRef);
     return () => ctx.revert();
-  }, []);
+  }, [motionEnabled]);
 
   return (
-    <section ref={containerRef} className="relative h-[100dvh] w-full overflow-hidden bg-charcoal">
-      <div 
-        className="absolute inset-0 bg-cover bg-center opacity-60"
-        style={{ backgroundImage: "url('https://images.unsplash.com/photo-1511497584788-876760111969?q=80&w=2532&auto=format&fit=crop')" }}
-      />
+    <section id="hero" ref={containerRef} className="relative h-[100dvh] w-full overflow-hidden bg-charcoal">
+      <Picture image={heroImage} alt="" priority className="absolute inset-0 opacity-60" />
       <div className="absolute inset-0 bg-gradient-to-t from-charcoal via-charcoal/40 to-transparent" />
       
       <div className="relative z-10 flex h-full flex-col justify-end p-8 md:p-16 lg:p-24 max-w-7xl mx-auto w-full">
         <div className="max-w-3xl">
           <h1 className="flex flex-col gap-2 mb-8">
             <span className="hero-anim font-heading text-3xl md:text-5xl font-bold tracking-tight text-cream uppercase">
-              Longevity is the
+              {headline.headlineLead}
             </span>
             <span className="hero-anim font-drama text-7xl md:text-9xl italic text-cream leading-[0.85]">
-              Baseline.
+              {headline.headlineEmphasis}
             </span>
           </h1>
           <p className="hero-anim font-sans text-lg md:text-xl text-cream/80 max-w-xl mb-10 text-balance">
-            Precision longevity medicine powered by biological data. We don't just track aging; we engineer its reversal.
+            {hero.subheading}
           </p>
           <div className="hero-anim">
-            <Button>
-              Join the waitlist <ArrowRight className="w-4 h-4 ml-2" />
+            <Button cta="waitlist" onClick={() => openWaitlist()} endIcon={<ArrowRight className="w-4 h-4 rtl:-scale-x-100" />}>
+              {ctaLabel}
             </Button>
           </div>
         </div>
@@ -125,150 +226,216 @@ function Hero() {
   );
 }
 
+const CATEGORY_ICONS: Record<BiomarkerCategory, typeof Droplet> = {
+  inflammation: Flame,
+  metabolic: Activity,
+  lipids: Droplet,
+  hormones: Zap,
+  nutrients: Sun,
+  organs: HeartPulse,
+};
+
+const STATUS_TONES: Record<BiomarkerStatus, BadgeTone> = {
+  optimal: 'positive',
+  borderline: 'caution',
+  outOfRange: 'critical',
+};
+
+interface ShufflerItem {
+  id: string;
+  title: string;
+  icon: typeof Droplet;
+  value: string;
+  result?: LabResult;
+}
+
+const SAMPLE_ICONS: Record<(typeof BIOMARKER_SAMPLES)[number], typeof Droplet> = {
+  panel: Droplet,
+  methylation: Dna,
+  metabolic: Activity,
+};
+
+const toShufflerItem = (result: LabResult): ShufflerItem => ({
+  id: result.marker.loinc,
+  title: result.marker.name,
+  icon: CATEGORY_ICONS[result.marker.category],
+  value: `${result.value} ${result.marker.unit}`,
+  result,
+});
+
 function DiagnosticShuffler() {
-  const [items, setItems] = useState([
-    { id: 1, title: "Blood Panel", icon: Droplet, value: "Optimal" },
-    { id: 2, title: "DNA Methylation", icon: Dna, value: "Age 34.2" },
-    { id: 3, title: "Metabolic Rate", icon: Activity, value: "1850 kcal" },
-  ]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const active = useLoopActive(containerRef);
+  const { t, content } = useI18n();
+  const samples = useMemo(() => BIOMARKER_SAMPLES.map((id): ShufflerItem => ({
+    id,
+    icon: SAMPLE_ICONS[id],
+    ...content.featureVisuals.biomarkerSamples[id],
+  })), [content]);
+  const [uploaded, setUploaded] = useState<ShufflerItem[] | null>(null);
+  // How many times the last card has moved to the front.
+  const [shift, setShift] = useState(0);
+  const [report, setReport] = useState<{ file: string; skipped: number } | null>(null);
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<LabReportErrorCode | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const list = uploaded ?? samples;
+  const front = list.length - (shift % list.length);
+  const items = [...list.slice(front), ...list.slice(0, front)];
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      setItems(prev => {
-        const newItems = [...prev];
-        const last = newItems.pop()!;
-        newItems.unshift(last);
-        return newItems;
-      });
-    }, 3000);
+    if (!active) return;
+    const interval = setInterval(() => setShift(prev => prev + 1), 3000);
     return () => clearInterval(interval);
-  }, []);
+  }, [active]);
+
+  // The file is parsed in memory and never stored or sent anywhere.
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    setError(null);
+    try {
+      const { results, skipped } = await readLabFile(file);
+      setUploaded(results.map(toShufflerItem));
+      setShift(0);
+      setReport({ file: file.name, skipped });
+    } catch (err) {
+      setError(err instanceof LabReportError ? err.code : 'unreadable');
+    } finally {
+      setReading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const clear = () => {
+    setUploaded(null);
+    setShift(0);
+    setReport(null);
+    setError(null);
+  };
 
   return (
-    <div className="relative h-64 w-full flex items-center justify-center perspective-1000">
-      {items.map((item, index) => {
-        const isFirst = index === 0;
-        const isSecond = index === 1;
-        const isThird = index === 2;
-        
-        return (
-          <div
-            key={item.id}
-            className="absolute w-full max-w-[240px] rounded-2xl bg-cream border border-charcoal/10 p-4 shadow-sm transition-all duration-700 ease-[cubic-bezier(0.34,1.56,0.64,1)] flex items-center justify-between"
-            style={{
-              transform: `translateY(${index * 16}px) scale(${1 - index * 0.05})`,
-              zIndex: 3 - index,
-              opacity: 1 - index * 0.2,
-            }}
-          >
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-moss/10 text-moss">
-                <item.icon className="h-5 w-5" />
+    <div
+      onDragOver={event => {
+        event.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={event => {
+        event.preventDefault();
+        setDragging(false);
+        loadFile(event.dataTransfer.files[0]);
+      }}
+      className={cn("flex flex-col gap-3 rounded-2xl transition-colors", dragging && "bg-accent/5 outline-2 outline-dashed outline-accent/40")}
+    >
+      <div ref={containerRef} className="relative h-64 w-full flex items-center justify-center perspective-1000">
+        {items.map((item, index) => {
+          const visible = index < 3;
+          return (
+            <div
+              key={item.id}
+              aria-hidden={!visible}
+              className="absolute w-full max-w-[260px] rounded-2xl bg-surface border border-ink/10 p-4 shadow-sm transition-all duration-700 ease-[cubic-bezier(0.34,1.56,0.64,1)]"
+              style={{
+                transform: `translateY(${Math.min(index, 3) * 16}px) scale(${1 - Math.min(index, 3) * 0.05})`,
+                zIndex: items.length - index,
+                opacity: visible ? 1 - index * 0.2 : 0,
+              }}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-accent/10 text-accent">
+                    <item.icon className="h-5 w-5" />
+                  </div>
+                  <span className="font-heading font-medium text-sm truncate">{item.title}</span>
+                </div>
+                <span className="font-mono text-xs text-accent font-semibold whitespace-nowrap">{item.value}</span>
               </div>
-              <span className="font-heading font-medium text-sm">{item.title}</span>
+              {item.result && (
+                <div className="mt-3 flex items-center justify-between gap-3 font-mono text-[10px] text-ink/50">
+                  <span>{t('labs.reference', { range: formatRange(item.result.marker.reference, item.result.marker.unit) })}</span>
+                  <Badge tone={STATUS_TONES[item.result.status]} className="px-2 py-0.5 tracking-wider">
+                    {t(`labs.status.${item.result.status}`)}
+                  </Badge>
+                </div>
+              )}
             </div>
-            <span className="font-mono text-xs text-moss font-semibold">{item.value}</span>
-          </div>
-        );
-      })}
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col items-center gap-1 text-center font-sans text-xs text-ink/60">
+        <input ref={inputRef} type="file" accept={LAB_FILE_ACCEPT} className="sr-only" tabIndex={-1} onChange={event => loadFile(event.target.files?.[0])} />
+        {report ? (
+          <>
+            <span role="status">
+              {t('labs.loaded', { count: items.length, file: report.file })}
+              {report.skipped > 0 && ` · ${t('labs.skipped', { count: report.skipped })}`}
+            </span>
+            <Button variant="link" size="sm" type="button" onClick={clear}>{t('labs.clear')}</Button>
+          </>
+        ) : (
+          <>
+            <Button
+              variant="link"
+              size="sm"
+              type="button"
+              cta="lab-upload"
+              onClick={() => inputRef.current?.click()}
+              loading={reading}
+              startIcon={<Upload className="h-3.5 w-3.5" />}
+              className="font-semibold"
+            >
+              {t(reading ? 'labs.reading' : 'labs.upload')}
+            </Button>
+            <span>{t('labs.dropHint')}</span>
+          </>
+        )}
+        {error && <span role="alert" className="text-clay">{t(`labs.error.${error}`)}</span>}
+      </div>
     </div>
   );
 }
 
 function TelemetryTypewriter() {
-  const [text, setText] = useState("");
-  const fullText = "Analyzing epigenetic markers...\nCellular age: 34.2 yrs\nTelomere length: 7.4kb\nInflammation: Low\nProtocol updated.";
-  
-  useEffect(() => {
-    let currentIndex = 0;
-    const interval = setInterval(() => {
-      if (currentIndex <= fullText.length) {
-        setText(fullText.slice(0, currentIndex));
-        currentIndex++;
-      } else {
-        currentIndex = 0;
-        setText("");
-      }
-    }, 50);
-    return () => clearInterval(interval);
-  }, []);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { motionEnabled } = useMotion();
+  const active = useLoopActive(containerRef);
+  // Sales can demo a specific member story with ?scenario=<id> (see src/content/telemetry.json).
+  const scenarioId = useSearchParam('scenario');
+  const { text, staticText, source } = useTelemetryFeed(scenarioId, active);
+  const { content } = useI18n();
 
   return (
-    <div className="h-64 w-full rounded-2xl bg-charcoal p-6 flex flex-col relative overflow-hidden">
+    <div ref={containerRef} data-loop={active ? 'running' : 'paused'} data-source={source} className="h-64 w-full rounded-2xl bg-charcoal p-6 flex flex-col relative overflow-hidden">
       <div className="flex items-center gap-2 mb-4">
         <div className="h-2 w-2 rounded-full bg-clay animate-pulse" />
-        <span className="font-mono text-[10px] uppercase tracking-widest text-cream/50">Live Feed</span>
+        <span className="font-mono text-[10px] uppercase tracking-widest text-cream/50">{content.featureVisuals.liveFeed}</span>
       </div>
       <pre className="font-mono text-xs text-cream/80 whitespace-pre-wrap leading-relaxed">
-        {text}
-        <span className="inline-block w-2 h-3 bg-clay ml-1 animate-pulse" />
+        {motionEnabled ? text : staticText}
+        <span className="inline-block w-2 h-3 bg-clay ms-1 animate-pulse" />
       </pre>
     </div>
   );
 }
 
-function CursorProtocolScheduler() {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const cursorRef = useRef<HTMLDivElement>(null);
-  const buttonRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    const ctx = gsap.context(() => {
-      const tl = gsap.timeline({ repeat: -1, repeatDelay: 1 });
-      
-      tl.set(cursorRef.current, { x: 20, y: 150, opacity: 0 })
-        .to(cursorRef.current, { opacity: 1, duration: 0.3 })
-        .to(cursorRef.current, { x: 120, y: 80, duration: 1, ease: "power2.inOut" })
-        .to(cursorRef.current, { scale: 0.8, duration: 0.1, yoyo: true, repeat: 1 })
-        .to(".day-cell-active", { backgroundColor: "#2E4036", color: "#F2F0E9", duration: 0.2 }, "-=0.1")
-        .to(cursorRef.current, { x: 200, y: 180, duration: 1, ease: "power2.inOut", delay: 0.5 })
-        .to(cursorRef.current, { scale: 0.8, duration: 0.1, yoyo: true, repeat: 1 })
-        .to(buttonRef.current, { scale: 0.95, duration: 0.1, yoyo: true, repeat: 1 }, "-=0.1")
-        .to(cursorRef.current, { opacity: 0, duration: 0.3, delay: 0.5 })
-        .set(".day-cell-active", { backgroundColor: "transparent", color: "inherit" });
-        
-    }, containerRef);
-    return () => ctx.revert();
-  }, []);
-
-  const days = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
-
-  return (
-    <div ref={containerRef} className="relative h-64 w-full rounded-2xl border border-charcoal/10 bg-cream p-6 flex flex-col justify-between">
-      <div className="grid grid-cols-7 gap-2">
-        {days.map((day, i) => (
-          <div 
-            key={i} 
-            className={cn(
-              "flex h-8 w-8 items-center justify-center rounded-full font-mono text-xs border border-charcoal/10",
-              i === 3 ? "day-cell-active transition-colors" : ""
-            )}
-          >
-            {day}
-          </div>
-        ))}
-      </div>
-      
-      <div className="space-y-2">
-        <div className="h-2 w-3/4 rounded-full bg-charcoal/5" />
-        <div className="h-2 w-1/2 rounded-full bg-charcoal/5" />
-      </div>
-
-      <div ref={buttonRef} className="self-end rounded-full bg-moss/10 px-4 py-1.5 font-mono text-[10px] font-semibold text-moss uppercase tracking-wider">
-        Save Protocol
-      </div>
-
-      <div ref={cursorRef} className="absolute top-0 left-0 z-10 pointer-events-none">
-        <MousePointer2 className="h-6 w-6 text-clay fill-clay/20" />
-      </div>
-    </div>
-  );
-}
+const FEATURE_VISUALS: Record<FeatureId, () => React.ReactNode> = {
+  biomarkers: DiagnosticShuffler,
+  telemetry: TelemetryTypewriter,
+  protocols: ConsultationPreview,
+};
 
 function Features() {
   const containerRef = useRef<HTMLDivElement>(null);
+  const { content } = useI18n();
+  const { motionEnabled } = useMotion();
+  useSectionImpression(containerRef, 'features');
 
   useEffect(() => {
+    if (!motionEnabled) return;
     const ctx = gsap.context(() => {
       gsap.fromTo(
         ".feature-card",
@@ -283,51 +450,38 @@ function Features() {
       );
     }, containerRef);
     return () => ctx.revert();
-  }, []);
+  }, [motionEnabled]);
 
   return (
-    <section id="features" ref={containerRef} className="py-32 px-6 md:px-12 max-w-7xl mx-auto">
+    <Section id="features" ref={containerRef}>
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-        
-        <div className="feature-card flex flex-col gap-6">
-          <DiagnosticShuffler />
-          <div>
-            <h3 className="font-heading text-xl font-bold mb-2">Continuous Biomarker Tracking</h3>
-            <p className="font-sans text-sm text-charcoal/70 leading-relaxed">
-              We monitor your biological age through comprehensive blood panels, DNA methylation, and metabolic rate analysis.
-            </p>
-          </div>
-        </div>
-
-        <div className="feature-card flex flex-col gap-6">
-          <TelemetryTypewriter />
-          <div>
-            <h3 className="font-heading text-xl font-bold mb-2">Real-time Epigenetic Telemetry</h3>
-            <p className="font-sans text-sm text-charcoal/70 leading-relaxed">
-              Live feed of your cellular age metrics. Watch your biological age reverse as you implement our protocols.
-            </p>
-          </div>
-        </div>
-
-        <div className="feature-card flex flex-col gap-6">
-          <CursorProtocolScheduler />
-          <div>
-            <h3 className="font-heading text-xl font-bold mb-2">Adaptive Supplement Protocols</h3>
-            <p className="font-sans text-sm text-charcoal/70 leading-relaxed">
-              Your interventions adapt dynamically. Our system schedules daily protocols based on your latest telemetry.
-            </p>
-          </div>
-        </div>
-
+        {content.features.map(feature => {
+          const Visual = FEATURE_VISUALS[feature.id];
+          return (
+            <div key={feature.id} className="feature-card flex flex-col gap-6">
+              <Visual />
+              <div>
+                <h3 className="font-heading text-xl font-bold mb-2">{feature.title}</h3>
+                <p className="font-sans text-sm text-ink/70 leading-relaxed">
+                  {feature.description}
+                </p>
+              </div>
+            </div>
+          );
+        })}
       </div>
-    </section>
+    </Section>
   );
 }
 
 function Philosophy() {
   const containerRef = useRef<HTMLDivElement>(null);
+  const { philosophy } = useI18n().content;
+  const { motionEnabled } = useMotion();
+  useSectionImpression(containerRef, 'philosophy');
 
   useEffect(() => {
+    if (!motionEnabled) return;
     const ctx = gsap.context(() => {
       gsap.to(".parallax-bg", {
         yPercent: 30,
@@ -353,32 +507,67 @@ function Philosophy() {
       );
     }, containerRef);
     return () => ctx.revert();
-  }, []);
+  }, [motionEnabled]);
 
   return (
-    <section id="philosophy" ref={containerRef} className="relative py-40 px-6 md:px-12 overflow-hidden bg-charcoal text-cream rounded-[3rem] mx-4 md:mx-8">
-      <div 
-        className="parallax-bg absolute inset-0 bg-cover bg-center opacity-20 scale-125"
-        style={{ backgroundImage: "url('https://images.unsplash.com/photo-1618423835718-20fa0480e118?q=80&w=2000&auto=format&fit=crop')" }}
-      />
+    <Section id="philosophy" ref={containerRef} variant="inverse" className="py-40">
+      <Picture image={philosophyImage} alt="" className="parallax-bg absolute inset-0 opacity-20 scale-125" />
       
       <div className="relative z-10 max-w-4xl mx-auto flex flex-col gap-12">
         <p className="phil-text font-sans text-xl md:text-2xl text-cream/60 max-w-2xl">
-          Most medicine focuses on: <span className="text-cream">reactive symptom management.</span>
+          {philosophy.contrastLead} <span className="text-cream">{philosophy.contrastText}</span>
         </p>
         <h2 className="phil-text font-drama text-5xl md:text-7xl italic leading-[1.1]">
-          We focus on: <br/>
-          <span className="text-clay">proactive cellular optimization.</span>
+          {philosophy.focusLead} <br/>
+          <span className="text-clay">{philosophy.focusText}</span>
         </h2>
       </div>
-    </section>
+    </Section>
   );
 }
 
+const STEP_VISUALS: Record<ProtocolVisual, React.ReactNode> = {
+  orbit: (
+    <svg viewBox="0 0 100 100" className="w-full h-full animate-[spin_20s_linear_infinite]">
+      <circle cx="50" cy="50" r="40" fill="none" stroke="currentColor" strokeWidth="0.5" className="text-accent/20" />
+      <circle cx="50" cy="50" r="30" fill="none" stroke="currentColor" strokeWidth="0.5" className="text-accent/40" strokeDasharray="4 4" />
+      <path d="M50 10 L50 90 M10 50 L90 50" stroke="currentColor" strokeWidth="0.5" className="text-accent/20" />
+      <circle cx="50" cy="10" r="2" fill="currentColor" className="text-clay" />
+    </svg>
+  ),
+  scan: (
+    <div className="relative w-full h-full border border-accent/20 rounded-full overflow-hidden flex items-center justify-center">
+      <div className="grid grid-cols-5 gap-2 w-2/3 h-2/3">
+        {Array.from({length: 25}).map((_, i) => (
+          <div key={i} className="bg-accent/10 rounded-sm" />
+        ))}
+      </div>
+      <div className="absolute top-0 left-0 w-full h-1 bg-clay/50 shadow-[0_0_15px_rgba(204,88,51,0.8)] animate-[scan_3s_ease-in-out_infinite_alternate]" />
+    </div>
+  ),
+  waveform: (
+    <svg viewBox="0 0 100 50" className="w-full h-full">
+      <path 
+        d="M0 25 L20 25 L25 10 L35 45 L45 5 L55 35 L60 25 L100 25" 
+        fill="none" 
+        stroke="currentColor" 
+        strokeWidth="1.5" 
+        className="waveform-path text-accent animate-[dash_3s_linear_infinite]" 
+        strokeDasharray="100" 
+        strokeDashoffset="100"
+      />
+    </svg>
+  ),
+};
+
 function Protocol() {
   const containerRef = useRef<HTMLDivElement>(null);
+  const { content, t } = useI18n();
+  const { motionEnabled } = useMotion();
+  useSectionImpression(containerRef, 'protocol');
 
   useEffect(() => {
+    if (!motionEnabled) return;
     const ctx = gsap.context(() => {
       const cards = gsap.utils.toArray('.protocol-card') as HTMLElement[];
       
@@ -399,208 +588,271 @@ function Protocol() {
       });
     }, containerRef);
     return () => ctx.revert();
-  }, []);
-
-  const steps = [
-    {
-      num: "01",
-      title: "Quantify",
-      desc: "Comprehensive baseline mapping of your biological age.",
-      visual: (
-        <svg viewBox="0 0 100 100" className="w-full h-full animate-[spin_20s_linear_infinite]">
-          <circle cx="50" cy="50" r="40" fill="none" stroke="currentColor" strokeWidth="0.5" className="text-moss/20" />
-          <circle cx="50" cy="50" r="30" fill="none" stroke="currentColor" strokeWidth="0.5" className="text-moss/40" strokeDasharray="4 4" />
-          <path d="M50 10 L50 90 M10 50 L90 50" stroke="currentColor" strokeWidth="0.5" className="text-moss/20" />
-          <circle cx="50" cy="10" r="2" fill="currentColor" className="text-clay" />
-        </svg>
-      )
-    },
-    {
-      num: "02",
-      title: "Intervene",
-      desc: "Targeted protocols to reverse cellular senescence.",
-      visual: (
-        <div className="relative w-full h-full border border-moss/20 rounded-full overflow-hidden flex items-center justify-center">
-          <div className="grid grid-cols-5 gap-2 w-2/3 h-2/3">
-            {Array.from({length: 25}).map((_, i) => (
-              <div key={i} className="bg-moss/10 rounded-sm" />
-            ))}
-          </div>
-          <div className="absolute top-0 left-0 w-full h-1 bg-clay/50 shadow-[0_0_15px_rgba(204,88,51,0.8)] animate-[scan_3s_ease-in-out_infinite_alternate]" />
-        </div>
-      )
-    },
-    {
-      num: "03",
-      title: "Optimize",
-      desc: "Continuous telemetry and protocol refinement.",
-      visual: (
-        <svg viewBox="0 0 100 50" className="w-full h-full">
-          <path 
-            d="M0 25 L20 25 L25 10 L35 45 L45 5 L55 35 L60 25 L100 25" 
-            fill="none" 
-            stroke="currentColor" 
-            strokeWidth="1.5" 
-            className="text-moss animate-[dash_3s_linear_infinite]" 
-            strokeDasharray="100" 
-            strokeDashoffset="100"
-          />
-        </svg>
-      )
-    }
-  ];
+  }, [motionEnabled]);
 
   return (
-    <section ref={containerRef} className="py-32 relative">
-      <style>{`
-        @keyframes scan {
-          0% { transform: translateY(0); }
-          100% { transform: translateY(1000%); }
-        }
-        @keyframes dash {
-          to { stroke-dashoffset: 0; }
-        }
-      `}</style>
-      
-      {steps.map((step, i) => (
+    <Section id="protocol" ref={containerRef} variant="full">
+      {content.protocol.steps.map((step, i) => (
         <div key={i} className="protocol-card sticky top-0 h-[100dvh] flex items-center justify-center p-6">
-          <div className="w-full max-w-5xl bg-cream border border-charcoal/10 rounded-[3rem] p-12 md:p-24 shadow-xl flex flex-col md:flex-row items-center gap-16">
+          <Card className="w-full max-w-5xl rounded-[3rem] p-12 md:p-24 shadow-xl flex flex-col md:flex-row items-center gap-16">
             
             <div className="flex-1 space-y-6">
-              <div className="font-mono text-sm text-clay font-semibold tracking-widest">STEP {step.num}</div>
-              <h2 className="font-heading text-4xl md:text-6xl font-bold text-charcoal">{step.title}</h2>
-              <p className="font-sans text-lg text-charcoal/70 max-w-md">{step.desc}</p>
+              <div className="font-mono text-sm text-clay font-semibold tracking-widest uppercase">{t('protocol.step', { number: String(i + 1).padStart(2, '0') })}</div>
+              <h2 className="font-heading text-4xl md:text-6xl font-bold text-ink">{step.title}</h2>
+              <p className="font-sans text-lg text-ink/70 max-w-md">{step.description}</p>
+              {step.cta && (
+                <Button href={step.cta.href} cta="protocol-builder" variant="outline" size="sm" endIcon={<ArrowRight className="h-4 w-4 rtl:-scale-x-100" />}>
+                  {step.cta.label}
+                </Button>
+              )}
             </div>
 
-            <div className="flex-1 w-full aspect-square max-w-md relative flex items-center justify-center">
-              {step.visual}
-            </div>
+            <Loop className="flex-1 w-full aspect-square max-w-md relative flex items-center justify-center">
+              {STEP_VISUALS[step.visual]}
+            </Loop>
 
-          </div>
+          </Card>
         </div>
       ))}
-    </section>
+    </Section>
   );
 }
 
-function Membership() {
+function BillingToggle({ value, onChange }: { value: BillingPeriod; onChange: (period: BillingPeriod) => void }) {
+  const { t } = useI18n();
+  const discount = Math.max(...MEMBERSHIP_TIERS.map(annualDiscountPercent));
+
   return (
-    <section id="membership" className="py-32 px-6 md:px-12 max-w-7xl mx-auto">
-      <div className="text-center mb-20">
-        <h2 className="font-heading text-4xl md:text-5xl font-bold mb-4">Membership</h2>
-        <p className="font-sans text-charcoal/60 max-w-xl mx-auto">Select your level of biological optimization.</p>
-      </div>
+    <div role="group" aria-label={t('billing.label')} className="inline-flex items-center gap-1 rounded-full border border-ink/10 bg-surface p-1 font-sans text-sm font-medium">
+      {BILLING_PERIODS.map(period => (
+        <button
+          key={period}
+          type="button"
+          aria-pressed={value === period}
+          onClick={() => onChange(period)}
+          className={cn(
+            "rounded-full px-5 py-2 transition-colors duration-300",
+            value === period ? "bg-moss text-cream" : "text-ink/60 hover:text-ink"
+          )}
+        >
+          {t(`billing.${period}`)}
+          {period === 'annual' && discount > 0 && (
+            <span className={cn("ms-2 font-mono text-[10px] uppercase tracking-wider", value === period ? "text-cream/70" : "text-clay")}>
+              {t('billing.saveUpTo', { percent: discount })}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-center">
-        
-        {/* Tier 1 */}
-        <div className="rounded-[2.5rem] border border-charcoal/10 p-8 bg-cream">
-          <h3 className="font-heading text-2xl font-bold mb-2">Foundation</h3>
-          <div className="font-mono text-sm text-charcoal/50 mb-8">Quarterly panels</div>
-          <div className="text-4xl font-bold font-heading mb-8">$299<span className="text-lg text-charcoal/50 font-sans font-normal">/mo</span></div>
-          <ul className="space-y-4 font-sans text-sm text-charcoal/80 mb-8">
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-moss" /> Basic biological age tracking</li>
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-moss" /> Quarterly blood panels</li>
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-moss" /> Standard supplement protocol</li>
-          </ul>
-          <Button variant="outline" className="w-full">Select Foundation</Button>
-        </div>
+function TierCard({ tier, featured, billingPeriod, onSelect }: { tier: MembershipTier; featured: boolean; billingPeriod: BillingPeriod; onSelect: () => void }) {
+  const { content, t, formatPrice } = useI18n();
+  const copy = content.membership.tiers[tier.id];
+  const discount = annualDiscountPercent(tier);
 
-        {/* Tier 2 */}
-        <div className="rounded-[2.5rem] border-2 border-moss p-10 bg-moss text-cream relative transform md:scale-105 shadow-2xl">
-          <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-clay text-cream font-mono text-[10px] uppercase tracking-widest px-4 py-1 rounded-full">
-            Recommended
-          </div>
-          <h3 className="font-heading text-2xl font-bold mb-2">Precision</h3>
-          <div className="font-mono text-sm text-cream/60 mb-8">Monthly panels</div>
-          <div className="text-4xl font-bold font-heading mb-8">$899<span className="text-lg text-cream/60 font-sans font-normal">/mo</span></div>
-          <ul className="space-y-4 font-sans text-sm text-cream/90 mb-8">
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-clay" /> Advanced epigenetic tracking</li>
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-clay" /> Monthly comprehensive panels</li>
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-clay" /> Adaptive daily protocols</li>
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-clay" /> Dedicated longevity physician</li>
-          </ul>
-          <Button className="w-full bg-cream text-moss hover:bg-cream/90">
-            <span className="relative z-10 text-moss">Select Precision</span>
-            <span className="absolute inset-0 z-0 bg-clay translate-y-full transition-transform duration-300 ease-out group-hover:translate-y-0" />
-          </Button>
+  return (
+    <Card
+      variant={featured ? 'accent' : 'surface'}
+      className={cn("rounded-[2.5rem]", featured ? "p-10 relative transform md:scale-105 shadow-2xl" : "p-8")}
+    >
+      {featured && (
+        <Badge tone="highlight" className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 px-4">
+          {content.membership.recommendedBadge}
+        </Badge>
+      )}
+      <h3 className="font-heading text-2xl font-bold mb-2">{tier.name}</h3>
+      <div className={cn("font-mono text-sm mb-8", featured ? "text-cream/60" : "text-ink/50")}>{copy.cadence}</div>
+      <div className="mb-8">
+        <div className="text-4xl font-bold font-heading">
+          {formatPrice(tier.prices[billingPeriod])}
+          <span className={cn("text-lg font-sans font-normal", featured ? "text-cream/60" : "text-ink/50")}>{t(`billing.suffix.${billingPeriod}`)}</span>
         </div>
+        {billingPeriod === 'annual' && discount > 0 && (
+          <div className={cn("mt-2 font-mono text-xs", featured ? "text-cream/60" : "text-ink/50")}>
+            {t('billing.annualBreakdown', { price: formatPrice(Math.round(tier.prices.annual / 12)), percent: discount })}
+          </div>
+        )}
+      </div>
+      <ul className={cn("space-y-4 font-sans text-sm mb-8", featured ? "text-cream/90" : "text-ink/80")}>
+        {copy.features.map(feature => (
+          <li key={feature} className="flex items-center gap-3">
+            <div className={cn("w-1.5 h-1.5 rounded-full", featured ? "bg-clay" : "bg-moss")} /> {feature}
+          </li>
+        ))}
+      </ul>
+      <Button cta={`select:${tier.id}`} variant={featured ? 'secondary' : 'outline'} className="w-full" onClick={onSelect}>
+        {t('membership.select', { tier: tier.name })}
+      </Button>
+    </Card>
+  );
+}
 
-        {/* Tier 3 */}
-        <div className="rounded-[2.5rem] border border-charcoal/10 p-8 bg-cream">
-          <h3 className="font-heading text-2xl font-bold mb-2">Apex</h3>
-          <div className="font-mono text-sm text-charcoal/50 mb-8">Continuous telemetry</div>
-          <div className="text-4xl font-bold font-heading mb-8">$2499<span className="text-lg text-charcoal/50 font-sans font-normal">/mo</span></div>
-          <ul className="space-y-4 font-sans text-sm text-charcoal/80 mb-8">
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-moss" /> Real-time continuous monitoring</li>
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-moss" /> Experimental therapies access</li>
-            <li className="flex items-center gap-3"><div className="w-1.5 h-1.5 rounded-full bg-moss" /> Full concierge service</li>
-          </ul>
-          <Button variant="outline" className="w-full">Select Apex</Button>
-        </div>
+/** Where the links in waitlist emails land, via `?waitlist=`. */
+const WAITLIST_NOTICES = new Map<string | null, MessageKey>([
+  ['confirmed', 'waitlist.confirmedNotice'],
+  ['unsubscribed', 'waitlist.unsubscribedNotice'],
+  ['link-expired', 'waitlist.linkExpiredNotice'],
+]);
+
+function Membership() {
+  const containerRef = useRef<HTMLElement>(null);
+  const { content, t } = useI18n();
+  const { track } = useAnalytics();
+  const [billingPeriod, setBillingPeriod] = useState<BillingPeriod>('monthly');
+  const [selectedTier, setSelectedTier] = useState<MembershipTier | null>(null);
+  const enrollmentNotice = useSearchParam('enrollment');
+  const waitlistNotice = WAITLIST_NOTICES.get(useSearchParam('waitlist'));
+  const recommendedTier = useVariant('recommended-tier');
+  useSectionImpression(containerRef, 'membership');
+
+  const selectTier = (tier: MembershipTier) => {
+    track({ type: 'tier_select', target: tier.id });
+    setSelectedTier(tier);
+  };
+
+  return (
+    <Section id="membership" ref={containerRef}>
+      <div className="text-center mb-20">
+        <h2 className="font-heading text-4xl md:text-5xl font-bold mb-4">{content.membership.heading}</h2>
+        <p className="font-sans text-ink/60 max-w-xl mx-auto mb-10">{content.membership.subheading}</p>
+        <BillingToggle value={billingPeriod} onChange={setBillingPeriod} />
+        {enrollmentNotice === 'active' && (
+          <p role="status" className="mt-8 font-sans text-sm text-accent">{t('membership.activeNotice')}</p>
+        )}
+        {waitlistNotice && (
+          <p role="status" className="mt-8 font-sans text-sm text-accent">{t(waitlistNotice)}</p>
+        )}
+      </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-center">
+        {MEMBERSHIP_TIERS.map(tier => (
+          <TierCard key={tier.id} tier={tier} featured={tier.id === recommendedTier} billingPeriod={billingPeriod} onSelect={() => selectTier(tier)} />
+        ))}
       </div>
-    </section>
+
+      {selectedTier && (
+        <EnrollmentDialog tier={selectedTier} billingPeriod={billingPeriod} onClose={() => setSelectedTier(null)} />
+      )}
+    </Section>
   );
 }
 
 function Footer() {
+  const { content, t } = useI18n();
+  const { brand, footer } = content;
+  const { openConsentSettings } = useConsent();
+
   return (
-    <footer className="bg-charcoal text-cream rounded-t-[4rem] pt-24 pb-12 px-6 md:px-12 mt-20">
+    <footer className="bg-charcoal text-cream rounded-t-[4rem] pt-24 pb-12 px-6 md:px-12 mt-20 print:hidden">
       <div className="max-w-7xl mx-auto grid grid-cols-1 md:grid-cols-4 gap-12 mb-20">
         
         <div className="md:col-span-2">
-          <div className="font-heading text-3xl font-bold tracking-tight mb-4">Nura Health</div>
+          <div className="font-heading text-3xl font-bold tracking-tight mb-4">{brand.name}</div>
           <p className="font-sans text-cream/60 max-w-sm">
-            Precision longevity medicine powered by biological data.
+            {brand.tagline}
           </p>
         </div>
 
         <div>
-          <h4 className="font-mono text-xs text-cream/40 uppercase tracking-widest mb-6">Navigation</h4>
+          <h4 className="font-mono text-xs text-cream/40 uppercase tracking-widest mb-6">{footer.sectionsHeading}</h4>
           <ul className="space-y-3 font-sans text-sm text-cream/80">
-            <li><a href="#features" className="hover:text-clay transition-colors">Protocol</a></li>
-            <li><a href="#philosophy" className="hover:text-clay transition-colors">Philosophy</a></li>
-            <li><a href="#membership" className="hover:text-clay transition-colors">Membership</a></li>
+            {NAV_SECTIONS.map(section => (
+              <li key={section}><Link href={sectionHref(section)} className="hover:text-clay transition-colors">{content.nav.sections[section]}</Link></li>
+            ))}
           </ul>
         </div>
 
-        <div>
-          <h4 className="font-mono text-xs text-cream/40 uppercase tracking-widest mb-6">Legal</h4>
-          <ul className="space-y-3 font-sans text-sm text-cream/80">
-            <li><a href="#" className="hover:text-clay transition-colors">Privacy Policy</a></li>
-            <li><a href="#" className="hover:text-clay transition-colors">Terms of Service</a></li>
-            <li><a href="#" className="hover:text-clay transition-colors">Medical Disclaimer</a></li>
-          </ul>
-        </div>
+        {footer.columns.map(column => (
+          <div key={column.heading}>
+            <h4 className="font-mono text-xs text-cream/40 uppercase tracking-widest mb-6">{column.heading}</h4>
+            <ul className="space-y-3 font-sans text-sm text-cream/80">
+              {column.links.map(link => (
+                <li key={link.label}><Link href={link.href} className="hover:text-clay transition-colors">{link.label}</Link></li>
+              ))}
+            </ul>
+          </div>
+        ))}
 
       </div>
 
       <div className="max-w-7xl mx-auto pt-8 border-t border-cream/10 flex flex-col md:flex-row items-center justify-between gap-4">
-        <div className="font-sans text-xs text-cream/40">
-          &copy; {new Date().getFullYear()} Nura Health. All rights reserved.
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 font-sans text-xs text-cream/40">
+          <span>&copy; {new Date().getFullYear()} {footer.copyright}</span>
+          <button type="button" onClick={openConsentSettings} className="underline-offset-2 hover:text-cream hover:underline">
+            {t('consent.manage')}
+          </button>
         </div>
         
-        <div className="flex items-center gap-2 bg-cream/5 rounded-full px-4 py-2 border border-cream/10">
-          <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
-          <span className="font-mono text-[10px] uppercase tracking-widest text-cream/60">System Operational</span>
-        </div>
+        <StatusPill />
       </div>
     </footer>
   );
 }
 
-export default function App() {
+function HomePage() {
   return (
-    <div className="min-h-screen bg-cream selection:bg-moss selection:text-cream">
-      <NoiseOverlay />
-      <Navbar />
+    <>
       <Hero />
       <Features />
       <Philosophy />
       <Protocol />
+      <Assessment />
       <Membership />
-      <Footer />
-    </div>
+    </>
+  );
+}
+
+/** Keeps deep links like `/#membership` and history navigation landing on the right spot once the page renders. */
+function useScrollOnNavigate(pathname: string) {
+  const firstRender = useRef(true);
+
+  useEffect(() => {
+    const target = window.location.hash && document.getElementById(decodeURIComponent(window.location.hash.slice(1)));
+    if (target) target.scrollIntoView();
+    else if (!firstRender.current) window.scrollTo(0, 0);
+    firstRender.current = false;
+  }, [pathname]);
+}
+
+export default function App() {
+  const pathname = usePathname();
+  const legalPage = legalPageForPath(pathname);
+  const statusPage = pathname === STATUS_PATH;
+  const consultationPage = pathname === CONSULTATION_PATH;
+  const waitlistStatusPage = pathname === WAITLIST_STATUS_PATH;
+  const privacyRequestsPage = pathname === PRIVACY_REQUESTS_PATH;
+  const protocolBuilderPage = pathname === PROTOCOL_BUILDER_PATH;
+  // The service worker serves the offline page at whatever path it couldn't load, so it's matched first.
+  const offlinePage = pathname === OFFLINE_PATH || pathname === offlineFallbackPath;
+  useScrollOnNavigate(pathname);
+
+  return (
+    <I18nProvider>
+      <MotionProvider>
+        <ConsentProvider>
+          <AnalyticsProvider>
+            <WaitlistProvider>
+              <div className="min-h-screen bg-surface selection:bg-moss selection:text-cream">
+                <NoiseOverlay />
+                <Navbar solid={!!legalPage || statusPage || consultationPage || waitlistStatusPage || privacyRequestsPage || protocolBuilderPage || offlinePage} />
+                {offlinePage ? <OfflinePage />
+                  : legalPage ? <LegalPage page={legalPage} />
+                  : statusPage ? <StatusPage />
+                  : consultationPage ? <ConsultationPage />
+                  : waitlistStatusPage ? <WaitlistStatusPage />
+                  : privacyRequestsPage ? <PrivacyRequestsPage />
+                  : protocolBuilderPage ? <ProtocolBuilderPage />
+                  : <HomePage />}
+                <Footer />
+                <Chat />
+                <ServiceWorkerNotices />
+              </div>
+            </WaitlistProvider>
+          </AnalyticsProvider>
+        </ConsentProvider>
+      </MotionProvider>
+    </I18nProvider>
   );
 }
@@ -0,0 +1,22 @@
+import { Suspense, lazy } from 'react';
+import App from './App.tsx';
+import { ThemeProvider } from './components/Theme.tsx';
+import { usePathname } from './lib/router.ts';
+
+const AdminApp = lazy(() => import('./admin/AdminApp.tsx'));
+
+export default function Root() {
+  const pathname = usePathname();
+
+  return (
+    <ThemeProvider>
+      {pathname === '/admin' || pathname.startsWith('/admin/') ? (
+        <Suspense fallback={null}>
+          <AdminApp />
+        </Suspense>
+      ) : (
+        <App />
+      )}
+    </ThemeProvider>
+  );
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, LogOut } from 'lucide-react';
+import { AdminLogin } from './AdminLogin.tsx';
+import { ExperimentsView } from './ExperimentsView.tsx';
+import { FunnelView } from './FunnelView.tsx';
+import { IncidentsView } from './IncidentsView.tsx';
+import { RecordsView, enrollmentColumns, waitlistColumns } from './RecordsView.tsx';
+import { requestJson, getJson } from '../lib/api.ts';
+import { cn } from '../lib/utils.ts';
+
+type Session = 'loading' | 'signedOut' | 'signedIn';
+type Tab = 'waitlist' | 'enrollments' | 'funnel' | 'experiments' | 'incidents';
+
+export default function AdminApp() {
+  const [session, setSession] = useState<Session>('loading');
+  const [tab, setTab] = useState<Tab>('waitlist');
+
+  useEffect(() => {
+    getJson<{ authenticated: boolean }>('/api/admin/session')
+      .then(({ authenticated }) => setSession(authenticated ? 'signedIn' : 'signedOut'))
+      .catch(() => setSession('signedOut'));
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await requestJson('DELETE', '/api/admin/session').catch(() => undefined);
+    setSession('signedOut');
+  }, []);
+
+  const expire = useCallback(() => setSession('signedOut'), []);
+
+  if (session === 'loading') {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-surface">
+        <Loader2 className="h-6 w-6 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  if (session === 'signedOut') {
+    return <AdminLogin onSignedIn={() => setSession('signedIn')} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-surface text-ink">
+      <header className="border-b border-ink/10">
+        <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-5">
+          <div className="flex items-baseline gap-3">
+            <span className="font-heading text-xl font-bold tracking-tight">Nura Health</span>
+            <span className="font-mono text-[10px] uppercase tracking-widest text-ink/50">Admin</span>
+          </div>
+          <button
+            type="button"
+            onClick={signOut}
+            className="flex items-center gap-2 font-sans text-sm text-ink/60 transition-colors hover:text-ink"
+          >
+            <LogOut className="h-4 w-4" /> Sign out
+          </button>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-10">
+        <div role="tablist" className="mb-8 inline-flex gap-1 rounded-full border border-ink/10 p-1 font-sans text-sm font-medium">
+          {(['waitlist', 'enrollments', 'funnel', 'experiments', 'incidents'] as const).map(id => (
+            <button
+              key={id}
+              type="button"
+              role="tab"
+              aria-selected={tab === id}
+              onClick={() => setTab(id)}
+              className={cn(
+                "rounded-full px-5 py-2 capitalize transition-colors",
+                tab === id ? "bg-moss text-cream" : "text-ink/60 hover:text-ink"
+              )}
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'waitlist' && (
+          <RecordsView key="waitlist" resource="waitlist" columns={waitlistColumns} onUnauthorized={expire} />
+        )}
+        {tab === 'enrollments' && (
+          <RecordsView key="enrollments" resource="enrollments" columns={enrollmentColumns} onUnauthorized={expire} />
+        )}
+        {tab === 'funnel' && <FunnelView onUnauthorized={expire} />}
+        {tab === 'experiments' && <ExperimentsView onUnauthorized={expire} />}
+        {tab === 'incidents' && <IncidentsView onUnauthorized={expire} />}
+      </main>
+    </div>
+  );
+}
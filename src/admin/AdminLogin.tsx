@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { Button, Field, Input } from '../components/ui/index.ts';
+import { postJson } from '../lib/api.ts';
+
+export function AdminLogin({ onSignedIn }: { onSignedIn: () => void }) {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string>();
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      await postJson('/api/admin/session', { password });
+      onSignedIn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed.');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-surface p-6 text-ink">
+      <form onSubmit={handleSubmit} className="flex w-full max-w-sm flex-col gap-5 rounded-[2.5rem] border border-ink/10 p-10">
+        <div>
+          <div className="font-mono text-[10px] uppercase tracking-widest text-ink/50 mb-2">Nura Health</div>
+          <h1 className="font-heading text-3xl font-bold">Admin sign in</h1>
+        </div>
+        <Field label="Password" error={error}>
+          {(id, describedBy) => (
+            <Input
+              id={id}
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={password}
+              onChange={event => setPassword(event.target.value)}
+              aria-invalid={!!error}
+              aria-describedby={describedBy}
+            />
+          )}
+        </Field>
+        <Button type="submit" disabled={!password} loading={submitting} className="w-full">
+          Sign in
+        </Button>
+      </form>
+    </div>
+  );
+}
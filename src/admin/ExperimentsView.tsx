@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '../components/ui/index.ts';
+import { ApiError, getJson } from '../lib/api.ts';
+import type { RecordFilters } from '../lib/admin.ts';
+import { SIGNIFICANCE_LEVEL, type ExperimentReport, type ExperimentResult } from '../lib/experiments.ts';
+import { cn } from '../lib/utils.ts';
+import { toQuery } from './RecordsView.tsx';
+
+const filterClass = "rounded-full border border-ink/15 bg-surface px-4 py-2 font-sans text-sm outline-none focus:border-accent";
+
+const formatPercent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+const formatSigned = (value: number) => `${value >= 0 ? '+' : '−'}${formatPercent(Math.abs(value))}`;
+
+export function ExperimentsView({ onUnauthorized }: { onUnauthorized: () => void }) {
+  const [range, setRange] = useState<Pick<RecordFilters, 'from' | 'to'>>({});
+  const [report, setReport] = useState<ExperimentReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(undefined);
+    getJson<ExperimentReport>(`/api/admin/analytics/experiments?${toQuery(range)}`)
+      .then(data => { if (!cancelled) setReport(data); })
+      .catch(err => {
+        if (cancelled) return;
+        if (err instanceof ApiError && err.status === 401) onUnauthorized();
+        else setError(err instanceof Error ? err.message : 'Something went wrong.');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [range, onUnauthorized]);
+
+  const setBound = (key: 'from' | 'to') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRange(prev => ({ ...prev, [key]: event.target.value }));
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-ink/50">
+          From <input type="date" value={range.from ?? ''} onChange={setBound('from')} className={filterClass} />
+        </label>
+        <label className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-ink/50">
+          To <input type="date" value={range.to ?? ''} onChange={setBound('to')} className={filterClass} />
+        </label>
+        {loading && <Loader2 className="h-4 w-4 animate-spin text-ink/50" />}
+      </div>
+
+      {error && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{error}</p>}
+
+      {report?.experiments.map(experiment => <ExperimentCard key={experiment.id} experiment={experiment} />)}
+    </div>
+  );
+}
+
+function ExperimentCard({ experiment }: { experiment: ExperimentResult }) {
+  return (
+    <section className="overflow-x-auto rounded-[2rem] border border-ink/10">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 px-6 pt-6 pb-4">
+        <div>
+          <h2 className="font-heading text-xl font-bold">{experiment.description}</h2>
+          <p className="font-sans text-sm text-ink/60">
+            <span className="font-mono text-xs">{experiment.id}</span> · Goal: {experiment.goal}
+          </p>
+        </div>
+        <Badge tone={experiment.status === 'running' ? 'positive' : 'neutral'}>{experiment.status}</Badge>
+      </div>
+      <table className="w-full text-left font-sans text-sm">
+        <thead className="border-y border-ink/10 bg-charcoal/[0.03]">
+          <tr>
+            {['Variant', 'Visitors', 'Conversions', 'Rate', 'Lift', '95% CI (difference)', 'p-value'].map(label => (
+              <th key={label} scope="col" className="px-5 py-4 font-mono text-[10px] font-medium uppercase tracking-widest text-ink/50">{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {experiment.variants.map((variant, index) => (
+            <tr key={variant.id} className="border-b border-ink/5 last:border-0">
+              <td className="px-5 py-4 font-mono text-xs">
+                {variant.id}
+                {index === 0 && <span className="ml-2 text-ink/40">(control)</span>}
+              </td>
+              <td className="px-5 py-4 font-mono text-xs">{variant.visitors}</td>
+              <td className="px-5 py-4 font-mono text-xs">{variant.conversions}</td>
+              <td className="px-5 py-4 font-mono text-xs">{formatPercent(variant.rate)}</td>
+              {variant.comparison ? (
+                <>
+                  <td className={cn("px-5 py-4 font-mono text-xs", variant.comparison.significant && (variant.comparison.interval[0] > 0 ? "text-accent" : "text-clay"))}>
+                    {variant.comparison.lift === null ? '—' : formatSigned(variant.comparison.lift)}
+                  </td>
+                  <td className="px-5 py-4 font-mono text-xs">
+                    {formatSigned(variant.comparison.interval[0])} to {formatSigned(variant.comparison.interval[1])}
+                  </td>
+                  <td className="px-5 py-4 font-mono text-xs">
+                    {variant.comparison.pValue.toFixed(3)}
+                    {variant.comparison.significant && <span className="ml-2 rounded-full bg-moss px-2 py-0.5 text-[10px] text-cream">significant</span>}
+                  </td>
+                </>
+              ) : (
+                <td colSpan={3} className="px-5 py-4 text-ink/40">{index === 0 ? 'Baseline' : 'Not enough data'}</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="px-6 py-4 font-sans text-xs text-ink/50">
+        Visitors count once per variant, and convert with the goal event in any session after their first exposure. Significance uses a two-sided two-proportion z-test at p &lt; {SIGNIFICANCE_LEVEL}.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { ApiError, getJson } from '../lib/api.ts';
+import type { RecordFilters } from '../lib/admin.ts';
+import type { FunnelReport } from '../lib/analytics.ts';
+import { toQuery } from './RecordsView.tsx';
+import { cn } from '../lib/utils.ts';
+
+const filterClass = "rounded-full border border-ink/15 bg-surface px-4 py-2 font-sans text-sm outline-none focus:border-accent";
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function FunnelView({ onUnauthorized }: { onUnauthorized: () => void }) {
+  const [range, setRange] = useState<Pick<RecordFilters, 'from' | 'to'>>({});
+  const [report, setReport] = useState<FunnelReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(undefined);
+    getJson<FunnelReport>(`/api/admin/analytics/funnel?${toQuery(range)}`)
+      .then(data => { if (!cancelled) setReport(data); })
+      .catch(err => {
+        if (cancelled) return;
+        if (err instanceof ApiError && err.status === 401) onUnauthorized();
+        else setError(err instanceof Error ? err.message : 'Something went wrong.');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [range, onUnauthorized]);
+
+  const setBound = (key: 'from' | 'to') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRange(prev => ({ ...prev, [key]: event.target.value }));
+  };
+
+  const top = report?.steps[0]?.sessions ?? 0;
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-ink/50">
+          From <input type="date" value={range.from ?? ''} onChange={setBound('from')} className={filterClass} />
+        </label>
+        <label className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-ink/50">
+          To <input type="date" value={range.to ?? ''} onChange={setBound('to')} className={filterClass} />
+        </label>
+        {loading && <Loader2 className="h-4 w-4 animate-spin text-ink/50" />}
+      </div>
+
+      {error && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{error}</p>}
+
+      {report && (
+        <section className="rounded-[2rem] border border-ink/10 p-8">
+          <h2 className="font-heading text-xl font-bold mb-1">Conversion funnel</h2>
+          <p className="font-sans text-sm text-ink/60 mb-8">
+            Sessions that reached each step after every earlier one. Only visitors who allowed analytics are counted.
+          </p>
+          <ol className="flex flex-col gap-5">
+            {report.steps.map((step, index) => {
+              const previous = index > 0 ? report.steps[index - 1].sessions : step.sessions;
+              const share = top ? step.sessions / top : 0;
+              const dropOff = previous ? 1 - step.sessions / previous : 0;
+              return (
+                <li key={step.id} className="grid grid-cols-[10rem_1fr_8rem] items-center gap-4 font-sans text-sm">
+                  <span className="font-medium">{step.label}</span>
+                  <div className="h-8 rounded-full bg-ink/5">
+                    <div
+                      className={cn("flex h-8 items-center rounded-full px-3 font-mono text-xs text-cream", index === report.steps.length - 1 ? "bg-clay" : "bg-moss")}
+                      style={{ width: `${Math.max(share * 100, step.sessions ? 4 : 0)}%` }}
+                    >
+                      {step.sessions > 0 && step.sessions}
+                    </div>
+                  </div>
+                  <span className="font-mono text-xs text-ink/60">
+                    {formatPercent(share)}
+                    {index > 0 && <span className="ml-2 text-clay">−{formatPercent(dropOff)}</span>}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      )}
+
+      {report && (
+        <section className="overflow-x-auto rounded-[2rem] border border-ink/10">
+          <table className="w-full text-left font-sans text-sm">
+            <thead className="border-b border-ink/10 bg-charcoal/[0.03]">
+              <tr>
+                {['CTA', 'Placement', 'Clicks'].map(label => (
+                  <th key={label} scope="col" className="px-5 py-4 font-mono text-[10px] font-medium uppercase tracking-widest text-ink/50">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.ctaClicks.map(row => (
+                <tr key={`${row.target}-${row.placement}`} className="border-b border-ink/5 last:border-0">
+                  <td className="px-5 py-4 font-mono text-xs">{row.target}</td>
+                  <td className="px-5 py-4">{row.placement || '—'}</td>
+                  <td className="px-5 py-4 font-mono text-xs">{row.clicks}</td>
+                </tr>
+              ))}
+              {report.ctaClicks.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-5 py-12 text-center text-ink/50">No CTA clicks in this range.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge, Button, Field, Input, Select, Textarea } from '../components/ui/index.ts';
+import { ApiError, getJson, postJson } from '../lib/api.ts';
+import {
+  INCIDENT_IMPACTS,
+  INCIDENT_STATUSES,
+  type Incident,
+  type IncidentFieldErrors,
+  type IncidentImpact,
+  type IncidentStatus,
+} from '../lib/status.ts';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+interface Draft {
+  title: string;
+  impact: IncidentImpact;
+  status: IncidentStatus;
+  message: string;
+}
+
+const EMPTY_DRAFT: Draft = { title: '', impact: 'degraded', status: 'investigating', message: '' };
+
+function OptionSelect<T extends string>({ id, value, options, onChange }: { id: string; value: T; options: readonly T[]; onChange: (value: T) => void }) {
+  return (
+    <Select id={id} value={value} onChange={event => onChange(event.target.value as T)} className="capitalize">
+      {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </Select>
+  );
+}
+
+/**
+ * Posts an incident, or an update to `incident` when given. Updates carry the
+ * incident's title and impact forward, so only status and message are required.
+ */
+function IncidentForm({ incident, onSaved, onError }: { incident?: Incident; onSaved: (incident: Incident) => void; onError: (error: unknown) => void }) {
+  const [draft, setDraft] = useState<Draft>(() => incident ? { ...EMPTY_DRAFT, title: incident.title, impact: incident.impact, status: incident.status } : EMPTY_DRAFT);
+  const [errors, setErrors] = useState<IncidentFieldErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const set = <K extends keyof Draft>(key: K) => (value: Draft[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setErrors({});
+    try {
+      const saved = incident
+        ? await postJson<Incident>(`/api/admin/incidents/${incident.id}/updates`, { status: draft.status, message: draft.message, impact: draft.impact })
+        : await postJson<Incident>('/api/admin/incidents', draft);
+      onSaved(saved);
+      setDraft(incident ? { ...draft, message: '' } : EMPTY_DRAFT);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 400) setErrors(error.fieldErrors);
+      else onError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+      {!incident && (
+        <div className="md:col-span-2">
+          <Field label="Title" error={errors.title}>
+            {(id, describedBy) => (
+              <Input id={id} value={draft.title} onChange={event => set('title')(event.target.value)} aria-invalid={!!errors.title} aria-describedby={describedBy} />
+            )}
+          </Field>
+        </div>
+      )}
+      <Field label="Impact" error={errors.impact}>
+        {id => <OptionSelect id={id} value={draft.impact} options={INCIDENT_IMPACTS} onChange={set('impact')} />}
+      </Field>
+      <Field label="Status" error={errors.status}>
+        {id => <OptionSelect id={id} value={draft.status} options={INCIDENT_STATUSES} onChange={set('status')} />}
+      </Field>
+      <div className="md:col-span-2">
+        <Field label={incident ? 'Update' : 'Message'} error={errors.message}>
+          {(id, describedBy) => (
+            <Textarea
+              id={id}
+              rows={3}
+              value={draft.message}
+              onChange={event => set('message')(event.target.value)}
+              aria-invalid={!!errors.message}
+              aria-describedby={describedBy}
+            />
+          )}
+        </Field>
+      </div>
+      <div className="md:col-span-2">
+        <Button type="submit" size="sm" loading={saving}>
+          {incident ? 'Post update' : 'Open incident'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function IncidentsView({ onUnauthorized }: { onUnauthorized: () => void }) {
+  const [incidents, setIncidents] = useState<Incident[] | null>(null);
+  const [error, setError] = useState<string>();
+
+  const handleError = (err: unknown) => {
+    if (err instanceof ApiError && err.status === 401) onUnauthorized();
+    else setError(err instanceof Error ? err.message : 'Something went wrong.');
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    getJson<Incident[]>('/api/admin/incidents')
+      .then(data => { if (!cancelled) setIncidents(data); })
+      .catch(err => { if (!cancelled) handleError(err); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const upsert = (incident: Incident) => {
+    setIncidents(prev => [incident, ...(prev ?? []).filter(item => item.id !== incident.id)]);
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      {error && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{error}</p>}
+
+      <section className="rounded-[2rem] border border-ink/10 p-8">
+        <h2 className="font-heading text-xl font-bold mb-1">Open an incident</h2>
+        <p className="font-sans text-sm text-ink/60 mb-6">Incidents appear on the public status page and set the footer status until they're resolved.</p>
+        <IncidentForm onSaved={upsert} onError={handleError} />
+      </section>
+
+      {!incidents && !error && <Loader2 className="h-5 w-5 animate-spin text-ink/50" />}
+
+      {incidents?.map(incident => (
+        <section key={incident.id} className="rounded-[2rem] border border-ink/10 p-8">
+          <div className="mb-4 flex flex-wrap items-baseline justify-between gap-3">
+            <h3 className="font-heading text-lg font-bold">{incident.title}</h3>
+            <Badge tone={incident.status === 'resolved' ? 'positive' : 'critical'}>
+              {incident.status} · {incident.impact}
+            </Badge>
+          </div>
+          <ol className="mb-6 flex flex-col gap-3 border-l border-ink/10 pl-4 font-sans text-sm">
+            {incident.updates.map(update => (
+              <li key={`${update.createdAt}-${update.status}`}>
+                <div className="font-mono text-[10px] uppercase tracking-widest text-ink/50">{update.status} · {formatDate(update.createdAt)}</div>
+                <p className="text-ink/80">{update.message}</p>
+              </li>
+            ))}
+          </ol>
+          {incident.status !== 'resolved' && <IncidentForm incident={incident} onSaved={upsert} onError={handleError} />}
+        </section>
+      ))}
+      {incidents?.length === 0 && <p className="font-sans text-sm text-ink/50">No incidents yet.</p>}
+    </div>
+  );
+}
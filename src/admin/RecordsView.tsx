@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, Loader2 } from 'lucide-react';
+import { ApiError, getJson, requestJson } from '../lib/api.ts';
+import {
+  LEAD_STATUSES,
+  LEAD_STATUS_LABELS,
+  type EnrollmentRecord,
+  type LeadStatus,
+  type Page,
+  type RecordFilters,
+  type WaitlistRecord,
+} from '../lib/admin.ts';
+import { MEMBERSHIP_TIERS, formatPrice } from '../lib/membership.ts';
+import { TIER_INTERESTS, TIER_INTEREST_LABELS } from '../lib/waitlist.ts';
+import { cn } from '../lib/utils.ts';
+
+type Resource = 'waitlist' | 'enrollments';
+
+interface Column<T> {
+  label: string;
+  render: (row: T, update: (row: T) => void, onError: (error: unknown) => void) => React.ReactNode;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+function StatusSelect({ record, onChange, onError }: { record: WaitlistRecord; onChange: (row: WaitlistRecord) => void; onError: (error: unknown) => void }) {
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setSaving(true);
+    try {
+      onChange(await requestJson<WaitlistRecord>('PATCH', `/api/admin/waitlist/${record.id}`, { status: event.target.value }));
+    } catch (error) {
+      onError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <select
+      value={record.status}
+      disabled={saving}
+      onChange={handleChange}
+      aria-label={`Status for ${record.email}`}
+      className={cn(
+        "rounded-full border px-3 py-1 font-mono text-[10px] uppercase tracking-widest outline-none",
+        record.status === 'new' && "border-ink/15 text-ink/60",
+        record.status === 'contacted' && "border-clay/40 text-clay",
+        record.status === 'invited' && "border-moss bg-moss text-cream"
+      )}
+    >
+      {LEAD_STATUSES.map(status => (
+        <option key={status} value={status}>{LEAD_STATUS_LABELS[status as LeadStatus]}</option>
+      ))}
+    </select>
+  );
+}
+
+export const waitlistColumns: Column<WaitlistRecord>[] = [
+  { label: 'Name', render: row => <span className="font-medium">{row.name}</span> },
+  {
+    label: 'Email',
+    render: row => (
+      <span className="flex flex-col">
+        {row.email}
+        {(!row.confirmedAt || row.unsubscribedAt) && (
+          <span className="font-mono text-[10px] uppercase tracking-widest text-clay">{row.unsubscribedAt ? 'Unsubscribed' : 'Unconfirmed'}</span>
+        )}
+      </span>
+    ),
+  },
+  { label: 'Tier', render: row => TIER_INTEREST_LABELS[row.tier] ?? row.tier },
+  { label: 'Referral', render: row => <span className="font-mono text-xs">{row.referralCode ?? '—'}</span> },
+  { label: 'Referred', render: row => <span className="font-mono text-xs">{row.referrals}</span> },
+  { label: 'Bio age', render: row => <span className="font-mono text-xs">{row.estimatedAge ?? '—'}</span> },
+  { label: 'Joined', render: row => formatDate(row.createdAt) },
+  { label: 'Status', render: (row, update, onError) => <StatusSelect record={row} onChange={update} onError={onError} /> },
+];
+
+export const enrollmentColumns: Column<EnrollmentRecord>[] = [
+  { label: 'Name', render: row => <span className="font-medium">{row.name}</span> },
+  { label: 'Email', render: row => row.email },
+  { label: 'Tier', render: row => MEMBERSHIP_TIERS.find(tier => tier.id === row.tier)?.name ?? row.tier },
+  { label: 'Billing', render: row => <span className="capitalize">{row.billingPeriod}</span> },
+  { label: 'Amount', render: row => formatPrice(row.amount) },
+  { label: 'Created', render: row => formatDate(row.createdAt) },
+  { label: 'Status', render: row => <span className="font-mono text-[10px] uppercase tracking-widest">{row.status}</span> },
+];
+
+const STATUS_FILTERS: Record<Resource, readonly string[]> = {
+  waitlist: LEAD_STATUSES,
+  enrollments: ['pending', 'active', 'cancelled'],
+};
+
+const TIER_FILTERS: Record<Resource, readonly string[]> = {
+  waitlist: TIER_INTERESTS,
+  enrollments: MEMBERSHIP_TIERS.map(tier => tier.id),
+};
+
+export function toQuery(filters: RecordFilters) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+const filterClass = "rounded-full border border-ink/15 bg-surface px-4 py-2 font-sans text-sm outline-none focus:border-accent";
+
+export function RecordsView<T extends { id: string | number }>({ resource, columns, onUnauthorized }: { resource: Resource; columns: Column<T>[]; onUnauthorized: () => void }) {
+  const [filters, setFilters] = useState<RecordFilters>({ page: 1 });
+  const [search, setSearch] = useState('');
+  const [data, setData] = useState<Page<T> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const handleError = (err: unknown) => {
+    if (err instanceof ApiError && err.status === 401) onUnauthorized();
+    else setError(err instanceof Error ? err.message : 'Something went wrong.');
+  };
+
+  // Debounce free-text search so typing doesn't fire a request per keystroke.
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters(prev => (prev.q ?? '') === search ? prev : { ...prev, q: search, page: 1 });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(undefined);
+    getJson<Page<T>>(`/api/admin/${resource}?${toQuery(filters)}`)
+      .then(page => { if (!cancelled) setData(page); })
+      .catch(err => { if (!cancelled) handleError(err); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [resource, filters]);
+
+  const setFilter = (key: keyof RecordFilters) => (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setFilters(prev => ({ ...prev, [key]: event.target.value, page: 1 }));
+  };
+
+  const updateRow = (row: T) => {
+    setData(prev => prev && { ...prev, items: prev.items.map(item => item.id === row.id ? row : item) });
+  };
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const { page: _page, ...exportFilters } = filters;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          placeholder="Search name or email"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          className={cn(filterClass, "min-w-[240px] flex-1")}
+        />
+        <select value={filters.tier ?? ''} onChange={setFilter('tier')} aria-label="Tier" className={filterClass}>
+          <option value="">All tiers</option>
+          {TIER_FILTERS[resource].map(tier => (
+            <option key={tier} value={tier}>{TIER_INTEREST_LABELS[tier as keyof typeof TIER_INTEREST_LABELS] ?? tier}</option>
+          ))}
+        </select>
+        <select value={filters.status ?? ''} onChange={setFilter('status')} aria-label="Status" className={cn(filterClass, "capitalize")}>
+          <option value="">All statuses</option>
+          {STATUS_FILTERS[resource].map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-ink/50">
+          From <input type="date" value={filters.from ?? ''} onChange={setFilter('from')} className={filterClass} />
+        </label>
+        <label className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-ink/50">
+          To <input type="date" value={filters.to ?? ''} onChange={setFilter('to')} className={filterClass} />
+        </label>
+        <a
+          href={`/api/admin/${resource}.csv?${toQuery(exportFilters)}`}
+          className="ml-auto flex items-center gap-2 rounded-full border border-ink/20 px-4 py-2 font-sans text-sm font-semibold transition-colors hover:border-ink"
+        >
+          <Download className="h-4 w-4" /> Export CSV
+        </a>
+      </div>
+
+      {error && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{error}</p>}
+
+      <div className="overflow-x-auto rounded-[2rem] border border-ink/10">
+        <table className="w-full text-left font-sans text-sm">
+          <thead className="border-b border-ink/10 bg-charcoal/[0.03]">
+            <tr>
+              {columns.map(column => (
+                <th key={column.label} scope="col" className="px-5 py-4 font-mono text-[10px] font-medium uppercase tracking-widest text-ink/50">
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data?.items.map(row => (
+              <tr key={row.id} className="border-b border-ink/5 last:border-0">
+                {columns.map(column => (
+                  <td key={column.label} className="px-5 py-4 align-middle">{column.render(row, updateRow, handleError)}</td>
+                ))}
+              </tr>
+            ))}
+            {data && data.items.length === 0 && (
+              <tr>
+                <td colSpan={columns.length} className="px-5 py-12 text-center text-ink/50">No records match these filters.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between font-sans text-sm text-ink/60">
+        <span className="flex items-center gap-2">
+          {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {data ? `${data.total} record${data.total === 1 ? '' : 's'}` : ''}
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            aria-label="Previous page"
+            disabled={(filters.page ?? 1) <= 1}
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page ?? 1) - 1 }))}
+            className="rounded-full border border-ink/15 p-2 disabled:opacity-40"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="font-mono text-xs">Page {filters.page ?? 1} of {pageCount}</span>
+          <button
+            type="button"
+            aria-label="Next page"
+            disabled={(filters.page ?? 1) >= pageCount}
+            onClick={() => setFilters(prev => ({ ...prev, page: (prev.page ?? 1) + 1 }))}
+            className="rounded-full border border-ink/15 p-2 disabled:opacity-40"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef } from 'react';
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { useConsent } from './Consent.tsx';
+import {
+  MAX_BATCH_SIZE,
+  SCROLL_DEPTHS,
+  type AnalyticsEvent,
+  type EventBatch,
+  type TrackedSection,
+} from '../lib/analytics.ts';
+import { usePathname } from '../lib/router.ts';
+
+type TrackedEvent = Omit<AnalyticsEvent, 'path' | 'occurredAt'>;
+
+interface AnalyticsContextValue {
+  /** False until the visitor allows the analytics consent category; events are dropped meanwhile. */
+  enabled: boolean;
+  track: (event: TrackedEvent) => void;
+  /**
+   * The tab's analytics session, sent with signups and bookings so deleting
+   * them can delete their events too. Undefined while analytics is off.
+   */
+  currentSessionId: () => string | undefined;
+}
+
+const AnalyticsContext = createContext<AnalyticsContextValue | null>(null);
+
+export function useAnalytics() {
+  const context = useContext(AnalyticsContext);
+  if (!context) throw new Error('useAnalytics must be used inside <AnalyticsProvider>');
+  return context;
+}
+
+const SESSION_KEY = 'nura.analytics.session';
+const VISITOR_KEY = 'nura.visitor';
+const FLUSH_INTERVAL_MS = 10_000;
+
+/** A random id per browser tab; sessionStorage forgets it when the tab closes. */
+function sessionId() {
+  try {
+    let id = window.sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      window.sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
+let fallbackVisitorId: string | undefined;
+
+/**
+ * A random id that outlives the tab, so a returning visitor lands in the same
+ * experiment bucket and is counted once however many sessions they have.
+ */
+export function visitorId() {
+  try {
+    let id = window.localStorage.getItem(VISITOR_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      window.localStorage.setItem(VISITOR_KEY, id);
+    }
+    return id;
+  } catch {
+    // Private mode or storage disabled: stay sticky for this page load at least.
+    fallbackVisitorId ??= crypto.randomUUID();
+    return fallbackVisitorId;
+  }
+}
+
+function send(batch: EventBatch) {
+  const body = JSON.stringify(batch);
+  if (navigator.sendBeacon?.('/api/events', new Blob([body], { type: 'application/json' }))) return;
+  fetch('/api/events', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true }).catch(() => undefined);
+}
+
+export function AnalyticsProvider({ children }: { children: React.ReactNode }) {
+  const { hasConsent } = useConsent();
+  const enabled = hasConsent('analytics');
+  const enabledRef = useRef(enabled);
+  const queueRef = useRef<AnalyticsEvent[]>([]);
+  const pathname = usePathname();
+
+  enabledRef.current = enabled;
+
+  const flush = useCallback(() => {
+    while (queueRef.current.length > 0) {
+      send({ sessionId: sessionId(), visitorId: visitorId(), events: queueRef.current.splice(0, MAX_BATCH_SIZE) });
+    }
+  }, []);
+
+  const track = useCallback((event: TrackedEvent) => {
+    if (!enabledRef.current) return;
+    queueRef.current.push({ ...event, path: window.location.pathname, occurredAt: new Date().toISOString() });
+    if (queueRef.current.length >= MAX_BATCH_SIZE) flush();
+  }, [flush]);
+
+  // Batches go out on a timer and whenever the page may be about to disappear.
+  useEffect(() => {
+    if (!enabled) {
+      queueRef.current = [];
+      return;
+    }
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [enabled, flush]);
+
+  // Every <Button> carries data-cta; its placement is the nearest tagged region or section.
+  useEffect(() => {
+    if (!enabled) return;
+    const handleClick = (event: MouseEvent) => {
+      const element = (event.target as Element).closest<HTMLElement>('[data-cta]');
+      if (!element) return;
+      const placement = element.closest<HTMLElement>('[data-placement]')?.dataset.placement ?? element.closest('section[id]')?.id ?? 'page';
+      track({ type: 'cta_click', target: element.dataset.cta, placement });
+    };
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, [enabled, track]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const reached = new Set<number>();
+    const handleScroll = () => {
+      const scrollable = document.documentElement.scrollHeight;
+      const percent = ((window.scrollY + window.innerHeight) / scrollable) * 100;
+      SCROLL_DEPTHS.forEach(depth => {
+        if (percent >= depth - 1 && !reached.has(depth)) {
+          reached.add(depth);
+          track({ type: 'scroll_depth', target: '', value: depth });
+        }
+      });
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [enabled, track, pathname]);
+
+  const currentSessionId = useCallback(() => (enabledRef.current ? sessionId() : undefined), []);
+
+  const value = useMemo(() => ({ enabled, track, currentSessionId }), [enabled, track, currentSessionId]);
+
+  return <AnalyticsContext.Provider value={value}>{children}</AnalyticsContext.Provider>;
+}
+
+/** Records the first time a section scrolls into view, using the same ScrollTrigger engine as the animations. */
+export function useSectionImpression(ref: React.RefObject<Element | null>, section: TrackedSection) {
+  const { enabled, track } = useAnalytics();
+
+  useEffect(() => {
+    if (!enabled || !ref.current) return;
+    const trigger = ScrollTrigger.create({
+      trigger: ref.current,
+      start: 'top 60%',
+      once: true,
+      onEnter: () => track({ type: 'section_view', target: section }),
+    });
+    return () => trigger.kill();
+  }, [enabled, track, ref, section]);
+}
@@ -0,0 +1,299 @@
+import React, { useState } from 'react';
+import { ArrowLeft, ArrowRight, RotateCcw } from 'lucide-react';
+import { Button, Card, Input, Section } from './ui/index.ts';
+import { useWaitlist } from './Waitlist.tsx';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { LOCALE_INFO } from '../i18n/locales.ts';
+import type { MessageKey } from '../i18n/messages/index.ts';
+import {
+  ASSESSMENT_STEPS,
+  CHOICE_OPTIONS,
+  LAB_RANGES,
+  MAX_AGE,
+  MIN_AGE,
+  assessmentAnswersSchema,
+  scoreAssessment,
+  type AssessmentAnswers,
+  type AssessmentResult,
+  type ChoiceQuestion,
+  type LabQuestion,
+} from '../lib/assessment.ts';
+import { getTier } from '../lib/membership.ts';
+import { check } from '../lib/schema.ts';
+import { cn } from '../lib/utils.ts';
+
+type Question = keyof AssessmentAnswers;
+/** Form state: every answer as the raw string the visitor entered or picked. */
+type Draft = Partial<Record<Question, string>>;
+
+const NUMBER_RANGES: Record<'age' | LabQuestion, { min: number; max: number; step: number; unit?: string }> = {
+  age: { min: MIN_AGE, max: MAX_AGE, step: 1 },
+  ...LAB_RANGES,
+};
+
+const YES_NO_QUESTIONS = new Set<ChoiceQuestion>(['strength', 'familyLongevity', 'familyCardio', 'familyDiabetes']);
+
+function isChoice(question: Question): question is ChoiceQuestion {
+  return question in CHOICE_OPTIONS;
+}
+
+function optionKey(question: ChoiceQuestion, option: string) {
+  return (YES_NO_QUESTIONS.has(question) ? `assessment.o.${option}` : `assessment.o.${question}.${option}`) as MessageKey;
+}
+
+/** Converts the draft into typed answers; blank lab values are simply omitted. */
+function toAnswers(draft: Draft) {
+  const raw = Object.fromEntries(
+    Object.entries(draft)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([question, value]) => [question, isChoice(question as Question) ? value : Number(value)])
+  );
+  return check(assessmentAnswersSchema, raw);
+}
+
+function validateStep(questions: readonly Question[], draft: Draft, t: ReturnType<typeof useI18n>['t']) {
+  const errors: Partial<Record<Question, string>> = {};
+  questions.forEach(question => {
+    const value = draft[question];
+    if (isChoice(question)) {
+      if (!value) errors[question] = t('assessment.required');
+      return;
+    }
+    const range = NUMBER_RANGES[question];
+    if (!value) {
+      if (question === 'age') errors[question] = t('assessment.required');
+      return;
+    }
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < range.min || number > range.max) {
+      errors[question] = t('assessment.invalidNumber', { min: range.min, max: range.max });
+    }
+  });
+  return errors;
+}
+
+function ChoiceField({ question, value, error, onChange }: { question: ChoiceQuestion; value?: string; error?: string; onChange: (value: string) => void }) {
+  const { t } = useI18n();
+  return (
+    <fieldset className="flex flex-col gap-3">
+      <legend className="mb-3 font-heading text-lg font-semibold">{t(`assessment.q.${question}`)}</legend>
+      <div className="flex flex-wrap gap-2">
+        {CHOICE_OPTIONS[question].map(option => (
+          <label
+            key={option}
+            className={cn(
+              "cursor-pointer rounded-full border px-4 py-2 font-sans text-sm transition-colors has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-accent/40",
+              value === option ? "border-moss bg-moss text-cream" : "border-ink/15 hover:border-ink/40"
+            )}
+          >
+            <input
+              type="radio"
+              name={question}
+              value={option}
+              checked={value === option}
+              onChange={() => onChange(option)}
+              className="sr-only"
+            />
+            {t(optionKey(question, option))}
+          </label>
+        ))}
+      </div>
+      {error && <p className="font-sans text-xs text-clay">{error}</p>}
+    </fieldset>
+  );
+}
+
+function NumberField({ question, value, error, onChange }: { question: 'age' | LabQuestion; value?: string; error?: string; onChange: (value: string) => void }) {
+  const { t } = useI18n();
+  const range = NUMBER_RANGES[question];
+  const id = `assessment-${question}`;
+  return (
+    <div className="flex flex-col gap-3">
+      <label htmlFor={id} className="font-heading text-lg font-semibold">
+        {t(`assessment.q.${question}`)}
+        {range.unit && <span className="ms-2 font-mono text-xs font-normal text-ink/50">{range.unit}</span>}
+      </label>
+      <Input
+        id={id}
+        type="number"
+        inputMode="decimal"
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        value={value ?? ''}
+        onChange={event => onChange(event.target.value)}
+        aria-invalid={!!error}
+        className="w-40 font-mono"
+      />
+      {error && <p className="font-sans text-xs text-clay">{error}</p>}
+    </div>
+  );
+}
+
+function AssessmentResults({ answers, result, onRestart }: { answers: AssessmentAnswers; result: AssessmentResult; onRestart: () => void }) {
+  const { locale, t } = useI18n();
+  const { openWaitlist } = useWaitlist();
+  const intl = LOCALE_INFO[locale].intl;
+  const years = new Intl.NumberFormat(intl, { maximumFractionDigits: 1 });
+  const signedYears = new Intl.NumberFormat(intl, { maximumFractionDigits: 1, signDisplay: 'exceptZero' });
+  const difference = Math.round((result.estimatedAge - result.chronologicalAge) * 10) / 10;
+  const tier = getTier(result.recommendedTier);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-12">
+      <div className="lg:col-span-2 flex flex-col gap-6">
+        <div className="font-mono text-xs uppercase tracking-widest text-ink/50">{t('assessment.result.title')}</div>
+        <div className="font-drama text-8xl md:text-9xl italic text-accent leading-none">{years.format(result.estimatedAge)}</div>
+        <p className="font-sans text-lg text-ink/70">
+          {difference === 0
+            ? t('assessment.result.same')
+            : t(difference < 0 ? 'assessment.result.younger' : 'assessment.result.older', { count: Math.abs(difference) })}
+        </p>
+
+        <Card variant="accent" className="border-0 p-8">
+          <h3 className="font-heading text-2xl font-bold mb-3">{t('assessment.recommend.title', { tier: tier.name })}</h3>
+          <p className="font-sans text-sm text-cream/80 mb-6">{t(`assessment.reason.${result.recommendationReason}`)}</p>
+          <Button
+            cta="assessment-waitlist"
+            variant="secondary"
+            className="w-full"
+            onClick={() => openWaitlist({ tier: tier.id, assessment: { answers, estimatedAge: result.estimatedAge } })}
+          >
+            {t('assessment.continue')}
+          </Button>
+        </Card>
+
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onRestart}
+          startIcon={<RotateCcw className="h-4 w-4" />}
+          className="-ms-5 self-start text-ink/60 hover:text-ink"
+        >
+          {t('assessment.restart')}
+        </Button>
+      </div>
+
+      <div className="lg:col-span-3">
+        <h3 className="font-heading text-xl font-bold mb-6">{t('assessment.result.factors')}</h3>
+        <ul className="divide-y divide-ink/10 border-y border-ink/10">
+          {result.factors.map(factor => (
+            <li key={factor.question} className="flex items-start gap-6 py-4">
+              <span
+                className={cn(
+                  "w-20 shrink-0 font-mono text-sm font-semibold",
+                  factor.impact === 'better' && "text-accent",
+                  factor.impact === 'worse' && "text-clay",
+                  factor.impact === 'neutral' && "text-ink/40"
+                )}
+              >
+                {t('assessment.unit.years', { value: signedYears.format(factor.years) })}
+              </span>
+              <div>
+                <div className="font-heading font-semibold">{t(`assessment.q.${factor.question}`)}</div>
+                <p className="font-sans text-sm text-ink/70">{t(`assessment.explain.${factor.question}`)}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export function Assessment() {
+  const { content, t } = useI18n();
+  const [stepIndex, setStepIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft>({});
+  const [errors, setErrors] = useState<Partial<Record<Question, string>>>({});
+  const [completed, setCompleted] = useState<{ answers: AssessmentAnswers; result: AssessmentResult } | null>(null);
+  const { assessment } = content;
+
+  const update = (question: Question) => (value: string) => {
+    setDraft(prev => ({ ...prev, [question]: value }));
+    setErrors(prev => ({ ...prev, [question]: undefined }));
+  };
+
+  const restart = () => {
+    setDraft({});
+    setErrors({});
+    setCompleted(null);
+    setStepIndex(0);
+  };
+
+  const handleNext = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (stepIndex === null) return;
+    const stepErrors = validateStep(ASSESSMENT_STEPS[stepIndex].questions, draft, t);
+    if (Object.keys(stepErrors).length > 0) {
+      setErrors(stepErrors);
+      return;
+    }
+    if (stepIndex < ASSESSMENT_STEPS.length - 1) {
+      setStepIndex(stepIndex + 1);
+      return;
+    }
+    const checked = toAnswers(draft);
+    if ('value' in checked) setCompleted({ answers: checked.value, result: scoreAssessment(checked.value) });
+  };
+
+  const step = stepIndex === null ? null : ASSESSMENT_STEPS[stepIndex];
+
+  return (
+    <Section id="assessment">
+      <div className="max-w-2xl mb-16">
+        <div className="font-mono text-xs uppercase tracking-widest text-clay mb-4">{assessment.eyebrow}</div>
+        <h2 className="font-heading text-4xl md:text-5xl font-bold mb-4">{assessment.heading}</h2>
+        <p className="font-sans text-ink/60">{assessment.subheading}</p>
+      </div>
+
+      <Card className="rounded-[3rem] p-8 md:p-16 shadow-xl">
+        {completed ? (
+          <AssessmentResults answers={completed.answers} result={completed.result} onRestart={restart} />
+        ) : step === null ? (
+          <Button cta="assessment-start" onClick={() => setStepIndex(0)} endIcon={<ArrowRight className="w-4 h-4 rtl:-scale-x-100" />}>
+            {t('assessment.start')}
+          </Button>
+        ) : (
+          <form onSubmit={handleNext} noValidate className="flex flex-col gap-10">
+            <div>
+              <div className="font-mono text-xs uppercase tracking-widest text-ink/50 mb-2">
+                {t('assessment.stepOf', { current: stepIndex! + 1, total: ASSESSMENT_STEPS.length })}
+              </div>
+              <h3 className="font-heading text-3xl font-bold">{t(`assessment.step.${step.id}`)}</h3>
+              {step.id === 'labs' && <p className="mt-2 font-sans text-sm text-ink/60">{t('assessment.labsHint')}</p>}
+              <div className="mt-6 h-1 w-full rounded-full bg-ink/5">
+                <div
+                  className="h-1 rounded-full bg-moss transition-all duration-500"
+                  style={{ width: `${((stepIndex! + 1) / ASSESSMENT_STEPS.length) * 100}%` }}
+                />
+              </div>
+            </div>
+
+            {step.questions.map((question: Question) =>
+              isChoice(question) ? (
+                <ChoiceField key={question} question={question} value={draft[question]} error={errors[question]} onChange={update(question)} />
+              ) : (
+                <NumberField key={question} question={question} value={draft[question]} error={errors[question]} onChange={update(question)} />
+              )
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              {stepIndex! > 0 ? (
+                <Button type="button" variant="outline" onClick={() => setStepIndex(stepIndex! - 1)} startIcon={<ArrowLeft className="w-4 h-4 rtl:-scale-x-100" />}>
+                  {t('assessment.back')}
+                </Button>
+              ) : <span />}
+              <Button type="submit" endIcon={<ArrowRight className="w-4 h-4 rtl:-scale-x-100" />}>
+                {t(stepIndex === ASSESSMENT_STEPS.length - 1 ? 'assessment.seeResults' : 'assessment.next')}
+              </Button>
+            </div>
+          </form>
+        )}
+      </Card>
+
+      <p className="mt-8 max-w-3xl font-sans text-xs text-ink/50 leading-relaxed">{assessment.disclaimer}</p>
+    </Section>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, MessageCircle, Send, X } from 'lucide-react';
+import { Input } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import type { MessageKey } from '../i18n/messages/index.ts';
+import { ApiError, postStream } from '../lib/api.ts';
+import { MAX_CHAT_MESSAGES, MAX_CHAT_MESSAGE_LENGTH, type ChatMessage } from '../lib/chat.ts';
+import { cn } from '../lib/utils.ts';
+
+const SUGGESTIONS: MessageKey[] = ['chat.suggestion.tiers', 'chat.suggestion.protocol', 'chat.suggestion.assessment'];
+
+function ChatPanel({ onClose }: { onClose: () => void }) {
+  const { locale, t } = useI18n();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string>();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [messages]);
+
+  const send = async (text: string) => {
+    const content = text.trim();
+    if (!content || streaming) return;
+
+    const history = [...messages, { role: 'user' as const, content }];
+    setMessages([...history, { role: 'assistant', content: '' }]);
+    setDraft('');
+    setError(undefined);
+    setStreaming(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const appendToReply = (chunk: string) => setMessages(prev => {
+      const reply = prev[prev.length - 1];
+      return [...prev.slice(0, -1), { ...reply, content: reply.content + chunk }];
+    });
+
+    try {
+      await postStream('/api/chat', { locale, messages: history.slice(-MAX_CHAT_MESSAGES) }, appendToReply, controller.signal);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      // Drop the empty reply bubble; the question stays so it can be retried.
+      setMessages(prev => prev[prev.length - 1].content ? prev : prev.slice(0, -1));
+      setError(t(err instanceof ApiError && err.status === 429 ? 'chat.rateLimited' : 'common.error'));
+    } finally {
+      if (!controller.signal.aborted) setStreaming(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    send(draft);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby="chat-title"
+      className="fixed bottom-6 end-6 z-[90] flex print:hidden h-[min(560px,calc(100dvh-3rem))] w-[calc(100vw-3rem)] max-w-sm flex-col overflow-hidden rounded-[2rem] border border-ink/10 bg-surface text-ink shadow-2xl"
+    >
+      <div className="flex items-start justify-between gap-4 bg-moss px-6 py-5 text-cream">
+        <div>
+          <h2 id="chat-title" className="font-heading text-lg font-bold">{t('chat.title')}</h2>
+          <p className="font-sans text-xs text-cream/70">{t('chat.subtitle')}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label={t('common.close')}
+          className="rounded-full p-1 text-cream/70 transition-colors hover:text-cream"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div ref={logRef} aria-live="polite" className="flex flex-1 flex-col gap-3 overflow-y-auto px-5 py-5 font-sans text-sm">
+        <p className="max-w-[85%] rounded-2xl rounded-ss-sm bg-ink/5 px-4 py-3">{t('chat.greeting')}</p>
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(key => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => send(t(key))}
+                className="rounded-full border border-accent/30 px-3 py-1.5 text-xs text-accent transition-colors hover:bg-moss hover:text-cream"
+              >
+                {t(key)}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, index) => (
+          <p
+            key={index}
+            className={cn(
+              "max-w-[85%] whitespace-pre-wrap rounded-2xl px-4 py-3",
+              message.role === 'user' ? "self-end rounded-se-sm bg-moss text-cream" : "rounded-ss-sm bg-ink/5"
+            )}
+          >
+            {message.content || <Loader2 className="h-4 w-4 animate-spin text-ink/40" aria-label={t('chat.thinking')} />}
+          </p>
+        ))}
+        {error && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 text-clay">{error}</p>}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 border-t border-ink/10 px-4 py-3">
+        <Input
+          ref={inputRef}
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          placeholder={t('chat.placeholder')}
+          aria-label={t('chat.placeholder')}
+          className="rounded-full py-2.5"
+        />
+        <button
+          type="submit"
+          disabled={streaming || !draft.trim()}
+          aria-label={t('chat.send')}
+          className="shrink-0 rounded-full bg-moss p-3 text-cream transition-opacity disabled:opacity-40"
+        >
+          <Send className="h-4 w-4 rtl:-scale-x-100" />
+        </button>
+      </form>
+      <p className="px-6 pb-4 font-sans text-[10px] leading-snug text-ink/50">{t('chat.disclaimer')}</p>
+    </div>
+  );
+}
+
+/** Floating concierge launcher; the conversation lives only as long as the panel is open. */
+export function Chat() {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  if (open) return <ChatPanel onClose={() => setOpen(false)} />;
+
+  return (
+    <button
+      type="button"
+      onClick={() => setOpen(true)}
+      className="fixed bottom-6 end-6 z-[90] flex print:hidden items-center gap-2 rounded-full bg-moss px-5 py-3 font-sans text-sm font-semibold text-cream shadow-xl transition-transform hover:scale-[1.03]"
+    >
+      <MessageCircle className="h-5 w-5" /> {t('chat.open')}
+    </button>
+  );
+}
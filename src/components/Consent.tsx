@@ -0,0 +1,121 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Link } from './Link.tsx';
+import { Button } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import {
+  CONSENT_CATEGORIES,
+  activateConsentedScripts,
+  readConsent,
+  storeConsent,
+  type ConsentCategory,
+  type ConsentChoices,
+  type ConsentRecord,
+} from '../lib/consent.ts';
+import { useHydrated } from '../lib/hydration.ts';
+import { LEGAL_PATHS } from '../lib/legal.ts';
+
+interface ConsentContextValue {
+  /** `null` until the visitor has made a choice. */
+  consent: ConsentRecord | null;
+  hasConsent: (category: ConsentCategory) => boolean;
+  openConsentSettings: () => void;
+}
+
+const ConsentContext = createContext<ConsentContextValue | null>(null);
+
+export function useConsent() {
+  const context = useContext(ConsentContext);
+  if (!context) throw new Error('useConsent must be used inside <ConsentProvider>');
+  return context;
+}
+
+export function ConsentProvider({ children }: { children: React.ReactNode }) {
+  const [stored, setConsent] = useState(readConsent);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  // Prerendered pages assume no choice yet and leave the banner out; both catch up once hydrated.
+  const hydrated = useHydrated();
+  const consent = hydrated ? stored : null;
+
+  useEffect(() => {
+    activateConsentedScripts(consent);
+  }, [consent]);
+
+  const hasConsent = useCallback((category: ConsentCategory) => !!consent?.[category], [consent]);
+  const openConsentSettings = useCallback(() => setSettingsOpen(true), []);
+
+  const save = (choices: ConsentChoices) => {
+    setConsent(storeConsent(choices));
+    setSettingsOpen(false);
+  };
+
+  return (
+    <ConsentContext.Provider value={{ consent, hasConsent, openConsentSettings }}>
+      {children}
+      {hydrated && (!consent || settingsOpen) && <ConsentBanner initial={consent} customizing={settingsOpen} onSave={save} />}
+    </ConsentContext.Provider>
+  );
+}
+
+const allChoices = (value: boolean) =>
+  Object.fromEntries(CONSENT_CATEGORIES.map(category => [category, value])) as ConsentChoices;
+
+function ConsentBanner({ initial, customizing, onSave }: { initial: ConsentChoices | null; customizing: boolean; onSave: (choices: ConsentChoices) => void }) {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(customizing);
+  const [choices, setChoices] = useState<ConsentChoices>(() => initial ?? allChoices(false));
+
+  return (
+    <section
+      aria-labelledby="consent-title"
+      data-placement="consent"
+      className="fixed bottom-6 start-6 z-[95] print:hidden w-[calc(100vw-3rem)] max-w-md rounded-[2rem] border border-ink/10 bg-surface p-6 text-ink shadow-2xl"
+    >
+      <h2 id="consent-title" className="font-heading text-lg font-bold mb-2">{t('consent.title')}</h2>
+      <p className="font-sans text-sm text-ink/70 mb-5">
+        {t('consent.body')}{' '}
+        <Link href={LEGAL_PATHS.privacy} className="text-accent underline underline-offset-2 hover:text-clay">{t('consent.privacyLink')}</Link>
+      </p>
+
+      {expanded && (
+        <ul className="mb-5 flex flex-col gap-3 font-sans text-sm">
+          <li className="flex items-start gap-3">
+            <input type="checkbox" checked disabled className="mt-1 h-4 w-4 accent-moss" aria-labelledby="consent-necessary" />
+            <div>
+              <div id="consent-necessary" className="font-semibold">{t('consent.necessary')}</div>
+              <p className="text-xs text-ink/60">{t('consent.necessaryDescription')}</p>
+            </div>
+          </li>
+          {CONSENT_CATEGORIES.map(category => (
+            <li key={category}>
+              <label className="flex cursor-pointer items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={choices[category]}
+                  onChange={event => setChoices(prev => ({ ...prev, [category]: event.target.checked }))}
+                  className="mt-1 h-4 w-4 accent-moss"
+                />
+                <div>
+                  <div className="font-semibold">{t(`consent.${category}`)}</div>
+                  <p className="text-xs text-ink/60">{t(`consent.${category}Description`)}</p>
+                </div>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Accept and reject get equal weight so declining is as easy as agreeing. */}
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => onSave(allChoices(false))}>{t('consent.rejectAll')}</Button>
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => onSave(allChoices(true))}>{t('consent.acceptAll')}</Button>
+        {expanded ? (
+          <Button size="sm" className="w-full" onClick={() => onSave(choices)}>{t('consent.save')}</Button>
+        ) : (
+          <Button variant="link" size="sm" type="button" onClick={() => setExpanded(true)} className="w-full pt-1 font-normal text-ink/60 hover:text-ink">
+            {t('consent.customize')}
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+}
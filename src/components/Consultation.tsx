@@ -0,0 +1,615 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowRight, CalendarPlus, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { useAnalytics } from './Analytics.tsx';
+import { Link } from './Link.tsx';
+import { PolicyConsent } from './Privacy.tsx';
+import { Button, Field, Input, Select, Textarea } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { LOCALE_INFO } from '../i18n/locales.ts';
+import { ApiError, getJson, postJson } from '../lib/api.ts';
+import {
+  CONSULTATION_PATH,
+  addDays,
+  dateKey,
+  manageBookingHref,
+  validateBookingInput,
+  weekday,
+  zonedDate,
+  zonedTimeToUtc,
+  type Availability,
+  type Booking,
+  type BookingFieldErrors,
+  type BookingResponse,
+  type Clinician,
+  type Slot,
+  type ZonedDate,
+} from '../lib/booking.ts';
+import { useHydrated } from '../lib/hydration.ts';
+import { PRIVACY_POLICY_VERSION } from '../lib/privacy.ts';
+import { useSearchParam } from '../lib/router.ts';
+import { cn } from '../lib/utils.ts';
+
+const API = '/api/consultations';
+const PREVIEW_SLOTS = 3;
+const PREVIEW_DAYS = 14;
+
+const detectedTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+function timeZoneOptions(current: string) {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+/** Formats instants in the visitor's chosen zone and the page's locale. */
+function useSlotFormat(timeZone: string) {
+  const { locale } = useI18n();
+  return useMemo(() => {
+    const intl = LOCALE_INFO[locale].intl;
+    const time = new Intl.DateTimeFormat(intl, { timeZone, hour: 'numeric', minute: '2-digit' });
+    const full = new Intl.DateTimeFormat(intl, { timeZone, dateStyle: 'full', timeStyle: 'short' });
+    const zoneName = new Intl.DateTimeFormat(intl, { timeZone, timeZoneName: 'short' });
+    // Calendar days are plain dates, so they're formatted in UTC to avoid shifting them.
+    const weekdayShort = new Intl.DateTimeFormat(intl, { timeZone: 'UTC', weekday: 'short' });
+    const dayMonth = new Intl.DateTimeFormat(intl, { timeZone: 'UTC', day: 'numeric', month: 'short' });
+    const monthYear = new Intl.DateTimeFormat(intl, { timeZone: 'UTC', month: 'long', year: 'numeric' });
+    const asDate = ({ year, month, day }: ZonedDate) => new Date(Date.UTC(year, month - 1, day));
+    return {
+      time: (iso: string) => time.format(new Date(iso)),
+      full: (iso: string) =>
+        `${full.format(new Date(iso))} ${zoneName.formatToParts(new Date(iso)).find(part => part.type === 'timeZoneName')?.value ?? ''}`.trim(),
+      weekday: (day: ZonedDate) => weekdayShort.format(asDate(day)),
+      dayMonth: (day: ZonedDate) => dayMonth.format(asDate(day)),
+      monthYear: (day: ZonedDate) => monthYear.format(asDate(day)),
+    };
+  }, [locale, timeZone]);
+}
+
+/** Open slots from `from` to `to` (UTC ms); bump `reload` to fetch again after a conflict. */
+function useAvailability(from: number, to: number, reload = 0) {
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAvailability(null);
+    setFailed(false);
+    const params = new URLSearchParams({ from: new Date(from).toISOString(), to: new Date(to).toISOString() });
+    getJson<Availability>(`${API}/availability?${params}`)
+      .then(data => { if (!cancelled) setAvailability(data); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [from, to, reload]);
+
+  return { availability, failed };
+}
+
+type CalendarView = 'week' | 'month';
+
+const startOfWeek = (day: ZonedDate) => addDays(day, -((weekday(day) + 6) % 7));
+
+/** Monday-first days shown by the view containing `anchor`: one week, or the six weeks covering its month. */
+function visibleDays(view: CalendarView, anchor: ZonedDate) {
+  const first = view === 'week' ? startOfWeek(anchor) : startOfWeek({ ...anchor, day: 1 });
+  return Array.from({ length: view === 'week' ? 7 : 42 }, (_, index) => addDays(first, index));
+}
+
+/**
+ * Week and month calendars of open slots, rendered in `timeZone`. With no
+ * clinician chosen, a time shows once and books whichever clinician is free.
+ */
+function SlotCalendar({ timeZone, clinicianId, reload, onSelect, onClinicians }: {
+  timeZone: string;
+  clinicianId: string;
+  reload: number;
+  onSelect: (slot: Slot) => void;
+  onClinicians?: (clinicians: Clinician[]) => void;
+}) {
+  const { t } = useI18n();
+  const format = useSlotFormat(timeZone);
+  const today = zonedDate(Date.now(), timeZone);
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(today);
+  const [openDay, setOpenDay] = useState<string>();
+
+  const days = visibleDays(view, anchor);
+  const from = zonedTimeToUtc(days[0], 0, timeZone) ?? zonedTimeToUtc(days[0], 60, timeZone)!;
+  const end = addDays(days[days.length - 1], 1);
+  const to = zonedTimeToUtc(end, 0, timeZone) ?? zonedTimeToUtc(end, 60, timeZone)!;
+  const { availability, failed } = useAvailability(from, to, reload);
+
+  useEffect(() => {
+    if (availability) onClinicians?.(availability.clinicians);
+  }, [availability, onClinicians]);
+
+  const slotsByDay = useMemo(() => {
+    const byDay = new Map<string, Slot[]>();
+    const seen = new Set<string>();
+    for (const slot of availability?.slots ?? []) {
+      if (clinicianId ? slot.clinicianId !== clinicianId : seen.has(slot.start)) continue;
+      seen.add(slot.start);
+      const key = dateKey(zonedDate(Date.parse(slot.start), timeZone));
+      byDay.set(key, [...(byDay.get(key) ?? []), slot]);
+    }
+    return byDay;
+  }, [availability, clinicianId, timeZone]);
+
+  const step = (direction: 1 | -1) => {
+    setOpenDay(undefined);
+    // addDays also rolls an out-of-range month (0 or 13) over into the neighbouring year.
+    setAnchor(prev => view === 'week' ? addDays(prev, 7 * direction) : addDays({ year: prev.year, month: prev.month + direction, day: 1 }, 0));
+  };
+  const canGoBack = dateKey(days[0]) > dateKey(today);
+
+  const slotButton = (slot: Slot) => (
+    <button
+      key={`${slot.clinicianId}-${slot.start}`}
+      type="button"
+      onClick={() => onSelect(slot)}
+      className="rounded-full border border-ink/15 px-3 py-1.5 font-mono text-xs transition-colors hover:border-accent hover:bg-moss hover:text-cream"
+    >
+      {format.time(slot.start)}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" className="p-2 disabled:opacity-30" onClick={() => step(-1)} disabled={!canGoBack} aria-label={t('consultation.previous')}>
+            <ChevronLeft className="h-4 w-4 rtl:-scale-x-100" />
+          </Button>
+          <span className="min-w-40 text-center font-heading font-bold">
+            {view === 'week' ? `${format.dayMonth(days[0])} – ${format.dayMonth(days[6])}` : format.monthYear(anchor)}
+          </span>
+          <Button variant="ghost" size="sm" className="p-2" onClick={() => step(1)} aria-label={t('consultation.next')}>
+            <ChevronRight className="h-4 w-4 rtl:-scale-x-100" />
+          </Button>
+        </div>
+        <div role="group" className="flex rounded-full border border-ink/15 p-1 font-mono text-[10px] uppercase tracking-widest">
+          {(['week', 'month'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={view === option}
+              onClick={() => {
+                setView(option);
+                setOpenDay(undefined);
+              }}
+              className="rounded-full px-3 py-1.5 aria-pressed:bg-moss aria-pressed:text-cream"
+            >
+              {t(`consultation.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {failed && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('common.error')}</p>}
+      {!availability && !failed && <Loader2 className="mx-auto my-8 h-6 w-6 animate-spin text-ink/40" aria-label={t('consultation.loading')} />}
+
+      {availability && view === 'week' && (
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-7">
+          {days.map(day => {
+            const slots = slotsByDay.get(dateKey(day)) ?? [];
+            return (
+              <div key={dateKey(day)} className="flex flex-col gap-2 rounded-2xl border border-ink/10 p-3">
+                <div className="font-mono text-[10px] uppercase tracking-widest text-ink/50">
+                  {format.weekday(day)} {format.dayMonth(day)}
+                </div>
+                {slots.length === 0 ? <span className="font-sans text-xs text-ink/30">—</span> : slots.map(slotButton)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {availability && view === 'month' && (
+        <>
+          <div className="grid grid-cols-7 gap-1">
+            {days.slice(0, 7).map(day => (
+              <div key={`head-${dateKey(day)}`} className="text-center font-mono text-[10px] uppercase tracking-widest text-ink/50">{format.weekday(day)}</div>
+            ))}
+            {days.map(day => {
+              const key = dateKey(day);
+              const count = slotsByDay.get(key)?.length ?? 0;
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  disabled={count === 0}
+                  aria-pressed={openDay === key}
+                  onClick={() => setOpenDay(key)}
+                  className={cn(
+                    "flex aspect-square flex-col items-center justify-center rounded-2xl border font-sans text-sm transition-colors",
+                    day.month === anchor.month ? "border-ink/10" : "border-transparent text-ink/30",
+                    count > 0 && "hover:border-accent aria-pressed:bg-moss aria-pressed:text-cream",
+                    count === 0 && "text-ink/30"
+                  )}
+                >
+                  {day.day}
+                  {count > 0 && <span className="font-mono text-[9px] text-clay">{t('consultation.slotCount', { count })}</span>}
+                </button>
+              );
+            })}
+          </div>
+          {openDay ? (
+            <div className="flex flex-wrap gap-2">{(slotsByDay.get(openDay) ?? []).map(slotButton)}</div>
+          ) : (
+            <p className="font-sans text-sm text-ink/50">{t('consultation.pickDay')}</p>
+          )}
+        </>
+      )}
+
+      {availability && slotsByDay.size === 0 && <p className="font-sans text-sm text-ink/60">{t('consultation.noSlots')}</p>}
+    </div>
+  );
+}
+
+function CalendarControls({ timeZone, onTimeZone, clinicianId, onClinician, clinicians }: {
+  timeZone: string;
+  onTimeZone: (zone: string) => void;
+  clinicianId: string;
+  onClinician: (id: string) => void;
+  clinicians: Clinician[];
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <Field label={t('consultation.clinician')}>
+        {id => (
+          <Select id={id} value={clinicianId} onChange={event => onClinician(event.target.value)}>
+            <option value="">{t('consultation.anyClinician')}</option>
+            {clinicians.map(clinician => <option key={clinician.id} value={clinician.id}>{clinician.name} · {clinician.title}</option>)}
+          </Select>
+        )}
+      </Field>
+      <Field label={t('consultation.timeZone')}>
+        {id => (
+          <Select id={id} value={timeZone} onChange={event => onTimeZone(event.target.value)}>
+            {timeZoneOptions(timeZone).map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+          </Select>
+        )}
+      </Field>
+    </div>
+  );
+}
+
+function BookingSummary({ booking, token }: { booking: Booking; token: string }) {
+  const { t } = useI18n();
+  const format = useSlotFormat(booking.timeZone);
+  const cancelled = booking.status === 'cancelled';
+
+  return (
+    <div className="flex flex-col items-start gap-4">
+      <div className={cn("rounded-[2rem] px-6 py-5 w-full", cancelled ? "bg-clay/10 text-clay" : "bg-moss text-cream")}>
+        <div className="font-heading text-xl font-bold">{format.full(booking.start)}</div>
+        <div className="font-sans text-sm opacity-80">{t('consultation.with', { clinician: booking.clinician.name, title: booking.clinician.title })}</div>
+      </div>
+      {!cancelled && (
+        <Button
+          href={`${API}/${encodeURIComponent(token)}/invite.ics`}
+          download
+          cta="consultation-ics"
+          variant="link"
+          className="font-semibold"
+          startIcon={<CalendarPlus className="h-4 w-4" />}
+        >
+          {t('consultation.addToCalendar')}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function BookingForm({ slot, clinician, timeZone, onBooked, onTaken, onChangeTime }: {
+  slot: Slot;
+  clinician?: Clinician;
+  timeZone: string;
+  onBooked: (response: BookingResponse) => void;
+  onTaken: () => void;
+  onChangeTime: () => void;
+}) {
+  const { t } = useI18n();
+  const format = useSlotFormat(timeZone);
+  const [values, setValues] = useState({ name: '', email: '', notes: '' });
+  const [consented, setConsented] = useState(false);
+  const { currentSessionId } = useAnalytics();
+  const [fieldErrors, setFieldErrors] = useState<BookingFieldErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const update = (field: keyof typeof values) => (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setValues(prev => ({ ...prev, [field]: event.target.value }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = validateBookingInput({
+      ...values,
+      ...slot,
+      timeZone,
+      consentVersion: consented ? PRIVACY_POLICY_VERSION : undefined,
+      analyticsSessionId: currentSessionId(),
+    });
+    if ('errors' in result) {
+      setFieldErrors(result.errors);
+      return;
+    }
+    setSubmitting(true);
+    setFailed(false);
+    try {
+      onBooked(await postJson<BookingResponse>(API, result.value));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) onTaken();
+      else if (error instanceof ApiError && error.status === 400) setFieldErrors(error.fieldErrors);
+      else setFailed(true);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const errorFor = (field: 'name' | 'email' | 'consentVersion') => fieldErrors[field] ? t(`form.error.${field}`) : undefined;
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5 rounded-[2rem] border border-ink/10 p-6 md:p-8">
+      <div className="flex flex-wrap items-baseline justify-between gap-3">
+        <div>
+          <div className="font-heading text-xl font-bold">{format.full(slot.start)}</div>
+          {clinician && <div className="font-sans text-sm text-ink/60">{t('consultation.with', { clinician: clinician.name, title: clinician.title })}</div>}
+        </div>
+        <Button type="button" variant="link" onClick={onChangeTime}>
+          {t('consultation.changeTime')}
+        </Button>
+      </div>
+
+      <div className="grid gap-5 sm:grid-cols-2">
+        <Field label={t('form.name')} error={errorFor('name')}>
+          {(id, describedBy) => (
+            <Input id={id} autoComplete="name" value={values.name} onChange={update('name')} aria-invalid={!!fieldErrors.name} aria-describedby={describedBy} />
+          )}
+        </Field>
+        <Field label={t('form.email')} error={errorFor('email')}>
+          {(id, describedBy) => (
+            <Input id={id} type="email" autoComplete="email" value={values.email} onChange={update('email')} aria-invalid={!!fieldErrors.email} aria-describedby={describedBy} />
+          )}
+        </Field>
+      </div>
+      <Field label={t('consultation.notes')} error={fieldErrors.notes ? t('consultation.error.notes') : undefined}>
+        {(id, describedBy) => (
+          <Textarea id={id} rows={3} value={values.notes} onChange={update('notes')} aria-invalid={!!fieldErrors.notes} aria-describedby={describedBy} />
+        )}
+      </Field>
+      <PolicyConsent
+        checked={consented}
+        onChange={checked => {
+          setConsented(checked);
+          setFieldErrors(prev => ({ ...prev, consentVersion: undefined }));
+        }}
+        error={errorFor('consentVersion')}
+      />
+
+      {failed && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('common.error')}</p>}
+
+      <Button cta="consultation-submit" type="submit" loading={submitting} className="self-start">
+        {t(submitting ? 'consultation.submitting' : 'consultation.submit')}
+      </Button>
+    </form>
+  );
+}
+
+type BookingState =
+  | { step: 'pick'; slot?: Slot }
+  | { step: 'booked'; booking: Booking; token: string };
+
+function BookConsultation() {
+  const { t } = useI18n();
+  const [timeZone, setTimeZone] = useState(detectedTimeZone);
+  const [clinicianId, setClinicianId] = useState('');
+  const [clinicians, setClinicians] = useState<Clinician[]>([]);
+  const [state, setState] = useState<BookingState>({ step: 'pick' });
+  const [reload, setReload] = useState(0);
+  const [taken, setTaken] = useState(false);
+
+  if (state.step === 'booked') {
+    return (
+      <div className="flex flex-col gap-6">
+        <h2 className="font-heading text-2xl font-bold">{t('consultation.confirmedTitle')}</h2>
+        <BookingSummary booking={state.booking} token={state.token} />
+        <p className="font-sans text-sm text-ink/70">
+          {t('consultation.manageHint')}{' '}
+          <Link href={manageBookingHref(state.token)} className="break-all text-accent underline underline-offset-2">
+            {window.location.origin}{manageBookingHref(state.token)}
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <CalendarControls timeZone={timeZone} onTimeZone={setTimeZone} clinicianId={clinicianId} onClinician={setClinicianId} clinicians={clinicians} />
+      {taken && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('consultation.taken')}</p>}
+      {state.slot ? (
+        <BookingForm
+          slot={state.slot}
+          clinician={clinicians.find(clinician => clinician.id === state.slot!.clinicianId)}
+          timeZone={timeZone}
+          onBooked={({ booking, token }) => setState({ step: 'booked', booking, token })}
+          onTaken={() => {
+            setTaken(true);
+            setReload(count => count + 1);
+            setState({ step: 'pick' });
+          }}
+          onChangeTime={() => setState({ step: 'pick' })}
+        />
+      ) : (
+        <SlotCalendar
+          timeZone={timeZone}
+          clinicianId={clinicianId}
+          reload={reload}
+          onClinicians={setClinicians}
+          onSelect={slot => {
+            setTaken(false);
+            setState({ step: 'pick', slot });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/** The page behind the manage link: shows the booking and lets its holder reschedule or cancel it. */
+function ManageConsultation({ token }: { token: string }) {
+  const { t } = useI18n();
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [error, setError] = useState<string>();
+  const [mode, setMode] = useState<'view' | 'reschedule' | 'confirmCancel'>('view');
+  const [timeZone, setTimeZone] = useState(detectedTimeZone);
+  const [clinicianId, setClinicianId] = useState('');
+  const [clinicians, setClinicians] = useState<Clinician[]>([]);
+  const [reload, setReload] = useState(0);
+  const [notice, setNotice] = useState<string>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getJson<Booking>(`${API}/${encodeURIComponent(token)}`)
+      .then(data => { if (!cancelled) setBooking(data); })
+      .catch(err => { if (!cancelled) setError(err instanceof ApiError && err.status === 404 ? t('consultation.notFound') : t('common.error')); });
+    return () => { cancelled = true; };
+  }, [token]);
+
+  const act = async (path: string, payload: unknown, success: string) => {
+    setSaving(true);
+    setError(undefined);
+    try {
+      setBooking(await postJson<Booking>(`${API}/${encodeURIComponent(token)}/${path}`, payload));
+      setNotice(success);
+      setMode('view');
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409 && path === 'reschedule') {
+        setError(t('consultation.taken'));
+        setReload(count => count + 1);
+      } else {
+        setError(err instanceof ApiError && err.status !== 0 ? err.message : t('common.error'));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!booking) {
+    return error
+      ? <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{error}</p>
+      : <Loader2 className="mx-auto h-6 w-6 animate-spin text-ink/40" aria-label={t('consultation.loading')} />;
+  }
+
+  const upcoming = booking.status === 'confirmed' && Date.parse(booking.start) > Date.now();
+
+  return (
+    <div className="flex flex-col gap-8">
+      <BookingSummary booking={booking} token={token} />
+      {notice && <p role="status" className="font-sans text-sm text-accent">{notice}</p>}
+      {error && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{error}</p>}
+
+      {booking.status === 'cancelled' && (
+        <Button href={CONSULTATION_PATH} cta="consultation-book-another" variant="link" className="self-start font-semibold">
+          {t('consultation.bookAnother')}
+        </Button>
+      )}
+
+      {upcoming && mode === 'view' && (
+        <div className="flex flex-wrap gap-3">
+          <Button cta="consultation-reschedule" type="button" onClick={() => setMode('reschedule')}>{t('consultation.reschedule')}</Button>
+          <Button cta="consultation-cancel" type="button" variant="outline" onClick={() => setMode('confirmCancel')}>{t('consultation.cancel')}</Button>
+        </div>
+      )}
+
+      {upcoming && mode === 'confirmCancel' && (
+        <div className="flex flex-wrap gap-3">
+          <Button cta="consultation-cancel-confirm" type="button" loading={saving} onClick={() => act('cancel', {}, t('consultation.cancelled'))}>
+            {t('consultation.cancelConfirm')}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setMode('view')}>{t('consultation.keep')}</Button>
+        </div>
+      )}
+
+      {upcoming && mode === 'reschedule' && (
+        <section className="flex flex-col gap-6">
+          <div className="flex flex-wrap items-baseline justify-between gap-3">
+            <h2 className="font-heading text-2xl font-bold">{t('consultation.rescheduleTitle')}</h2>
+            <Button type="button" variant="link" onClick={() => setMode('view')}>{t('consultation.keep')}</Button>
+          </div>
+          <CalendarControls timeZone={timeZone} onTimeZone={setTimeZone} clinicianId={clinicianId} onClinician={setClinicianId} clinicians={clinicians} />
+          <SlotCalendar
+            timeZone={timeZone}
+            clinicianId={clinicianId}
+            reload={reload}
+            onClinicians={setClinicians}
+            onSelect={slot => { if (!saving) act('reschedule', slot, t('consultation.rescheduled')); }}
+          />
+        </section>
+      )}
+    </div>
+  );
+}
+
+export function ConsultationPage() {
+  const { t, content } = useI18n();
+  const token = useSearchParam('token');
+  // The calendar depends on the visitor's clock and time zone, so it isn't part of the prerendered page.
+  const hydrated = useHydrated();
+
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${t(token ? 'consultation.manage' : 'consultation.title')} | ${content.brand.name}`;
+    return () => { document.title = previous; };
+  }, [t, token, content.brand.name]);
+
+  return (
+    <main className="px-6 pt-40 pb-24 md:px-12">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="font-heading text-4xl md:text-5xl font-bold mb-4">{t(token ? 'consultation.manage' : 'consultation.title')}</h1>
+        {!token && <p className="font-sans text-ink/70 mb-12 max-w-2xl">{t('consultation.intro')}</p>}
+        {!hydrated ? <Loader2 className="mx-auto h-6 w-6 animate-spin text-ink/40" aria-label={t('consultation.loading')} />
+          : token ? <div className="mt-8"><ManageConsultation token={token} /></div>
+          : <BookConsultation />}
+      </div>
+    </main>
+  );
+}
+
+/** The next few open times, for the Features card; booking itself happens on the consultation page. */
+export function ConsultationPreview() {
+  const { t } = useI18n();
+  const timeZone = detectedTimeZone();
+  const format = useSlotFormat(timeZone);
+  // Fixed for the life of the card so the request doesn't refire on every render.
+  const [range] = useState(() => ({ from: Date.now(), to: Date.now() + PREVIEW_DAYS * 24 * 60 * 60 * 1000 }));
+  const { availability, failed } = useAvailability(range.from, range.to);
+  const next = availability?.slots.slice(0, PREVIEW_SLOTS) ?? [];
+  const clinicianName = (id: string) => availability?.clinicians.find(clinician => clinician.id === id)?.name;
+
+  return (
+    <div className="flex h-64 w-full flex-col justify-between rounded-2xl border border-ink/10 bg-surface p-6">
+      <div className="font-mono text-[10px] uppercase tracking-widest text-ink/50">{t('consultation.preview.next')}</div>
+      <ul className="flex flex-col gap-2">
+        {!availability && !failed && <Loader2 className="h-5 w-5 animate-spin text-ink/30" aria-label={t('consultation.loading')} />}
+        {(failed || (availability && next.length === 0)) && <li className="font-sans text-sm text-ink/60">{t('consultation.preview.none')}</li>}
+        {next.map(slot => (
+          <li key={`${slot.clinicianId}-${slot.start}`} className="flex items-center justify-between gap-3 rounded-xl border border-ink/10 px-3 py-2">
+            <span className="font-mono text-xs">{format.weekday(zonedDate(Date.parse(slot.start), timeZone))} {format.time(slot.start)}</span>
+            <span className="truncate font-sans text-xs text-ink/60">{clinicianName(slot.clinicianId)}</span>
+          </li>
+        ))}
+      </ul>
+      <Link
+        href={CONSULTATION_PATH}
+        data-cta="consultation-preview"
+        className="inline-flex items-center gap-2 self-end rounded-full bg-accent/10 px-4 py-1.5 font-mono text-[10px] font-semibold uppercase tracking-wider text-accent hover:bg-moss hover:text-cream"
+      >
+        {t('consultation.preview.cta')} <ArrowRight className="h-3 w-3 rtl:-scale-x-100" />
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import React, { useEffect, useId } from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+
+/** Modal shell shared by the site's forms. `children` receives the id the heading should use for labelling. */
+export function Dialog({ onClose, children }: { onClose: () => void; children: (titleId: string) => React.ReactNode }) {
+  const titleId = useId();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-charcoal/60 backdrop-blur-sm" onClick={onClose} />
+      <div
+        role="dialog"
+        aria-modal="true"
+        data-placement="dialog"
+        aria-labelledby={titleId}
+        className="relative w-full max-w-lg max-h-[90dvh] overflow-y-auto rounded-[2.5rem] bg-surface p-8 md:p-10 shadow-2xl text-ink"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label={t('common.close')}
+          className="absolute end-6 top-6 rounded-full p-2 text-ink/50 transition-colors hover:text-ink"
+        >
+          <X className="h-5 w-5" />
+        </button>
+        {children(titleId)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Dialog } from './Dialog.tsx';
+import { Button, Field, Input } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { ApiError, postJson } from '../lib/api.ts';
+import {
+  validateEnrollmentInput,
+  type BillingPeriod,
+  type EnrollmentFieldErrors,
+  type EnrollmentResponse,
+  type MembershipTier,
+} from '../lib/membership.ts';
+
+type SubmitState =
+  | { status: 'idle' }
+  | { status: 'submitting' }
+  | { status: 'error' }
+  | { status: 'pending'; enrollment: EnrollmentResponse };
+
+export function EnrollmentDialog({ tier, billingPeriod, onClose }: { tier: MembershipTier; billingPeriod: BillingPeriod; onClose: () => void }) {
+  const { content, t, formatPrice } = useI18n();
+  const firstFieldRef = useRef<HTMLInputElement>(null);
+  const [values, setValues] = useState({ name: '', email: '' });
+  const [fieldErrors, setFieldErrors] = useState<EnrollmentFieldErrors>({});
+  const [state, setState] = useState<SubmitState>({ status: 'idle' });
+
+  useEffect(() => {
+    firstFieldRef.current?.focus();
+  }, []);
+
+  const update = (field: keyof typeof values) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setValues(prev => ({ ...prev, [field]: event.target.value }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = validateEnrollmentInput({ ...values, tierId: tier.id, billingPeriod });
+    if ('errors' in result) {
+      setFieldErrors(result.errors);
+      return;
+    }
+
+    setState({ status: 'submitting' });
+    try {
+      const enrollment = await postJson<EnrollmentResponse>('/api/enrollments', result.value);
+      setState({ status: 'pending', enrollment });
+    } catch (error) {
+      if (error instanceof ApiError) setFieldErrors(error.fieldErrors);
+      setState({ status: 'error' });
+    }
+  };
+
+  const errorFor = (field: 'name' | 'email') => fieldErrors[field] ? t(`form.error.${field}`) : undefined;
+
+  const price = (
+    <div className="text-4xl font-bold font-heading">
+      {formatPrice(tier.prices[billingPeriod])}
+      <span className="text-lg text-ink/50 font-sans font-normal">{t(`billing.suffix.${billingPeriod}`)}</span>
+    </div>
+  );
+
+  return (
+    <Dialog onClose={onClose}>
+      {titleId => state.status === 'pending' ? (
+        <div className="flex flex-col items-start gap-6">
+          <div>
+            <div className="font-mono text-[10px] uppercase tracking-widest text-clay mb-2">{t('enrollment.pending')}</div>
+            <h2 id={titleId} className="font-heading text-3xl font-bold mb-2">{t('enrollment.pendingTitle', { tier: tier.name })}</h2>
+            <p className="font-sans text-sm text-ink/70">
+              {t('enrollment.pendingBody')}
+            </p>
+          </div>
+          {price}
+          <div className="font-mono text-[10px] text-ink/50">{t('enrollment.reference', { id: state.enrollment.enrollmentId })}</div>
+          <Button
+            cta="enrollment-pay"
+            type="button"
+            className="w-full"
+            endIcon={<ArrowRight className="w-4 h-4 rtl:-scale-x-100" />}
+            onClick={() => window.location.assign(state.enrollment.checkoutUrl)}
+          >
+            {t('enrollment.checkout')}
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5">
+          <div className="mb-2">
+            <div className="font-mono text-[10px] uppercase tracking-widest text-ink/50 mb-2">{content.membership.tiers[tier.id].cadence}</div>
+            <h2 id={titleId} className="font-heading text-3xl font-bold mb-4">{t('enrollment.title', { tier: tier.name })}</h2>
+            {price}
+          </div>
+
+          <Field label={t('form.name')} error={errorFor('name')}>
+            {(id, describedBy) => (
+              <Input
+                id={id}
+                ref={firstFieldRef}
+                autoComplete="name"
+                value={values.name}
+                onChange={update('name')}
+                aria-invalid={!!fieldErrors.name}
+                aria-describedby={describedBy}
+              />
+            )}
+          </Field>
+
+          <Field label={t('form.email')} error={errorFor('email')}>
+            {(id, describedBy) => (
+              <Input
+                id={id}
+                type="email"
+                autoComplete="email"
+                value={values.email}
+                onChange={update('email')}
+                aria-invalid={!!fieldErrors.email}
+                aria-describedby={describedBy}
+              />
+            )}
+          </Field>
+
+          {state.status === 'error' && (
+            <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('common.error')}</p>
+          )}
+
+          <Button cta="enrollment-submit" type="submit" loading={state.status === 'submitting'} className="mt-2 w-full">
+            {t(state.status === 'submitting' ? 'enrollment.submitting' : 'enrollment.submit')}
+          </Button>
+        </form>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { useAnalytics, visitorId } from './Analytics.tsx';
+import { EXPERIMENTS, assignVariant, controlVariant, type ExperimentId, type VariantId } from '../lib/experiments.ts';
+
+const exposed = new Set<ExperimentId>();
+
+/**
+ * The variant of `id` to render for this visitor. Visitors who haven't allowed
+ * analytics see the control, get no visitor id, and aren't counted.
+ */
+export function useVariant<E extends ExperimentId>(id: E): VariantId<E> {
+  const { enabled, track } = useAnalytics();
+  const running = enabled && EXPERIMENTS[id].status === 'running';
+  const variant = running ? assignVariant(id, visitorId()) : controlVariant(id);
+
+  // Several components can read the same experiment; log it once per page load.
+  useEffect(() => {
+    if (!running || exposed.has(id)) return;
+    exposed.add(id);
+    track({ type: 'exposure', target: id, variant });
+  }, [running, id, variant, track]);
+
+  return variant;
+}
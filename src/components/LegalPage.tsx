@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Markdown } from './Markdown.tsx';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from '../i18n/locales.ts';
+import type { LegalPage as LegalPageId } from '../lib/legal.ts';
+import { parseMarkdown, type MarkdownDocument } from '../lib/markdown.ts';
+
+const sources = import.meta.glob<string>('../content/legal/*/*.md', { query: '?raw', import: 'default' });
+
+const loaded = new Map<string, MarkdownDocument>();
+
+/**
+ * Loads a page's Markdown, falling back to English when a translation is
+ * missing. Parsed pages are kept, so prerendering and hydration can load a
+ * page up front and render it without a loading state.
+ */
+export async function loadLegalPage(page: LegalPageId, locale: Locale) {
+  const key = `${locale}/${page}`;
+  const cached = loaded.get(key);
+  if (cached) return cached;
+  const load = sources[`../content/legal/${locale}/${page}.md`] ?? sources[`../content/legal/${DEFAULT_LOCALE}/${page}.md`];
+  const doc = parseMarkdown(await load());
+  loaded.set(key, doc);
+  return doc;
+}
+
+export function LegalPage({ page }: { page: LegalPageId }) {
+  const { locale, content, t } = useI18n();
+  const [doc, setDoc] = useState<MarkdownDocument | null>(() => loaded.get(`${locale}/${page}`) ?? null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDoc(loaded.get(`${locale}/${page}`) ?? null);
+    setFailed(false);
+    loadLegalPage(page, locale)
+      .then(result => { if (!cancelled) setDoc(result); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [page, locale]);
+
+  useEffect(() => {
+    if (!doc) return;
+    const previous = document.title;
+    document.title = `${doc.meta.title} | ${content.brand.name}`;
+    return () => { document.title = previous; };
+  }, [doc, content.brand.name]);
+
+  const updated = doc?.meta.updated
+    ? new Date(`${doc.meta.updated}T00:00:00Z`).toLocaleDateString(LOCALE_INFO[locale].intl, { dateStyle: 'long', timeZone: 'UTC' })
+    : undefined;
+
+  return (
+    <main className="px-6 pt-40 pb-24 md:px-12">
+      <article className="mx-auto max-w-3xl">
+        {failed && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('common.error')}</p>}
+        {!doc && !failed && <Loader2 className="mx-auto h-6 w-6 animate-spin text-ink/40" aria-label={t('legal.loading')} />}
+        {doc && (
+          <>
+            <h1 className="font-heading text-4xl md:text-5xl font-bold mb-4">{doc.meta.title}</h1>
+            {updated && (
+              <p className="font-mono text-xs uppercase tracking-widest text-ink/50 mb-12">{t('legal.updated', { date: updated })}</p>
+            )}
+            <Markdown blocks={doc.blocks} />
+          </>
+        )}
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1,21 @@
+import React from 'react';
+import { isInternalHref, navigate, resolveHref, usePathname } from '../lib/router.ts';
+
+/**
+ * An anchor that routes same-origin paths through the history API. Modified
+ * clicks (new tab, download) and external links keep the browser's default.
+ */
+export function Link({ href, onClick, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement> & { href: string }) {
+  const pathname = usePathname();
+  const to = resolveHref(href, pathname);
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+    if (props.target || props.download !== undefined || !isInternalHref(to)) return;
+    event.preventDefault();
+    navigate(to);
+  };
+
+  return <a href={to} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Link } from './Link.tsx';
+import type { Block, Inline } from '../lib/markdown.ts';
+
+function InlineNodes({ nodes }: { nodes: Inline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        if (typeof node === 'string') return <React.Fragment key={index}>{node}</React.Fragment>;
+        const children = <InlineNodes nodes={node.children} />;
+        if (node.type === 'strong') return <strong key={index} className="font-semibold text-ink">{children}</strong>;
+        if (node.type === 'em') return <em key={index}>{children}</em>;
+        const external = /^https?:/.test(node.href);
+        return (
+          <Link
+            key={index}
+            href={node.href}
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+            className="text-accent underline underline-offset-2 hover:text-clay"
+          >
+            {children}
+          </Link>
+        );
+      })}
+    </>
+  );
+}
+
+export function Markdown({ blocks }: { blocks: Block[] }) {
+  return (
+    <div className="flex flex-col gap-5 font-sans text-ink/80 leading-relaxed">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return block.level === 2 ? (
+              <h2 key={index} className="mt-6 font-heading text-2xl font-bold text-ink"><InlineNodes nodes={block.children} /></h2>
+            ) : (
+              <h3 key={index} className="mt-2 font-heading text-lg font-semibold text-ink"><InlineNodes nodes={block.children} /></h3>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`flex flex-col gap-2 ps-6 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}><InlineNodes nodes={item} /></li>)}
+              </List>
+            );
+          }
+          default:
+            return <p key={index}><InlineNodes nodes={block.children} /></p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { Link } from './Link.tsx';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { NAV_SECTIONS, sectionHref, type NavSection } from '../lib/sections.ts';
+import { cn } from '../lib/utils.ts';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), select:not([disabled]), input:not([disabled]), [tabindex]:not([tabindex="-1"])';
+/** Tailwind's `md` breakpoint, where the navbar shows its own links again. */
+const DESKTOP_QUERY = '(min-width: 48rem)';
+
+/**
+ * Keeps Tab and Shift+Tab inside `ref` while mounted, starting on its first
+ * control, and hands focus back to whatever had it before on unmount.
+ */
+function useFocusTrap(ref: React.RefObject<HTMLElement | null>) {
+  useEffect(() => {
+    const container = ref.current;
+    if (!container) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const focusable = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+    focusable()[0]?.focus();
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key !== 'Tab') return;
+      const items = focusable();
+      if (!items.length) return;
+      const first = items[0];
+      const last = items[items.length - 1];
+      if (event.shiftKey && document.activeElement === first) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && document.activeElement === last) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+    container.addEventListener('keydown', handleKey);
+    return () => {
+      container.removeEventListener('keydown', handleKey);
+      previous?.focus();
+    };
+  }, [ref]);
+}
+
+/**
+ * The navigation drawer for small screens. `children` holds the controls the
+ * navbar has no room for there (motion, theme, language).
+ */
+export function MobileNav({ id, active, onClose, children }: {
+  id: string;
+  active: NavSection | null;
+  onClose: () => void;
+  children?: React.ReactNode;
+}) {
+  const { content, t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(panelRef);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    // Growing past the breakpoint hides the drawer, so it shouldn't keep trapping focus.
+    const desktop = window.matchMedia(DESKTOP_QUERY);
+    const handleResize = () => {
+      if (desktop.matches) onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    desktop.addEventListener('change', handleResize);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      desktop.removeEventListener('change', handleResize);
+    };
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[60] md:hidden">
+      <div className="absolute inset-0 bg-charcoal/60 backdrop-blur-sm" onClick={onClose} />
+      <div
+        id={id}
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('nav.menu')}
+        data-placement="mobile-nav"
+        className="absolute inset-y-0 end-0 flex w-[min(20rem,85vw)] flex-col gap-10 overflow-y-auto bg-surface p-8 text-ink shadow-2xl"
+      >
+        <div className="flex items-center justify-between">
+          <span className="font-heading text-xl font-bold tracking-tight">{content.brand.name}</span>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={t('nav.closeMenu')}
+            className="rounded-full p-2 text-ink/50 transition-colors hover:text-ink"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <ul className="flex flex-col gap-2 font-heading text-2xl font-bold">
+          {NAV_SECTIONS.map(section => (
+            <li key={section}>
+              <Link
+                href={sectionHref(section)}
+                onClick={onClose}
+                aria-current={active === section ? 'location' : undefined}
+                className={cn("block py-2 transition-colors hover:text-clay", active === section && "text-clay")}
+              >
+                {content.nav.sections[section]}
+              </Link>
+            </li>
+          ))}
+        </ul>
+        {children && <div className="mt-auto flex items-center gap-6 border-t border-ink/10 pt-6">{children}</div>}
+      </div>
+    </div>
+  );
+}
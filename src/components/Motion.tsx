@@ -0,0 +1,124 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { useHydrated } from '../lib/hydration.ts';
+import { cn } from '../lib/utils.ts';
+
+// One switch for every animation on the page. It starts from the visitor's
+// prefers-reduced-motion setting, and the pause control overrides it (the
+// override is remembered). GSAP effects and JS loops read `motionEnabled`;
+// CSS animations are stopped globally through `data-motion` on <html>.
+
+const STORAGE_KEY = 'nura.motion';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+interface MotionContextValue {
+  motionEnabled: boolean;
+  setMotionEnabled: (enabled: boolean) => void;
+  /** False while the tab is in the background. */
+  pageVisible: boolean;
+}
+
+const MotionContext = createContext<MotionContextValue | null>(null);
+
+export function useMotion() {
+  const context = useContext(MotionContext);
+  if (!context) throw new Error('useMotion must be used inside <MotionProvider>');
+  return context;
+}
+
+function readStoredPreference() {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored === 'on' ? true : stored === 'off' ? false : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function storePreference(enabled: boolean) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+  } catch {
+    // Private mode or storage disabled: the choice just won't persist.
+  }
+}
+
+export function MotionProvider({ children }: { children: React.ReactNode }) {
+  const [prefersReduced, setPrefersReduced] = useState(() => typeof window !== 'undefined' && window.matchMedia(REDUCED_MOTION_QUERY).matches);
+  const [choice, setChoice] = useState(readStoredPreference);
+  const [pageVisible, setPageVisible] = useState(() => typeof document === 'undefined' || document.visibilityState === 'visible');
+  // Prerendered pages are rendered with motion on; the visitor's setting applies once hydrated.
+  const hydrated = useHydrated();
+  const motionEnabled = hydrated ? choice ?? !prefersReduced : true;
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = () => setPrefersReduced(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleChange);
+    return () => document.removeEventListener('visibilitychange', handleChange);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.dataset.motion = motionEnabled ? 'on' : 'off';
+  }, [motionEnabled]);
+
+  const setMotionEnabled = useCallback((enabled: boolean) => {
+    storePreference(enabled);
+    setChoice(enabled);
+  }, []);
+
+  const value = useMemo(() => ({ motionEnabled, setMotionEnabled, pageVisible }), [motionEnabled, setMotionEnabled, pageVisible]);
+
+  return <MotionContext.Provider value={value}>{children}</MotionContext.Provider>;
+}
+
+/**
+ * Whether a looping animation inside `ref` should be running right now:
+ * motion is on, the tab is visible and the element is on screen.
+ */
+export function useLoopActive(ref: React.RefObject<Element | null>) {
+  const { motionEnabled, pageVisible } = useMotion();
+  const [onScreen, setOnScreen] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => setOnScreen(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return motionEnabled && pageVisible && onScreen;
+}
+
+/** Wraps CSS-animated decoration so its keyframes only run while it's on screen. */
+export function Loop({ className, children }: { className?: string; children: React.ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const active = useLoopActive(ref);
+  return <div ref={ref} data-loop={active ? 'running' : 'paused'} className={className}>{children}</div>;
+}
+
+export function MotionToggle({ className }: { className?: string }) {
+  const { motionEnabled, setMotionEnabled } = useMotion();
+  const { t } = useI18n();
+  const label = t(motionEnabled ? 'motion.pause' : 'motion.resume');
+
+  return (
+    <button
+      type="button"
+      onClick={() => setMotionEnabled(!motionEnabled)}
+      aria-label={label}
+      title={label}
+      className={cn("rounded-full p-1.5 transition-opacity hover:opacity-70", className)}
+    >
+      {motionEnabled ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+    </button>
+  );
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CloudOff, RefreshCw, X } from 'lucide-react';
+import { Link } from './Link.tsx';
+import { Button } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { CONSULTATION_PATH } from '../lib/booking.ts';
+import type { ClientMessage } from '../lib/offline.ts';
+import { PRIVACY_REQUESTS_PATH } from '../lib/privacy.ts';
+import { PROTOCOL_BUILDER_PATH } from '../lib/protocols.ts';
+import { NAV_SECTIONS, sectionHref } from '../lib/sections.ts';
+import { applyUpdate, cachedPagePaths, useUpdateAvailable, useWorkerMessages } from '../lib/serviceWorker.ts';
+import { STATUS_PATH } from '../lib/status.ts';
+
+/** How long a note about a queued form stays up. */
+const NOTICE_MS = 8000;
+
+/** Names for the pages the offline page can list; anything else it has cached (client routes) is left out. */
+function usePageLabels() {
+  const { t, content } = useI18n();
+  return useMemo(() => new Map<string, string>([
+    [STATUS_PATH, t('status.title')],
+    [CONSULTATION_PATH, t('consultation.title')],
+    [PROTOCOL_BUILDER_PATH, t('protocols.title')],
+    [PRIVACY_REQUESTS_PATH, t('privacy.title')],
+    ...content.footer.columns.flatMap(column => column.links.map(link => [link.href, link.label] as [string, string])),
+  ]), [t, content]);
+}
+
+/**
+ * Shown by the service worker in place of a page it couldn't fetch and hadn't
+ * cached. Lists what it has cached instead: the home page's sections are
+ * always there, other pages once they've been visited or precached.
+ */
+export function OfflinePage() {
+  const { t, content } = useI18n();
+  const labels = usePageLabels();
+  const [paths, setPaths] = useState<string[]>([]);
+
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${t('offline.title')} | ${content.brand.name}`;
+    return () => { document.title = previous; };
+  }, [t, content.brand.name]);
+
+  useEffect(() => {
+    cachedPagePaths().then(setPaths, () => undefined);
+  }, []);
+
+  const pages = paths.filter(path => labels.has(path)).sort((a, b) => labels.get(a)!.localeCompare(labels.get(b)!));
+
+  return (
+    <main className="px-6 pt-40 pb-24 md:px-12">
+      <div className="mx-auto max-w-3xl">
+        <CloudOff className="mb-6 h-10 w-10 text-clay" />
+        <h1 className="font-heading text-4xl md:text-5xl font-bold mb-4">{t('offline.title')}</h1>
+        <p className="font-sans text-ink/70 mb-6">{t('offline.intro')}</p>
+        <p className="font-sans text-sm text-ink/60 mb-8">{t('offline.forms')}</p>
+        <Button cta="offline-retry" type="button" variant="outline" onClick={() => window.location.reload()} startIcon={<RefreshCw className="h-4 w-4" />}>
+          {t('offline.retry')}
+        </Button>
+
+        <div className="mt-16 grid gap-12 md:grid-cols-2">
+          <section>
+            <h2 className="mb-4 font-mono text-[10px] uppercase tracking-widest text-ink/60">{t('offline.sections')}</h2>
+            <ul className="space-y-3 font-sans">
+              {NAV_SECTIONS.map(section => (
+                <li key={section}><Link href={sectionHref(section)} className="hover:text-clay transition-colors">{content.nav.sections[section]}</Link></li>
+              ))}
+            </ul>
+          </section>
+          {pages.length > 0 && (
+            <section>
+              <h2 className="mb-4 font-mono text-[10px] uppercase tracking-widest text-ink/60">{t('offline.pages')}</h2>
+              <ul className="space-y-3 font-sans">
+                {pages.map(path => (
+                  <li key={path}><Link href={path} className="hover:text-clay transition-colors">{labels.get(path)}</Link></li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+/** The "new version" prompt, and a note when a form queued offline has gone out. */
+export function ServiceWorkerNotices() {
+  const { t } = useI18n();
+  const updateAvailable = useUpdateAvailable();
+  const [dismissed, setDismissed] = useState(false);
+  const [sent, setSent] = useState<ClientMessage | null>(null);
+
+  useWorkerMessages(useCallback((message: ClientMessage) => {
+    if (message.type === 'outboxSent') setSent(message);
+  }, []));
+
+  useEffect(() => {
+    if (!sent) return;
+    const timer = window.setTimeout(() => setSent(null), NOTICE_MS);
+    return () => window.clearTimeout(timer);
+  }, [sent]);
+
+  const showUpdate = updateAvailable && !dismissed;
+  if (!showUpdate && !sent) return null;
+
+  return (
+    <div className="fixed inset-x-0 top-24 z-[96] mx-auto flex w-[calc(100vw-3rem)] max-w-md flex-col gap-3 print:hidden">
+      {sent && (
+        <p role="status" className="rounded-2xl border border-ink/10 bg-surface px-5 py-4 font-sans text-sm text-ink shadow-xl">
+          {t(sent.ok ? `offline.sent.${sent.endpoint}` : `offline.rejected.${sent.endpoint}`)}
+        </p>
+      )}
+      {showUpdate && (
+        <div role="status" className="flex items-center gap-3 rounded-2xl border border-ink/10 bg-surface px-5 py-3 font-sans text-sm text-ink shadow-xl">
+          <span className="flex-1">{t('offline.update')}</span>
+          <Button cta="app-update" type="button" size="sm" onClick={applyUpdate}>{t('offline.reload')}</Button>
+          <button type="button" onClick={() => setDismissed(true)} aria-label={t('common.close')} className="rounded-full p-1 text-ink/50 transition-colors hover:text-ink">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import React, { useEffect, useId, useState } from 'react';
+import { Download, Loader2, MailCheck, Trash2 } from 'lucide-react';
+import { Link } from './Link.tsx';
+import { Button, Field, Input } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { ApiError, getJson, postJson } from '../lib/api.ts';
+import { useHydrated } from '../lib/hydration.ts';
+import { LEGAL_PATHS } from '../lib/legal.ts';
+import { validatePrivacyRequest, type DeletionResult, type PrivacySummary } from '../lib/privacy.ts';
+import { useSearchParam } from '../lib/router.ts';
+
+const API = '/api/privacy';
+
+/** The privacy policy checkbox every form that stores personal data carries. */
+export function PolicyConsent({ checked, onChange, error }: { checked: boolean; onChange: (checked: boolean) => void; error?: string }) {
+  const { t } = useI18n();
+  const errorId = useId();
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex items-start gap-3 font-sans text-sm text-ink/80">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={event => onChange(event.target.checked)}
+          aria-invalid={!!error}
+          aria-describedby={error ? errorId : undefined}
+          className="mt-0.5 h-4 w-4 accent-moss"
+        />
+        <span>
+          {t('privacy.consent')}{' '}
+          <Link href={LEGAL_PATHS.privacy} target="_blank" className="text-accent underline underline-offset-2 hover:text-clay">
+            {t('privacy.readPolicy')}
+          </Link>
+        </span>
+      </label>
+      {error && <p id={errorId} className="font-sans text-xs text-clay">{error}</p>}
+    </div>
+  );
+}
+
+function RequestForm({ expired }: { expired?: boolean }) {
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [invalid, setInvalid] = useState(false);
+  const [state, setState] = useState<'idle' | 'submitting' | 'sent' | 'error'>('idle');
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = validatePrivacyRequest({ email });
+    if ('errors' in result) {
+      setInvalid(true);
+      return;
+    }
+    setState('submitting');
+    try {
+      await postJson(`${API}/requests`, result.value);
+      setState('sent');
+    } catch {
+      setState('error');
+    }
+  };
+
+  if (state === 'sent') {
+    return (
+      <div role="status" className="flex items-start gap-4 rounded-[2rem] border border-ink/10 p-6 font-sans text-ink/80">
+        <MailCheck className="mt-0.5 h-6 w-6 shrink-0 text-accent" />
+        <p>{t('privacy.sent', { email })}</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5 rounded-[2rem] border border-ink/10 p-6 md:p-8">
+      {expired && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('privacy.linkExpired')}</p>}
+      <Field label={t('form.email')} error={invalid ? t('form.error.email') : undefined}>
+        {(id, describedBy) => (
+          <Input
+            id={id}
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={event => {
+              setEmail(event.target.value);
+              setInvalid(false);
+            }}
+            aria-invalid={invalid}
+            aria-describedby={describedBy}
+          />
+        )}
+      </Field>
+      {state === 'error' && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('common.error')}</p>}
+      <Button cta="privacy-request" type="submit" loading={state === 'submitting'} className="self-start">
+        {t('privacy.submit')}
+      </Button>
+    </form>
+  );
+}
+
+/** What the verified visitor sees: the summary, the download and the deletion step. */
+function VerifiedRequest({ token }: { token: string }) {
+  const { t } = useI18n();
+  const [summary, setSummary] = useState<PrivacySummary | null>(null);
+  const [expired, setExpired] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [deleted, setDeleted] = useState<DeletionResult | null>(null);
+  const query = `token=${encodeURIComponent(token)}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    getJson<PrivacySummary>(`${API}/summary?${query}`)
+      .then(data => { if (!cancelled) setSummary(data); })
+      .catch(err => {
+        if (cancelled) return;
+        if (err instanceof ApiError && err.status === 404) setExpired(true);
+        else setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [query]);
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setFailed(false);
+    try {
+      setDeleted(await postJson<DeletionResult>(`${API}/delete?${query}`, {}));
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) setExpired(true);
+      else setFailed(true);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  if (expired) return <RequestForm expired />;
+  if (deleted) {
+    return (
+      <div role="status" className="flex flex-col gap-3 rounded-[2rem] border border-ink/10 p-6 font-sans text-ink/80">
+        <p className="font-heading text-xl font-bold text-ink">{t('privacy.deletedTitle')}</p>
+        <p>{t('privacy.deletedBody')}</p>
+        {deleted.enrollmentsRetained > 0 && <p className="text-sm text-ink/60">{t('privacy.enrollmentsRetained', { count: deleted.enrollmentsRetained })}</p>}
+      </div>
+    );
+  }
+  if (!summary) {
+    return failed
+      ? <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('common.error')}</p>
+      : <Loader2 className="mx-auto h-6 w-6 animate-spin text-ink/40" aria-label={t('privacy.loading')} />;
+  }
+
+  const rows = [
+    { label: t('privacy.summary.waitlist'), count: summary.waitlist },
+    { label: t('privacy.summary.bookings'), count: summary.bookings },
+    { label: t('privacy.summary.enrollments'), count: summary.enrollments },
+    { label: t('privacy.summary.analyticsEvents'), count: summary.analyticsEvents },
+    { label: t('privacy.summary.emails'), count: summary.emails },
+  ];
+
+  return (
+    <div className="flex flex-col gap-10">
+      <div>
+        <p className="mb-6 font-sans text-ink/70">{t('privacy.storedFor', { email: summary.email })}</p>
+        <ul className="divide-y divide-ink/10 rounded-[2rem] border border-ink/10 font-sans">
+          {rows.map(row => (
+            <li key={row.label} className="flex items-center justify-between gap-4 px-6 py-4">
+              <span>{row.label}</span>
+              <span className="font-mono text-sm text-ink/60">{row.count}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {failed && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('common.error')}</p>}
+
+      <section className="flex flex-col items-start gap-4">
+        <h2 className="font-heading text-2xl font-bold">{t('privacy.exportTitle')}</h2>
+        <p className="font-sans text-ink/70">{t('privacy.exportBody')}</p>
+        <Button href={`${API}/export?${query}`} download cta="privacy-export" variant="outline" startIcon={<Download className="h-4 w-4" />}>
+          {t('privacy.export')}
+        </Button>
+      </section>
+
+      <section className="flex flex-col items-start gap-4">
+        <h2 className="font-heading text-2xl font-bold">{t('privacy.deleteTitle')}</h2>
+        <p className="font-sans text-ink/70">{t('privacy.deleteBody')}</p>
+        {confirming ? (
+          <div className="flex flex-col gap-4 rounded-2xl bg-clay/10 p-5">
+            <p className="font-sans text-sm text-clay">{t('privacy.deleteConfirm')}</p>
+            <div className="flex flex-wrap gap-3">
+              <Button cta="privacy-delete-confirm" type="button" loading={deleting} onClick={handleDelete} startIcon={<Trash2 className="h-4 w-4" />}>
+                {t('privacy.deleteConfirmButton')}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setConfirming(false)}>{t('privacy.keep')}</Button>
+            </div>
+          </div>
+        ) : (
+          <Button cta="privacy-delete" type="button" variant="outline" onClick={() => setConfirming(true)} startIcon={<Trash2 className="h-4 w-4" />}>
+            {t('privacy.delete')}
+          </Button>
+        )}
+      </section>
+    </div>
+  );
+}
+
+/** Self-service access and deletion: verify an email, then download or delete its data. */
+export function PrivacyRequestsPage() {
+  const { t, content } = useI18n();
+  const token = useSearchParam('token');
+  const hydrated = useHydrated();
+
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${t('privacy.title')} | ${content.brand.name}`;
+    return () => { document.title = previous; };
+  }, [t, content.brand.name]);
+
+  return (
+    <main className="px-6 pt-40 pb-24 md:px-12">
+      <div className="mx-auto max-w-3xl">
+        <h1 className="font-heading text-4xl md:text-5xl font-bold mb-4">{t('privacy.title')}</h1>
+        {!token && <p className="font-sans text-ink/70 mb-12 max-w-2xl">{t('privacy.intro')}</p>}
+        {!hydrated ? <Loader2 className="mx-auto h-6 w-6 animate-spin text-ink/40" aria-label={t('privacy.loading')} />
+          : token ? <div className="mt-8"><VerifiedRequest token={token} /></div>
+          : <RequestForm />}
+      </div>
+    </main>
+  );
+}
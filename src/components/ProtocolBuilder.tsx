@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CalendarPlus, Check, Link2, Printer, Stethoscope, X } from 'lucide-react';
+import { Badge, Button, Field, Select, type BadgeTone } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { LOCALE_INFO } from '../i18n/locales.ts';
+import { CONSULTATION_PATH } from '../lib/booking.ts';
+import { toIcs } from '../lib/ics.ts';
+import {
+  INTERVENTIONS,
+  PROTOCOL_GOALS,
+  TIME_SLOTS,
+  WEEKDAYS,
+  decodePlan,
+  defaultItem,
+  draftProtocol,
+  getIntervention,
+  planInteractions,
+  protocolEvents,
+  protocolHref,
+  type EvidenceLevel,
+  type InterventionId,
+  type ProtocolItem,
+  type ProtocolPlan,
+  type TimeSlot,
+  type Weekday,
+} from '../lib/protocols.ts';
+import { navigate, useSearchParam } from '../lib/router.ts';
+import { cn } from '../lib/utils.ts';
+
+const EVIDENCE_TONES: Record<EvidenceLevel, BadgeTone> = {
+  strong: 'positive',
+  moderate: 'caution',
+  emerging: 'neutral',
+};
+
+/** The plan in the address bar. A link with goals but no schedule yet gets a fresh draft. */
+function usePlan() {
+  const goals = useSearchParam('goals');
+  const items = useSearchParam('plan');
+  const plan = useMemo(() => {
+    const decoded = decodePlan(goals, items);
+    return items === null && decoded.goals.length ? draftProtocol(decoded.goals) : decoded;
+  }, [goals, items]);
+  const setPlan = (next: ProtocolPlan) => navigate(protocolHref(next), { replace: true });
+  return [plan, setPlan] as const;
+}
+
+/** Locale-aware labels for doses and weekdays. */
+function useProtocolFormat() {
+  const { locale, t, content } = useI18n();
+  return useMemo(() => {
+    const intl = LOCALE_INFO[locale].intl;
+    const number = new Intl.NumberFormat(intl, { maximumFractionDigits: 1 });
+    // 1 January 2024 was a Monday; formatted in UTC so the day can't shift.
+    const weekday = (style: 'short' | 'long') => {
+      const format = new Intl.DateTimeFormat(intl, { weekday: style, timeZone: 'UTC' });
+      return (day: Weekday) => format.format(new Date(Date.UTC(2024, 0, 1 + day)));
+    };
+    return {
+      name: (id: InterventionId) => content.protocols.interventions[id].name,
+      dose: (id: InterventionId) => {
+        const { kind, dose } = getIntervention(id);
+        const amount = dose.min === dose.max ? number.format(dose.min) : `${number.format(dose.min)}–${number.format(dose.max)}`;
+        return t(kind === 'habit' ? 'protocols.perSession' : 'protocols.perDay', { dose: `${amount} ${t(`protocols.unit.${dose.unit}`)}` });
+      },
+      shortDay: weekday('short'),
+      longDay: weekday('long'),
+      days: (days: Weekday[]) => days.length === WEEKDAYS.length ? t('protocols.everyDay') : days.map(weekday('long')).join(', '),
+    };
+  }, [locale, t, content]);
+}
+
+function GoalPicker({ plan, onChange }: { plan: ProtocolPlan; onChange: (plan: ProtocolPlan) => void }) {
+  const { t, content } = useI18n();
+  const toggle = (goal: typeof PROTOCOL_GOALS[number]) => {
+    const goals = plan.goals.includes(goal) ? plan.goals.filter(selected => selected !== goal) : [...plan.goals, goal];
+    onChange(draftProtocol(goals, plan));
+  };
+  return (
+    <fieldset>
+      <legend className="mb-4 font-heading text-lg font-semibold">{t('protocols.goals')}</legend>
+      <div className="flex flex-wrap gap-2">
+        {PROTOCOL_GOALS.map(goal => {
+          const selected = plan.goals.includes(goal);
+          return (
+            <button
+              key={goal}
+              type="button"
+              aria-pressed={selected}
+              onClick={() => toggle(goal)}
+              className={cn(
+                "rounded-full border px-4 py-2 font-sans text-sm transition-colors",
+                selected ? "border-moss bg-moss text-cream" : "border-ink/15 hover:border-accent"
+              )}
+            >
+              {content.protocols.goals[goal]}
+            </button>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+}
+
+function ScheduleRow({ item, onChange, onRemove }: { item: ProtocolItem; onChange: (item: ProtocolItem) => void; onRemove: () => void }) {
+  const { t, content } = useI18n();
+  const format = useProtocolFormat();
+  const intervention = getIntervention(item.id);
+  const name = format.name(item.id);
+
+  const toggleDay = (day: Weekday) => {
+    const days = item.days.includes(day) ? item.days.filter(selected => selected !== day) : [...item.days, day].sort();
+    if (days.length) onChange({ ...item, days });
+  };
+
+  return (
+    <tr className="border-t border-ink/10 align-top">
+      <th scope="row" className="py-4 pe-4 text-start font-normal">
+        <div className="font-heading font-semibold">{name}</div>
+        <div className="mt-1 flex flex-wrap items-center gap-2 font-mono text-xs text-ink/60">
+          <span>{format.dose(item.id)}</span>
+          {intervention.withFood && <span>· {t('protocols.withFood')}</span>}
+          <Badge tone={EVIDENCE_TONES[intervention.evidence]} className="px-2 py-0.5">{t(`protocols.evidence.${intervention.evidence}`)}</Badge>
+        </div>
+        <p className="mt-2 max-w-sm font-sans text-xs leading-relaxed text-ink/60">{content.protocols.interventions[item.id].note}</p>
+      </th>
+      <td className="py-4 pe-4">
+        <Select
+          aria-label={t('protocols.time')}
+          value={item.slot}
+          onChange={event => onChange({ ...item, slot: event.target.value as TimeSlot })}
+          className="w-36 py-2"
+        >
+          {TIME_SLOTS.map(slot => <option key={slot} value={slot}>{t(`protocols.slot.${slot}`)}</option>)}
+        </Select>
+      </td>
+      {WEEKDAYS.map(day => {
+        const active = item.days.includes(day);
+        return (
+          <td key={day} className="py-4 text-center">
+            <button
+              type="button"
+              aria-pressed={active}
+              aria-label={t('protocols.toggleDay', { name, day: format.longDay(day) })}
+              // At least one day stays on; removing the row is how to drop it.
+              disabled={active && item.days.length === 1}
+              onClick={() => toggleDay(day)}
+              className={cn(
+                "inline-flex h-8 w-8 items-center justify-center rounded-full border font-mono text-xs transition-colors",
+                active ? "border-moss bg-moss text-cream" : "border-ink/15 text-ink/50 hover:border-accent"
+              )}
+            >
+              {format.shortDay(day).slice(0, 2)}
+            </button>
+          </td>
+        );
+      })}
+      <td className="py-4 ps-2 text-end">
+        <button type="button" onClick={onRemove} aria-label={t('protocols.remove', { name })} className="rounded-full p-2 text-ink/40 transition-colors hover:text-clay">
+          <X className="h-4 w-4" />
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+function Interactions({ plan }: { plan: ProtocolPlan }) {
+  const { t, content } = useI18n();
+  const format = useProtocolFormat();
+  const warnings = planInteractions(plan);
+  if (!warnings.length) return null;
+  return (
+    <section className="rounded-[2rem] border border-clay/30 bg-clay/5 p-6">
+      <h2 className="mb-4 flex items-center gap-2 font-heading text-lg font-bold">
+        <AlertTriangle className="h-5 w-5 text-clay" />
+        {t('protocols.interactions')}
+      </h2>
+      <ul className="flex flex-col gap-3 font-sans text-sm">
+        {warnings.map(warning => (
+          <li key={warning.id}>
+            {content.protocols.interactions[warning.id]}{' '}
+            <span className="text-ink/60">{t('protocols.appliesTo', { names: warning.interventions.map(format.name).join(', ') })}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/** What `window.print()` puts on paper: the schedule by time of day, the warnings and the disclaimer. */
+function PrintableProtocol({ plan }: { plan: ProtocolPlan }) {
+  const { t, content, locale } = useI18n();
+  const format = useProtocolFormat();
+  const date = new Intl.DateTimeFormat(LOCALE_INFO[locale].intl, { dateStyle: 'long' }).format(new Date());
+  return (
+    <div className="hidden font-sans text-sm text-black print:block">
+      <p className="mb-6 font-mono text-xs">{t('protocols.printTitle', { date })}</p>
+      {TIME_SLOTS.map(slot => {
+        const items = plan.items.filter(item => item.slot === slot);
+        if (!items.length) return null;
+        return (
+          <section key={slot} className="mb-6 break-inside-avoid">
+            <h2 className="mb-2 border-b border-black/30 pb-1 font-heading text-lg font-bold">{t(`protocols.slot.${slot}`)}</h2>
+            <ul className="flex flex-col gap-2">
+              {items.map(item => (
+                <li key={item.id}>
+                  <strong>{format.name(item.id)}</strong>: {format.dose(item.id)}
+                  {getIntervention(item.id).withFood && `, ${t('protocols.withFood')}`}. {format.days(item.days)}.
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+      {planInteractions(plan).map(warning => (
+        <p key={warning.id} className="mb-2">
+          {content.protocols.interactions[warning.id]} {t('protocols.appliesTo', { names: warning.interventions.map(format.name).join(', ') })}
+        </p>
+      ))}
+      <p className="mt-6 text-xs">{t('protocols.printLink', { url: `${window.location.origin}${protocolHref(plan)}` })}</p>
+    </div>
+  );
+}
+
+function Actions({ plan }: { plan: ProtocolPlan }) {
+  const { t, content } = useI18n();
+  const format = useProtocolFormat();
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${protocolHref(plan)}`);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be refused; the address bar holds the same link.
+    }
+  };
+
+  const downloadCalendar = () => {
+    const url = `${window.location.origin}${protocolHref(plan)}`;
+    const events = protocolEvents(plan, item => ({
+      summary: `${format.name(item.id)} · ${format.dose(item.id)}`,
+      description: [content.protocols.interventions[item.id].note, t('protocols.disclaimer'), url].join('\n\n'),
+    }));
+    const file = URL.createObjectURL(new Blob([toIcs(events, 'Protocols')], { type: 'text/calendar' }));
+    const link = document.createElement('a');
+    link.href = file;
+    link.download = 'nura-protocol.ics';
+    link.click();
+    // Revoked on the next tick; some browsers start the download asynchronously.
+    window.setTimeout(() => URL.revokeObjectURL(file));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      <Button cta="protocol-calendar" type="button" onClick={downloadCalendar} startIcon={<CalendarPlus className="h-4 w-4" />}>
+        {t('protocols.calendar')}
+      </Button>
+      <Button cta="protocol-share" type="button" variant="outline" onClick={copyLink} startIcon={copied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}>
+        {t(copied ? 'protocols.copied' : 'protocols.copyLink')}
+      </Button>
+      <Button cta="protocol-print" type="button" variant="outline" onClick={() => window.print()} startIcon={<Printer className="h-4 w-4" />}>
+        {t('protocols.print')}
+      </Button>
+      <Button cta="protocol-consultation" href={CONSULTATION_PATH} variant="ghost" startIcon={<Stethoscope className="h-4 w-4" />}>
+        {t('protocols.consult')}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Drafts an example weekly schedule from the visitor's goals. Everything runs
+ * in the browser; the plan only ever leaves it as a link the visitor shares.
+ */
+export function ProtocolBuilderPage() {
+  const { t, content } = useI18n();
+  const format = useProtocolFormat();
+  const [plan, setPlan] = usePlan();
+
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${t('protocols.title')} | ${content.brand.name}`;
+    return () => { document.title = previous; };
+  }, [t, content.brand.name]);
+
+  const updateItem = (next: ProtocolItem) => setPlan({ ...plan, items: plan.items.map(item => item.id === next.id ? next : item) });
+  const removeItem = (id: InterventionId) => setPlan({ ...plan, items: plan.items.filter(item => item.id !== id) });
+  const addItem = (id: InterventionId) => {
+    const items = [...plan.items, defaultItem(getIntervention(id))];
+    setPlan({ ...plan, items: INTERVENTIONS.flatMap(intervention => items.filter(item => item.id === intervention.id)) });
+  };
+  const available = INTERVENTIONS.filter(intervention => !plan.items.some(item => item.id === intervention.id));
+  const rows = TIME_SLOTS.flatMap(slot => plan.items.filter(item => item.slot === slot));
+
+  return (
+    <main className="px-6 pt-40 pb-24 md:px-12 print:p-0">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="font-heading text-4xl md:text-5xl font-bold mb-4">{t('protocols.title')}</h1>
+        <p className="font-sans text-ink/70 mb-6 max-w-2xl print:hidden">{t('protocols.intro')}</p>
+        <p role="note" className="mb-12 max-w-3xl rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay print:mb-6 print:bg-transparent print:p-0 print:text-black">
+          {t('protocols.disclaimer')}
+        </p>
+
+        <div className="flex flex-col gap-12 print:hidden">
+          <GoalPicker plan={plan} onChange={setPlan} />
+
+          {plan.items.length ? (
+            <section>
+              <h2 className="mb-4 font-heading text-2xl font-bold">{t('protocols.schedule')}</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[48rem] border-collapse">
+                  <thead>
+                    <tr className="font-mono text-[10px] uppercase tracking-widest text-ink/50">
+                      <th scope="col" className="pb-3 text-start font-normal">{t('protocols.intervention')}</th>
+                      <th scope="col" className="pb-3 text-start font-normal">{t('protocols.time')}</th>
+                      {WEEKDAYS.map(day => (
+                        <th key={day} scope="col" className="pb-3 font-normal">
+                          <abbr title={format.longDay(day)} className="no-underline">{format.shortDay(day)}</abbr>
+                        </th>
+                      ))}
+                      <td />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(item => (
+                      <ScheduleRow key={item.id} item={item} onChange={updateItem} onRemove={() => removeItem(item.id)} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          ) : (
+            <p className="rounded-[2rem] border border-dashed border-ink/15 p-8 text-center font-sans text-ink/60">{t('protocols.empty')}</p>
+          )}
+
+          {available.length > 0 && (
+            <div className="max-w-sm">
+              <Field label={t('protocols.add')}>
+                {id => (
+                  <Select id={id} value="" onChange={event => addItem(event.target.value as InterventionId)}>
+                    <option value="" disabled>{t('protocols.addPlaceholder')}</option>
+                    {available.map(intervention => <option key={intervention.id} value={intervention.id}>{format.name(intervention.id)}</option>)}
+                  </Select>
+                )}
+              </Field>
+            </div>
+          )}
+
+          <Interactions plan={plan} />
+          {plan.items.length > 0 && <Actions plan={plan} />}
+        </div>
+
+        {plan.items.length > 0 && <PrintableProtocol plan={plan} />}
+      </div>
+    </main>
+  );
+}
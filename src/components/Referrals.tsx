@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Check, Copy, Gift, Loader2, Share2 } from 'lucide-react';
+import { Button } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { ApiError, getJson } from '../lib/api.ts';
+import { useHydrated } from '../lib/hydration.ts';
+import {
+  REFERRAL_BOOST,
+  REFERRAL_MILESTONES,
+  referralHref,
+  waitlistStatusHref,
+  type ReferralStatus,
+} from '../lib/referrals.ts';
+import { useSearchParam } from '../lib/router.ts';
+import { cn } from '../lib/utils.ts';
+
+/** The member's referral link with copy and share buttons; shown after signup and on the status page. */
+export function ReferralShare({ code, statusToken }: { code: string; statusToken?: string }) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const url = `${window.location.origin}${referralHref(code)}`;
+  const canShare = typeof navigator.share === 'function';
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be refused; the link stays selectable in the field.
+    }
+  };
+
+  const share = () => {
+    // Dismissing the share sheet rejects; there's nothing to do about it.
+    navigator.share({ title: t('referral.shareTitle'), text: t('referral.shareText'), url }).catch(() => {});
+  };
+
+  return (
+    <div className="flex w-full flex-col gap-4 rounded-2xl border border-ink/10 p-5">
+      <div>
+        <h3 className="font-heading text-lg font-bold">{t('referral.shareTitle')}</h3>
+        <p className="mt-1 font-sans text-sm text-ink/70">{t('referral.shareBody', { boost: REFERRAL_BOOST })}</p>
+      </div>
+      <input
+        readOnly
+        value={url}
+        aria-label={t('referral.shareTitle')}
+        onFocus={event => event.target.select()}
+        className="w-full rounded-xl border border-ink/10 bg-ink/[0.03] px-4 py-3 font-mono text-xs text-ink"
+      />
+      <div role="status" className="flex flex-wrap items-center gap-3">
+        <Button
+          type="button"
+          size="sm"
+          cta="referral-copy"
+          onClick={copy}
+          startIcon={copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        >
+          {t(copied ? 'referral.copied' : 'referral.copy')}
+        </Button>
+        {canShare && (
+          <Button type="button" size="sm" variant="outline" cta="referral-share" onClick={share} startIcon={<Share2 className="h-4 w-4" />}>
+            {t('referral.share')}
+          </Button>
+        )}
+        {statusToken && (
+          <Button href={waitlistStatusHref(statusToken)} variant="link" cta="referral-status">
+            {t('referral.viewStatus')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Milestones({ referrals }: { referrals: number }) {
+  const { t } = useI18n();
+  return (
+    <ul className="divide-y divide-ink/10 rounded-[2rem] border border-ink/10 font-sans">
+      {REFERRAL_MILESTONES.map(milestone => {
+        const unlocked = referrals >= milestone.referrals;
+        return (
+          <li key={milestone.reward} className="flex items-center justify-between gap-4 px-6 py-4">
+            <span className="flex items-center gap-3">
+              <Gift className={cn("h-5 w-5", unlocked ? "text-accent" : "text-ink/30")} />
+              <span>
+                <span className="block">{t(`referral.reward.${milestone.reward}`)}</span>
+                <span className="block font-mono text-xs text-ink/50">{t('referral.milestone', { count: milestone.referrals })}</span>
+              </span>
+            </span>
+            <span className={cn("font-mono text-xs uppercase tracking-widest", unlocked ? "text-accent" : "text-ink/50")}>
+              {unlocked ? t('referral.unlocked') : t('referral.toGo', { count: milestone.referrals - referrals })}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/** The personal page linked from waitlist emails: position, referrals and rewards. */
+export function WaitlistStatusPage() {
+  const { t, content } = useI18n();
+  const token = useSearchParam('token');
+  const hydrated = useHydrated();
+  const [status, setStatus] = useState<ReferralStatus | null>(null);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${t('referral.statusTitle')} | ${content.brand.name}`;
+    return () => { document.title = previous; };
+  }, [t, content.brand.name]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    if (!token) {
+      setError(t('referral.notFound'));
+      return;
+    }
+    let cancelled = false;
+    getJson<ReferralStatus>(`/api/waitlist/status?token=${encodeURIComponent(token)}`)
+      .then(data => { if (!cancelled) setStatus(data); })
+      .catch(err => { if (!cancelled) setError(err instanceof ApiError && err.status === 404 ? t('referral.notFound') : t('common.error')); });
+    return () => { cancelled = true; };
+  }, [hydrated, token]);
+
+  return (
+    <main className="px-6 pt-40 pb-24 md:px-12">
+      <div className="mx-auto max-w-3xl">
+        <h1 className="font-heading text-4xl md:text-5xl font-bold mb-10">{t('referral.statusTitle')}</h1>
+
+        {error && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{error}</p>}
+        {!status && !error && <Loader2 className="mx-auto h-6 w-6 animate-spin text-ink/40" aria-label={t('referral.loading')} />}
+
+        {status && (
+          <div className="flex flex-col gap-12">
+            <div>
+              <p className="font-sans text-lg text-ink/70">{t('referral.greeting', { name: status.name })}</p>
+              <div className="mt-4 font-drama text-7xl italic text-accent leading-none">#{status.position}</div>
+              <p className="mt-2 font-mono text-xs text-ink/50">{t('waitlist.ahead', { count: status.position - 1 })}</p>
+              {!status.confirmed && (
+                <p role="status" className="mt-6 rounded-2xl bg-accent/10 px-4 py-3 font-sans text-sm text-accent">{t('referral.unconfirmed')}</p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-x-10 gap-y-2 font-mono text-xs uppercase tracking-widest text-ink/60">
+              <span>{t('referral.referrals', { count: status.referrals })}</span>
+              {status.pendingReferrals > 0 && <span>{t('referral.pending', { count: status.pendingReferrals })}</span>}
+            </div>
+
+            <ReferralShare code={status.referralCode} />
+
+            <section>
+              <h2 className="font-heading text-2xl font-bold mb-6">{t('referral.milestones')}</h2>
+              <Milestones referrals={status.referrals} />
+            </section>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Link } from './Link.tsx';
+import { Loop } from './Motion.tsx';
+import { Badge } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { LOCALE_INFO } from '../i18n/locales.ts';
+import { getJson } from '../lib/api.ts';
+import { INCIDENT_HISTORY_DAYS, STATUS_PATH, type StatusReport, type SystemState } from '../lib/status.ts';
+import { cn } from '../lib/utils.ts';
+
+const POLL_INTERVAL_MS = 60_000;
+
+const STATE_DOT: Record<SystemState | 'unknown', string> = {
+  operational: 'bg-green-500',
+  degraded: 'bg-amber-400',
+  outage: 'bg-red-500',
+  unknown: 'bg-cream/30',
+};
+
+/** Polls /api/status while the tab is visible. `failed` is set when the last poll didn't get an answer. */
+function useSystemStatus() {
+  const [report, setReport] = useState<StatusReport | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = () => {
+      if (document.visibilityState === 'hidden') return;
+      getJson<StatusReport>('/api/status')
+        .then(data => {
+          if (cancelled) return;
+          setReport(data);
+          setFailed(false);
+        })
+        .catch(() => { if (!cancelled) setFailed(true); });
+    };
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', poll);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', poll);
+    };
+  }, []);
+
+  return { report, failed };
+}
+
+export function StatusPill() {
+  const { t } = useI18n();
+  const { report, failed } = useSystemStatus();
+  const state = failed || !report ? 'unknown' : report.state;
+
+  return (
+    <Link href={STATUS_PATH} className="rounded-full transition-colors hover:bg-cream/10">
+      <Loop className="flex items-center gap-2 bg-cream/5 rounded-full px-4 py-2 border border-cream/10">
+        <div className={cn("w-2 h-2 rounded-full", STATE_DOT[state], state !== 'unknown' && "animate-pulse")} />
+        <span role="status" className="font-mono text-[10px] uppercase tracking-widest text-cream/60">{t(`status.pill.${state}`)}</span>
+      </Loop>
+    </Link>
+  );
+}
+
+export function StatusPage() {
+  const { locale, content, t } = useI18n();
+  const { report, failed } = useSystemStatus();
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString(LOCALE_INFO[locale].intl, { dateStyle: 'medium', timeStyle: 'short' });
+
+  useEffect(() => {
+    const previous = document.title;
+    document.title = `${t('status.title')} | ${content.brand.name}`;
+    return () => { document.title = previous; };
+  }, [t, content.brand.name]);
+
+  return (
+    <main className="px-6 pt-40 pb-24 md:px-12">
+      <div className="mx-auto max-w-3xl">
+        <h1 className="font-heading text-4xl md:text-5xl font-bold mb-10">{t('status.title')}</h1>
+
+        {failed && !report && <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t('status.pill.unknown')}</p>}
+        {!report && !failed && <Loader2 className="mx-auto h-6 w-6 animate-spin text-ink/40" aria-label={t('status.loading')} />}
+
+        {report && (
+          <>
+            <div
+              role="status"
+              className={cn(
+                "mb-4 flex items-center gap-3 rounded-[2rem] px-6 py-5 font-heading text-xl font-bold",
+                report.state === 'operational' ? "bg-moss text-cream" : report.state === 'degraded' ? "bg-amber-100 text-charcoal" : "bg-clay text-cream"
+              )}
+            >
+              <span className={cn("h-3 w-3 rounded-full", STATE_DOT[report.state])} />
+              {t(`status.summary.${report.state}`)}
+            </div>
+            <p className="mb-16 font-mono text-xs uppercase tracking-widest text-ink/50">
+              {t('status.checkedAt', { time: formatTime(report.checkedAt) })}
+            </p>
+
+            <h2 className="font-heading text-2xl font-bold mb-6">{t('status.components')}</h2>
+            <ul className="mb-16 divide-y divide-ink/10 rounded-[2rem] border border-ink/10 font-sans">
+              {report.checks.map(check => (
+                <li key={check.id} className="flex items-center justify-between gap-4 px-6 py-4">
+                  <span>{check.id === 'database' || check.id === 'chat' ? t(`status.check.${check.id}`) : check.label}</span>
+                  <span className="flex items-center gap-2 font-mono text-xs uppercase tracking-widest text-ink/60">
+                    <span className={cn("h-2 w-2 rounded-full", STATE_DOT[check.state])} />
+                    {t(`status.state.${check.state}`)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <h2 className="font-heading text-2xl font-bold mb-6">{t('status.incidents')}</h2>
+            {report.incidents.length === 0 ? (
+              <p className="font-sans text-ink/60">{t('status.noIncidents', { days: INCIDENT_HISTORY_DAYS })}</p>
+            ) : (
+              <ol className="flex flex-col gap-6">
+                {report.incidents.map(incident => (
+                  <li key={incident.id} className="rounded-[2rem] border border-ink/10 p-6">
+                    <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+                      <h3 className="font-heading text-lg font-bold">{incident.title}</h3>
+                      <Badge tone={incident.status === 'resolved' ? 'positive' : 'critical'}>
+                        {t(`status.incident.${incident.status}`)}
+                      </Badge>
+                    </div>
+                    <ol className="flex flex-col gap-4 border-s border-ink/10 ps-4 font-sans text-sm">
+                      {incident.updates.map(update => (
+                        <li key={`${update.createdAt}-${update.status}`}>
+                          <div className="mb-1 font-mono text-[10px] uppercase tracking-widest text-ink/50">
+                            {t(`status.incident.${update.status}`)} · <time dateTime={update.createdAt}>{formatTime(update.createdAt)}</time>
+                          </div>
+                          <p className="text-ink/80">{update.message}</p>
+                        </li>
+                      ))}
+                    </ol>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
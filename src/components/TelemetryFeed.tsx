@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TelemetryScenario } from '../content/schema.ts';
+import { TELEMETRY_EVENTS, TELEMETRY_STREAM_URL, telemetryScenario } from '../lib/telemetry.ts';
+
+const TYPE_INTERVAL_MS = 50;
+const VISIBLE_LINES = 6;
+/** Lines that arrive faster than they can be typed wait here; the oldest are dropped past this. */
+const MAX_BUFFERED = 20;
+/** Consecutive stream errors before switching to the local script. */
+const MAX_STREAM_FAILURES = 3;
+
+type FeedItem = { kind: 'line'; text: string } | { kind: 'reset' };
+
+interface FeedHandlers {
+  onLine: (text: string, index: number) => void;
+  onReset: () => void;
+}
+
+function openStream(scenario: TelemetryScenario, fromIndex: number, { onLine, onReset }: FeedHandlers, onFail: () => void) {
+  const params = new URLSearchParams({ scenario: scenario.id });
+  if (fromIndex > 0) params.set('lastEventId', String(fromIndex - 1));
+  const source = new EventSource(`${TELEMETRY_STREAM_URL}?${params}`);
+  let failures = 0;
+
+  source.addEventListener(TELEMETRY_EVENTS.line, event => {
+    failures = 0;
+    onLine(JSON.parse(event.data), Number(event.lastEventId));
+  });
+  source.addEventListener(TELEMETRY_EVENTS.reset, onReset);
+  // EventSource reconnects by itself (resuming via Last-Event-ID); give up when
+  // it stops trying, keeps failing, or the browser knows it's offline.
+  source.onerror = () => {
+    failures++;
+    if (source.readyState === EventSource.CLOSED || failures >= MAX_STREAM_FAILURES || !navigator.onLine) {
+      source.close();
+      onFail();
+    }
+  };
+  return () => source.close();
+}
+
+/** Replays the bundled copy of the scenario with the same timing the server uses. */
+function playLocal(scenario: TelemetryScenario, fromIndex: number, { onLine, onReset }: FeedHandlers) {
+  let index = fromIndex;
+  let timer: ReturnType<typeof setTimeout>;
+  const next = () => {
+    timer = setTimeout(() => {
+      onLine(scenario.lines[index].text, index);
+      index++;
+      if (index < scenario.lines.length) {
+        next();
+        return;
+      }
+      timer = setTimeout(() => {
+        onReset();
+        index = 0;
+        next();
+      }, scenario.loopDelayMs);
+    }, scenario.lines[index].delayMs);
+  };
+  next();
+  return () => clearTimeout(timer);
+}
+
+/**
+ * Types out a telemetry scenario line by line while `active`. Lines come from
+ * the server-sent event stream, or from the bundled script when the stream is
+ * unreachable; the stream is retried when the browser comes back online.
+ */
+export function useTelemetryFeed(scenarioId: string | null, active: boolean) {
+  const scenario = telemetryScenario(scenarioId);
+  const [source, setSource] = useState<'stream' | 'local'>('stream');
+  const [lines, setLines] = useState<string[]>([]);
+  const [typing, setTyping] = useState('');
+  const bufferRef = useRef<FeedItem[]>([]);
+  const nextIndexRef = useRef(0);
+  const currentRef = useRef<{ text: string; shown: number } | null>(null);
+
+  const enqueue = useCallback((item: FeedItem) => {
+    const buffer = bufferRef.current;
+    buffer.push(item);
+    if (buffer.length > MAX_BUFFERED) buffer.splice(0, buffer.length - MAX_BUFFERED);
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+    const handlers: FeedHandlers = {
+      onLine: (text, index) => {
+        // A stream that restarted from the top after a reconnect never sent its reset.
+        if (index === 0 && nextIndexRef.current !== 0) enqueue({ kind: 'reset' });
+        enqueue({ kind: 'line', text });
+        nextIndexRef.current = (index + 1) % scenario.lines.length;
+      },
+      onReset: () => {
+        enqueue({ kind: 'reset' });
+        nextIndexRef.current = 0;
+      },
+    };
+    return source === 'stream'
+      ? openStream(scenario, nextIndexRef.current, handlers, () => setSource('local'))
+      : playLocal(scenario, nextIndexRef.current, handlers);
+  }, [active, source, scenario, enqueue]);
+
+  useEffect(() => {
+    if (source !== 'local') return;
+    const retry = () => setSource('stream');
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, [source]);
+
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => {
+      let current = currentRef.current;
+      if (!current) {
+        const item = bufferRef.current.shift();
+        if (!item) return;
+        if (item.kind === 'reset') {
+          setLines([]);
+          return;
+        }
+        current = currentRef.current = { text: item.text, shown: 0 };
+      }
+      current.shown++;
+      if (current.shown < current.text.length) {
+        setTyping(current.text.slice(0, current.shown));
+        return;
+      }
+      const finished = current.text;
+      currentRef.current = null;
+      setTyping('');
+      setLines(prev => [...prev, finished].slice(-VISIBLE_LINES));
+    }, TYPE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  return {
+    /** The lines currently on screen, with the one being typed last. */
+    text: [...lines, ...(typing ? [typing] : [])].join('\n'),
+    /** Everything at once, for when motion is off. */
+    staticText: scenario.lines.slice(0, VISIBLE_LINES).map(line => line.text).join('\n'),
+    source,
+  };
+}
@@ -0,0 +1,93 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Moon, Sun } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { useHydrated } from '../lib/hydration.ts';
+import { cn } from '../lib/utils.ts';
+
+// Light or dark, following the OS until the visitor picks one with the toggle
+// (the pick is remembered). The palette lives in index.css and switches on
+// `data-theme` on <html>; with no attribute, the CSS follows the OS itself, so
+// prerendered pages already match before this script runs.
+
+export type Theme = 'light' | 'dark';
+
+const STORAGE_KEY = 'nura.theme';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+interface ThemeContextValue {
+  theme: Theme;
+  setTheme: (theme: Theme) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) throw new Error('useTheme must be used inside <ThemeProvider>');
+  return context;
+}
+
+function readStoredTheme(): Theme | undefined {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored === 'light' || stored === 'dark' ? stored : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function storeTheme(theme: Theme) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, theme);
+  } catch {
+    // Private mode or storage disabled: the choice just won't persist.
+  }
+}
+
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const [prefersDark, setPrefersDark] = useState(() => typeof window !== 'undefined' && window.matchMedia(DARK_QUERY).matches);
+  const [choice, setChoice] = useState(readStoredTheme);
+  // Prerendered pages render the light toggle; the visitor's theme applies once hydrated.
+  const hydrated = useHydrated();
+  const theme: Theme = hydrated ? choice ?? (prefersDark ? 'dark' : 'light') : 'light';
+
+  useEffect(() => {
+    const query = window.matchMedia(DARK_QUERY);
+    const handleChange = () => setPrefersDark(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  useEffect(() => {
+    if (!choice) return;
+    document.documentElement.dataset.theme = choice;
+    return () => { delete document.documentElement.dataset.theme; };
+  }, [choice]);
+
+  const setTheme = useCallback((next: Theme) => {
+    storeTheme(next);
+    setChoice(next);
+  }, []);
+
+  const value = useMemo(() => ({ theme, setTheme }), [theme, setTheme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function ThemeToggle({ className }: { className?: string }) {
+  const { theme, setTheme } = useTheme();
+  const { t } = useI18n();
+  const label = t(theme === 'dark' ? 'theme.light' : 'theme.dark');
+
+  return (
+    <button
+      type="button"
+      onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
+      aria-label={label}
+      title={label}
+      className={cn("rounded-full p-1.5 transition-opacity hover:opacity-70", className)}
+    >
+      {theme === 'dark' ? <Sun className="h-3.5 w-3.5" /> : <Moon className="h-3.5 w-3.5" />}
+    </button>
+  );
+}
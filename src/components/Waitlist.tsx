@@ -0,0 +1,258 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { CheckCircle2, CloudOff } from 'lucide-react';
+import { useAnalytics } from './Analytics.tsx';
+import { Dialog } from './Dialog.tsx';
+import { PolicyConsent } from './Privacy.tsx';
+import { Button, Field, Input, Select } from './ui/index.ts';
+import { useI18n } from '../i18n/I18nProvider.tsx';
+import { ApiError, postJson } from '../lib/api.ts';
+import type { AssessmentAnswers } from '../lib/assessment.ts';
+import { MEMBERSHIP_TIERS } from '../lib/membership.ts';
+import { isQueuedResponse, type QueuedResponse } from '../lib/offline.ts';
+import { PRIVACY_POLICY_VERSION } from '../lib/privacy.ts';
+import { normalizeReferralCode } from '../lib/referrals.ts';
+import { useSearchParam } from '../lib/router.ts';
+import {
+  validateWaitlistInput,
+  type TierInterest,
+  type WaitlistFieldErrors,
+  type WaitlistResponse,
+} from '../lib/waitlist.ts';
+
+interface WaitlistPrefill {
+  tier?: TierInterest;
+  assessment?: { answers: AssessmentAnswers; estimatedAge: number };
+}
+
+interface WaitlistContextValue {
+  openWaitlist: (prefill?: WaitlistPrefill) => void;
+}
+
+const WaitlistContext = createContext<WaitlistContextValue | null>(null);
+
+/** A `?ref=` code from a shared link, kept for the tab so it survives navigating around before signing up. */
+const REFERRAL_KEY = 'nura.referral';
+
+export function useWaitlist() {
+  const context = useContext(WaitlistContext);
+  if (!context) throw new Error('useWaitlist must be used inside <WaitlistProvider>');
+  return context;
+}
+
+function readReferralCode() {
+  try {
+    return window.sessionStorage.getItem(REFERRAL_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function storeReferralCode(code: string) {
+  try {
+    window.sessionStorage.setItem(REFERRAL_KEY, code);
+  } catch {
+    // Private mode or storage disabled: the code isn't prefilled, and can still be typed in.
+  }
+}
+
+export function WaitlistProvider({ children }: { children: React.ReactNode }) {
+  const [prefill, setPrefill] = useState<WaitlistPrefill | null>(null);
+
+  const referral = useSearchParam('ref');
+
+  useEffect(() => {
+    if (referral) storeReferralCode(normalizeReferralCode(referral));
+  }, [referral]);
+
+  const openWaitlist = useCallback((next: WaitlistPrefill = {}) => setPrefill(next), []);
+  const close = useCallback(() => setPrefill(null), []);
+
+  return (
+    <WaitlistContext.Provider value={{ openWaitlist }}>
+      {children}
+      {prefill && <WaitlistDialog prefill={prefill} onClose={close} />}
+    </WaitlistContext.Provider>
+  );
+}
+
+type SubmitState =
+  | { status: 'idle' }
+  | { status: 'submitting' }
+  | { status: 'error'; rateLimited?: boolean }
+  | { status: 'success' }
+  | { status: 'queued' };
+
+function WaitlistDialog({ prefill, onClose }: { prefill: WaitlistPrefill; onClose: () => void }) {
+  const { t } = useI18n();
+  const firstFieldRef = useRef<HTMLInputElement>(null);
+  const [values, setValues] = useState(() => ({
+    name: '',
+    email: '',
+    tier: prefill.tier ?? '',
+    referralCode: readReferralCode(),
+  }));
+  const [attachAssessment, setAttachAssessment] = useState(!!prefill.assessment);
+  const [consented, setConsented] = useState(false);
+  const { currentSessionId, track } = useAnalytics();
+  const [fieldErrors, setFieldErrors] = useState<WaitlistFieldErrors>({});
+  const [state, setState] = useState<SubmitState>({ status: 'idle' });
+
+  useEffect(() => {
+    firstFieldRef.current?.focus();
+  }, []);
+
+  const update = (field: keyof typeof values) => (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setValues(prev => ({ ...prev, [field]: event.target.value }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const assessment = attachAssessment ? prefill.assessment?.answers : undefined;
+    const result = validateWaitlistInput({
+      ...values,
+      assessment,
+      consentVersion: consented ? PRIVACY_POLICY_VERSION : undefined,
+      analyticsSessionId: currentSessionId(),
+    });
+    if ('errors' in result) {
+      setFieldErrors(result.errors);
+      return;
+    }
+
+    setState({ status: 'submitting' });
+    try {
+      const response = await postJson<WaitlistResponse | QueuedResponse>('/api/waitlist', result.value);
+      // Offline, the service worker keeps the signup and answers for the server.
+      const queued = isQueuedResponse(response);
+      // Experiments count this as their conversion, so it's tracked once the signup is accepted, not on the click.
+      track({ type: 'waitlist_submit', target: '' });
+      setState({ status: queued ? 'queued' : 'success' });
+    } catch (error) {
+      if (error instanceof ApiError) setFieldErrors(error.fieldErrors);
+      setState({ status: 'error', rateLimited: error instanceof ApiError && error.status === 429 });
+    }
+  };
+
+  const submitting = state.status === 'submitting';
+  const errorFor = (field: 'name' | 'email' | 'tier' | 'referralCode' | 'consentVersion') => fieldErrors[field] ? t(`form.error.${field}`) : undefined;
+
+  return (
+    <Dialog onClose={onClose}>
+      {titleId => state.status === 'queued' ? (
+        <div className="flex flex-col items-start gap-6">
+          <CloudOff className="h-10 w-10 text-accent" />
+          <div>
+            <h2 id={titleId} className="font-heading text-3xl font-bold mb-2">{t('waitlist.queuedTitle')}</h2>
+            <p className="font-sans text-sm text-ink/70">{t('waitlist.queuedBody')}</p>
+          </div>
+          <Button type="button" variant="outline" onClick={onClose}>{t('common.done')}</Button>
+        </div>
+      ) : state.status === 'success' ? (
+        <div className="flex flex-col items-start gap-6">
+          <CheckCircle2 className="h-10 w-10 text-accent" />
+          <div>
+            <h2 id={titleId} className="font-heading text-3xl font-bold mb-2">{t('waitlist.successTitle')}</h2>
+            <p className="font-sans text-sm text-ink/70">{t('waitlist.successBody')}</p>
+          </div>
+          <Button type="button" variant="outline" onClick={onClose}>{t('common.done')}</Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5">
+          <div className="mb-2">
+            <h2 id={titleId} className="font-heading text-3xl font-bold mb-2">{t('waitlist.title')}</h2>
+            <p className="font-sans text-sm text-ink/70">{t('waitlist.subtitle')}</p>
+          </div>
+
+          <Field label={t('form.name')} error={errorFor('name')}>
+            {(id, describedBy) => (
+              <Input
+                id={id}
+                ref={firstFieldRef}
+                autoComplete="name"
+                value={values.name}
+                onChange={update('name')}
+                aria-invalid={!!fieldErrors.name}
+                aria-describedby={describedBy}
+              />
+            )}
+          </Field>
+
+          <Field label={t('form.email')} error={errorFor('email')}>
+            {(id, describedBy) => (
+              <Input
+                id={id}
+                type="email"
+                autoComplete="email"
+                value={values.email}
+                onChange={update('email')}
+                aria-invalid={!!fieldErrors.email}
+                aria-describedby={describedBy}
+              />
+            )}
+          </Field>
+
+          <Field label={t('waitlist.tier')} error={errorFor('tier')}>
+            {(id, describedBy) => (
+              <Select
+                id={id}
+                value={values.tier}
+                onChange={update('tier')}
+                aria-invalid={!!fieldErrors.tier}
+                aria-describedby={describedBy}
+              >
+                <option value="" disabled>{t('waitlist.tierPlaceholder')}</option>
+                {MEMBERSHIP_TIERS.map(tier => (
+                  <option key={tier.id} value={tier.id}>{tier.name}</option>
+                ))}
+                <option value="undecided">{t('waitlist.tierUndecided')}</option>
+              </Select>
+            )}
+          </Field>
+
+          <Field label={t('waitlist.referralCode')} error={errorFor('referralCode')}>
+            {(id, describedBy) => (
+              <Input
+                id={id}
+                value={values.referralCode}
+                onChange={update('referralCode')}
+                aria-invalid={!!fieldErrors.referralCode}
+                aria-describedby={describedBy}
+                className="font-mono uppercase"
+              />
+            )}
+          </Field>
+
+          {prefill.assessment && (
+            <label className="flex items-start gap-3 rounded-2xl border border-ink/10 p-4 font-sans text-sm text-ink/80">
+              <input
+                type="checkbox"
+                checked={attachAssessment}
+                onChange={event => setAttachAssessment(event.target.checked)}
+                className="mt-0.5 h-4 w-4 accent-moss"
+              />
+              {t('waitlist.attachAssessment', { age: prefill.assessment.estimatedAge })}
+            </label>
+          )}
+
+          <PolicyConsent
+            checked={consented}
+            onChange={checked => {
+              setConsented(checked);
+              setFieldErrors(prev => ({ ...prev, consentVersion: undefined }));
+            }}
+            error={errorFor('consentVersion')}
+          />
+
+          {state.status === 'error' && (
+            <p role="alert" className="rounded-2xl bg-clay/10 px-4 py-3 font-sans text-sm text-clay">{t(state.rateLimited ? 'waitlist.rateLimited' : 'common.error')}</p>
+          )}
+
+          <Button cta="waitlist-submit" type="submit" loading={submitting} className="mt-2 w-full">
+            {t(submitting ? 'waitlist.submitting' : 'waitlist.submit')}
+          </Button>
+        </form>
+      )}
+    </Dialog>
+  );
+}
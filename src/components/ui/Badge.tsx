@@ -0,0 +1,21 @@
+import React from 'react';
+import { cn } from '../../lib/utils.ts';
+
+export type BadgeTone = 'highlight' | 'positive' | 'caution' | 'critical' | 'neutral';
+
+const TONES: Record<BadgeTone, string> = {
+  highlight: "bg-clay text-cream",
+  positive: "bg-accent/10 text-accent",
+  caution: "bg-amber-100 text-amber-800",
+  critical: "bg-clay/15 text-clay",
+  neutral: "bg-ink/5 text-ink/60",
+};
+
+export function Badge({ tone = 'neutral', className, ...props }: React.ComponentProps<'span'> & { tone?: BadgeTone }) {
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1.5 rounded-full px-3 py-1 font-mono text-[10px] uppercase tracking-widest", TONES[tone], className)}
+      {...props}
+    />
+  );
+}
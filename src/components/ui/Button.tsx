@@ -0,0 +1,80 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Link } from '../Link.tsx';
+import { cn } from '../../lib/utils.ts';
+
+export type ButtonVariant = 'primary' | 'secondary' | 'outline' | 'ghost' | 'link';
+export type ButtonSize = 'sm' | 'md' | 'lg';
+
+const LIFT = "hover:scale-[1.03] hover:-translate-y-[1px]";
+
+const VARIANTS: Record<ButtonVariant, string> = {
+  primary: cn(LIFT, "bg-moss text-cream"),
+  // For moss and charcoal panels, where a primary button would disappear.
+  secondary: cn(LIFT, "bg-cream text-moss hover:text-cream"),
+  outline: cn(LIFT, "border border-ink/20 bg-transparent text-ink hover:border-ink"),
+  ghost: "bg-transparent text-ink hover:bg-ink/5",
+  link: "rounded-none p-0 font-normal tracking-normal text-accent underline underline-offset-2 hover:text-clay",
+};
+
+const SIZES: Record<ButtonSize, string> = {
+  sm: "px-5 py-2.5 text-xs",
+  md: "px-8 py-4 text-sm",
+  lg: "px-10 py-5 text-base",
+};
+
+/** Variants with the clay fill that sweeps up on hover. */
+const SWEEP = new Set<ButtonVariant>(['primary', 'secondary']);
+
+interface ButtonOwnProps {
+  variant?: ButtonVariant;
+  size?: ButtonSize;
+  /** Disables the button and shows a spinner in place of `startIcon`. */
+  loading?: boolean;
+  startIcon?: React.ReactNode;
+  endIcon?: React.ReactNode;
+  /** Names the button in click analytics; untagged buttons report as "button". */
+  cta?: string;
+}
+
+type ButtonElementProps = ButtonOwnProps & React.ButtonHTMLAttributes<HTMLButtonElement> & { href?: undefined };
+/** With `href`, the button renders as a routed anchor for CTAs that navigate. */
+type ButtonAnchorProps = ButtonOwnProps & React.AnchorHTMLAttributes<HTMLAnchorElement> & { href: string };
+
+export type ButtonProps = ButtonElementProps | ButtonAnchorProps;
+
+export function buttonClass({ variant = 'primary', size = 'md', className }: { variant?: ButtonVariant; size?: ButtonSize; className?: string } = {}) {
+  return cn(
+    "group relative inline-flex items-center justify-center overflow-hidden rounded-full font-sans font-semibold tracking-wide transition-all duration-300 ease-[cubic-bezier(0.25,0.46,0.45,0.94)] disabled:pointer-events-none disabled:opacity-60 aria-disabled:pointer-events-none aria-disabled:opacity-60",
+    SIZES[size],
+    VARIANTS[variant],
+    className
+  );
+}
+
+export function Button({ variant = 'primary', size = 'md', loading = false, startIcon, endIcon, cta = 'button', className, children, ...props }: ButtonProps) {
+  const content = (
+    <>
+      <span className="relative z-10 flex items-center justify-center gap-2">
+        {loading ? <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" /> : startIcon}
+        {children}
+        {endIcon}
+      </span>
+      {SWEEP.has(variant) && (
+        <span className="absolute inset-0 z-0 bg-clay translate-y-full transition-transform duration-300 ease-out group-hover:translate-y-0" />
+      )}
+    </>
+  );
+  const classes = buttonClass({ variant, size, className });
+
+  if (props.href !== undefined) {
+    return <Link data-cta={cta} className={classes} {...props as React.AnchorHTMLAttributes<HTMLAnchorElement> & { href: string }}>{content}</Link>;
+  }
+
+  const { disabled, ...buttonProps } = props as React.ButtonHTMLAttributes<HTMLButtonElement>;
+  return (
+    <button data-cta={cta} className={classes} disabled={disabled || loading} aria-busy={loading || undefined} {...buttonProps}>
+      {content}
+    </button>
+  );
+}
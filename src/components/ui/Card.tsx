@@ -0,0 +1,16 @@
+import React from 'react';
+import { cn } from '../../lib/utils.ts';
+
+export type CardVariant = 'surface' | 'inverse' | 'accent';
+
+const VARIANTS: Record<CardVariant, string> = {
+  surface: "border border-ink/10 bg-surface text-ink",
+  // Dark in both themes, like the hero and footer.
+  inverse: "bg-charcoal text-cream",
+  accent: "border-2 border-moss bg-moss text-cream",
+};
+
+/** A rounded panel. Radius, padding and shadow vary by placement, so pass them in `className`. */
+export function Card({ variant = 'surface', className, ...props }: React.ComponentProps<'div'> & { variant?: CardVariant }) {
+  return <div className={cn("rounded-[2rem]", VARIANTS[variant], className)} {...props} />;
+}
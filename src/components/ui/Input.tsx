@@ -0,0 +1,31 @@
+import React, { useId } from 'react';
+import { cn } from '../../lib/utils.ts';
+
+// Controls show their error state from `aria-invalid`, so marking a field
+// invalid for assistive tech and styling it are the same step.
+
+export function Field({ label, error, children }: { label: string; error?: string; children: (id: string, describedBy?: string) => React.ReactNode }) {
+  const id = useId();
+  const errorId = `${id}-error`;
+  return (
+    <div className="flex flex-col gap-2">
+      <label htmlFor={id} className="font-mono text-[10px] uppercase tracking-widest text-ink/60">{label}</label>
+      {children(id, error ? errorId : undefined)}
+      {error && <p id={errorId} className="font-sans text-xs text-clay">{error}</p>}
+    </div>
+  );
+}
+
+const CONTROL = "w-full rounded-2xl border border-ink/15 bg-surface px-4 py-3 font-sans text-sm text-ink outline-none transition-colors focus:border-accent aria-[invalid=true]:border-clay";
+
+export function Input({ className, ...props }: React.ComponentProps<'input'>) {
+  return <input className={cn(CONTROL, className)} {...props} />;
+}
+
+export function Textarea({ className, ...props }: React.ComponentProps<'textarea'>) {
+  return <textarea className={cn(CONTROL, "resize-y", className)} {...props} />;
+}
+
+export function Select({ className, ...props }: React.ComponentProps<'select'>) {
+  return <select className={cn(CONTROL, className)} {...props} />;
+}
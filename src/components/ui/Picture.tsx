@@ -0,0 +1,45 @@
+import { cn } from '../../lib/utils.ts';
+
+interface PictureProps {
+  /** An `import … from './photo.jpg?responsive'`. */
+  image: ResponsiveImageSource;
+  /** Empty for decorative images. */
+  alt: string;
+  /** How wide the image renders, so the browser can pick from the srcset. */
+  sizes?: string;
+  /** For the largest image on the first screen: fetched eagerly and first. */
+  priority?: boolean;
+  className?: string;
+}
+
+/**
+ * A responsive image that covers its box. The blurred placeholder sits
+ * underneath and shows until the real image paints over it, which needs no
+ * script, so prerendered pages get it before hydration.
+ */
+export function Picture({ image, alt, sizes = '100vw', priority = false, className }: PictureProps) {
+  return (
+    <div className={cn("relative overflow-hidden", className)}>
+      <div
+        aria-hidden="true"
+        className="absolute inset-0 scale-110 bg-cover bg-center blur-xl"
+        style={{ backgroundImage: `url("${image.placeholder}")` }}
+      />
+      <picture>
+        {image.sources.map(source => (
+          <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+        ))}
+        <img
+          src={image.src}
+          alt={alt}
+          width={image.width}
+          height={image.height}
+          loading={priority ? 'eager' : 'lazy'}
+          fetchPriority={priority ? 'high' : undefined}
+          decoding="async"
+          className="absolute inset-0 h-full w-full object-cover"
+        />
+      </picture>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import React from 'react';
+import { cn } from '../../lib/utils.ts';
+
+export type SectionVariant = 'contained' | 'full' | 'inverse';
+
+const VARIANTS: Record<SectionVariant, string> = {
+  contained: "mx-auto max-w-7xl px-6 md:px-12",
+  full: "relative",
+  // An inset charcoal panel that stays dark in both themes.
+  inverse: "relative mx-4 overflow-hidden rounded-[3rem] bg-charcoal px-6 text-cream md:mx-8 md:px-12",
+};
+
+/** A top-level page section with the site's vertical rhythm. */
+export function Section({ variant = 'contained', className, ...props }: React.ComponentProps<'section'> & { variant?: SectionVariant }) {
+  return <section className={cn("py-32", VARIANTS[variant], className)} {...props} />;
+}
@@ -0,0 +1,10 @@
+// The shared building blocks for the site and the admin console. They paint
+// with the theme roles in index.css (surface, ink, accent), so anything built
+// from them follows the light/dark theme.
+
+export { Badge, type BadgeTone } from './Badge.tsx';
+export { Button, buttonClass, type ButtonProps, type ButtonSize, type ButtonVariant } from './Button.tsx';
+export { Card, type CardVariant } from './Card.tsx';
+export { Field, Input, Select, Textarea } from './Input.tsx';
+export { Picture } from './Picture.tsx';
+export { Section, type SectionVariant } from './Section.tsx';
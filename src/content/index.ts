@@ -0,0 +1,28 @@
+import ar from './locales/ar.json';
+import en from './locales/en.json';
+import es from './locales/es.json';
+import telemetry from './telemetry.json';
+import { siteContentSchema, telemetrySchema, type SiteContent, type TelemetryConfig } from './schema.ts';
+import type { Locale } from '../i18n/locales.ts';
+import { SchemaError, parse } from '../lib/schema.ts';
+
+// Validated once at module load: a bad edit to a locale file throws here with
+// the offending paths instead of silently rendering an empty section.
+export const siteContentByLocale: Record<Locale, SiteContent> = {
+  en: parse(siteContentSchema, en, 'src/content/locales/en.json'),
+  es: parse(siteContentSchema, es, 'src/content/locales/es.json'),
+  ar: parse(siteContentSchema, ar, 'src/content/locales/ar.json'),
+};
+
+function parseTelemetry(source: string): TelemetryConfig {
+  const config = parse(telemetrySchema, telemetry, source);
+  const ids = config.scenarios.map(scenario => scenario.id);
+  const issues = [
+    ...ids.filter((id, index) => ids.indexOf(id) !== index).map(id => `$.scenarios: duplicate id "${id}"`),
+    ...(ids.includes(config.defaultScenario) ? [] : [`$.defaultScenario: no scenario with id "${config.defaultScenario}"`]),
+  ];
+  if (issues.length > 0) throw new SchemaError(source, issues);
+  return config;
+}
+
+export const telemetryConfig = parseTelemetry('src/content/telemetry.json');
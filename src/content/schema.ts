@@ -0,0 +1,151 @@
+import { treatmentVariants } from '../lib/experiments.ts';
+import { TIER_IDS } from '../lib/membership.ts';
+import { INTERACTION_IDS, INTERVENTION_IDS, PROTOCOL_GOALS } from '../lib/protocols.ts';
+import { NAV_SECTIONS } from '../lib/sections.ts';
+import { array, number, object, oneOf, optional, record, string, type Infer } from '../lib/schema.ts';
+
+// Copy for every marketing section. Visual treatments stay in code; the
+// content file only picks between them by id.
+
+export const FEATURE_IDS = ['biomarkers', 'telemetry', 'protocols'] as const;
+export const PROTOCOL_VISUALS = ['orbit', 'scan', 'waveform'] as const;
+/** The sample results the biomarker card shuffles until a visitor loads their own. */
+export const BIOMARKER_SAMPLES = ['panel', 'methylation', 'metabolic'] as const;
+
+const link = object({
+  label: string(),
+  href: string(),
+});
+
+export const siteContentSchema = object({
+  brand: object({
+    name: string(),
+    tagline: string(),
+  }),
+  /** Home page title and description for search results and link previews. */
+  seo: object({
+    title: string(),
+    description: string(),
+  }),
+  nav: object({
+    cta: string(),
+    /** Link labels for the home page sections, shared by the navbar, mobile menu and footer. */
+    sections: record(NAV_SECTIONS, string()),
+  }),
+  hero: object({
+    headlineLead: string(),
+    headlineEmphasis: string(),
+    subheading: string(),
+    cta: string(),
+  }),
+  features: array(
+    object({
+      id: oneOf(FEATURE_IDS),
+      title: string(),
+      description: string(),
+    }),
+    { min: 1 }
+  ),
+  /** Copy inside the feature cards' visuals. */
+  featureVisuals: object({
+    biomarkerSamples: record(BIOMARKER_SAMPLES, object({ title: string(), value: string() })),
+    liveFeed: string(),
+  }),
+  philosophy: object({
+    contrastLead: string(),
+    contrastText: string(),
+    focusLead: string(),
+    focusText: string(),
+  }),
+  protocol: object({
+    steps: array(
+      object({
+        title: string(),
+        description: string(),
+        visual: oneOf(PROTOCOL_VISUALS),
+        cta: optional(link),
+      }),
+      { min: 1 }
+    ),
+  }),
+  /** Catalog copy for the protocol builder; doses and timing live in src/lib/protocols.ts. */
+  protocols: object({
+    goals: record(PROTOCOL_GOALS, string()),
+    interventions: record(
+      INTERVENTION_IDS,
+      object({
+        name: string(),
+        /** What the evidence shows, in a sentence. */
+        note: string(),
+      })
+    ),
+    interactions: record(INTERACTION_IDS, string()),
+  }),
+  assessment: object({
+    eyebrow: string(),
+    heading: string(),
+    subheading: string(),
+    disclaimer: string(),
+  }),
+  membership: object({
+    heading: string(),
+    subheading: string(),
+    recommendedBadge: string(),
+    tiers: record(
+      TIER_IDS,
+      object({
+        cadence: string(),
+        features: array(string(), { min: 1 }),
+      })
+    ),
+  }),
+  footer: object({
+    /** Heading of the first column, which lists the home page sections. */
+    sectionsHeading: string(),
+    columns: array(
+      object({
+        heading: string(),
+        links: array(link, { min: 1 }),
+      })
+    ),
+    copyright: string(),
+  }),
+  // Copy for experiment variants other than the control, which uses the copy above.
+  experiments: object({
+    heroHeadline: record(
+      treatmentVariants('hero-headline'),
+      object({
+        headlineLead: string(),
+        headlineEmphasis: string(),
+      })
+    ),
+    waitlistCta: record(treatmentVariants('waitlist-cta'), string()),
+  }),
+});
+
+// Anonymized member stories replayed by the telemetry feed. Each line waits
+// `delayMs` after the previous one; the scenario restarts after `loopDelayMs`.
+export const telemetrySchema = object({
+  defaultScenario: string(),
+  scenarios: array(
+    object({
+      id: string(),
+      label: string(),
+      loopDelayMs: number({ min: 0, max: 60_000 }),
+      lines: array(
+        object({
+          text: string(),
+          delayMs: number({ min: 0, max: 30_000 }),
+        }),
+        { min: 1 }
+      ),
+    }),
+    { min: 1 }
+  ),
+});
+
+export type SiteContent = Infer<typeof siteContentSchema>;
+export type TelemetryConfig = Infer<typeof telemetrySchema>;
+export type TelemetryScenario = TelemetryConfig['scenarios'][number];
+export type FeatureId = typeof FEATURE_IDS[number];
+export type ProtocolVisual = typeof PROTOCOL_VISUALS[number];
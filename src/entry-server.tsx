@@ -0,0 +1,66 @@
+import { StrictMode } from 'react';
+import { renderToString } from 'react-dom/server';
+import Root from './Root.tsx';
+import { loadLegalPage } from './components/LegalPage.tsx';
+import { siteContentByLocale } from './content/index.ts';
+import { catalogs } from './i18n/messages/index.ts';
+import { DEFAULT_LOCALE } from './i18n/locales.ts';
+import { CONSULTATION_PATH } from './lib/booking.ts';
+import { LEGAL_PAGES, LEGAL_PATHS, legalPageForPath } from './lib/legal.ts';
+import { OFFLINE_PATH } from './lib/offline.ts';
+import { PRIVACY_REQUESTS_PATH } from './lib/privacy.ts';
+import { PROTOCOL_BUILDER_PATH } from './lib/protocols.ts';
+import { ServerLocation } from './lib/router.ts';
+import { firstParagraph, headTags, summarize, type PageMeta } from './lib/seo.ts';
+import { STATUS_PATH } from './lib/status.ts';
+
+export { robotsTxt, sitemapXml } from './lib/seo.ts';
+
+/** Public pages rendered to HTML at build time, in English. */
+export const PRERENDER_PATHS = ['/', ...LEGAL_PAGES.map(page => LEGAL_PATHS[page]), STATUS_PATH, CONSULTATION_PATH, PRIVACY_REQUESTS_PATH, PROTOCOL_BUILDER_PATH, OFFLINE_PATH];
+
+/** The offline page is only meant to be served by the service worker, so it's kept out of search. */
+export const SITEMAP_PATHS = PRERENDER_PATHS.filter(path => path !== OFFLINE_PATH);
+
+const content = siteContentByLocale[DEFAULT_LOCALE];
+const messages = catalogs[DEFAULT_LOCALE];
+
+async function pageMeta(path: string): Promise<PageMeta> {
+  const legalPage = legalPageForPath(path);
+  if (legalPage) {
+    const doc = await loadLegalPage(legalPage, DEFAULT_LOCALE);
+    return { path, title: `${doc.meta.title} | ${content.brand.name}`, description: summarize(firstParagraph(doc.blocks)) };
+  }
+  if (path === STATUS_PATH) {
+    return { path, title: `${messages['status.title']} | ${content.brand.name}`, description: summarize(String(messages['status.description'])) };
+  }
+  if (path === CONSULTATION_PATH) {
+    return { path, title: `${messages['consultation.title']} | ${content.brand.name}`, description: summarize(String(messages['consultation.intro'])) };
+  }
+  if (path === PRIVACY_REQUESTS_PATH) {
+    return { path, title: `${messages['privacy.title']} | ${content.brand.name}`, description: summarize(String(messages['privacy.intro'])) };
+  }
+  if (path === PROTOCOL_BUILDER_PATH) {
+    return { path, title: `${messages['protocols.title']} | ${content.brand.name}`, description: summarize(String(messages['protocols.intro'])) };
+  }
+  if (path === OFFLINE_PATH) {
+    return { path, title: `${messages['offline.title']} | ${content.brand.name}`, description: summarize(String(messages['offline.intro'])), noindex: true };
+  }
+  return { path, title: content.seo.title, description: summarize(content.seo.description) };
+}
+
+/**
+ * Renders one page as the browser will first see it. Legal pages are loaded
+ * up front, since the component otherwise fetches them in an effect.
+ */
+export async function prerenderPage(path: string, siteUrl: string) {
+  const meta = await pageMeta(path);
+  const html = renderToString(
+    <StrictMode>
+      <ServerLocation.Provider value={path}>
+        <Root />
+      </ServerLocation.Provider>
+    </StrictMode>
+  );
+  return { html, head: headTags(meta, siteUrl, content) };
+}
@@ -0,0 +1,68 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { siteContentByLocale } from '../content/index.ts';
+import type { SiteContent } from '../content/schema.ts';
+import { formatPrice } from '../lib/membership.ts';
+import { LOCALE_INFO, detectLocale, storeLocale, type Locale } from './locales.ts';
+import { catalogs, type Catalog, type MessageKey } from './messages/index.ts';
+
+type MessageValues = Record<string, string | number>;
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  content: SiteContent;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  formatPrice: (amount: number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+}
+
+function translate(catalog: Catalog, locale: Locale, key: MessageKey, values: MessageValues = {}) {
+  const message = catalog[key];
+  let template: string;
+  if (typeof message === 'string') {
+    template = message;
+  } else {
+    const count = Number(values.count ?? 0);
+    const category = new Intl.PluralRules(LOCALE_INFO[locale].intl).select(count);
+    template = (count === 0 && message.zero) || message[category] || message.other;
+  }
+
+  const numbers = new Intl.NumberFormat(LOCALE_INFO[locale].intl);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? numbers.format(value) : value;
+  });
+}
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    storeLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.lang = locale;
+    root.dir = LOCALE_INFO[locale].dir;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    content: siteContentByLocale[locale],
+    t: (key, values) => translate(catalogs[locale], locale, key, values),
+    formatPrice: amount => formatPrice(amount, LOCALE_INFO[locale].intl),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
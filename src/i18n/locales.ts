@@ -0,0 +1,65 @@
+export const LOCALES = ['en', 'es', 'ar'] as const;
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export interface LocaleInfo {
+  /** Name of the language in that language, as shown in the switcher. */
+  label: string;
+  /** BCP 47 tag handed to Intl formatters. */
+  intl: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  en: { label: 'English', intl: 'en-US', dir: 'ltr' },
+  es: { label: 'Español', intl: 'es-ES', dir: 'ltr' },
+  ar: { label: 'العربية', intl: 'ar', dir: 'rtl' },
+};
+
+const STORAGE_KEY = 'nura.locale';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+function matchLanguage(tag: string) {
+  const language = tag.toLowerCase().split('-')[0];
+  return isLocale(language) ? language : undefined;
+}
+
+/**
+ * `?lang=` beats a remembered choice, which beats the browser's language list.
+ * Prerendering always gets the default.
+ */
+export function detectLocale(): Locale {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+  const fromQuery = new URLSearchParams(window.location.search).get('lang');
+  if (fromQuery && matchLanguage(fromQuery)) return matchLanguage(fromQuery)!;
+
+  const stored = readStoredLocale();
+  if (stored) return stored;
+
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const match = matchLanguage(tag);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+}
+
+function readStoredLocale() {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function storeLocale(locale: Locale) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Private mode or storage disabled: the choice just won't persist.
+  }
+}
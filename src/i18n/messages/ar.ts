@@ -0,0 +1,413 @@
+import type { Catalog } from './index.ts';
+
+export const ar: Catalog = {
+  'common.close': 'إغلاق',
+  'common.done': 'تم',
+  'common.error': 'تعذّر إكمال الطلب. يُرجى المحاولة مرة أخرى.',
+
+  'nav.language': 'اللغة',
+  'nav.menu': 'القائمة',
+  'nav.closeMenu': 'إغلاق القائمة',
+  'motion.pause': 'إيقاف الحركة مؤقتًا',
+  'motion.resume': 'تشغيل الحركة',
+  'theme.light': 'التبديل إلى المظهر الفاتح',
+  'theme.dark': 'التبديل إلى المظهر الداكن',
+
+  'form.name': 'الاسم',
+  'form.email': 'البريد الإلكتروني',
+  'form.error.name': 'يُرجى إدخال اسمك.',
+  'form.error.email': 'أدخل بريدًا إلكترونيًا صالحًا.',
+  'form.error.tier': 'اختر مستوى العضوية.',
+  'form.error.referralCode': 'رموز الإحالة من 4 إلى 32 حرفًا أو رقمًا أو شرطة.',
+  'form.error.consentVersion': 'يُرجى الموافقة على سياسة الخصوصية للمتابعة.',
+
+  'billing.label': 'فترة الفوترة',
+  'billing.monthly': 'شهري',
+  'billing.annual': 'سنوي',
+  'billing.saveUpTo': 'وفّر حتى {percent}٪',
+  'billing.suffix.monthly': '/شهريًا',
+  'billing.suffix.annual': '/سنويًا',
+  'billing.annualBreakdown': '{price}/شهريًا تُدفع سنويًا · وفّر {percent}٪',
+
+  'protocol.step': 'الخطوة {number}',
+
+  'membership.select': 'اختر {tier}',
+  'membership.activeNotice': 'تم تأكيد الدفع. مرحبًا بك في Nura — عضويتك مفعّلة الآن.',
+
+  'waitlist.title': 'انضم إلى قائمة الانتظار',
+  'waitlist.subtitle': 'كن من الأوائل عند فتح باب العضوية.',
+  'waitlist.tier': 'المستوى الذي يهمّك',
+  'waitlist.tierPlaceholder': 'اختر مستوى',
+  'waitlist.tierUndecided': 'لم أقرّر بعد',
+  'waitlist.referralCode': 'رمز الإحالة (اختياري)',
+  'waitlist.attachAssessment': 'أرفق إجاباتي في التقييم (العمر البيولوجي المقدّر {age}) بهذا التسجيل.',
+  'waitlist.submit': 'انضم إلى القائمة',
+  'waitlist.submitting': 'جارٍ الانضمام…',
+  'waitlist.successTitle': 'تحقق من بريدك الوارد.',
+  'waitlist.successBody': 'أرسلنا إليك رابطًا لتأكيد مكانك في قائمة الانتظار. وإن كنت قد انضممت من قبل، فقد أرسلنا إليك ترتيبك الحالي.',
+  'waitlist.ahead': {
+    zero: 'لا أحد قبلك.',
+    one: 'شخص واحد قبلك.',
+    two: 'شخصان قبلك.',
+    few: '{count} أشخاص قبلك.',
+    many: '{count} شخصًا قبلك.',
+    other: '{count} شخص قبلك.',
+  },
+  'waitlist.confirmedNotice': 'تم تأكيد بريدك الإلكتروني. مكانك في قائمة الانتظار محجوز، وأرسلنا إليك ترتيبك عبر البريد.',
+  'waitlist.unsubscribedNotice': 'تم إلغاء اشتراكك في رسائل قائمة الانتظار. لم يتغيّر مكانك في القائمة.',
+  'waitlist.linkExpiredNotice': 'انتهت صلاحية هذا الرابط أو أنه غير صالح. انضم إلى القائمة مجددًا بالبريد نفسه لتصلك رسالة جديدة.',
+  'waitlist.rateLimited': 'تم إجراء عدد كبير جدًا من التسجيلات من شبكتك اليوم. يُرجى المحاولة مجددًا غدًا.',
+  'waitlist.queuedTitle': 'أنت غير متصل بالإنترنت. تم حفظ تسجيلك.',
+  'waitlist.queuedBody': 'سنرسله فور عودة الاتصال، ثم نرسل إليك رابطًا بالبريد الإلكتروني لتأكيد مكانك.',
+
+  'referral.shareTitle': 'رابط الدعوة الخاص بك',
+  'referral.shareBody': 'كل صديق ينضم عبره ويؤكد بريده الإلكتروني يقدّمك {boost} مراكز.',
+  'referral.shareText': 'أنا في قائمة انتظار Nura Health. انضم عبر رابطي لنقترب معًا من المقدمة.',
+  'referral.copy': 'نسخ الرابط',
+  'referral.copied': 'تم النسخ',
+  'referral.share': 'مشاركة',
+  'referral.viewStatus': 'تابع دعواتك',
+  'referral.statusTitle': 'حالتك في قائمة الانتظار',
+  'referral.greeting': 'مرحبًا {name}، هذا مكانك في القائمة.',
+  'referral.loading': 'جارٍ تحميل حالتك',
+  'referral.unconfirmed': 'أكّد بريدك الإلكتروني عبر الرابط الذي أرسلناه إليك. حتى ذلك الحين، لا يمكن لدعواتك أن تقدّمك.',
+  'referral.referrals': {
+    zero: 'لا توجد دعوات مؤكدة بعد',
+    one: 'دعوة مؤكدة واحدة',
+    two: 'دعوتان مؤكدتان',
+    few: '{count} دعوات مؤكدة',
+    many: '{count} دعوة مؤكدة',
+    other: '{count} دعوة مؤكدة',
+  },
+  'referral.pending': {
+    one: 'دعوة واحدة بانتظار التأكيد',
+    two: 'دعوتان بانتظار التأكيد',
+    few: '{count} دعوات بانتظار التأكيد',
+    many: '{count} دعوة بانتظار التأكيد',
+    other: '{count} دعوة بانتظار التأكيد',
+  },
+  'referral.milestones': 'المكافآت',
+  'referral.milestone': {
+    one: 'عند دعوة واحدة',
+    two: 'عند دعوتين',
+    few: 'عند {count} دعوات',
+    many: 'عند {count} دعوة',
+    other: 'عند {count} دعوة',
+  },
+  'referral.reward.foundationMonth': 'شهر مجاني من Foundation',
+  'referral.reward.precisionMonth': 'شهر مجاني من Precision',
+  'referral.unlocked': 'تم الحصول عليها',
+  'referral.toGo': {
+    one: 'تبقّت دعوة واحدة',
+    two: 'تبقّت دعوتان',
+    few: 'تبقّت {count} دعوات',
+    many: 'تبقّت {count} دعوة',
+    other: 'تبقّت {count} دعوة',
+  },
+  'referral.notFound': 'لم نعثر على رابط قائمة الانتظار هذا. راجع أحدث رسالة منا.',
+
+  'privacy.title': 'بياناتك',
+  'privacy.intro': 'اطّلع على ما نحفظه باسم بريدك الإلكتروني، أو نزّل نسخة منه، أو اطلب حذفه. سنرسل رابطًا إلى بريدك للتأكد من أنك صاحبه.',
+  'privacy.submit': 'أرسل لي رابطًا',
+  'privacy.sent': 'إن كانت لدينا بيانات لـ {email} فالرابط في طريقه إليك. يعمل لمدة ساعة واحدة.',
+  'privacy.linkExpired': 'انتهت صلاحية هذا الرابط أو أنه غير صالح. اطلب رابطًا جديدًا أدناه.',
+  'privacy.loading': 'جارٍ تحميل بياناتك',
+  'privacy.storedFor': 'هذا ما نحفظه لـ {email}.',
+  'privacy.summary.waitlist': 'التسجيلات في قائمة الانتظار',
+  'privacy.summary.bookings': 'حجوزات الاستشارة',
+  'privacy.summary.enrollments': 'العضويات',
+  'privacy.summary.analyticsEvents': 'أحداث التحليلات',
+  'privacy.summary.emails': 'الرسائل المرسلة إليك',
+  'privacy.exportTitle': 'نزّل بياناتك',
+  'privacy.exportBody': 'احصل على كل ما سبق في ملف JSON.',
+  'privacy.export': 'تنزيل',
+  'privacy.deleteTitle': 'احذف بياناتك',
+  'privacy.deleteBody': 'يحذف مكانك في قائمة الانتظار وحجوزاتك وأحداث التحليلات والرسائل. نحتفظ بسجلات العضوية ما دامت القواعد المحاسبية تتطلب ذلك.',
+  'privacy.delete': 'احذف بياناتي',
+  'privacy.deleteConfirm': 'لا يمكن التراجع عن ذلك. ستفقد مكانك في قائمة الانتظار وأي استشارات قادمة.',
+  'privacy.deleteConfirmButton': 'نعم، احذف كل شيء',
+  'privacy.keep': 'احتفظ ببياناتي',
+  'privacy.deletedTitle': 'حُذفت بياناتك',
+  'privacy.deletedBody': 'أزلنا كل ما كان محفوظًا باسم بريدك الإلكتروني.',
+  'privacy.enrollmentsRetained': {
+    one: 'احتفظنا بسجل عضوية واحد لأغراض محاسبية.',
+    two: 'احتفظنا بسجلَّي عضوية لأغراض محاسبية.',
+    few: 'احتفظنا بـ {count} سجلات عضوية لأغراض محاسبية.',
+    many: 'احتفظنا بـ {count} سجل عضوية لأغراض محاسبية.',
+    other: 'احتفظنا بـ {count} سجل عضوية لأغراض محاسبية.',
+  },
+  'privacy.consent': 'أوافق على معالجة بياناتي كما تصفها سياسة الخصوصية.',
+  'privacy.readPolicy': 'اقرأ السياسة',
+
+  'protocols.title': 'أنشئ بروتوكولًا تجريبيًا',
+  'protocols.intro': 'اختر ما تريد العمل عليه وسنعدّ جدولًا أسبوعيًا من تدخلات تدعمها دراسات منشورة. عدّل الأيام والأوقات، ثم احفظه في تقويمك أو اطبعه.',
+  'protocols.disclaimer': 'هذا مثال تثقيفي وليس نصيحة طبية. الجرعات هي النطاقات المدروسة عادةً لدى البالغين الأصحاء. استشر طبيبًا قبل البدء بأي مكمّل، خاصة إذا كنت تتناول أدوية أو كنتِ حاملًا أو لديك حالة صحية.',
+  'protocols.goals': 'ما الذي تريد العمل عليه؟',
+  'protocols.empty': 'اختر هدفًا واحدًا على الأقل لإعداد جدول.',
+  'protocols.schedule': 'أسبوعك',
+  'protocols.intervention': 'التدخّل',
+  'protocols.time': 'وقت اليوم',
+  'protocols.slot.morning': 'الصباح',
+  'protocols.slot.midday': 'الظهيرة',
+  'protocols.slot.evening': 'المساء',
+  'protocols.slot.bedtime': 'قبل النوم',
+  'protocols.unit.mg': 'ملغ',
+  'protocols.unit.g': 'غ',
+  'protocols.unit.IU': 'وحدة دولية',
+  'protocols.unit.min': 'دقيقة',
+  'protocols.perDay': '{dose} يوميًا',
+  'protocols.perSession': '{dose} في الجلسة',
+  'protocols.withFood': 'مع الطعام',
+  'protocols.evidence.strong': 'أدلة قوية',
+  'protocols.evidence.moderate': 'أدلة متوسطة',
+  'protocols.evidence.emerging': 'أدلة أولية',
+  'protocols.toggleDay': '{name} يوم {day}',
+  'protocols.remove': 'إزالة {name}',
+  'protocols.add': 'أضف تدخّلًا',
+  'protocols.addPlaceholder': 'اختر واحدًا…',
+  'protocols.everyDay': 'كل يوم',
+  'protocols.interactions': 'تحقّق قبل أن تبدأ',
+  'protocols.appliesTo': 'ينطبق على: {names}.',
+  'protocols.copyLink': 'نسخ الرابط',
+  'protocols.copied': 'تم النسخ',
+  'protocols.calendar': 'أضف التذكيرات إلى التقويم',
+  'protocols.print': 'طباعة',
+  'protocols.consult': 'راجعه مع طبيب',
+  'protocols.printTitle': 'بروتوكول تجريبي، {date}',
+  'protocols.printLink': 'افتح هذا الجدول أو عدّله على {url}',
+  'offline.title': 'أنت غير متصل بالإنترنت',
+  'offline.intro': 'هذه الصفحة غير متاحة دون اتصال. كل ما يظهر أدناه محفوظ على هذا الجهاز ولا يزال يفتح.',
+  'offline.forms': 'التسجيل في قائمة الانتظار دون اتصال يُحفظ ويُرسل عند عودة الاتصال.',
+  'offline.retry': 'حاول مجددًا',
+  'offline.sections': 'في الصفحة الرئيسية',
+  'offline.pages': 'الصفحات المحفوظة',
+  'offline.update': 'يتوفر إصدار جديد من الموقع.',
+  'offline.reload': 'إعادة التحميل',
+  'offline.sent.waitlist': 'عاد الاتصال وتم إرسال تسجيلك في قائمة الانتظار. تحقق من بريدك الوارد لتأكيده.',
+  'offline.rejected.waitlist': 'تعذّر قبول تسجيلك المحفوظ. يُرجى الانضمام إلى قائمة الانتظار مجددًا.',
+
+  'enrollment.title': 'الاشتراك في {tier}',
+  'enrollment.submit': 'متابعة',
+  'enrollment.submitting': 'جارٍ الحجز…',
+  'enrollment.pending': 'الاشتراك قيد الانتظار',
+  'enrollment.pendingTitle': 'أكمل عضوية {tier}',
+  'enrollment.pendingBody': 'حجزنا مكانك. ستُفعَّل عضويتك بمجرد تأكيد الدفع.',
+  'enrollment.reference': 'المرجع {id}',
+  'enrollment.checkout': 'المتابعة إلى الدفع',
+
+  'assessment.start': 'ابدأ التقييم',
+  'assessment.stepOf': 'الخطوة {current} من {total}',
+  'assessment.step.lifestyle': 'نمط الحياة',
+  'assessment.step.sleep': 'النوم',
+  'assessment.step.activity': 'النشاط',
+  'assessment.step.family': 'التاريخ العائلي',
+  'assessment.step.labs': 'نتائج التحاليل',
+  'assessment.labsHint': 'اختياري. اتركها فارغة إن لم تكن لديك نتائج من آخر 12 شهرًا.',
+  'assessment.back': 'رجوع',
+  'assessment.next': 'التالي',
+  'assessment.seeResults': 'اعرض نتائجي',
+  'assessment.restart': 'ابدأ من جديد',
+  'assessment.required': 'يُرجى الإجابة عن هذا السؤال.',
+  'assessment.invalidNumber': 'أدخل قيمة بين {min} و{max}.',
+  'assessment.q.age': 'عمرك',
+  'assessment.q.smoking': 'هل تدخّن؟',
+  'assessment.q.alcohol': 'عدد المشروبات الكحولية أسبوعيًا',
+  'assessment.q.diet': 'كيف تصف نظامك الغذائي؟',
+  'assessment.q.sleepHours': 'متوسط ساعات النوم ليلًا',
+  'assessment.q.sleepQuality': 'إلى أي حد تشعر بالراحة عادةً؟',
+  'assessment.q.exerciseDays': 'أيام الأسبوع التي تمارس فيها الرياضة 30 دقيقة أو أكثر',
+  'assessment.q.strength': 'هل تمارس تمارين القوة مرة أسبوعيًا على الأقل؟',
+  'assessment.q.familyLongevity': 'هل عاش أحد والديك أو أجدادك بعد سن التسعين؟',
+  'assessment.q.familyCardio': 'هل أُصيب أحد والديك أو إخوتك بمرض في القلب قبل سن الستين؟',
+  'assessment.q.familyDiabetes': 'هل أُصيب أحد والديك أو إخوتك بالسكري من النوع الثاني؟',
+  'assessment.q.hba1c': 'HbA1c',
+  'assessment.q.crp': 'hs-CRP',
+  'assessment.q.ldl': 'كوليسترول LDL',
+  'assessment.o.smoking.never': 'أبدًا',
+  'assessment.o.smoking.former': 'مدخّن سابق',
+  'assessment.o.smoking.current': 'حاليًا',
+  'assessment.o.alcohol.none': 'لا شيء',
+  'assessment.o.alcohol.light': '1–7',
+  'assessment.o.alcohol.moderate': '8–14',
+  'assessment.o.alcohol.heavy': '15 أو أكثر',
+  'assessment.o.diet.wholeFood': 'أطعمة طبيعية غالبًا',
+  'assessment.o.diet.mixed': 'مختلط',
+  'assessment.o.diet.processed': 'أطعمة مصنّعة غالبًا',
+  'assessment.o.sleepHours.under6': 'أقل من 6 ساعات',
+  'assessment.o.sleepHours.6to7': '6–7 ساعات',
+  'assessment.o.sleepHours.7to9': '7–9 ساعات',
+  'assessment.o.sleepHours.over9': 'أكثر من 9 ساعات',
+  'assessment.o.sleepQuality.good': 'مرتاح',
+  'assessment.o.sleepQuality.fair': 'متعب أحيانًا',
+  'assessment.o.sleepQuality.poor': 'متعب غالبًا',
+  'assessment.o.exerciseDays.none': 'لا شيء',
+  'assessment.o.exerciseDays.1to2': '1–2',
+  'assessment.o.exerciseDays.3to4': '3–4',
+  'assessment.o.exerciseDays.5plus': '5 أو أكثر',
+  'assessment.o.yes': 'نعم',
+  'assessment.o.no': 'لا',
+  'assessment.o.unknown': 'لست متأكدًا',
+  'assessment.explain.smoking': 'يسرّع التدخين الشيخوخة فوق الجينية أكثر من أي عادة أخرى تقريبًا، ويتلاشى أثره ببطء بعد الإقلاع.',
+  'assessment.explain.alcohol': 'يرتبط الإفراط المنتظم في الكحول بتسارع شيخوخة مثيلة الحمض النووي وإجهاد الكبد.',
+  'assessment.explain.diet': 'تخفّض الأنظمة الغذائية الطبيعية الالتهاب، بينما ترتبط الأطعمة فائقة التصنيع بتسارع الشيخوخة.',
+  'assessment.explain.sleepHours': 'النوم من سبع إلى تسع ساعات يدعم الإصلاح الخلوي؛ والنوم القصير جدًا أو الطويل جدًا يرتبط بتسارع الشيخوخة.',
+  'assessment.explain.sleepQuality': 'يرفع النوم الرديء هرمونات التوتر ومؤشرات الالتهاب.',
+  'assessment.explain.exerciseDays': 'النشاط الهوائي المنتظم من أقوى ما يحمي العمر القلبي والأيضي.',
+  'assessment.explain.strength': 'تحافظ تمارين القوة على الكتلة العضلية وحساسية الإنسولين مع التقدّم في العمر.',
+  'assessment.explain.familyLongevity': 'وجود أقارب معمّرين يشير إلى أساس وراثي مواتٍ.',
+  'assessment.explain.familyCardio': 'إصابة الأقارب المقرّبين بأمراض القلب مبكرًا ترفع خطرك القلبي.',
+  'assessment.explain.familyDiabetes': 'التاريخ العائلي للسكري من النوع الثاني يرفع خطرك الأيضي.',
+  'assessment.explain.hba1c': 'يعكس HbA1c متوسط السكر في الدم خلال ثلاثة أشهر؛ والقيم من 5.7٪ فأعلى تشير إلى إجهاد أيضي.',
+  'assessment.explain.crp': 'يقيس hs-CRP الالتهاب العام؛ وتُعدّ القيم فوق 3 ملغ/لتر مرتفعة.',
+  'assessment.explain.ldl': 'ارتفاع كوليسترول LDL يزيد الخطر القلبي على المدى الطويل.',
+  'assessment.unit.years': '{value} سنة',
+  'assessment.result.title': 'عمرك البيولوجي المقدّر',
+  'assessment.result.younger': {
+    zero: 'مطابق لعمرك الزمني',
+    one: 'أصغر بسنة واحدة من عمرك الزمني',
+    two: 'أصغر بسنتين من عمرك الزمني',
+    few: 'أصغر بـ{count} سنوات من عمرك الزمني',
+    other: 'أصغر بـ{count} سنة من عمرك الزمني',
+  },
+  'assessment.result.older': {
+    zero: 'مطابق لعمرك الزمني',
+    one: 'أكبر بسنة واحدة من عمرك الزمني',
+    two: 'أكبر بسنتين من عمرك الزمني',
+    few: 'أكبر بـ{count} سنوات من عمرك الزمني',
+    other: 'أكبر بـ{count} سنة من عمرك الزمني',
+  },
+  'assessment.result.same': 'مطابق لعمرك الزمني',
+  'assessment.result.factors': 'ما الذي أثّر في تقديرك',
+  'assessment.recommend.title': 'العضوية المقترحة: {tier}',
+  'assessment.reason.elevated': 'تشير عدة إجابات إلى تسارع الشيخوخة. المراقبة المستمرة تمنح طبيبك أكبر قدر من المعلومات.',
+  'assessment.reason.risk': 'يضيف تاريخك العائلي أو نمط حياتك بعض المخاطر. اللوحات الشهرية ترصد التغيّرات مبكرًا.',
+  'assessment.reason.baseline': 'تبدأ من أساس قوي. تساعدك اللوحات ربع السنوية على الحفاظ عليه.',
+  'assessment.continue': 'انضم إلى قائمة الانتظار بهذه النتائج',
+
+  'chat.open': 'اسأل نورا',
+  'chat.title': 'مساعد نورا',
+  'chat.subtitle': 'أسئلة حول بروتوكولنا والعضويات',
+  'chat.greeting': 'مرحبًا! يمكنني شرح طريقة عمل نورا وما تتضمنه كل عضوية وكيفية البدء.',
+  'chat.suggestion.tiers': 'ما الفرق بين المستويات؟',
+  'chat.suggestion.protocol': 'كيف يعمل البروتوكول؟',
+  'chat.suggestion.assessment': 'ماذا يقيس التقييم الذاتي؟',
+  'chat.placeholder': 'اكتب سؤالك',
+  'chat.send': 'إرسال',
+  'chat.thinking': 'جارٍ كتابة الرد',
+  'chat.rateLimited': 'لقد أرسلت رسائل كثيرة. يُرجى الانتظار بضع دقائق ثم المحاولة مجددًا.',
+  'chat.disclaimer': 'إجابات آلية حول خدمات نورا فقط، وليست نصيحة طبية. لأي أمر يخص صحتك، تحدّث إلى طبيب مختص.',
+  'chat.refusal': 'لا أستطيع تقييم الأعراض أو نتائج التحاليل أو الأدوية لشخص بعينه. يراجع طبيب نورا ذلك بعد تقييمك الأساسي. وفي الأثناء، يسعدني أن أشرح طريقة عمل البروتوكول والعضويات.',
+
+  'legal.updated': 'آخر تحديث: {date}',
+  'legal.loading': 'جارٍ التحميل',
+
+  'consent.title': 'خيارات الخصوصية',
+  'consent.body': 'نستخدم التخزين الضروري فقط لتشغيل الموقع. وبإذنك، سنستخدم أيضًا التحليلات لمعرفة الصفحات المفيدة للزوار، وأدوات التسويق لقياس حملاتنا. لا يعمل أي شيء اختياري قبل أن تختار.',
+  'consent.privacyLink': 'اقرأ سياسة الخصوصية',
+  'consent.acceptAll': 'قبول الكل',
+  'consent.rejectAll': 'رفض غير الضروري',
+  'consent.customize': 'اختيار الفئات',
+  'consent.save': 'حفظ اختياراتي',
+  'consent.manage': 'إعدادات ملفات تعريف الارتباط',
+  'consent.necessary': 'ضرورية للغاية',
+  'consent.necessaryDescription': 'تتذكّر لغتك وإعدادات الحركة والخصوصية. مفعّلة دائمًا.',
+  'consent.analytics': 'التحليلات',
+  'consent.analyticsDescription': 'إحصاءات استخدام مجهولة تساعدنا على تحسين الموقع.',
+  'consent.marketing': 'التسويق',
+  'consent.marketingDescription': 'تقيس أداء حملاتنا الإعلانية وحملات الإحالة.',
+
+  'status.title': 'حالة النظام',
+  'status.description': 'حالة توفر موقع Nura Health وقائمة الانتظار والتسجيل والمساعد مباشرةً، مع الحوادث الأخيرة.',
+  'status.loading': 'جارٍ التحميل',
+  'status.pill.operational': 'النظام يعمل',
+  'status.pill.degraded': 'أداء متراجع',
+  'status.pill.outage': 'انقطاع في الخدمة',
+  'status.pill.unknown': 'الحالة غير متاحة',
+  'status.summary.operational': 'جميع الأنظمة تعمل بشكل طبيعي',
+  'status.summary.degraded': 'بعض الأنظمة تعمل ببطء',
+  'status.summary.outage': 'نواجه انقطاعًا في الخدمة',
+  'status.checkedAt': 'آخر فحص {time}',
+  'status.components': 'المكوّنات',
+  'status.check.database': 'قائمة الانتظار والتسجيل',
+  'status.check.chat': 'مساعد اسأل نورا',
+  'status.state.operational': 'يعمل',
+  'status.state.degraded': 'متراجع',
+  'status.state.outage': 'منقطع',
+  'status.incidents': 'الحوادث الأخيرة',
+  'status.noIncidents': 'لا توجد حوادث خلال آخر {days} يومًا.',
+  'status.incident.investigating': 'قيد التحقيق',
+  'status.incident.identified': 'تم تحديد السبب',
+  'status.incident.monitoring': 'قيد المراقبة',
+  'status.incident.resolved': 'تم الحل',
+
+  'labs.upload': 'جرّبها بنتائج تحاليلك',
+  'labs.reading': 'جارٍ قراءة ملفك',
+  'labs.dropHint': 'ملف CSV أو FHIR JSON. تتم القراءة على هذا الجهاز فقط ولا يُرفع أي شيء.',
+  'labs.loaded': {
+    zero: 'لا توجد مؤشرات من {file}',
+    one: 'مؤشر واحد من {file}',
+    two: 'مؤشران من {file}',
+    few: '{count} مؤشرات من {file}',
+    many: '{count} مؤشرًا من {file}',
+    other: '{count} مؤشر من {file}',
+  },
+  'labs.skipped': {
+    one: 'صف واحد غير معروف',
+    two: 'صفان غير معروفين',
+    few: '{count} صفوف غير معروفة',
+    many: '{count} صفًا غير معروف',
+    other: '{count} صف غير معروف',
+  },
+  'labs.clear': 'امسح نتائجي',
+  'labs.reference': 'المرجع {range}',
+  'labs.status.optimal': 'مثالي',
+  'labs.status.borderline': 'حدّي',
+  'labs.status.outOfRange': 'خارج النطاق',
+  'labs.error.tooLarge': 'حجم الملف أكبر من 2 ميغابايت.',
+  'labs.error.unreadable': 'تعذّرت قراءة الملف. استخدم ملف CSV يحتوي على أعمدة الفحص والقيمة والوحدة، أو حزمة FHIR من نوع Observation.',
+  'labs.error.noResults': 'لا تطابق أي من النتائج في الملف المؤشرات التي نتابعها.',
+
+  'consultation.title': 'تحدّث مع طبيب',
+  'consultation.manage': 'استشارتك',
+  'consultation.intro': 'احجز مكالمة فيديو مجانية مدتها 30 دقيقة مع أحد أطبائنا قبل اختيار عضويتك. تُعرض المواعيد بحسب منطقتك الزمنية.',
+  'consultation.week': 'أسبوع',
+  'consultation.month': 'شهر',
+  'consultation.previous': 'السابق',
+  'consultation.next': 'التالي',
+  'consultation.clinician': 'الطبيب',
+  'consultation.anyClinician': 'أي طبيب متاح',
+  'consultation.timeZone': 'المنطقة الزمنية',
+  'consultation.loading': 'جارٍ تحميل المواعيد المتاحة',
+  'consultation.noSlots': 'لا توجد مواعيد متاحة في هذه الفترة. جرّب أسبوعًا لاحقًا.',
+  'consultation.pickDay': 'اختر يومًا لعرض مواعيده.',
+  'consultation.slotCount': {
+    zero: 'لا مواعيد',
+    one: 'موعد واحد',
+    two: 'موعدان',
+    few: '{count} مواعيد',
+    many: '{count} موعدًا',
+    other: '{count} موعد',
+  },
+  'consultation.with': 'مع {clinician}، {title}',
+  'consultation.changeTime': 'تغيير الموعد',
+  'consultation.notes': 'هل هناك ما يجب أن نعرفه؟ (اختياري)',
+  'consultation.error.notes': 'يجب ألا تتجاوز الملاحظات 1000 حرف.',
+  'consultation.submit': 'احجز الاستشارة',
+  'consultation.submitting': 'جارٍ الحجز',
+  'consultation.taken': 'حجز شخص آخر هذا الموعد للتو. يرجى اختيار موعد آخر.',
+  'consultation.confirmedTitle': 'تم حجز استشارتك',
+  'consultation.manageHint': 'احتفظ بهذا الرابط لتغيير الموعد أو إلغائه:',
+  'consultation.addToCalendar': 'أضف إلى التقويم (.ics)',
+  'consultation.notFound': 'لم نعثر على هذه الاستشارة. تحقّق من الرابط في رسالة التأكيد.',
+  'consultation.reschedule': 'تغيير الموعد',
+  'consultation.rescheduleTitle': 'اختر موعدًا جديدًا',
+  'consultation.rescheduled': 'تم نقل استشارتك. نزّل الدعوة مجددًا لتحديث تقويمك.',
+  'consultation.cancel': 'إلغاء الاستشارة',
+  'consultation.cancelConfirm': 'نعم، ألغِها',
+  'consultation.keep': 'الإبقاء عليها',
+  'consultation.cancelled': 'تم إلغاء استشارتك.',
+  'consultation.bookAnother': 'احجز موعدًا آخر',
+  'consultation.preview.next': 'أقرب المواعيد المتاحة',
+  'consultation.preview.none': 'نفتح مواعيد استشارة جديدة كل أسبوع.',
+  'consultation.preview.cta': 'احجز استشارة',
+};
@@ -0,0 +1,376 @@
+export const en = {
+  'common.close': 'Close',
+  'common.done': 'Done',
+  'common.error': "We couldn't complete that request. Please try again.",
+
+  'nav.language': 'Language',
+  'nav.menu': 'Menu',
+  'nav.closeMenu': 'Close menu',
+  'motion.pause': 'Pause animations',
+  'motion.resume': 'Play animations',
+  'theme.light': 'Switch to light theme',
+  'theme.dark': 'Switch to dark theme',
+
+  'form.name': 'Name',
+  'form.email': 'Email',
+  'form.error.name': 'Please tell us your name.',
+  'form.error.email': 'Enter a valid email address.',
+  'form.error.tier': 'Choose a membership tier.',
+  'form.error.referralCode': 'Referral codes are 4–32 letters, numbers or dashes.',
+  'form.error.consentVersion': 'Please agree to the privacy policy to continue.',
+
+  'billing.label': 'Billing period',
+  'billing.monthly': 'Monthly',
+  'billing.annual': 'Annual',
+  'billing.saveUpTo': 'Save up to {percent}%',
+  'billing.suffix.monthly': '/mo',
+  'billing.suffix.annual': '/yr',
+  'billing.annualBreakdown': '{price}/mo billed yearly · save {percent}%',
+
+  'protocol.step': 'Step {number}',
+
+  'membership.select': 'Select {tier}',
+  'membership.activeNotice': 'Payment confirmed. Welcome to Nura — your membership is active.',
+
+  'waitlist.title': 'Join the waitlist',
+  'waitlist.subtitle': 'Be first in line when membership opens.',
+  'waitlist.tier': 'Tier of interest',
+  'waitlist.tierPlaceholder': 'Select a tier',
+  'waitlist.tierUndecided': 'Not sure yet',
+  'waitlist.referralCode': 'Referral code (optional)',
+  'waitlist.attachAssessment': 'Attach my assessment answers (estimated biological age {age}) to this signup.',
+  'waitlist.submit': 'Join the waitlist',
+  'waitlist.submitting': 'Joining…',
+  'waitlist.successTitle': "Check your inbox.",
+  'waitlist.successBody': "We've emailed you a link to confirm your place on the waitlist. If you'd already joined, we've sent your current position instead.",
+  'waitlist.ahead': {
+    zero: 'Nobody is ahead of you.',
+    one: '{count} person is ahead of you.',
+    other: '{count} people are ahead of you.',
+  },
+  'waitlist.confirmedNotice': "Email confirmed. Your place on the waitlist is held, and we've emailed you your position.",
+  'waitlist.unsubscribedNotice': "You're unsubscribed from waitlist emails. Your place on the list hasn't changed.",
+  'waitlist.linkExpiredNotice': "That link has expired or isn't valid. Join the waitlist again with the same email to get a fresh one.",
+  'waitlist.rateLimited': 'Too many signups from your network today. Please try again tomorrow.',
+  'waitlist.queuedTitle': "You're offline. Your signup is saved.",
+  'waitlist.queuedBody': "We'll send it as soon as you're back online, and then email you a link to confirm your place.",
+
+  'referral.shareTitle': 'Your referral link',
+  'referral.shareBody': 'Each friend who joins with it and confirms their email moves you up {boost} places.',
+  'referral.shareText': "I'm on the Nura Health waitlist. Join with my link and we both get closer to the front.",
+  'referral.copy': 'Copy link',
+  'referral.copied': 'Copied',
+  'referral.share': 'Share',
+  'referral.viewStatus': 'Track your referrals',
+  'referral.statusTitle': 'Your waitlist status',
+  'referral.greeting': 'Hi {name}, this is your place in line.',
+  'referral.loading': 'Loading your status',
+  'referral.unconfirmed': "Confirm your email with the link we sent you. Until then, your referrals can't move you up.",
+  'referral.referrals': {
+    zero: 'No confirmed referrals yet',
+    one: '{count} confirmed referral',
+    other: '{count} confirmed referrals',
+  },
+  'referral.pending': {
+    one: '{count} waiting to confirm',
+    other: '{count} waiting to confirm',
+  },
+  'referral.milestones': 'Rewards',
+  'referral.milestone': {
+    one: 'At {count} referral',
+    other: 'At {count} referrals',
+  },
+  'referral.reward.foundationMonth': 'A free month of Foundation',
+  'referral.reward.precisionMonth': 'A free month of Precision',
+  'referral.unlocked': 'Unlocked',
+  'referral.toGo': {
+    one: '{count} more to go',
+    other: '{count} more to go',
+  },
+  'referral.notFound': "We couldn't find that waitlist link. Check the latest email from us.",
+
+  'privacy.title': 'Your data',
+  'privacy.intro': "See what we store under your email, download a copy, or ask us to delete it. We'll send a link to your inbox to confirm it's you.",
+  'privacy.submit': 'Email me a link',
+  'privacy.sent': "If we hold any data for {email}, a link is on its way. It works for one hour.",
+  'privacy.linkExpired': "That link has expired or isn't valid. Request a new one below.",
+  'privacy.loading': 'Loading your data',
+  'privacy.storedFor': 'This is what we store for {email}.',
+  'privacy.summary.waitlist': 'Waitlist signups',
+  'privacy.summary.bookings': 'Consultation bookings',
+  'privacy.summary.enrollments': 'Memberships',
+  'privacy.summary.analyticsEvents': 'Analytics events',
+  'privacy.summary.emails': 'Emails sent to you',
+  'privacy.exportTitle': 'Download your data',
+  'privacy.exportBody': 'Get everything listed above as a JSON file.',
+  'privacy.export': 'Download',
+  'privacy.deleteTitle': 'Delete your data',
+  'privacy.deleteBody': 'Removes your waitlist place, bookings, analytics events and emails. Membership records are kept for as long as accounting rules require.',
+  'privacy.delete': 'Delete my data',
+  'privacy.deleteConfirm': "This can't be undone. You'll lose your waitlist place and any upcoming consultations.",
+  'privacy.deleteConfirmButton': 'Yes, delete everything',
+  'privacy.keep': 'Keep my data',
+  'privacy.deletedTitle': 'Your data has been deleted',
+  'privacy.deletedBody': "We've removed everything stored under your email.",
+  'privacy.enrollmentsRetained': {
+    one: 'We kept {count} membership record for accounting.',
+    other: 'We kept {count} membership records for accounting.',
+  },
+  'privacy.consent': 'I agree to the processing of my data as described in the privacy policy.',
+  'privacy.readPolicy': 'Read the policy',
+
+  'protocols.title': 'Build an example protocol',
+  'protocols.intro': 'Pick what you want to work on and we\'ll draft a weekly schedule from interventions with published evidence. Adjust the days and times, then save it to your calendar or print it.',
+  'protocols.disclaimer': 'This is an educational example, not medical advice. Doses are the ranges commonly studied in healthy adults. Talk to a physician before starting any supplement, especially if you take medication, are pregnant or have a health condition.',
+  'protocols.goals': 'What do you want to work on?',
+  'protocols.empty': 'Pick at least one goal to draft a schedule.',
+  'protocols.schedule': 'Your week',
+  'protocols.intervention': 'Intervention',
+  'protocols.time': 'Time of day',
+  'protocols.slot.morning': 'Morning',
+  'protocols.slot.midday': 'Midday',
+  'protocols.slot.evening': 'Evening',
+  'protocols.slot.bedtime': 'Bedtime',
+  'protocols.unit.mg': 'mg',
+  'protocols.unit.g': 'g',
+  'protocols.unit.IU': 'IU',
+  'protocols.unit.min': 'min',
+  'protocols.perDay': '{dose} a day',
+  'protocols.perSession': '{dose} per session',
+  'protocols.withFood': 'with food',
+  'protocols.evidence.strong': 'Strong evidence',
+  'protocols.evidence.moderate': 'Moderate evidence',
+  'protocols.evidence.emerging': 'Emerging evidence',
+  'protocols.toggleDay': '{name} on {day}',
+  'protocols.remove': 'Remove {name}',
+  'protocols.add': 'Add an intervention',
+  'protocols.addPlaceholder': 'Choose one…',
+  'protocols.everyDay': 'Every day',
+  'protocols.interactions': 'Check before you start',
+  'protocols.appliesTo': 'Applies to {names}.',
+  'protocols.copyLink': 'Copy link',
+  'protocols.copied': 'Copied',
+  'protocols.calendar': 'Add reminders to calendar',
+  'protocols.print': 'Print',
+  'protocols.consult': 'Review it with a physician',
+  'protocols.printTitle': 'Example protocol, {date}',
+  'protocols.printLink': 'Open or change this schedule at {url}',
+  'offline.title': "You're offline",
+  'offline.intro': "This page isn't available without a connection. Everything below was saved on this device and still opens.",
+  'offline.forms': 'A waitlist signup made while offline is saved and sent when your connection returns.',
+  'offline.retry': 'Try again',
+  'offline.sections': 'On the home page',
+  'offline.pages': 'Saved pages',
+  'offline.update': 'A new version of the site is available.',
+  'offline.reload': 'Reload',
+  'offline.sent.waitlist': "You're back online, and your waitlist signup has been sent. Check your inbox to confirm it.",
+  'offline.rejected.waitlist': "Your saved waitlist signup couldn't be accepted. Please join the waitlist again.",
+
+  'enrollment.title': 'Enroll in {tier}',
+  'enrollment.submit': 'Continue',
+  'enrollment.submitting': 'Reserving…',
+  'enrollment.pending': 'Enrollment pending',
+  'enrollment.pendingTitle': 'Complete your {tier} membership',
+  'enrollment.pendingBody': "We've reserved your place. Your membership activates once payment is confirmed.",
+  'enrollment.reference': 'Ref {id}',
+  'enrollment.checkout': 'Continue to payment',
+
+  'assessment.start': 'Start the assessment',
+  'assessment.stepOf': 'Step {current} of {total}',
+  'assessment.step.lifestyle': 'Lifestyle',
+  'assessment.step.sleep': 'Sleep',
+  'assessment.step.activity': 'Activity',
+  'assessment.step.family': 'Family history',
+  'assessment.step.labs': 'Lab values',
+  'assessment.labsHint': 'Optional. Leave these blank if you don\'t have results from the last 12 months.',
+  'assessment.back': 'Back',
+  'assessment.next': 'Next',
+  'assessment.seeResults': 'See my results',
+  'assessment.restart': 'Start over',
+  'assessment.required': 'Please answer this question.',
+  'assessment.invalidNumber': 'Enter a value between {min} and {max}.',
+  'assessment.q.age': 'Your age',
+  'assessment.q.smoking': 'Do you smoke?',
+  'assessment.q.alcohol': 'Alcoholic drinks per week',
+  'assessment.q.diet': 'How would you describe your diet?',
+  'assessment.q.sleepHours': 'Average sleep per night',
+  'assessment.q.sleepQuality': 'How rested do you usually feel?',
+  'assessment.q.exerciseDays': 'Days per week with 30+ minutes of exercise',
+  'assessment.q.strength': 'Do you strength train at least once a week?',
+  'assessment.q.familyLongevity': 'Did a parent or grandparent live past 90?',
+  'assessment.q.familyCardio': 'Heart disease in a parent or sibling before age 60?',
+  'assessment.q.familyDiabetes': 'Type 2 diabetes in a parent or sibling?',
+  'assessment.q.hba1c': 'HbA1c',
+  'assessment.q.crp': 'hs-CRP',
+  'assessment.q.ldl': 'LDL cholesterol',
+  'assessment.o.smoking.never': 'Never',
+  'assessment.o.smoking.former': 'Former smoker',
+  'assessment.o.smoking.current': 'Currently',
+  'assessment.o.alcohol.none': 'None',
+  'assessment.o.alcohol.light': '1–7',
+  'assessment.o.alcohol.moderate': '8–14',
+  'assessment.o.alcohol.heavy': '15 or more',
+  'assessment.o.diet.wholeFood': 'Mostly whole foods',
+  'assessment.o.diet.mixed': 'Mixed',
+  'assessment.o.diet.processed': 'Mostly processed',
+  'assessment.o.sleepHours.under6': 'Under 6 h',
+  'assessment.o.sleepHours.6to7': '6–7 h',
+  'assessment.o.sleepHours.7to9': '7–9 h',
+  'assessment.o.sleepHours.over9': 'Over 9 h',
+  'assessment.o.sleepQuality.good': 'Well rested',
+  'assessment.o.sleepQuality.fair': 'Sometimes tired',
+  'assessment.o.sleepQuality.poor': 'Usually tired',
+  'assessment.o.exerciseDays.none': 'None',
+  'assessment.o.exerciseDays.1to2': '1–2',
+  'assessment.o.exerciseDays.3to4': '3–4',
+  'assessment.o.exerciseDays.5plus': '5 or more',
+  'assessment.o.yes': 'Yes',
+  'assessment.o.no': 'No',
+  'assessment.o.unknown': 'Not sure',
+  'assessment.explain.smoking': 'Tobacco smoke accelerates epigenetic aging more than almost any other habit; the effect fades slowly after quitting.',
+  'assessment.explain.alcohol': 'Regular heavy drinking is linked to faster DNA methylation aging and liver stress.',
+  'assessment.explain.diet': 'Whole-food diets lower inflammation, while ultra-processed diets are associated with faster aging.',
+  'assessment.explain.sleepHours': 'Seven to nine hours supports cellular repair; both short and very long sleep track with faster aging.',
+  'assessment.explain.sleepQuality': 'Poor sleep quality raises stress hormones and inflammatory markers.',
+  'assessment.explain.exerciseDays': 'Regular aerobic activity is one of the strongest protectors of cardiovascular and metabolic age.',
+  'assessment.explain.strength': 'Strength training preserves muscle mass and insulin sensitivity as you age.',
+  'assessment.explain.familyLongevity': 'Long-lived relatives suggest a favorable genetic baseline.',
+  'assessment.explain.familyCardio': 'Early heart disease in close relatives raises your own cardiovascular risk.',
+  'assessment.explain.familyDiabetes': 'A family history of type 2 diabetes raises your metabolic risk.',
+  'assessment.explain.hba1c': 'HbA1c reflects average blood sugar over three months; values of 5.7% and above signal metabolic strain.',
+  'assessment.explain.crp': 'hs-CRP measures systemic inflammation; values above 3 mg/L are considered high.',
+  'assessment.explain.ldl': 'Elevated LDL cholesterol adds to long-term cardiovascular risk.',
+  'assessment.unit.years': '{value} yrs',
+  'assessment.result.title': 'Your estimated biological age',
+  'assessment.result.younger': {
+    one: '{count} year younger than your calendar age',
+    other: '{count} years younger than your calendar age',
+  },
+  'assessment.result.older': {
+    one: '{count} year older than your calendar age',
+    other: '{count} years older than your calendar age',
+  },
+  'assessment.result.same': 'In line with your calendar age',
+  'assessment.result.factors': 'What moved your estimate',
+  'assessment.recommend.title': 'Suggested membership: {tier}',
+  'assessment.reason.elevated': 'Several answers point to accelerated aging. Continuous monitoring gives your physician the most to work with.',
+  'assessment.reason.risk': 'Family history or lifestyle factors add risk. Monthly panels catch changes early.',
+  'assessment.reason.baseline': 'You\'re starting from a strong baseline. Quarterly panels help keep it that way.',
+  'assessment.continue': 'Join the waitlist with these results',
+
+  'chat.open': 'Ask Nura',
+  'chat.title': 'Nura concierge',
+  'chat.subtitle': 'Questions about our protocol and membership',
+  'chat.greeting': 'Hi! I can explain how Nura works, what each membership includes and how to get started.',
+  'chat.suggestion.tiers': 'What is the difference between the tiers?',
+  'chat.suggestion.protocol': 'How does the protocol work?',
+  'chat.suggestion.assessment': 'What does the self-assessment measure?',
+  'chat.placeholder': 'Ask a question',
+  'chat.send': 'Send',
+  'chat.thinking': 'Writing a reply',
+  'chat.rateLimited': 'You\'ve sent a lot of messages. Please wait a few minutes and try again.',
+  'chat.disclaimer': 'Automated answers about Nura\'s services only. Not medical advice — for anything about your own health, speak with a clinician.',
+  'chat.refusal': 'I can\'t assess symptoms, lab results or medication for individuals. A Nura physician reviews that after your baseline assessment. In the meantime, I\'m happy to explain how the protocol and memberships work.',
+
+  'legal.updated': 'Last updated {date}',
+  'legal.loading': 'Loading',
+
+  'consent.title': 'Your privacy choices',
+  'consent.body': 'We use strictly necessary storage to run the site. With your permission we\'d also use analytics to understand which pages help visitors, and marketing tools to measure our campaigns. Nothing optional runs until you choose.',
+  'consent.privacyLink': 'Read our privacy policy',
+  'consent.acceptAll': 'Accept all',
+  'consent.rejectAll': 'Reject non-essential',
+  'consent.customize': 'Choose categories',
+  'consent.save': 'Save my choices',
+  'consent.manage': 'Cookie settings',
+  'consent.necessary': 'Strictly necessary',
+  'consent.necessaryDescription': 'Remembers your language, motion and privacy settings. Always on.',
+  'consent.analytics': 'Analytics',
+  'consent.analyticsDescription': 'Anonymous usage statistics that help us improve the site.',
+  'consent.marketing': 'Marketing',
+  'consent.marketingDescription': 'Measures how our advertising and referral campaigns perform.',
+
+  'status.title': 'System status',
+  'status.description': 'Live availability of the Nura Health website, waitlist, enrollment and concierge, with recent incidents.',
+  'status.loading': 'Loading',
+  'status.pill.operational': 'System operational',
+  'status.pill.degraded': 'Degraded performance',
+  'status.pill.outage': 'Service outage',
+  'status.pill.unknown': 'Status unavailable',
+  'status.summary.operational': 'All systems operational',
+  'status.summary.degraded': 'Some systems are running slowly',
+  'status.summary.outage': 'We\'re experiencing an outage',
+  'status.checkedAt': 'Last checked {time}',
+  'status.components': 'Components',
+  'status.check.database': 'Waitlist and enrollment',
+  'status.check.chat': 'Ask Nura concierge',
+  'status.state.operational': 'Operational',
+  'status.state.degraded': 'Degraded',
+  'status.state.outage': 'Outage',
+  'status.incidents': 'Recent incidents',
+  'status.noIncidents': 'No incidents in the last {days} days.',
+  'status.incident.investigating': 'Investigating',
+  'status.incident.identified': 'Identified',
+  'status.incident.monitoring': 'Monitoring',
+  'status.incident.resolved': 'Resolved',
+
+  'labs.upload': 'Try it with your lab results',
+  'labs.reading': 'Reading your file',
+  'labs.dropHint': 'CSV or FHIR JSON. Read on this device only; nothing is uploaded.',
+  'labs.loaded': {
+    one: '{count} marker from {file}',
+    other: '{count} markers from {file}',
+  },
+  'labs.skipped': {
+    one: '{count} row not recognized',
+    other: '{count} rows not recognized',
+  },
+  'labs.clear': 'Clear my results',
+  'labs.reference': 'Ref {range}',
+  'labs.status.optimal': 'Optimal',
+  'labs.status.borderline': 'Borderline',
+  'labs.status.outOfRange': 'Out of range',
+  'labs.error.tooLarge': 'That file is larger than 2 MB.',
+  'labs.error.unreadable': 'We couldn\'t read that file. Use a CSV with test, value and unit columns, or a FHIR Observation bundle.',
+  'labs.error.noResults': 'None of the results in that file match the markers we track.',
+
+  'consultation.title': 'Talk to a physician',
+  'consultation.manage': 'Your consultation',
+  'consultation.intro': 'Book a free 30-minute video call with one of our physicians before you choose a membership. Times are shown in your time zone.',
+  'consultation.week': 'Week',
+  'consultation.month': 'Month',
+  'consultation.previous': 'Earlier',
+  'consultation.next': 'Later',
+  'consultation.clinician': 'Clinician',
+  'consultation.anyClinician': 'Any available clinician',
+  'consultation.timeZone': 'Time zone',
+  'consultation.loading': 'Loading available times',
+  'consultation.noSlots': 'No open times in this range. Try a later week.',
+  'consultation.pickDay': 'Pick a day to see its times.',
+  'consultation.slotCount': {
+    one: '{count} time',
+    other: '{count} times',
+  },
+  'consultation.with': 'With {clinician}, {title}',
+  'consultation.changeTime': 'Change time',
+  'consultation.notes': 'Anything we should know? (optional)',
+  'consultation.error.notes': 'Notes must be 1000 characters or fewer.',
+  'consultation.submit': 'Book consultation',
+  'consultation.submitting': 'Booking',
+  'consultation.taken': 'That time was just booked by someone else. Please choose another.',
+  'consultation.confirmedTitle': 'You\'re booked',
+  'consultation.manageHint': 'Keep this link to reschedule or cancel:',
+  'consultation.addToCalendar': 'Add to calendar (.ics)',
+  'consultation.notFound': 'We couldn\'t find that consultation. Check the link in your confirmation.',
+  'consultation.reschedule': 'Reschedule',
+  'consultation.rescheduleTitle': 'Pick a new time',
+  'consultation.rescheduled': 'Your consultation has been moved. Download the invite again to update your calendar.',
+  'consultation.cancel': 'Cancel consultation',
+  'consultation.cancelConfirm': 'Yes, cancel it',
+  'consultation.keep': 'Keep it',
+  'consultation.cancelled': 'Your consultation has been cancelled.',
+  'consultation.bookAnother': 'Book another time',
+  'consultation.preview.next': 'Next available times',
+  'consultation.preview.none': 'New consultation times open every week.',
+  'consultation.preview.cta': 'Book a consultation',
+};
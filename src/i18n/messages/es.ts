@@ -0,0 +1,378 @@
+import type { Catalog } from './index.ts';
+
+export const es: Catalog = {
+  'common.close': 'Cerrar',
+  'common.done': 'Listo',
+  'common.error': 'No hemos podido completar la solicitud. Inténtalo de nuevo.',
+
+  'nav.language': 'Idioma',
+  'nav.menu': 'Menú',
+  'nav.closeMenu': 'Cerrar menú',
+  'motion.pause': 'Pausar animaciones',
+  'motion.resume': 'Reproducir animaciones',
+  'theme.light': 'Cambiar al tema claro',
+  'theme.dark': 'Cambiar al tema oscuro',
+
+  'form.name': 'Nombre',
+  'form.email': 'Correo electrónico',
+  'form.error.name': 'Indícanos tu nombre.',
+  'form.error.email': 'Introduce un correo electrónico válido.',
+  'form.error.tier': 'Elige un nivel de membresía.',
+  'form.error.referralCode': 'Los códigos de referido tienen de 4 a 32 letras, números o guiones.',
+  'form.error.consentVersion': 'Acepta la política de privacidad para continuar.',
+
+  'billing.label': 'Periodo de facturación',
+  'billing.monthly': 'Mensual',
+  'billing.annual': 'Anual',
+  'billing.saveUpTo': 'Ahorra hasta un {percent} %',
+  'billing.suffix.monthly': '/mes',
+  'billing.suffix.annual': '/año',
+  'billing.annualBreakdown': '{price}/mes facturado anualmente · ahorra un {percent} %',
+
+  'protocol.step': 'Paso {number}',
+
+  'membership.select': 'Elegir {tier}',
+  'membership.activeNotice': 'Pago confirmado. Bienvenido a Nura: tu membresía está activa.',
+
+  'waitlist.title': 'Únete a la lista de espera',
+  'waitlist.subtitle': 'Sé de los primeros cuando se abra la membresía.',
+  'waitlist.tier': 'Nivel de interés',
+  'waitlist.tierPlaceholder': 'Elige un nivel',
+  'waitlist.tierUndecided': 'Aún no lo sé',
+  'waitlist.referralCode': 'Código de referido (opcional)',
+  'waitlist.attachAssessment': 'Adjuntar mis respuestas de la evaluación (edad biológica estimada {age}) a esta inscripción.',
+  'waitlist.submit': 'Unirme a la lista',
+  'waitlist.submitting': 'Enviando…',
+  'waitlist.successTitle': 'Revisa tu correo.',
+  'waitlist.successBody': 'Te hemos enviado un enlace para confirmar tu plaza en la lista de espera. Si ya te habías unido, te hemos enviado tu posición actual.',
+  'waitlist.ahead': {
+    zero: 'No hay nadie delante de ti.',
+    one: 'Hay {count} persona delante de ti.',
+    other: 'Hay {count} personas delante de ti.',
+  },
+  'waitlist.confirmedNotice': 'Correo confirmado. Tu plaza en la lista está reservada y te hemos enviado tu posición por correo.',
+  'waitlist.unsubscribedNotice': 'Ya no recibirás correos de la lista de espera. Tu posición en la lista no ha cambiado.',
+  'waitlist.linkExpiredNotice': 'Ese enlace ha caducado o no es válido. Vuelve a unirte a la lista con el mismo correo para recibir uno nuevo.',
+  'waitlist.rateLimited': 'Hoy se han hecho demasiadas inscripciones desde tu red. Vuelve a intentarlo mañana.',
+  'waitlist.queuedTitle': 'Estás sin conexión. Tu inscripción está guardada.',
+  'waitlist.queuedBody': 'La enviaremos en cuanto vuelvas a tener conexión, y te mandaremos por correo un enlace para confirmar tu lugar.',
+
+  'referral.shareTitle': 'Tu enlace de invitación',
+  'referral.shareBody': 'Cada amigo que se una con él y confirme su correo te hace subir {boost} puestos.',
+  'referral.shareText': 'Estoy en la lista de espera de Nura Health. Únete con mi enlace y los dos estaremos más cerca del principio.',
+  'referral.copy': 'Copiar enlace',
+  'referral.copied': 'Copiado',
+  'referral.share': 'Compartir',
+  'referral.viewStatus': 'Sigue tus invitaciones',
+  'referral.statusTitle': 'Tu estado en la lista',
+  'referral.greeting': 'Hola, {name}: este es tu puesto en la lista.',
+  'referral.loading': 'Cargando tu estado',
+  'referral.unconfirmed': 'Confirma tu correo con el enlace que te enviamos. Hasta entonces, tus invitaciones no pueden hacerte subir.',
+  'referral.referrals': {
+    zero: 'Aún no hay invitaciones confirmadas',
+    one: '{count} invitación confirmada',
+    other: '{count} invitaciones confirmadas',
+  },
+  'referral.pending': {
+    one: '{count} pendiente de confirmar',
+    other: '{count} pendientes de confirmar',
+  },
+  'referral.milestones': 'Recompensas',
+  'referral.milestone': {
+    one: 'Con {count} invitación',
+    other: 'Con {count} invitaciones',
+  },
+  'referral.reward.foundationMonth': 'Un mes gratis de Foundation',
+  'referral.reward.precisionMonth': 'Un mes gratis de Precision',
+  'referral.unlocked': 'Desbloqueada',
+  'referral.toGo': {
+    one: 'Te falta {count}',
+    other: 'Te faltan {count}',
+  },
+  'referral.notFound': 'No encontramos ese enlace de la lista de espera. Revisa nuestro último correo.',
+
+  'privacy.title': 'Tus datos',
+  'privacy.intro': 'Consulta lo que guardamos con tu correo, descarga una copia o pídenos que lo borremos. Te enviaremos un enlace para confirmar que eres tú.',
+  'privacy.submit': 'Envíame un enlace',
+  'privacy.sent': 'Si tenemos datos de {email}, el enlace va en camino. Funciona durante una hora.',
+  'privacy.linkExpired': 'Ese enlace ha caducado o no es válido. Solicita uno nuevo abajo.',
+  'privacy.loading': 'Cargando tus datos',
+  'privacy.storedFor': 'Esto es lo que guardamos de {email}.',
+  'privacy.summary.waitlist': 'Registros en la lista de espera',
+  'privacy.summary.bookings': 'Reservas de consulta',
+  'privacy.summary.enrollments': 'Membresías',
+  'privacy.summary.analyticsEvents': 'Eventos de analítica',
+  'privacy.summary.emails': 'Correos que te enviamos',
+  'privacy.exportTitle': 'Descarga tus datos',
+  'privacy.exportBody': 'Obtén todo lo anterior en un archivo JSON.',
+  'privacy.export': 'Descargar',
+  'privacy.deleteTitle': 'Borra tus datos',
+  'privacy.deleteBody': 'Elimina tu lugar en la lista, tus reservas, eventos de analítica y correos. Los registros de membresía se conservan mientras lo exijan las normas contables.',
+  'privacy.delete': 'Borrar mis datos',
+  'privacy.deleteConfirm': 'No se puede deshacer. Perderás tu lugar en la lista y las consultas programadas.',
+  'privacy.deleteConfirmButton': 'Sí, borrar todo',
+  'privacy.keep': 'Conservar mis datos',
+  'privacy.deletedTitle': 'Tus datos se han borrado',
+  'privacy.deletedBody': 'Hemos eliminado todo lo guardado con tu correo.',
+  'privacy.enrollmentsRetained': {
+    one: 'Conservamos {count} registro de membresía por motivos contables.',
+    other: 'Conservamos {count} registros de membresía por motivos contables.',
+  },
+  'privacy.consent': 'Acepto el tratamiento de mis datos según la política de privacidad.',
+  'privacy.readPolicy': 'Leer la política',
+
+  'protocols.title': 'Crea un protocolo de ejemplo',
+  'protocols.intro': 'Elige en qué quieres trabajar y prepararemos un horario semanal con intervenciones respaldadas por estudios publicados. Ajusta los días y las horas y guárdalo en tu calendario o imprímelo.',
+  'protocols.disclaimer': 'Es un ejemplo educativo, no un consejo médico. Las dosis son los rangos estudiados habitualmente en adultos sanos. Consulta a un médico antes de empezar cualquier suplemento, sobre todo si tomas medicación, estás embarazada o tienes alguna enfermedad.',
+  'protocols.goals': '¿En qué quieres trabajar?',
+  'protocols.empty': 'Elige al menos un objetivo para preparar un horario.',
+  'protocols.schedule': 'Tu semana',
+  'protocols.intervention': 'Intervención',
+  'protocols.time': 'Momento del día',
+  'protocols.slot.morning': 'Mañana',
+  'protocols.slot.midday': 'Mediodía',
+  'protocols.slot.evening': 'Tarde',
+  'protocols.slot.bedtime': 'Antes de dormir',
+  'protocols.unit.mg': 'mg',
+  'protocols.unit.g': 'g',
+  'protocols.unit.IU': 'UI',
+  'protocols.unit.min': 'min',
+  'protocols.perDay': '{dose} al día',
+  'protocols.perSession': '{dose} por sesión',
+  'protocols.withFood': 'con comida',
+  'protocols.evidence.strong': 'Evidencia sólida',
+  'protocols.evidence.moderate': 'Evidencia moderada',
+  'protocols.evidence.emerging': 'Evidencia preliminar',
+  'protocols.toggleDay': '{name} el {day}',
+  'protocols.remove': 'Quitar {name}',
+  'protocols.add': 'Añadir una intervención',
+  'protocols.addPlaceholder': 'Elige una…',
+  'protocols.everyDay': 'Todos los días',
+  'protocols.interactions': 'Revisa antes de empezar',
+  'protocols.appliesTo': 'Se aplica a: {names}.',
+  'protocols.copyLink': 'Copiar enlace',
+  'protocols.copied': 'Copiado',
+  'protocols.calendar': 'Añadir recordatorios al calendario',
+  'protocols.print': 'Imprimir',
+  'protocols.consult': 'Revísalo con un médico',
+  'protocols.printTitle': 'Protocolo de ejemplo, {date}',
+  'protocols.printLink': 'Abre o cambia este horario en {url}',
+  'offline.title': 'Estás sin conexión',
+  'offline.intro': 'Esta página no está disponible sin conexión. Todo lo que aparece abajo se guardó en este dispositivo y sigue abriéndose.',
+  'offline.forms': 'Si te inscribes en la lista de espera sin conexión, la inscripción se guarda y se envía cuando vuelva la conexión.',
+  'offline.retry': 'Reintentar',
+  'offline.sections': 'En la página de inicio',
+  'offline.pages': 'Páginas guardadas',
+  'offline.update': 'Hay una nueva versión del sitio.',
+  'offline.reload': 'Recargar',
+  'offline.sent.waitlist': 'Vuelves a tener conexión y tu inscripción en la lista de espera se ha enviado. Revisa tu correo para confirmarla.',
+  'offline.rejected.waitlist': 'No se pudo aceptar tu inscripción guardada. Vuelve a unirte a la lista de espera.',
+
+  'enrollment.title': 'Inscribirse en {tier}',
+  'enrollment.submit': 'Continuar',
+  'enrollment.submitting': 'Reservando…',
+  'enrollment.pending': 'Inscripción pendiente',
+  'enrollment.pendingTitle': 'Completa tu membresía {tier}',
+  'enrollment.pendingBody': 'Hemos reservado tu plaza. Tu membresía se activará cuando se confirme el pago.',
+  'enrollment.reference': 'Ref. {id}',
+  'enrollment.checkout': 'Ir al pago',
+
+  'assessment.start': 'Empezar la evaluación',
+  'assessment.stepOf': 'Paso {current} de {total}',
+  'assessment.step.lifestyle': 'Estilo de vida',
+  'assessment.step.sleep': 'Sueño',
+  'assessment.step.activity': 'Actividad',
+  'assessment.step.family': 'Antecedentes familiares',
+  'assessment.step.labs': 'Valores de laboratorio',
+  'assessment.labsHint': 'Opcional. Déjalos en blanco si no tienes resultados de los últimos 12 meses.',
+  'assessment.back': 'Atrás',
+  'assessment.next': 'Siguiente',
+  'assessment.seeResults': 'Ver mis resultados',
+  'assessment.restart': 'Volver a empezar',
+  'assessment.required': 'Responde a esta pregunta.',
+  'assessment.invalidNumber': 'Introduce un valor entre {min} y {max}.',
+  'assessment.q.age': 'Tu edad',
+  'assessment.q.smoking': '¿Fumas?',
+  'assessment.q.alcohol': 'Bebidas alcohólicas por semana',
+  'assessment.q.diet': '¿Cómo describirías tu alimentación?',
+  'assessment.q.sleepHours': 'Horas de sueño por noche',
+  'assessment.q.sleepQuality': '¿Qué tan descansado te sientes normalmente?',
+  'assessment.q.exerciseDays': 'Días por semana con 30+ minutos de ejercicio',
+  'assessment.q.strength': '¿Haces entrenamiento de fuerza al menos una vez por semana?',
+  'assessment.q.familyLongevity': '¿Algún padre o abuelo vivió más de 90 años?',
+  'assessment.q.familyCardio': '¿Enfermedad cardíaca en un padre o hermano antes de los 60?',
+  'assessment.q.familyDiabetes': '¿Diabetes tipo 2 en un padre o hermano?',
+  'assessment.q.hba1c': 'HbA1c',
+  'assessment.q.crp': 'PCR-us',
+  'assessment.q.ldl': 'Colesterol LDL',
+  'assessment.o.smoking.never': 'Nunca',
+  'assessment.o.smoking.former': 'Exfumador',
+  'assessment.o.smoking.current': 'Actualmente',
+  'assessment.o.alcohol.none': 'Ninguna',
+  'assessment.o.alcohol.light': '1–7',
+  'assessment.o.alcohol.moderate': '8–14',
+  'assessment.o.alcohol.heavy': '15 o más',
+  'assessment.o.diet.wholeFood': 'Sobre todo alimentos frescos',
+  'assessment.o.diet.mixed': 'Mixta',
+  'assessment.o.diet.processed': 'Sobre todo procesados',
+  'assessment.o.sleepHours.under6': 'Menos de 6 h',
+  'assessment.o.sleepHours.6to7': '6–7 h',
+  'assessment.o.sleepHours.7to9': '7–9 h',
+  'assessment.o.sleepHours.over9': 'Más de 9 h',
+  'assessment.o.sleepQuality.good': 'Descansado',
+  'assessment.o.sleepQuality.fair': 'A veces cansado',
+  'assessment.o.sleepQuality.poor': 'Casi siempre cansado',
+  'assessment.o.exerciseDays.none': 'Ninguno',
+  'assessment.o.exerciseDays.1to2': '1–2',
+  'assessment.o.exerciseDays.3to4': '3–4',
+  'assessment.o.exerciseDays.5plus': '5 o más',
+  'assessment.o.yes': 'Sí',
+  'assessment.o.no': 'No',
+  'assessment.o.unknown': 'No lo sé',
+  'assessment.explain.smoking': 'El tabaco acelera el envejecimiento epigenético más que casi cualquier otro hábito; el efecto disminuye lentamente tras dejarlo.',
+  'assessment.explain.alcohol': 'El consumo elevado y habitual de alcohol se asocia a un envejecimiento más rápido de la metilación del ADN y a estrés hepático.',
+  'assessment.explain.diet': 'Las dietas basadas en alimentos frescos reducen la inflamación; las ultraprocesadas se asocian a un envejecimiento más rápido.',
+  'assessment.explain.sleepHours': 'Dormir de siete a nueve horas favorece la reparación celular; dormir muy poco o demasiado se asocia a un envejecimiento más rápido.',
+  'assessment.explain.sleepQuality': 'Dormir mal eleva las hormonas del estrés y los marcadores inflamatorios.',
+  'assessment.explain.exerciseDays': 'La actividad aeróbica regular es uno de los mayores protectores de la edad cardiovascular y metabólica.',
+  'assessment.explain.strength': 'El entrenamiento de fuerza preserva la masa muscular y la sensibilidad a la insulina con la edad.',
+  'assessment.explain.familyLongevity': 'Tener familiares longevos sugiere una base genética favorable.',
+  'assessment.explain.familyCardio': 'La enfermedad cardíaca temprana en familiares cercanos aumenta tu propio riesgo cardiovascular.',
+  'assessment.explain.familyDiabetes': 'Los antecedentes familiares de diabetes tipo 2 aumentan tu riesgo metabólico.',
+  'assessment.explain.hba1c': 'La HbA1c refleja la glucosa media de tres meses; a partir del 5,7 % indica sobrecarga metabólica.',
+  'assessment.explain.crp': 'La PCR ultrasensible mide la inflamación sistémica; por encima de 3 mg/L se considera alta.',
+  'assessment.explain.ldl': 'El colesterol LDL elevado suma riesgo cardiovascular a largo plazo.',
+  'assessment.unit.years': '{value} años',
+  'assessment.result.title': 'Tu edad biológica estimada',
+  'assessment.result.younger': {
+    one: '{count} año menos que tu edad cronológica',
+    other: '{count} años menos que tu edad cronológica',
+  },
+  'assessment.result.older': {
+    one: '{count} año más que tu edad cronológica',
+    other: '{count} años más que tu edad cronológica',
+  },
+  'assessment.result.same': 'Acorde con tu edad cronológica',
+  'assessment.result.factors': 'Qué ha influido en tu estimación',
+  'assessment.recommend.title': 'Membresía sugerida: {tier}',
+  'assessment.reason.elevated': 'Varias respuestas apuntan a un envejecimiento acelerado. La monitorización continua le da a tu médico la mayor información posible.',
+  'assessment.reason.risk': 'Tus antecedentes familiares o tu estilo de vida añaden riesgo. Los paneles mensuales detectan los cambios a tiempo.',
+  'assessment.reason.baseline': 'Partes de una base sólida. Los paneles trimestrales te ayudan a mantenerla.',
+  'assessment.continue': 'Unirme a la lista con estos resultados',
+
+  'chat.open': 'Pregunta a Nura',
+  'chat.title': 'Asistente de Nura',
+  'chat.subtitle': 'Preguntas sobre nuestro protocolo y membresías',
+  'chat.greeting': '¡Hola! Puedo explicarte cómo funciona Nura, qué incluye cada membresía y cómo empezar.',
+  'chat.suggestion.tiers': '¿En qué se diferencian los niveles?',
+  'chat.suggestion.protocol': '¿Cómo funciona el protocolo?',
+  'chat.suggestion.assessment': '¿Qué mide la autoevaluación?',
+  'chat.placeholder': 'Escribe una pregunta',
+  'chat.send': 'Enviar',
+  'chat.thinking': 'Escribiendo una respuesta',
+  'chat.rateLimited': 'Has enviado muchos mensajes. Espera unos minutos e inténtalo de nuevo.',
+  'chat.disclaimer': 'Respuestas automáticas solo sobre los servicios de Nura. No es consejo médico: para cualquier cuestión sobre tu salud, consulta a un profesional sanitario.',
+  'chat.refusal': 'No puedo valorar síntomas, resultados de análisis ni medicación de forma individual. Un médico de Nura lo revisa tras tu evaluación inicial. Mientras tanto, puedo explicarte cómo funcionan el protocolo y las membresías.',
+
+  'legal.updated': 'Última actualización: {date}',
+  'legal.loading': 'Cargando',
+
+  'consent.title': 'Tus opciones de privacidad',
+  'consent.body': 'Usamos almacenamiento estrictamente necesario para que el sitio funcione. Con tu permiso, también usaríamos analítica para saber qué páginas ayudan a los visitantes y herramientas de marketing para medir nuestras campañas. Nada opcional se activa hasta que elijas.',
+  'consent.privacyLink': 'Lee nuestra política de privacidad',
+  'consent.acceptAll': 'Aceptar todo',
+  'consent.rejectAll': 'Rechazar lo no esencial',
+  'consent.customize': 'Elegir categorías',
+  'consent.save': 'Guardar mis opciones',
+  'consent.manage': 'Configuración de cookies',
+  'consent.necessary': 'Estrictamente necesarias',
+  'consent.necessaryDescription': 'Recuerdan tu idioma y tus preferencias de movimiento y privacidad. Siempre activas.',
+  'consent.analytics': 'Analítica',
+  'consent.analyticsDescription': 'Estadísticas de uso anónimas que nos ayudan a mejorar el sitio.',
+  'consent.marketing': 'Marketing',
+  'consent.marketingDescription': 'Miden el rendimiento de nuestras campañas de publicidad y referidos.',
+
+  'status.title': 'Estado del sistema',
+  'status.description': 'Disponibilidad en tiempo real del sitio web, la lista de espera, la inscripción y el asistente de Nura Health, con las incidencias recientes.',
+  'status.loading': 'Cargando',
+  'status.pill.operational': 'Sistema operativo',
+  'status.pill.degraded': 'Rendimiento degradado',
+  'status.pill.outage': 'Servicio interrumpido',
+  'status.pill.unknown': 'Estado no disponible',
+  'status.summary.operational': 'Todos los sistemas funcionan con normalidad',
+  'status.summary.degraded': 'Algunos sistemas van más lentos de lo normal',
+  'status.summary.outage': 'Estamos sufriendo una interrupción del servicio',
+  'status.checkedAt': 'Última comprobación: {time}',
+  'status.components': 'Componentes',
+  'status.check.database': 'Lista de espera e inscripciones',
+  'status.check.chat': 'Asistente Pregunta a Nura',
+  'status.state.operational': 'Operativo',
+  'status.state.degraded': 'Degradado',
+  'status.state.outage': 'Interrumpido',
+  'status.incidents': 'Incidencias recientes',
+  'status.noIncidents': 'Sin incidencias en los últimos {days} días.',
+  'status.incident.investigating': 'Investigando',
+  'status.incident.identified': 'Identificada',
+  'status.incident.monitoring': 'En observación',
+  'status.incident.resolved': 'Resuelta',
+
+  'labs.upload': 'Pruébalo con tus análisis',
+  'labs.reading': 'Leyendo tu archivo',
+  'labs.dropHint': 'CSV o FHIR JSON. Se lee solo en este dispositivo; no se sube nada.',
+  'labs.loaded': {
+    one: '{count} marcador de {file}',
+    other: '{count} marcadores de {file}',
+  },
+  'labs.skipped': {
+    one: '{count} fila no reconocida',
+    other: '{count} filas no reconocidas',
+  },
+  'labs.clear': 'Borrar mis resultados',
+  'labs.reference': 'Ref. {range}',
+  'labs.status.optimal': 'Óptimo',
+  'labs.status.borderline': 'Límite',
+  'labs.status.outOfRange': 'Fuera de rango',
+  'labs.error.tooLarge': 'El archivo supera los 2 MB.',
+  'labs.error.unreadable': 'No hemos podido leer el archivo. Usa un CSV con columnas de prueba, valor y unidad, o un bundle FHIR de Observation.',
+  'labs.error.noResults': 'Ningún resultado del archivo coincide con los marcadores que seguimos.',
+
+  'consultation.title': 'Habla con un médico',
+  'consultation.manage': 'Tu consulta',
+  'consultation.intro': 'Reserva una videollamada gratuita de 30 minutos con uno de nuestros médicos antes de elegir tu membresía. Los horarios se muestran en tu zona horaria.',
+  'consultation.week': 'Semana',
+  'consultation.month': 'Mes',
+  'consultation.previous': 'Anterior',
+  'consultation.next': 'Siguiente',
+  'consultation.clinician': 'Médico',
+  'consultation.anyClinician': 'Cualquier médico disponible',
+  'consultation.timeZone': 'Zona horaria',
+  'consultation.loading': 'Cargando horarios disponibles',
+  'consultation.noSlots': 'No hay horarios libres en este periodo. Prueba una semana posterior.',
+  'consultation.pickDay': 'Elige un día para ver sus horarios.',
+  'consultation.slotCount': {
+    one: '{count} horario',
+    other: '{count} horarios',
+  },
+  'consultation.with': 'Con {clinician}, {title}',
+  'consultation.changeTime': 'Cambiar horario',
+  'consultation.notes': '¿Algo que debamos saber? (opcional)',
+  'consultation.error.notes': 'Las notas deben tener 1000 caracteres o menos.',
+  'consultation.submit': 'Reservar consulta',
+  'consultation.submitting': 'Reservando',
+  'consultation.taken': 'Alguien acaba de reservar ese horario. Elige otro, por favor.',
+  'consultation.confirmedTitle': 'Tu consulta está reservada',
+  'consultation.manageHint': 'Guarda este enlace para cambiar o cancelar la cita:',
+  'consultation.addToCalendar': 'Añadir al calendario (.ics)',
+  'consultation.notFound': 'No encontramos esa consulta. Revisa el enlace de tu confirmación.',
+  'consultation.reschedule': 'Cambiar horario',
+  'consultation.rescheduleTitle': 'Elige un nuevo horario',
+  'consultation.rescheduled': 'Hemos movido tu consulta. Descarga de nuevo la invitación para actualizar tu calendario.',
+  'consultation.cancel': 'Cancelar consulta',
+  'consultation.cancelConfirm': 'Sí, cancelarla',
+  'consultation.keep': 'Mantenerla',
+  'consultation.cancelled': 'Tu consulta ha sido cancelada.',
+  'consultation.bookAnother': 'Reservar otro horario',
+  'consultation.preview.next': 'Próximos horarios disponibles',
+  'consultation.preview.none': 'Cada semana abrimos nuevos horarios de consulta.',
+  'consultation.preview.cta': 'Reservar consulta',
+};
@@ -0,0 +1,14 @@
+import type { Locale } from '../locales.ts';
+import { ar } from './ar.ts';
+import { en } from './en.ts';
+import { es } from './es.ts';
+
+/** Plural forms keyed by Intl.PluralRules category; `zero` is also used for an exact count of 0. */
+export type PluralMessage = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+export type Message = string | PluralMessage;
+
+// English is the reference catalog: every other locale must define the same keys.
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+
+export const catalogs: Record<Locale, Catalog> = { en, es, ar };
@@ -0,0 +1,62 @@
+// Types shared by the admin API and the /admin console.
+
+import type { BillingPeriod, EnrollmentStatus, TierId } from './membership.ts';
+import type { TierInterest } from './waitlist.ts';
+
+export const LEAD_STATUSES = ['new', 'contacted', 'invited'] as const;
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  invited: 'Invited',
+};
+
+export interface WaitlistRecord {
+  id: number;
+  name: string;
+  email: string;
+  tier: TierInterest;
+  referralCode: string | null;
+  status: LeadStatus;
+  /** From the self-assessment, when the visitor attached one. */
+  estimatedAge: number | null;
+  createdAt: string;
+  statusUpdatedAt: string | null;
+  /** Null until the lead clicks the double opt-in link. */
+  confirmedAt: string | null;
+  unsubscribedAt: string | null;
+  /** Confirmed signups made with this lead's referral code; milestone rewards are granted from this. */
+  referrals: number;
+}
+
+export interface EnrollmentRecord {
+  id: string;
+  name: string;
+  email: string;
+  tier: TierId;
+  billingPeriod: BillingPeriod;
+  amount: number;
+  currency: string;
+  status: EnrollmentStatus;
+  createdAt: string;
+}
+
+export interface RecordFilters {
+  q?: string;
+  tier?: string;
+  status?: string;
+  /** Inclusive `YYYY-MM-DD` bounds on the record's creation date. */
+  from?: string;
+  to?: string;
+  page?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const ADMIN_PAGE_SIZE = 25;
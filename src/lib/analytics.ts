@@ -0,0 +1,91 @@
+// Shared between the analytics client, the /api/events endpoint and the
+// funnel report. Events are first-party and anonymous: a random per-tab
+// session id ties them together, and a random per-browser visitor id ties
+// sessions together for experiments; no IP address or user id is stored.
+
+import { asRecord, type ValidationResult } from './validation.ts';
+
+export const EVENT_TYPES = ['section_view', 'cta_click', 'scroll_depth', 'tier_select', 'exposure', 'waitlist_submit'] as const;
+export type EventType = typeof EVENT_TYPES[number];
+
+/** Sections whose first impression is recorded, in page order. */
+export const TRACKED_SECTIONS = ['hero', 'features', 'philosophy', 'protocol', 'membership'] as const;
+export type TrackedSection = typeof TRACKED_SECTIONS[number];
+
+export const SCROLL_DEPTHS = [25, 50, 75, 100] as const;
+
+export interface AnalyticsEvent {
+  type: EventType;
+  /** What the event is about: a section id, CTA name, tier id or experiment id. Empty for scroll depth and waitlist signups. */
+  target: string;
+  /** Where on the page a CTA sits. */
+  placement?: string;
+  /** Scroll depth percentage. */
+  value?: number;
+  /** The variant an experiment exposure served. */
+  variant?: string;
+  path: string;
+  occurredAt: string;
+}
+
+export interface EventBatch {
+  sessionId: string;
+  /** The id experiments bucket on. Tabs opened before it was sent leave it out, and count as their session. */
+  visitorId?: string;
+  events: AnalyticsEvent[];
+}
+
+export const MAX_BATCH_SIZE = 50;
+
+const SESSION_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+const LABEL_PATTERN = /^[\w:./-]{0,64}$/;
+
+export function validateEventBatch(input: unknown): ValidationResult<EventBatch, string> {
+  const raw = asRecord(input);
+  if (typeof raw.sessionId !== 'string' || !SESSION_PATTERN.test(raw.sessionId)) return { errors: 'Invalid session id.' };
+  if (raw.visitorId !== undefined && (typeof raw.visitorId !== 'string' || !SESSION_PATTERN.test(raw.visitorId))) return { errors: 'Invalid visitor id.' };
+  if (!Array.isArray(raw.events) || raw.events.length === 0) return { errors: 'Send at least one event.' };
+  if (raw.events.length > MAX_BATCH_SIZE) return { errors: `Send at most ${MAX_BATCH_SIZE} events per batch.` };
+
+  const events: AnalyticsEvent[] = [];
+  for (const item of raw.events) {
+    const event = asRecord(item);
+    const occurredAt = typeof event.occurredAt === 'string' ? new Date(event.occurredAt) : null;
+    const valid =
+      (EVENT_TYPES as readonly unknown[]).includes(event.type) &&
+      typeof event.target === 'string' && LABEL_PATTERN.test(event.target) &&
+      (event.placement === undefined || (typeof event.placement === 'string' && LABEL_PATTERN.test(event.placement))) &&
+      (event.value === undefined || (typeof event.value === 'number' && Number.isFinite(event.value))) &&
+      (event.variant === undefined || (typeof event.variant === 'string' && LABEL_PATTERN.test(event.variant))) &&
+      typeof event.path === 'string' && event.path.startsWith('/') && event.path.length <= 200 &&
+      occurredAt !== null && !Number.isNaN(occurredAt.getTime());
+    if (!valid) return { errors: 'One or more events are malformed.' };
+
+    events.push({
+      type: event.type as EventType,
+      target: event.target as string,
+      ...(event.placement !== undefined ? { placement: event.placement as string } : {}),
+      ...(event.value !== undefined ? { value: event.value as number } : {}),
+      ...(event.variant !== undefined ? { variant: event.variant as string } : {}),
+      path: event.path as string,
+      occurredAt: occurredAt.toISOString(),
+    });
+  }
+
+  return { value: { sessionId: raw.sessionId, ...(raw.visitorId !== undefined ? { visitorId: raw.visitorId as string } : {}), events } };
+}
+
+/** Funnel stages from landing to choosing a tier. A session counts at a stage only if it reached every earlier one. */
+export const FUNNEL_STEPS: { id: string; label: string; type: EventType; target?: string }[] = [
+  { id: 'hero', label: 'Viewed hero', type: 'section_view', target: 'hero' },
+  { id: 'features', label: 'Viewed features', type: 'section_view', target: 'features' },
+  { id: 'philosophy', label: 'Viewed philosophy', type: 'section_view', target: 'philosophy' },
+  { id: 'protocol', label: 'Viewed protocol', type: 'section_view', target: 'protocol' },
+  { id: 'membership', label: 'Viewed membership', type: 'section_view', target: 'membership' },
+  { id: 'tier', label: 'Selected a tier', type: 'tier_select' },
+];
+
+export interface FunnelReport {
+  steps: { id: string; label: string; sessions: number }[];
+  ctaClicks: { target: string; placement: string; clicks: number }[];
+}
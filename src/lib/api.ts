@@ -0,0 +1,70 @@
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly fieldErrors: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(body.error ?? `Request failed (${response.status})`, response.status, body.fieldErrors);
+  }
+  return body as T;
+}
+
+export async function requestJson<T>(method: string, url: string, payload?: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: payload === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: payload === undefined ? undefined : JSON.stringify(payload),
+    });
+  } catch {
+    throw new ApiError('We could not reach the server. Check your connection and try again.', 0);
+  }
+  return parseResponse<T>(response);
+}
+
+export function getJson<T>(url: string) {
+  return requestJson<T>('GET', url);
+}
+
+export function postJson<T>(url: string, payload: unknown) {
+  return requestJson<T>('POST', url, payload);
+}
+
+/**
+ * POSTs JSON and hands each decoded text chunk of the response to `onChunk`
+ * as it arrives. Error responses are still JSON and throw like `requestJson`.
+ */
+export async function postStream(url: string, payload: unknown, onChunk: (text: string) => void, signal?: AbortSignal) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ApiError('We could not reach the server. Check your connection and try again.', 0);
+  }
+  if (!response.ok) await parseResponse(response);
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk(decoder.decode(value, { stream: true }));
+  }
+  const rest = decoder.decode();
+  if (rest) onChunk(rest);
+}
@@ -0,0 +1,140 @@
+// Rule-based biological age estimate for the self-assessment. Every factor is
+// a fixed, published adjustment in years so visitors can see exactly why the
+// estimate moved. This is an educational heuristic, not a diagnostic model;
+// the server re-scores submitted answers with the same rules.
+
+import type { TierId } from './membership.ts';
+import { number, object, oneOf, optional, type Infer } from './schema.ts';
+
+export const CHOICE_OPTIONS = {
+  smoking: ['never', 'former', 'current'],
+  alcohol: ['none', 'light', 'moderate', 'heavy'],
+  diet: ['wholeFood', 'mixed', 'processed'],
+  sleepHours: ['under6', '6to7', '7to9', 'over9'],
+  sleepQuality: ['good', 'fair', 'poor'],
+  exerciseDays: ['none', '1to2', '3to4', '5plus'],
+  strength: ['yes', 'no'],
+  familyLongevity: ['yes', 'no', 'unknown'],
+  familyCardio: ['yes', 'no', 'unknown'],
+  familyDiabetes: ['yes', 'no', 'unknown'],
+} as const;
+
+export type ChoiceQuestion = keyof typeof CHOICE_OPTIONS;
+export type LabQuestion = 'hba1c' | 'crp' | 'ldl';
+
+export const LAB_RANGES: Record<LabQuestion, { min: number; max: number; step: number; unit: string }> = {
+  hba1c: { min: 3, max: 15, step: 0.1, unit: '%' },
+  crp: { min: 0, max: 50, step: 0.1, unit: 'mg/L' },
+  ldl: { min: 20, max: 400, step: 1, unit: 'mg/dL' },
+};
+
+export const MIN_AGE = 18;
+export const MAX_AGE = 100;
+
+export const assessmentAnswersSchema = object({
+  age: number({ min: MIN_AGE, max: MAX_AGE }),
+  smoking: oneOf(CHOICE_OPTIONS.smoking),
+  alcohol: oneOf(CHOICE_OPTIONS.alcohol),
+  diet: oneOf(CHOICE_OPTIONS.diet),
+  sleepHours: oneOf(CHOICE_OPTIONS.sleepHours),
+  sleepQuality: oneOf(CHOICE_OPTIONS.sleepQuality),
+  exerciseDays: oneOf(CHOICE_OPTIONS.exerciseDays),
+  strength: oneOf(CHOICE_OPTIONS.strength),
+  familyLongevity: oneOf(CHOICE_OPTIONS.familyLongevity),
+  familyCardio: oneOf(CHOICE_OPTIONS.familyCardio),
+  familyDiabetes: oneOf(CHOICE_OPTIONS.familyDiabetes),
+  hba1c: optional(number(LAB_RANGES.hba1c)),
+  crp: optional(number(LAB_RANGES.crp)),
+  ldl: optional(number(LAB_RANGES.ldl)),
+});
+
+export type AssessmentAnswers = Infer<typeof assessmentAnswersSchema>;
+
+export const ASSESSMENT_STEPS = [
+  { id: 'lifestyle', questions: ['age', 'smoking', 'alcohol', 'diet'] },
+  { id: 'sleep', questions: ['sleepHours', 'sleepQuality'] },
+  { id: 'activity', questions: ['exerciseDays', 'strength'] },
+  { id: 'family', questions: ['familyLongevity', 'familyCardio', 'familyDiabetes'] },
+  { id: 'labs', questions: ['hba1c', 'crp', 'ldl'] },
+] as const satisfies readonly { id: string; questions: readonly (keyof AssessmentAnswers)[] }[];
+
+export type AssessmentStepId = typeof ASSESSMENT_STEPS[number]['id'];
+
+const CHOICE_DELTAS: { [Q in ChoiceQuestion]: Record<typeof CHOICE_OPTIONS[Q][number], number> } = {
+  smoking: { never: 0, former: 1.5, current: 5 },
+  alcohol: { none: 0, light: 0, moderate: 1, heavy: 3 },
+  diet: { wholeFood: -1, mixed: 0, processed: 2 },
+  sleepHours: { under6: 2, '6to7': 0.5, '7to9': -0.5, over9: 1 },
+  sleepQuality: { good: -0.5, fair: 0, poor: 1 },
+  exerciseDays: { none: 3, '1to2': 1, '3to4': -1, '5plus': -2 },
+  strength: { yes: -1, no: 0 },
+  familyLongevity: { yes: -1.5, no: 0, unknown: 0 },
+  familyCardio: { yes: 1.5, no: 0, unknown: 0 },
+  familyDiabetes: { yes: 1, no: 0, unknown: 0 },
+};
+
+/** Thresholds follow common clinical cut-offs (ADA for HbA1c, AHA for hs-CRP and LDL). */
+const LAB_DELTAS: Record<LabQuestion, (value: number) => number> = {
+  hba1c: value => value < 5.7 ? -0.5 : value < 6.5 ? 1.5 : 3,
+  crp: value => value < 1 ? -0.5 : value <= 3 ? 0.5 : 2,
+  ldl: value => value < 100 ? 0 : value < 160 ? 0.5 : 1.5,
+};
+
+/** Caps how far lifestyle answers alone can move the estimate. */
+const MAX_ADJUSTMENT = 15;
+
+export type FactorImpact = 'better' | 'neutral' | 'worse';
+
+export interface AssessmentFactor {
+  question: ChoiceQuestion | LabQuestion;
+  years: number;
+  impact: FactorImpact;
+}
+
+export interface AssessmentResult {
+  chronologicalAge: number;
+  estimatedAge: number;
+  factors: AssessmentFactor[];
+  recommendedTier: TierId;
+  /** Why that tier was suggested; keys into the `assessment.reason.*` messages. */
+  recommendationReason: 'elevated' | 'risk' | 'baseline';
+}
+
+function toFactor(question: AssessmentFactor['question'], years: number): AssessmentFactor {
+  return { question, years, impact: years < 0 ? 'better' : years > 0 ? 'worse' : 'neutral' };
+}
+
+export function scoreAssessment(answers: AssessmentAnswers): AssessmentResult {
+  const factors: AssessmentFactor[] = [];
+
+  (Object.keys(CHOICE_DELTAS) as ChoiceQuestion[]).forEach(question => {
+    const deltas = CHOICE_DELTAS[question] as Record<string, number>;
+    factors.push(toFactor(question, deltas[answers[question]]));
+  });
+  (Object.keys(LAB_DELTAS) as LabQuestion[]).forEach(question => {
+    const value = answers[question];
+    if (value !== undefined) factors.push(toFactor(question, LAB_DELTAS[question](value)));
+  });
+
+  const total = factors.reduce((sum, factor) => sum + factor.years, 0);
+  const adjustment = Math.max(-MAX_ADJUSTMENT, Math.min(MAX_ADJUSTMENT, total));
+  const estimatedAge = Math.round((answers.age + adjustment) * 10) / 10;
+
+  const labConcern = factors.some(factor => factor.impact === 'worse' && factor.question in LAB_DELTAS && factor.years >= 1.5);
+  const familyRisk = answers.familyCardio === 'yes' || answers.familyDiabetes === 'yes';
+
+  let recommendedTier: TierId = 'foundation';
+  let recommendationReason: AssessmentResult['recommendationReason'] = 'baseline';
+  if (adjustment >= 6 || labConcern) {
+    recommendedTier = 'apex';
+    recommendationReason = 'elevated';
+  } else if (adjustment >= 1 || familyRisk) {
+    recommendedTier = 'precision';
+    recommendationReason = 'risk';
+  }
+
+  // Largest effects first so the explanation leads with what matters most.
+  factors.sort((a, b) => Math.abs(b.years) - Math.abs(a.years));
+
+  return { chronologicalAge: answers.age, estimatedAge, factors, recommendedTier, recommendationReason };
+}
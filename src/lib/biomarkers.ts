@@ -0,0 +1,220 @@
+// Biomarker catalog keyed by LOINC code. Lab files are matched against it by
+// code first and by name second, values are converted to the catalog unit, and
+// each result is graded against the reference and optimal ranges below. Ranges
+// are general adult values for illustration; labs publish their own.
+
+export const BIOMARKER_CATEGORIES = ['inflammation', 'metabolic', 'lipids', 'hormones', 'nutrients', 'organs'] as const;
+export type BiomarkerCategory = typeof BIOMARKER_CATEGORIES[number];
+
+/** Inclusive bounds; a missing bound is open-ended. */
+export interface Range {
+  low?: number;
+  high?: number;
+}
+
+export interface Biomarker {
+  loinc: string;
+  name: string;
+  category: BiomarkerCategory;
+  /** Canonical unit; values in any other listed unit are converted to it. */
+  unit: string;
+  /** Multipliers from other units (lower-cased) to `unit`. */
+  conversions?: Record<string, number>;
+  reference: Range;
+  optimal: Range;
+  /** Lower-cased names labs commonly print, used when a file has no LOINC codes. */
+  aliases: string[];
+}
+
+export const BIOMARKERS: Biomarker[] = [
+  {
+    loinc: '30522-7',
+    name: 'hs-CRP',
+    category: 'inflammation',
+    unit: 'mg/L',
+    conversions: { 'mg/dl': 10, 'nmol/l': 0.105 },
+    reference: { high: 3 },
+    optimal: { high: 1 },
+    aliases: ['hs-crp', 'hscrp', 'c-reactive protein', 'crp', 'high sensitivity crp'],
+  },
+  {
+    loinc: '13965-9',
+    name: 'Homocysteine',
+    category: 'inflammation',
+    unit: 'µmol/L',
+    conversions: { 'umol/l': 1 },
+    reference: { high: 15 },
+    optimal: { low: 5, high: 9 },
+    aliases: ['homocysteine'],
+  },
+  {
+    loinc: '1558-6',
+    name: 'Fasting glucose',
+    category: 'metabolic',
+    unit: 'mg/dL',
+    conversions: { 'mmol/l': 18.016 },
+    reference: { low: 70, high: 99 },
+    optimal: { low: 72, high: 90 },
+    aliases: ['fasting glucose', 'glucose fasting', 'glucose'],
+  },
+  {
+    loinc: '4548-4',
+    name: 'HbA1c',
+    category: 'metabolic',
+    unit: '%',
+    reference: { low: 4, high: 5.6 },
+    optimal: { low: 4.5, high: 5.3 },
+    aliases: ['hba1c', 'a1c', 'hemoglobin a1c', 'glycated hemoglobin'],
+  },
+  {
+    loinc: '20448-7',
+    name: 'Fasting insulin',
+    category: 'metabolic',
+    unit: 'µIU/mL',
+    conversions: { 'uiu/ml': 1, 'miu/l': 1, 'pmol/l': 1 / 6 },
+    reference: { low: 2.6, high: 24.9 },
+    optimal: { low: 2, high: 8 },
+    aliases: ['insulin', 'fasting insulin'],
+  },
+  {
+    loinc: '2093-3',
+    name: 'Total cholesterol',
+    category: 'lipids',
+    unit: 'mg/dL',
+    conversions: { 'mmol/l': 38.67 },
+    reference: { high: 199 },
+    optimal: { low: 125, high: 180 },
+    aliases: ['total cholesterol', 'cholesterol'],
+  },
+  {
+    loinc: '13457-7',
+    name: 'LDL cholesterol',
+    category: 'lipids',
+    unit: 'mg/dL',
+    conversions: { 'mmol/l': 38.67 },
+    reference: { high: 129 },
+    optimal: { high: 100 },
+    aliases: ['ldl', 'ldl cholesterol', 'ldl-c', 'ldl calculated'],
+  },
+  {
+    loinc: '18262-6',
+    name: 'LDL cholesterol (direct)',
+    category: 'lipids',
+    unit: 'mg/dL',
+    conversions: { 'mmol/l': 38.67 },
+    reference: { high: 129 },
+    optimal: { high: 100 },
+    aliases: ['ldl direct', 'direct ldl'],
+  },
+  {
+    loinc: '2085-9',
+    name: 'HDL cholesterol',
+    category: 'lipids',
+    unit: 'mg/dL',
+    conversions: { 'mmol/l': 38.67 },
+    reference: { low: 40 },
+    optimal: { low: 60 },
+    aliases: ['hdl', 'hdl cholesterol', 'hdl-c'],
+  },
+  {
+    loinc: '2571-8',
+    name: 'Triglycerides',
+    category: 'lipids',
+    unit: 'mg/dL',
+    conversions: { 'mmol/l': 88.57 },
+    reference: { high: 149 },
+    optimal: { high: 100 },
+    aliases: ['triglycerides', 'trig', 'tg'],
+  },
+  {
+    loinc: '1884-6',
+    name: 'ApoB',
+    category: 'lipids',
+    unit: 'mg/dL',
+    conversions: { 'g/l': 100 },
+    reference: { high: 130 },
+    optimal: { high: 80 },
+    aliases: ['apob', 'apolipoprotein b'],
+  },
+  {
+    loinc: '3016-3',
+    name: 'TSH',
+    category: 'hormones',
+    unit: 'mIU/L',
+    conversions: { 'uiu/ml': 1, 'µiu/ml': 1 },
+    reference: { low: 0.4, high: 4.5 },
+    optimal: { low: 0.5, high: 2.5 },
+    aliases: ['tsh', 'thyroid stimulating hormone'],
+  },
+  {
+    loinc: '1989-3',
+    name: 'Vitamin D (25-OH)',
+    category: 'nutrients',
+    unit: 'ng/mL',
+    conversions: { 'nmol/l': 1 / 2.496 },
+    reference: { low: 30, high: 100 },
+    optimal: { low: 40, high: 60 },
+    aliases: ['vitamin d', '25-oh vitamin d', '25-hydroxyvitamin d', 'vit d'],
+  },
+  {
+    loinc: '2276-4',
+    name: 'Ferritin',
+    category: 'nutrients',
+    unit: 'ng/mL',
+    conversions: { 'ug/l': 1, 'µg/l': 1 },
+    reference: { low: 15, high: 300 },
+    optimal: { low: 40, high: 150 },
+    aliases: ['ferritin'],
+  },
+  {
+    loinc: '2160-0',
+    name: 'Creatinine',
+    category: 'organs',
+    unit: 'mg/dL',
+    conversions: { 'umol/l': 1 / 88.4, 'µmol/l': 1 / 88.4 },
+    reference: { low: 0.6, high: 1.3 },
+    optimal: { low: 0.7, high: 1.1 },
+    aliases: ['creatinine'],
+  },
+  {
+    loinc: '1742-6',
+    name: 'ALT',
+    category: 'organs',
+    unit: 'U/L',
+    conversions: { 'iu/l': 1 },
+    reference: { low: 7, high: 56 },
+    optimal: { low: 10, high: 30 },
+    aliases: ['alt', 'alanine aminotransferase', 'sgpt'],
+  },
+];
+
+export const BIOMARKER_STATUSES = ['optimal', 'borderline', 'outOfRange'] as const;
+export type BiomarkerStatus = typeof BIOMARKER_STATUSES[number];
+
+const byLoinc = new Map(BIOMARKERS.map(marker => [marker.loinc, marker]));
+const byAlias = new Map(BIOMARKERS.flatMap(marker => [marker.name.toLowerCase(), ...marker.aliases].map(alias => [alias, marker] as const)));
+
+export function findBiomarker({ loinc, name }: { loinc?: string; name?: string }) {
+  return (loinc && byLoinc.get(loinc.trim())) || (name && byAlias.get(name.trim().toLowerCase())) || undefined;
+}
+
+/** The value in the marker's canonical unit, or `undefined` when the unit isn't one we can convert. */
+export function toCanonicalUnit(marker: Biomarker, value: number, unit: string | undefined) {
+  const normalized = (unit ?? '').trim().toLowerCase();
+  if (!normalized || normalized === marker.unit.toLowerCase()) return value;
+  const factor = marker.conversions?.[normalized];
+  return factor === undefined ? undefined : value * factor;
+}
+
+const inRange = (value: number, { low = -Infinity, high = Infinity }: Range) => value >= low && value <= high;
+
+export function gradeBiomarker(marker: Biomarker, value: number): BiomarkerStatus {
+  if (inRange(value, marker.optimal)) return 'optimal';
+  return inRange(value, marker.reference) ? 'borderline' : 'outOfRange';
+}
+
+export function formatRange({ low, high }: Range, unit: string) {
+  if (low !== undefined && high !== undefined) return `${low}–${high} ${unit}`;
+  if (low !== undefined) return `≥ ${low} ${unit}`;
+  return `≤ ${high} ${unit}`;
+}
@@ -0,0 +1,190 @@
+// Shared between the consultation page and the bookings API. Slot start times
+// always travel as UTC ISO strings; clinician schedules are wall-clock minutes
+// in the clinician's own time zone, and the page renders in the visitor's.
+
+import { readConsent, type ConsentFields } from './privacy.ts';
+import { asRecord, isValidEmail, normalizeEmail, type ValidationResult } from './validation.ts';
+
+export const CONSULTATION_PATH = '/consultation';
+export const SLOT_MINUTES = 30;
+/** Slots closer than this are not offered, so a clinician has time to prepare. */
+export const BOOKING_LEAD_HOURS = 12;
+export const BOOKING_HORIZON_DAYS = 60;
+/** Longest window a single availability request may cover: a six-week month view, with a day of slack for DST. */
+export const MAX_AVAILABILITY_DAYS = 43;
+
+export interface Clinician {
+  id: string;
+  name: string;
+  title: string;
+  timeZone: string;
+}
+
+export interface Slot {
+  clinicianId: string;
+  /** UTC ISO timestamp. */
+  start: string;
+}
+
+export interface Availability {
+  clinicians: Clinician[];
+  slots: Slot[];
+}
+
+export type BookingStatus = 'confirmed' | 'cancelled';
+
+export interface Booking {
+  id: string;
+  clinician: Clinician;
+  start: string;
+  end: string;
+  name: string;
+  email: string;
+  /** The visitor's zone when they booked, used for the invite and confirmation copy. */
+  timeZone: string;
+  status: BookingStatus;
+}
+
+export interface BookingResponse {
+  booking: Booking;
+  /** Secret for the manage link; only returned when the booking is created. */
+  token: string;
+}
+
+export interface BookingInput extends ConsentFields {
+  clinicianId: string;
+  start: string;
+  name: string;
+  email: string;
+  timeZone: string;
+  notes?: string;
+}
+
+export type BookingFieldErrors = Partial<Record<keyof BookingInput, string>>;
+
+export interface RescheduleInput {
+  clinicianId: string;
+  start: string;
+}
+
+export function manageBookingHref(token: string) {
+  return `${CONSULTATION_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Slot starts are whole minutes on the slot grid, in UTC ISO form. */
+function isSlotStart(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const time = Date.parse(value);
+  return Number.isFinite(time) && new Date(time).toISOString() === value && time % (SLOT_MINUTES * 60_000) === 0;
+}
+
+function readSlot(raw: Record<string, unknown>, errors: BookingFieldErrors) {
+  const clinicianId = typeof raw.clinicianId === 'string' ? raw.clinicianId.trim() : '';
+  if (!clinicianId) errors.clinicianId = 'Choose a clinician.';
+  if (!isSlotStart(raw.start)) errors.start = 'Choose an available time.';
+  return { clinicianId, start: raw.start as string };
+}
+
+export function validateBookingInput(input: unknown): ValidationResult<BookingInput, BookingFieldErrors> {
+  const raw = asRecord(input);
+  const errors: BookingFieldErrors = {};
+  const { clinicianId, start } = readSlot(raw, errors);
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) errors.name = 'Please tell us your name.';
+  else if (name.length > 120) errors.name = 'Name must be 120 characters or fewer.';
+
+  const email = typeof raw.email === 'string' ? normalizeEmail(raw.email) : '';
+  if (!email) errors.email = 'Email is required.';
+  else if (!isValidEmail(email)) errors.email = 'Enter a valid email address.';
+
+  if (!isValidTimeZone(raw.timeZone)) errors.timeZone = 'Choose a valid time zone.';
+
+  const notes = typeof raw.notes === 'string' ? raw.notes.trim() : '';
+  if (notes.length > 1000) errors.notes = 'Notes must be 1000 characters or fewer.';
+
+  const consent = readConsent(raw, errors);
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { value: { clinicianId, start, name, email, timeZone: raw.timeZone as string, ...(notes ? { notes } : {}), ...consent } };
+}
+
+export function validateRescheduleInput(input: unknown): ValidationResult<RescheduleInput, BookingFieldErrors> {
+  const errors: BookingFieldErrors = {};
+  const slot = readSlot(asRecord(input), errors);
+  if (Object.keys(errors).length > 0) return { errors };
+  return { value: slot };
+}
+
+// --- Time zones ---
+
+export interface ZonedDate {
+  year: number;
+  /** 1–12. */
+  month: number;
+  day: number;
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: number, timeZone: string) {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/** Milliseconds the zone's wall clock is ahead of UTC at `instant`. */
+function zoneOffset(instant: number, timeZone: string) {
+  const p = zonedParts(instant, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The UTC instant of a wall-clock time in `timeZone`, or `undefined` for a
+ * time that a daylight-saving jump skips.
+ */
+export function zonedTimeToUtc({ year, month, day }: ZonedDate, minutes: number, timeZone: string) {
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  const guess = wall - zoneOffset(wall, timeZone);
+  const instant = wall - zoneOffset(guess, timeZone);
+  return instant + zoneOffset(instant, timeZone) === wall ? instant : undefined;
+}
+
+/** The calendar date `instant` falls on in `timeZone`. */
+export function zonedDate(instant: number, timeZone: string): ZonedDate {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return { year, month, day };
+}
+
+/** `YYYY-MM-DD`, for grouping slots by the day they fall on. */
+export function dateKey({ year, month, day }: ZonedDate) {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function addDays({ year, month, day }: ZonedDate, days: number): ZonedDate {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** 0 for Sunday through 6 for Saturday. */
+export function weekday({ year, month, day }: ZonedDate) {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
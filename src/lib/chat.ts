@@ -0,0 +1,44 @@
+// Shared between the concierge widget and the /api/chat proxy so both sides
+// agree on the shape and size of a conversation.
+
+import { DEFAULT_LOCALE, isLocale, type Locale } from '../i18n/locales.ts';
+import { asRecord, type ValidationResult } from './validation.ts';
+
+export const CHAT_ROLES = ['user', 'assistant'] as const;
+export type ChatRole = typeof CHAT_ROLES[number];
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatRequest {
+  locale: Locale;
+  messages: ChatMessage[];
+}
+
+/** Only the most recent turns are sent; older context adds cost without improving answers. */
+export const MAX_CHAT_MESSAGES = 12;
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+export function validateChatRequest(input: unknown): ValidationResult<ChatRequest, string> {
+  const raw = asRecord(input);
+  if (!Array.isArray(raw.messages) || raw.messages.length === 0) return { errors: 'Send at least one message.' };
+  if (raw.messages.length > MAX_CHAT_MESSAGES) return { errors: `Send at most ${MAX_CHAT_MESSAGES} messages.` };
+
+  const messages: ChatMessage[] = [];
+  for (const item of raw.messages) {
+    const message = asRecord(item);
+    const content = typeof message.content === 'string' ? message.content.trim() : '';
+    if (!(CHAT_ROLES as readonly unknown[]).includes(message.role) || !content) {
+      return { errors: 'Each message needs a role and some text.' };
+    }
+    if (content.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return { errors: `Messages must be ${MAX_CHAT_MESSAGE_LENGTH} characters or fewer.` };
+    }
+    messages.push({ role: message.role as ChatRole, content });
+  }
+  if (messages[messages.length - 1].role !== 'user') return { errors: 'The last message must come from the user.' };
+
+  return { value: { locale: isLocale(raw.locale) ? raw.locale : DEFAULT_LOCALE, messages } };
+}
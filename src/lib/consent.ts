@@ -0,0 +1,56 @@
+// Cookie and tracking consent. Strictly necessary storage (language, motion
+// preference, admin session) needs no consent; everything else is off until
+// the visitor opts in. Non-essential third-party scripts are added to the page
+// inert, as `<script type="text/plain" data-consent="analytics" ...>`, and only
+// activated here once their category is allowed.
+
+export const CONSENT_CATEGORIES = ['analytics', 'marketing'] as const;
+export type ConsentCategory = typeof CONSENT_CATEGORIES[number];
+
+export type ConsentChoices = Record<ConsentCategory, boolean>;
+
+export interface ConsentRecord extends ConsentChoices {
+  /** Bumped when categories change so visitors are asked again. */
+  version: number;
+  decidedAt: string;
+}
+
+export const CONSENT_VERSION = 1;
+const STORAGE_KEY = 'nura.consent';
+
+export function readConsent(): ConsentRecord | null {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored?.version !== CONSENT_VERSION) return null;
+    return {
+      version: CONSENT_VERSION,
+      decidedAt: String(stored.decidedAt),
+      ...(Object.fromEntries(CONSENT_CATEGORIES.map(category => [category, stored[category] === true])) as ConsentChoices),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function storeConsent(choices: ConsentChoices): ConsentRecord {
+  const record: ConsentRecord = { ...choices, version: CONSENT_VERSION, decidedAt: new Date().toISOString() };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // Storage disabled: the choice holds for this visit and the banner returns next time.
+  }
+  return record;
+}
+
+/** Swaps each inert script whose category is now allowed for a live copy. */
+export function activateConsentedScripts(consent: ConsentRecord | null) {
+  document.querySelectorAll<HTMLScriptElement>('script[type="text/plain"][data-consent]').forEach(inert => {
+    if (!consent?.[inert.dataset.consent as ConsentCategory]) return;
+    const script = document.createElement('script');
+    Array.from(inert.attributes)
+      .filter(attribute => attribute.name !== 'type' && attribute.name !== 'data-consent')
+      .forEach(attribute => script.setAttribute(attribute.name, attribute.value));
+    script.text = inert.text;
+    inert.replaceWith(script);
+  });
+}
@@ -0,0 +1,141 @@
+// A/B experiments, declared in one place. Starting, pausing or re-weighting a
+// test is an edit to EXPERIMENTS; components read their assignment with
+// useVariant() and the admin results view reads the same definitions.
+// Assignment hashes a per-visitor id with the experiment id, so a visitor keeps
+// their variant across visits without a server round-trip.
+
+import type { EventType } from './analytics.ts';
+
+export interface ExperimentDefinition {
+  description: string;
+  /** Paused experiments serve the control to everyone and log no exposures. */
+  status: 'running' | 'paused';
+  /** The event that counts as a conversion when the same visitor sends it after an exposure. */
+  goal: { label: string; type: EventType; target?: string };
+  /** The first variant is the control. Weights are relative. */
+  variants: readonly { id: string; weight: number }[];
+}
+
+export const EXPERIMENTS = {
+  'hero-headline': {
+    description: 'Hero headline copy',
+    status: 'running',
+    goal: { label: 'Joined the waitlist', type: 'waitlist_submit' },
+    variants: [
+      { id: 'control', weight: 1 },
+      { id: 'healthspan', weight: 1 },
+    ],
+  },
+  'waitlist-cta': {
+    description: 'Waitlist button label in the navigation and hero',
+    status: 'running',
+    goal: { label: 'Joined the waitlist', type: 'waitlist_submit' },
+    variants: [
+      { id: 'control', weight: 1 },
+      { id: 'reserve', weight: 1 },
+      { id: 'start', weight: 1 },
+    ],
+  },
+  // Variant ids are tier ids; the control matches the tier flagged `recommended` in MEMBERSHIP_TIERS.
+  'recommended-tier': {
+    description: 'Which membership tier carries the "Recommended" badge',
+    status: 'running',
+    goal: { label: 'Selected a tier', type: 'tier_select' },
+    variants: [
+      { id: 'precision', weight: 2 },
+      { id: 'foundation', weight: 1 },
+      { id: 'apex', weight: 1 },
+    ],
+  },
+} as const satisfies Record<string, ExperimentDefinition>;
+
+export type ExperimentId = keyof typeof EXPERIMENTS;
+export type VariantId<E extends ExperimentId> = typeof EXPERIMENTS[E]['variants'][number]['id'];
+type ControlId<E extends ExperimentId> = typeof EXPERIMENTS[E]['variants'][0]['id'];
+
+export const EXPERIMENT_IDS = Object.keys(EXPERIMENTS) as ExperimentId[];
+
+export function controlVariant<E extends ExperimentId>(id: E): ControlId<E> {
+  return EXPERIMENTS[id].variants[0].id;
+}
+
+/** Every variant except the control; these are the ones that need their own copy. */
+export function treatmentVariants<E extends ExperimentId>(id: E) {
+  return EXPERIMENTS[id].variants.slice(1).map(variant => variant.id) as Exclude<VariantId<E>, ControlId<E>>[];
+}
+
+/** FNV-1a, scaled to [0, 1). Stable across browsers and the server. */
+function hashToUnit(input: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 2 ** 32;
+}
+
+export function assignVariant<E extends ExperimentId>(id: E, visitorId: string): VariantId<E> {
+  const variants: readonly { id: string; weight: number }[] = EXPERIMENTS[id].variants;
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = hashToUnit(`${id}:${visitorId}`) * total;
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) return variant.id as VariantId<E>;
+  }
+  return variants[variants.length - 1].id as VariantId<E>;
+}
+
+export interface VariantResult {
+  id: string;
+  visitors: number;
+  conversions: number;
+  rate: number;
+  /** Comparison with the control; absent on the control itself. */
+  comparison?: {
+    /** Relative change in conversion rate, e.g. 0.12 for +12%; `null` while the control has no conversions. */
+    lift: number | null;
+    /** 95% confidence interval for the absolute difference in rates. */
+    interval: [number, number];
+    /** Two-sided p-value from a two-proportion z-test. */
+    pValue: number;
+    significant: boolean;
+  };
+}
+
+export interface ExperimentResult {
+  id: ExperimentId;
+  description: string;
+  status: ExperimentDefinition['status'];
+  goal: string;
+  variants: VariantResult[];
+}
+
+export interface ExperimentReport {
+  experiments: ExperimentResult[];
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Abramowitz–Stegun 7.1.26; accurate to about 1e-7, plenty for a p-value. */
+function normalCdf(z: number) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export function compareVariants(control: { visitors: number; conversions: number }, variant: { visitors: number; conversions: number }): VariantResult['comparison'] {
+  if (control.visitors === 0 || variant.visitors === 0) return undefined;
+  const p1 = control.conversions / control.visitors;
+  const p2 = variant.conversions / variant.visitors;
+  const pooled = (control.conversions + variant.conversions) / (control.visitors + variant.visitors);
+  const pooledError = Math.sqrt(pooled * (1 - pooled) * (1 / control.visitors + 1 / variant.visitors));
+  const pValue = pooledError === 0 ? 1 : 2 * (1 - normalCdf(Math.abs(p2 - p1) / pooledError));
+  const error = Math.sqrt((p1 * (1 - p1)) / control.visitors + (p2 * (1 - p2)) / variant.visitors);
+  return {
+    lift: p1 === 0 ? null : (p2 - p1) / p1,
+    interval: [p2 - p1 - 1.96 * error, p2 - p1 + 1.96 * error],
+    pValue,
+    significant: pValue < SIGNIFICANCE_LEVEL,
+  };
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribeNever = () => () => {};
+
+/**
+ * False while prerendering and during the hydration render that follows, true
+ * after. State read from the browser (storage, media queries, the clock) has to
+ * wait for it, or the first client render wouldn't match the prerendered HTML.
+ */
+export function useHydrated() {
+  return useSyncExternalStore(subscribeNever, () => true, () => false);
+}
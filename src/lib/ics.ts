@@ -0,0 +1,91 @@
+// Just enough iCalendar (RFC 5545) to hand someone events they can add to any
+// calendar app. Shared by the consultation invite the API serves and the
+// reminders the protocol builder downloads in the browser. Times are either
+// UTC instants or floating wall-clock times, so no VTIMEZONE is needed.
+
+export const ICS_WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type IcsWeekday = typeof ICS_WEEKDAYS[number];
+
+export interface CalendarEvent {
+  uid: string;
+  /** Bump on every change so calendar apps replace their copy instead of adding one. */
+  sequence?: number;
+  /**
+   * An ISO instant such as `2026-10-20T14:00:00.000Z`, or a wall-clock time
+   * such as `2026-10-20T07:30`, which stays at 07:30 in whatever zone the
+   * reader's calendar is in.
+   */
+  start: string;
+  end: string;
+  summary: string;
+  description: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  /** Repeats every week on these days, starting from `start`. */
+  weekly?: IcsWeekday[];
+  /** Notifies the reader when the event starts. */
+  alarm?: boolean;
+}
+
+const formatTime = (iso: string) => {
+  const compact = iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  // Floating times may leave out the seconds.
+  return compact.endsWith('Z') || compact.length > 13 ? compact : `${compact}00`;
+};
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+/** Content lines may be at most 75 octets; longer ones continue on lines starting with a space. */
+function fold(line: string) {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, stamp: string) {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatTime(event.start)}`,
+    `DTEND:${formatTime(event.end)}`,
+    ...(event.weekly?.length ? [`RRULE:FREQ=WEEKLY;BYDAY=${event.weekly.join(',')}`] : []),
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.url ? [`URL:${event.url}`] : []),
+    ...(event.status ? [`STATUS:${event.status}`] : []),
+    ...(event.alarm ? ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.summary)}`, 'TRIGGER:PT0M', 'END:VALARM'] : []),
+    'END:VEVENT',
+  ];
+}
+
+/** A calendar file holding `events`; `product` names what produced it, for PRODID. */
+export function toIcs(events: CalendarEvent[], product: string) {
+  const stamp = formatTime(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//Nura Health//${product}//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,212 @@
+// Reads lab result files in the browser. Nothing here touches the network:
+// the file is read with File.text() and parsed into catalog biomarkers, so a
+// visitor's health data never leaves their device.
+
+import {
+  findBiomarker,
+  gradeBiomarker,
+  toCanonicalUnit,
+  type Biomarker,
+  type BiomarkerStatus,
+} from './biomarkers.ts';
+
+export const LAB_FILE_ACCEPT = '.csv,.json,text/csv,application/json,application/fhir+json';
+export const MAX_LAB_FILE_BYTES = 2 * 1024 * 1024;
+
+export interface LabResult {
+  marker: Biomarker;
+  /** In the marker's canonical unit. */
+  value: number;
+  status: BiomarkerStatus;
+  observedAt?: string;
+}
+
+export interface LabReport {
+  /** One result per biomarker, the most recent when a file repeats one. */
+  results: LabResult[];
+  /** Rows or observations that didn't match the catalog or had an unusable value or unit. */
+  skipped: number;
+}
+
+export type LabReportErrorCode = 'tooLarge' | 'unreadable' | 'noResults';
+
+export class LabReportError extends Error {
+  constructor(readonly code: LabReportErrorCode) {
+    super(`Lab report could not be read (${code})`);
+    this.name = 'LabReportError';
+  }
+}
+
+interface RawResult {
+  loinc?: string;
+  name?: string;
+  value: string | number | undefined;
+  unit?: string;
+  observedAt?: string;
+}
+
+/** The number in a value cell such as `5.4` or `<0.5`. A blank cell is missing, not zero. */
+function parseValue(value: RawResult['value']) {
+  if (typeof value === 'number') return value;
+  const text = (value ?? '').replace(/^[<>≤≥=\s]+/, '');
+  return text ? Number(text) : NaN;
+}
+
+/**
+ * Whether `date` is before `than`. Labs export dates in several formats
+ * (`2026-03-15`, `03/15/2026`), so they're compared as parsed times. When
+ * either doesn't parse the two can't be ordered, and the later row wins.
+ */
+function isEarlier(date: string | undefined, than: string | undefined) {
+  const time = Date.parse(date ?? '');
+  const other = Date.parse(than ?? '');
+  return Number.isFinite(time) && Number.isFinite(other) && time < other;
+}
+
+function toReport(rows: RawResult[]): LabReport {
+  const latest = new Map<string, LabResult>();
+  let skipped = 0;
+
+  for (const row of rows) {
+    const marker = findBiomarker(row);
+    const raw = parseValue(row.value);
+    const value = marker && Number.isFinite(raw) ? toCanonicalUnit(marker, raw, row.unit) : undefined;
+    if (!marker || value === undefined) {
+      skipped++;
+      continue;
+    }
+    const previous = latest.get(marker.loinc);
+    if (previous && isEarlier(row.observedAt, previous.observedAt)) continue;
+    const rounded = Math.round(value * 100) / 100;
+    latest.set(marker.loinc, { marker, value: rounded, status: gradeBiomarker(marker, rounded), observedAt: row.observedAt });
+  }
+
+  if (latest.size === 0) throw new LabReportError('noResults');
+  return { results: [...latest.values()], skipped };
+}
+
+/** Splits CSV text into rows of fields, honouring double-quoted fields. */
+function splitCsv(text: string, delimiter: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+const CSV_HEADERS = {
+  loinc: ['loinc', 'loinc code', 'loinc_code', 'code'],
+  name: ['test', 'name', 'marker', 'biomarker', 'analyte', 'component', 'test name'],
+  value: ['value', 'result', 'result value'],
+  unit: ['unit', 'units'],
+  observedAt: ['date', 'collected', 'collection date', 'observed', 'effective date'],
+} as const;
+
+/**
+ * Expects a header row naming at least a value column and either a LOINC code
+ * or a test name column. Comma, semicolon and tab delimiters are accepted;
+ * semicolon files may use decimal commas.
+ */
+export function parseLabCsv(text: string): LabReport {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+  const [header, ...rows] = splitCsv(text.replace(/^\uFEFF/, ''), delimiter);
+  if (!header) throw new LabReportError('unreadable');
+
+  const labels = header.map(cell => cell.trim().toLowerCase());
+  const column = (key: keyof typeof CSV_HEADERS) => labels.findIndex(label => (CSV_HEADERS[key] as readonly string[]).includes(label));
+  const columns = { loinc: column('loinc'), name: column('name'), value: column('value'), unit: column('unit'), observedAt: column('observedAt') };
+  if (columns.value === -1 || (columns.loinc === -1 && columns.name === -1)) throw new LabReportError('unreadable');
+
+  const cell = (row: string[], index: number) => (index === -1 ? undefined : row[index]?.trim() || undefined);
+  return toReport(rows.map(row => ({
+    loinc: cell(row, columns.loinc),
+    name: cell(row, columns.name),
+    value: delimiter === ';' ? cell(row, columns.value)?.replace(',', '.') : cell(row, columns.value),
+    unit: cell(row, columns.unit),
+    observedAt: cell(row, columns.observedAt),
+  })));
+}
+
+type Json = Record<string, unknown>;
+const asObject = (value: unknown): Json => (typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Json : {});
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const IGNORED_OBSERVATION_STATUSES = ['entered-in-error', 'cancelled'];
+
+function observationToRaw(observation: Json): RawResult {
+  const code = asObject(observation.code);
+  const loinc = asArray(code.coding).map(asObject).find(coding => coding.system === LOINC_SYSTEM);
+  const quantity = asObject(observation.valueQuantity);
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return {
+    loinc: text(loinc?.code),
+    name: text(loinc?.display) ?? text(code.text),
+    value: typeof quantity.value === 'number' ? quantity.value : undefined,
+    unit: text(quantity.unit) ?? text(quantity.code),
+    observedAt: text(observation.effectiveDateTime) ?? text(observation.issued),
+  };
+}
+
+/** Accepts a FHIR R4 Bundle of Observation resources, or a single Observation. */
+export function parseFhirObservations(json: unknown): LabReport {
+  const root = asObject(json);
+  const resources =
+    root.resourceType === 'Bundle' ? asArray(root.entry).map(entry => asObject(asObject(entry).resource))
+    : root.resourceType === 'Observation' ? [root]
+    : null;
+  if (!resources) throw new LabReportError('unreadable');
+
+  return toReport(
+    resources
+      .filter(resource => resource.resourceType === 'Observation' && !IGNORED_OBSERVATION_STATUSES.includes(String(resource.status)))
+      .map(observationToRaw)
+  );
+}
+
+export async function readLabFile(file: File): Promise<LabReport> {
+  if (file.size > MAX_LAB_FILE_BYTES) throw new LabReportError('tooLarge');
+  const text = await file.text();
+  if (/^\s*[{[]/.test(text)) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new LabReportError('unreadable');
+    }
+    return parseFhirObservations(json);
+  }
+  return parseLabCsv(text);
+}
@@ -0,0 +1,16 @@
+// Legal copy lives in Markdown under src/content/legal/<locale>/<page>.md so
+// counsel can edit it without touching components. Each file starts with
+// `title` and `updated` (YYYY-MM-DD) front matter.
+
+export const LEGAL_PAGES = ['privacy', 'terms', 'medical-disclaimer'] as const;
+export type LegalPage = typeof LEGAL_PAGES[number];
+
+export const LEGAL_PATHS: Record<LegalPage, string> = {
+  privacy: '/privacy',
+  terms: '/terms',
+  'medical-disclaimer': '/medical-disclaimer',
+};
+
+export function legalPageForPath(pathname: string) {
+  return LEGAL_PAGES.find(page => LEGAL_PATHS[page] === pathname.replace(/\/+$/, ''));
+}
@@ -0,0 +1,93 @@
+// A small Markdown subset for the legal pages: front matter, headings,
+// paragraphs, bullet and numbered lists, **bold**, *emphasis* and links.
+// Parsing to a tree (rather than HTML) lets React render it without
+// dangerouslySetInnerHTML.
+
+export type Inline =
+  | string
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'em'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] };
+
+export type Block =
+  | { type: 'heading'; level: 2 | 3; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'list'; ordered: boolean; items: Inline[][] };
+
+export interface MarkdownDocument {
+  /** `key: value` pairs from a leading `---` block. */
+  meta: Record<string, string>;
+  blocks: Block[];
+}
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const BULLET_PATTERN = /^[-*]\s+/;
+const NUMBERED_PATTERN = /^\d+\.\s+/;
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const [, strong, em, label, href] = match;
+    if (strong !== undefined) nodes.push({ type: 'strong', children: parseInline(strong) });
+    else if (em !== undefined) nodes.push({ type: 'em', children: parseInline(em) });
+    else nodes.push({ type: 'link', href, children: parseInline(label) });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+function parseFrontMatter(source: string) {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(source);
+  if (!match) return { meta: {}, body: source };
+  const meta = Object.fromEntries(
+    match[1]
+      .split(/\r?\n/)
+      .map(line => /^(\w+):\s*(.*)$/.exec(line))
+      .filter(Boolean)
+      .map(([, key, value]) => [key, value.trim()])
+  );
+  return { meta, body: source.slice(match[0].length) };
+}
+
+export function parseMarkdown(source: string): MarkdownDocument {
+  const { meta, body } = parseFrontMatter(source);
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  };
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = /^(#{2,3})\s+(.*)$/.exec(line);
+    const ordered = NUMBERED_PATTERN.test(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length as 2 | 3, children: parseInline(heading[2]) });
+    } else if (ordered || BULLET_PATTERN.test(line)) {
+      if (paragraph.length || (list && list.ordered !== ordered)) flush();
+      list ??= { ordered, items: [] };
+      list.items.push(line.replace(ordered ? NUMBERED_PATTERN : BULLET_PATTERN, ''));
+    } else if (list && /^\s/.test(rawLine)) {
+      // Indented continuation of the previous list item.
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return { meta, blocks };
+}
@@ -0,0 +1,108 @@
+// Single source of truth for membership pricing. The Membership section, the
+// waitlist form and the enrollment API all read from MEMBERSHIP_TIERS, so a
+// pricing change is an edit to this file only. Marketing copy for each tier
+// (cadence, feature bullets) lives under `membership` in
+// src/content/locales/<locale>.json.
+
+import { asRecord, isValidEmail, normalizeEmail, type ValidationResult } from './validation.ts';
+
+export const TIER_IDS = ['foundation', 'precision', 'apex'] as const;
+export type TierId = typeof TIER_IDS[number];
+
+export const BILLING_PERIODS = ['monthly', 'annual'] as const;
+export type BillingPeriod = typeof BILLING_PERIODS[number];
+
+export interface MembershipTier {
+  id: TierId;
+  name: string;
+  /** Whole-dollar price charged once per billing period. */
+  prices: Record<BillingPeriod, number>;
+  recommended?: boolean;
+}
+
+export const CURRENCY = 'USD';
+
+export const MEMBERSHIP_TIERS: MembershipTier[] = [
+  {
+    id: 'foundation',
+    name: 'Foundation',
+    prices: { monthly: 299, annual: 2990 },
+  },
+  {
+    id: 'precision',
+    name: 'Precision',
+    prices: { monthly: 899, annual: 8990 },
+    recommended: true,
+  },
+  {
+    id: 'apex',
+    name: 'Apex',
+    prices: { monthly: 2499, annual: 24990 },
+  },
+];
+
+export function getTier(id: TierId) {
+  return MEMBERSHIP_TIERS.find(tier => tier.id === id)!;
+}
+
+export function isTierId(value: unknown): value is TierId {
+  return typeof value === 'string' && (TIER_IDS as readonly string[]).includes(value);
+}
+
+/** Percentage saved by paying annually instead of twelve monthly payments. */
+export function annualDiscountPercent(tier: MembershipTier) {
+  const fullYear = tier.prices.monthly * 12;
+  return Math.round((1 - tier.prices.annual / fullYear) * 100);
+}
+
+export function formatPrice(amount: number, locale = 'en-US') {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: CURRENCY, maximumFractionDigits: 0 }).format(amount);
+}
+
+// --- Enrollment ---
+
+export type EnrollmentStatus = 'pending' | 'active' | 'cancelled';
+
+export interface EnrollmentInput {
+  tierId: TierId;
+  billingPeriod: BillingPeriod;
+  name: string;
+  email: string;
+}
+
+export interface EnrollmentResponse {
+  enrollmentId: string;
+  status: EnrollmentStatus;
+  amount: number;
+  currency: string;
+  checkoutUrl: string;
+}
+
+export type EnrollmentFieldErrors = Partial<Record<keyof EnrollmentInput, string>>;
+
+export function validateEnrollmentInput(input: unknown): ValidationResult<EnrollmentInput, EnrollmentFieldErrors> {
+  const raw = asRecord(input);
+  const errors: EnrollmentFieldErrors = {};
+
+  if (!isTierId(raw.tierId)) errors.tierId = 'Unknown membership tier.';
+  if (typeof raw.billingPeriod !== 'string' || !(BILLING_PERIODS as readonly string[]).includes(raw.billingPeriod)) {
+    errors.billingPeriod = 'Choose monthly or annual billing.';
+  }
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) errors.name = 'Please tell us your name.';
+
+  const email = typeof raw.email === 'string' ? normalizeEmail(raw.email) : '';
+  if (!isValidEmail(email)) errors.email = 'Enter a valid email address.';
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return {
+    value: {
+      tierId: raw.tierId as TierId,
+      billingPeriod: raw.billingPeriod as BillingPeriod,
+      name,
+      email,
+    },
+  };
+}
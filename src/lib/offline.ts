@@ -0,0 +1,43 @@
+// What the page and the service worker (src/serviceWorker/) agree on: the
+// worker's URL, its cache names, which form endpoints it queues while offline
+// and the messages they pass each other. The worker bundles this file, so it
+// must not import anything that needs a window.
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+/** Served by the service worker in place of any page it can't fetch or find in its caches. */
+export const OFFLINE_PATH = '/offline';
+
+/** Every cache the worker owns starts with this; the offline page reads them back to list what's available. */
+export const CACHE_PREFIX = 'nura-';
+
+/**
+ * POST endpoints whose submissions are held in the worker's outbox when the
+ * network is down, and sent once it's back. Only requests that still make
+ * sense later belong here: a booking isn't, since its slot may be gone by then.
+ */
+export const OUTBOX_ENDPOINTS = {
+  waitlist: '/api/waitlist',
+} as const;
+export type OutboxEndpoint = keyof typeof OUTBOX_ENDPOINTS;
+
+/** Background Sync tag the worker registers when it queues a submission. */
+export const OUTBOX_SYNC_TAG = 'nura-outbox';
+
+/** What the worker answers a queued submission with, in place of the server's response. */
+export interface QueuedResponse {
+  queued: true;
+}
+export const QUEUED_STATUS = 202;
+
+export function isQueuedResponse(body: unknown): body is QueuedResponse {
+  return typeof body === 'object' && body !== null && (body as Partial<QueuedResponse>).queued === true;
+}
+
+/** From the page to the worker. */
+export type WorkerMessage =
+  | { type: 'skipWaiting' }
+  | { type: 'flushOutbox' };
+
+/** From the worker to the page: a queued submission went out and the server accepted it (`ok`) or turned it down. */
+export type ClientMessage = { type: 'outboxSent'; endpoint: OutboxEndpoint; ok: boolean };
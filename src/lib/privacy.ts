@@ -0,0 +1,77 @@
+// Shared between the forms that collect personal data, the privacy request
+// center and the privacy API. Every waitlist signup and booking stores the
+// privacy policy version the visitor agreed to; the request center lets them
+// export or delete everything stored under their email.
+
+import { asRecord, isValidEmail, normalizeEmail, type ValidationResult } from './validation.ts';
+
+export const PRIVACY_REQUESTS_PATH = '/privacy/requests';
+
+/**
+ * The `updated` date of the current privacy policy. check:content fails when
+ * a locale's policy carries a different date, so editing the policy means
+ * bumping this too, and new consents record the new version.
+ */
+export const PRIVACY_POLICY_VERSION = '2026-10-19';
+
+/** Waitlist signups still unconfirmed after this many days are deleted. */
+export const UNCONFIRMED_SIGNUP_RETENTION_DAYS = 30;
+
+/** How long the emailed link to the request center works. */
+export const PRIVACY_LINK_MINUTES = 60;
+
+export interface ConsentFields {
+  /** The policy version the visitor agreed to; only the current one is accepted. */
+  consentVersion: string;
+  /**
+   * The browser's analytics session, sent only when analytics is allowed, so
+   * deleting this record can delete the events recorded alongside it.
+   */
+  analyticsSessionId?: string;
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+/** Reads the consent fields of a form submission, reporting a missing or outdated consent. */
+export function readConsent(raw: Record<string, unknown>, errors: { consentVersion?: string }): ConsentFields {
+  if (raw.consentVersion !== PRIVACY_POLICY_VERSION) errors.consentVersion = 'Please agree to the privacy policy to continue.';
+  const sessionId = typeof raw.analyticsSessionId === 'string' && SESSION_ID_PATTERN.test(raw.analyticsSessionId) ? raw.analyticsSessionId : undefined;
+  return { consentVersion: PRIVACY_POLICY_VERSION, ...(sessionId ? { analyticsSessionId: sessionId } : {}) };
+}
+
+export interface PrivacyRequestInput {
+  email: string;
+}
+
+export type PrivacyRequestFieldErrors = Partial<Record<keyof PrivacyRequestInput, string>>;
+
+export function validatePrivacyRequest(input: unknown): ValidationResult<PrivacyRequestInput, PrivacyRequestFieldErrors> {
+  const raw = asRecord(input);
+  const email = typeof raw.email === 'string' ? normalizeEmail(raw.email) : '';
+  if (!email) return { errors: { email: 'Email is required.' } };
+  if (!isValidEmail(email)) return { errors: { email: 'Enter a valid email address.' } };
+  return { value: { email } };
+}
+
+/** What the request center lists before the visitor downloads or deletes it. */
+export interface PrivacySummary {
+  email: string;
+  waitlist: number;
+  bookings: number;
+  /** Kept after a deletion request for as long as accounting rules require. */
+  enrollments: number;
+  analyticsEvents: number;
+  emails: number;
+}
+
+/** What a deletion request removed. */
+export interface DeletionResult {
+  waitlist: number;
+  bookings: number;
+  analyticsEvents: number;
+  emails: number;
+  /** Enrollments aren't deleted; this says how many were kept. */
+  enrollmentsRetained: number;
+}
+
+export const privacyRequestHref = (token: string) => `${PRIVACY_REQUESTS_PATH}?token=${encodeURIComponent(token)}`;
@@ -0,0 +1,178 @@
+// The supplement protocol builder: a curated catalog of interventions and the
+// rules that turn a visitor's goals into an example weekly schedule. Doses,
+// timing and interaction flags live here; names, evidence notes and warning
+// copy live in the locale content files under `protocols`. The schedule is
+// kept in the page's query string, so the address bar is always a share link.
+//
+// This is education, not a prescription: the page says so, and points
+// visitors to a physician consultation before they start anything.
+
+import { ICS_WEEKDAYS, type CalendarEvent } from './ics.ts';
+
+export const PROTOCOL_BUILDER_PATH = '/protocols';
+
+export const PROTOCOL_GOALS = ['sleep', 'metabolic', 'cognition', 'cardiovascular', 'recovery'] as const;
+export type ProtocolGoal = typeof PROTOCOL_GOALS[number];
+
+export const TIME_SLOTS = ['morning', 'midday', 'evening', 'bedtime'] as const;
+export type TimeSlot = typeof TIME_SLOTS[number];
+
+/** When each slot's calendar reminder goes off, in the visitor's own time zone. */
+export const SLOT_TIMES: Record<TimeSlot, { hour: number; minute: number }> = {
+  morning: { hour: 7, minute: 30 },
+  midday: { hour: 12, minute: 30 },
+  evening: { hour: 18, minute: 30 },
+  bedtime: { hour: 21, minute: 30 },
+};
+
+export const EVIDENCE_LEVELS = ['strong', 'moderate', 'emerging'] as const;
+export type EvidenceLevel = typeof EVIDENCE_LEVELS[number];
+
+export const INTERACTION_IDS = [
+  'bloodThinners', 'sedatives', 'glucoseLowering', 'drugMetabolism', 'absorption', 'kidneyDisease', 'pregnancy', 'labMonitoring',
+] as const;
+export type InteractionId = typeof INTERACTION_IDS[number];
+
+export const INTERVENTION_IDS = [
+  'magnesium', 'glycine', 'melatonin', 'morningLight', 'omega3', 'vitaminD',
+  'creatine', 'psyllium', 'berberine', 'theanine', 'zone2', 'strength',
+] as const;
+export type InterventionId = typeof INTERVENTION_IDS[number];
+
+/** Days of the week, Monday first: 0 is Monday and 6 is Sunday. */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+export const WEEKDAYS: readonly Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+export interface Intervention {
+  id: InterventionId;
+  kind: 'supplement' | 'habit';
+  goals: ProtocolGoal[];
+  /** When it's usually taken or done; visitors can move it. */
+  slot: TimeSlot;
+  /** The range commonly studied in adults, per day for supplements and per session for habits. */
+  dose: { min: number; max: number; unit: 'mg' | 'g' | 'IU' | 'min' };
+  withFood?: boolean;
+  /** Every day when left out. */
+  days?: Weekday[];
+  evidence: EvidenceLevel;
+  interactions: InteractionId[];
+}
+
+export const INTERVENTIONS: Intervention[] = [
+  { id: 'magnesium', kind: 'supplement', goals: ['sleep', 'recovery'], slot: 'bedtime', dose: { min: 200, max: 400, unit: 'mg' }, evidence: 'moderate', interactions: ['absorption', 'kidneyDisease'] },
+  { id: 'glycine', kind: 'supplement', goals: ['sleep'], slot: 'bedtime', dose: { min: 3, max: 3, unit: 'g' }, evidence: 'emerging', interactions: [] },
+  { id: 'melatonin', kind: 'supplement', goals: ['sleep'], slot: 'bedtime', dose: { min: 0.3, max: 1, unit: 'mg' }, evidence: 'moderate', interactions: ['sedatives', 'pregnancy'] },
+  { id: 'morningLight', kind: 'habit', goals: ['sleep', 'cognition'], slot: 'morning', dose: { min: 10, max: 30, unit: 'min' }, evidence: 'moderate', interactions: [] },
+  { id: 'omega3', kind: 'supplement', goals: ['cardiovascular', 'cognition'], slot: 'evening', dose: { min: 1, max: 2, unit: 'g' }, withFood: true, evidence: 'moderate', interactions: ['bloodThinners'] },
+  { id: 'vitaminD', kind: 'supplement', goals: ['recovery'], slot: 'morning', dose: { min: 1000, max: 2000, unit: 'IU' }, withFood: true, evidence: 'moderate', interactions: ['labMonitoring'] },
+  { id: 'creatine', kind: 'supplement', goals: ['recovery', 'cognition'], slot: 'morning', dose: { min: 3, max: 5, unit: 'g' }, evidence: 'strong', interactions: ['kidneyDisease'] },
+  { id: 'psyllium', kind: 'supplement', goals: ['metabolic', 'cardiovascular'], slot: 'midday', dose: { min: 5, max: 10, unit: 'g' }, withFood: true, evidence: 'strong', interactions: ['absorption'] },
+  { id: 'berberine', kind: 'supplement', goals: ['metabolic'], slot: 'midday', dose: { min: 500, max: 1500, unit: 'mg' }, withFood: true, evidence: 'moderate', interactions: ['glucoseLowering', 'drugMetabolism', 'pregnancy'] },
+  { id: 'theanine', kind: 'supplement', goals: ['cognition'], slot: 'morning', dose: { min: 100, max: 200, unit: 'mg' }, evidence: 'emerging', interactions: [] },
+  { id: 'zone2', kind: 'habit', goals: ['cardiovascular', 'metabolic'], slot: 'evening', dose: { min: 30, max: 45, unit: 'min' }, days: [0, 2, 4], evidence: 'strong', interactions: [] },
+  { id: 'strength', kind: 'habit', goals: ['recovery', 'metabolic'], slot: 'evening', dose: { min: 30, max: 45, unit: 'min' }, days: [1, 3, 5], evidence: 'strong', interactions: [] },
+];
+
+export function getIntervention(id: InterventionId) {
+  return INTERVENTIONS.find(intervention => intervention.id === id)!;
+}
+
+export interface ProtocolItem {
+  id: InterventionId;
+  slot: TimeSlot;
+  /** Sorted, without repeats. */
+  days: Weekday[];
+}
+
+export interface ProtocolPlan {
+  goals: ProtocolGoal[];
+  items: ProtocolItem[];
+}
+
+export const EMPTY_PLAN: ProtocolPlan = { goals: [], items: [] };
+
+export const defaultItem = (intervention: Intervention): ProtocolItem => ({
+  id: intervention.id,
+  slot: intervention.slot,
+  days: intervention.days ?? [...WEEKDAYS],
+});
+
+/**
+ * Drafts a schedule for `goals`: every intervention that serves one of them,
+ * in catalog order. Items already in `previous` keep the visitor's changes,
+ * and ones they added by hand stay.
+ */
+export function draftProtocol(goals: ProtocolGoal[], previous: ProtocolPlan = EMPTY_PLAN): ProtocolPlan {
+  const drafted = INTERVENTIONS.filter(intervention => intervention.goals.some(goal => goals.includes(goal)));
+  const addedByHand = previous.items.filter(item => !getIntervention(item.id).goals.some(goal => previous.goals.includes(goal)));
+  const items = INTERVENTIONS
+    .filter(intervention => drafted.includes(intervention) || addedByHand.some(item => item.id === intervention.id))
+    .map(intervention => previous.items.find(item => item.id === intervention.id) ?? defaultItem(intervention));
+  return { goals: PROTOCOL_GOALS.filter(goal => goals.includes(goal)), items };
+}
+
+/** The interaction warnings that apply to a plan, each with the interventions that raise it. */
+export function planInteractions(plan: ProtocolPlan) {
+  return INTERACTION_IDS
+    .map(id => ({ id, interventions: plan.items.map(item => item.id).filter(item => getIntervention(item).interactions.includes(id)) }))
+    .filter(warning => warning.interventions.length > 0);
+}
+
+// Query string format: `goals=sleep.cognition&plan=magnesium.bedtime.0123456_theanine.morning.01234`,
+// where the digits are the weekdays. Only characters URLSearchParams leaves
+// unescaped, so shared links stay readable.
+
+const isOneOf = <T extends string>(values: readonly T[], value: string): value is T => (values as readonly string[]).includes(value);
+
+export function encodePlan(plan: ProtocolPlan) {
+  const params = new URLSearchParams();
+  if (plan.goals.length) params.set('goals', plan.goals.join('.'));
+  if (plan.items.length) params.set('plan', plan.items.map(item => `${item.id}.${item.slot}.${item.days.join('')}`).join('_'));
+  return params.toString();
+}
+
+/** Reads a plan back from the query string, skipping anything unknown or malformed. */
+export function decodePlan(goalsParam: string | null, planParam: string | null): ProtocolPlan {
+  const goals = (goalsParam ?? '').split('.').filter(goal => isOneOf(PROTOCOL_GOALS, goal));
+  const items: ProtocolItem[] = [];
+  for (const entry of (planParam ?? '').split('_')) {
+    const [id, slot, days = ''] = entry.split('.');
+    if (!isOneOf(INTERVENTION_IDS, id) || !isOneOf(TIME_SLOTS, slot) || items.some(item => item.id === id)) continue;
+    const weekdays = WEEKDAYS.filter(day => days.includes(String(day)));
+    if (weekdays.length) items.push({ id, slot, days: weekdays });
+  }
+  return { goals: PROTOCOL_GOALS.filter(goal => goals.includes(goal)), items };
+}
+
+export const protocolHref = (plan: ProtocolPlan) => {
+  const query = encodePlan(plan);
+  return query ? `${PROTOCOL_BUILDER_PATH}?${query}` : PROTOCOL_BUILDER_PATH;
+};
+
+const REMINDER_MINUTES = 15;
+const pad = (value: number) => String(value).padStart(2, '0');
+const wallClock = (date: Date, hour: number, minute: number) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(hour)}:${pad(minute)}`;
+
+/**
+ * One weekly repeating reminder per item, in floating local time so 07:30
+ * stays 07:30 wherever the visitor travels. Each series starts on the first
+ * scheduled day from `today`, since some calendar apps count the first date
+ * as an occurrence even when it isn't one of the repeat days.
+ */
+export function protocolEvents(plan: ProtocolPlan, describe: (item: ProtocolItem) => { summary: string; description: string }, today = new Date()): CalendarEvent[] {
+  return plan.items.map(item => {
+    const todayWeekday = (today.getDay() + 6) % 7;
+    const offset = Math.min(...item.days.map(day => (day - todayWeekday + 7) % 7));
+    const first = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+    const { hour, minute } = SLOT_TIMES[item.slot];
+    return {
+      uid: `protocol-${item.id}@nura.health`,
+      start: wallClock(first, hour, minute),
+      end: wallClock(first, hour, minute + REMINDER_MINUTES),
+      weekly: item.days.map(day => ICS_WEEKDAYS[day]),
+      alarm: true,
+      ...describe(item),
+    };
+  });
+}
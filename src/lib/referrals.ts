@@ -0,0 +1,34 @@
+// The referral program, shared by the waitlist API and the personal status
+// page. Every signup gets a code; each friend who joins with it and confirms
+// their email moves the referrer up the list and counts toward the rewards.
+
+export const WAITLIST_STATUS_PATH = '/waitlist';
+
+/** Places a referrer moves up for each confirmed referral. */
+export const REFERRAL_BOOST = 10;
+
+export type ReferralReward = 'foundationMonth' | 'precisionMonth';
+
+/** Fulfilled by the team by hand; the admin console shows each lead's confirmed referrals. */
+export const REFERRAL_MILESTONES: { referrals: number; reward: ReferralReward }[] = [
+  { referrals: 3, reward: 'foundationMonth' },
+  { referrals: 10, reward: 'precisionMonth' },
+];
+
+export interface ReferralStatus {
+  name: string;
+  position: number;
+  confirmed: boolean;
+  referralCode: string;
+  /** Friends who joined with the code and confirmed their email; only these count. */
+  referrals: number;
+  /** Friends who joined with the code but haven't confirmed yet. */
+  pendingReferrals: number;
+}
+
+export const referralHref = (code: string) => `/?ref=${encodeURIComponent(code)}`;
+
+export const waitlistStatusHref = (token: string) => `${WAITLIST_STATUS_PATH}?token=${encodeURIComponent(token)}`;
+
+/** Codes are matched case-insensitively; they're stored and shown in capitals. */
+export const normalizeReferralCode = (code: string) => code.trim().toUpperCase();
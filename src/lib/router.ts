@@ -0,0 +1,44 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+
+// A deliberately small history-API router: the site has a handful of
+// top-level pages, so a path string is all the state we need.
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('popstate', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('popstate', listener);
+  };
+}
+
+export function navigate(to: string, { replace = false } = {}) {
+  if (replace) window.history.replaceState(null, '', to);
+  else window.history.pushState(null, '', to);
+  listeners.forEach(listener => listener());
+}
+
+/** The path being prerendered, where there's no `window` to read it from. */
+export const ServerLocation = createContext<string | null>(null);
+
+export function usePathname() {
+  const serverPathname = useContext(ServerLocation);
+  return useSyncExternalStore(subscribe, () => window.location.pathname, () => serverPathname ?? window.location.pathname);
+}
+
+/** A query parameter. Prerendered pages have no query string, so it reads `null` until hydration is done. */
+export function useSearchParam(name: string) {
+  return useSyncExternalStore(subscribe, () => new URLSearchParams(window.location.search).get(name), () => null);
+}
+
+/** Same-origin paths are routed client-side; anything else is a normal link. */
+export function isInternalHref(href: string) {
+  return href.startsWith('/') && !href.startsWith('//');
+}
+
+/** Section anchors such as `#membership` live on the home page, so other pages link back to them. */
+export function resolveHref(href: string, pathname: string) {
+  return href.startsWith('#') && pathname !== '/' ? `/${href}` : href;
+}
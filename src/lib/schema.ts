@@ -0,0 +1,113 @@
+// Minimal runtime schemas for structured JSON (site content and friends).
+// Each schema both validates unknown input and carries the TypeScript type it
+// produces, so the static type can never drift from what is checked.
+
+export interface Schema<T> {
+  parse(input: unknown, path: string, issues: string[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {
+  constructor(readonly source: string, readonly issues: string[]) {
+    super(`Invalid ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'SchemaError';
+  }
+}
+
+function describe(input: unknown) {
+  if (Array.isArray(input)) return 'an array';
+  if (input === null) return 'null';
+  if (input === undefined) return 'nothing';
+  return typeof input === 'object' ? 'an object' : `${typeof input} ${JSON.stringify(input)}`;
+}
+
+export function string({ optional = false } = {}): Schema<string> {
+  return {
+    parse(input, path, issues) {
+      if (typeof input === 'string' && (optional || input.trim() !== '')) return input;
+      issues.push(`${path}: expected a non-empty string, got ${describe(input)}`);
+      return '';
+    },
+  };
+}
+
+export function number({ min = -Infinity, max = Infinity } = {}): Schema<number> {
+  return {
+    parse(input, path, issues) {
+      if (typeof input === 'number' && Number.isFinite(input) && input >= min && input <= max) return input;
+      issues.push(`${path}: expected a number between ${min} and ${max}, got ${describe(input)}`);
+      return min;
+    },
+  };
+}
+
+/** Accepts `undefined` (or `null`) in place of a value matching `schema`. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(input, path, issues) {
+      return input === undefined || input === null ? undefined : schema.parse(input, path, issues);
+    },
+  };
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(input, path, issues) {
+      if (typeof input === 'string' && (values as readonly string[]).includes(input)) return input as T;
+      issues.push(`${path}: expected one of ${values.map(value => `"${value}"`).join(', ')}, got ${describe(input)}`);
+      return values[0];
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, { min = 0 } = {}): Schema<T[]> {
+  return {
+    parse(input, path, issues) {
+      if (!Array.isArray(input)) {
+        issues.push(`${path}: expected an array, got ${describe(input)}`);
+        return [];
+      }
+      if (input.length < min) issues.push(`${path}: expected at least ${min} item(s), got ${input.length}`);
+      return input.map((value, index) => item.parse(value, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+export function object<Shape extends Record<string, Schema<unknown>>>(shape: Shape): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+  return {
+    parse(input, path, issues) {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        issues.push(`${path}: expected an object, got ${describe(input)}`);
+        return {} as { [K in keyof Shape]: Infer<Shape[K]> };
+      }
+      const record = input as Record<string, unknown>;
+      Object.keys(record)
+        .filter(key => !(key in shape))
+        .forEach(key => issues.push(`${path}.${key}: unknown field`));
+      return Object.fromEntries(
+        Object.entries(shape).map(([key, schema]) => [key, schema.parse(record[key], `${path}.${key}`, issues)])
+      ) as { [K in keyof Shape]: Infer<Shape[K]> };
+    },
+  };
+}
+
+/** An object that must have exactly the given keys, each matching `value`. */
+export function record<K extends string, T>(keys: readonly K[], value: Schema<T>): Schema<Record<K, T>> {
+  return object(Object.fromEntries(keys.map(key => [key, value])) as Record<K, Schema<T>>) as Schema<Record<K, T>>;
+}
+
+/** Validates `input`, throwing a SchemaError that lists every problem found. */
+export function parse<T>(schema: Schema<T>, input: unknown, source: string): T {
+  const issues: string[] = [];
+  const value = schema.parse(input, '$', issues);
+  if (issues.length > 0) throw new SchemaError(source, issues);
+  return value;
+}
+
+/** Like `parse`, but returns the issues instead of throwing. */
+export function check<T>(schema: Schema<T>, input: unknown): { value: T } | { issues: string[] } {
+  const issues: string[] = [];
+  const value = schema.parse(input, '$', issues);
+  return issues.length > 0 ? { issues } : { value };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+
+// The home page sections the site navigation links to, in page order. The
+// navbar, the mobile menu, the footer and the scroll-spy all read this list;
+// each locale's content file names the sections.
+
+export const NAV_SECTIONS = ['features', 'philosophy', 'protocol', 'membership'] as const;
+
+export type NavSection = (typeof NAV_SECTIONS)[number];
+
+export const sectionHref = (id: NavSection) => `#${id}`;
+
+/**
+ * The section under the reading line, a band just above the middle of the
+ * viewport, or `null` when none is (above the first section, or on pages
+ * without them).
+ */
+export function useActiveSection(enabled = true) {
+  const [active, setActive] = useState<NavSection | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setActive(null);
+      return;
+    }
+    const elements = NAV_SECTIONS.map(id => document.getElementById(id)).filter((element): element is HTMLElement => element !== null);
+    const visible = new Set<string>();
+    const observer = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        if (entry.isIntersecting) visible.add(entry.target.id);
+        else visible.delete(entry.target.id);
+      }
+      // Sections don't overlap, but on a boundary the later one wins.
+      setActive([...NAV_SECTIONS].reverse().find(id => visible.has(id)) ?? null);
+    }, { rootMargin: '-40% 0px -55% 0px' });
+    elements.forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return active;
+}
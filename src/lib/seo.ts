@@ -0,0 +1,107 @@
+// Head tags, structured data, sitemap.xml and robots.txt for the prerendered
+// pages. Everything here returns strings; scripts/prerender.ts writes them into
+// dist. Offers are generated from MEMBERSHIP_TIERS, so prices stay in one place.
+
+import heroImage from '../assets/images/hero.jpg?responsive';
+import type { SiteContent } from '../content/schema.ts';
+import type { Block, Inline } from './markdown.ts';
+import { BILLING_PERIODS, CURRENCY, MEMBERSHIP_TIERS, type BillingPeriod } from './membership.ts';
+
+export interface PageMeta {
+  path: string;
+  title: string;
+  description: string;
+  /** Keeps the page out of search results. */
+  noindex?: boolean;
+}
+
+/** The hero photo's JPEG fallback, for link previews; OpenGraph and Twitter cards crop it to 1.91:1. */
+const shareImage = (siteUrl: string) => `${siteUrl}${heroImage.src}`;
+
+/** Search results cut descriptions off at roughly this many characters. */
+const DESCRIPTION_LENGTH = 160;
+
+export function summarize(text: string, max = DESCRIPTION_LENGTH) {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) return clean;
+  const cut = clean.slice(0, max - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+const inlineText = (inline: Inline): string => (typeof inline === 'string' ? inline : inline.children.map(inlineText).join(''));
+
+/** The first paragraph of a Markdown page as plain text, for its description. */
+export function firstParagraph(blocks: Block[]) {
+  const paragraph = blocks.find(block => block.type === 'paragraph');
+  return paragraph?.type === 'paragraph' ? paragraph.children.map(inlineText).join('') : '';
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** JSON-LD sits inside <script>, so `<` is escaped to stop copy from closing the tag early. */
+const jsonForScript = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const BILLING_UNITS: Record<BillingPeriod, string> = { monthly: 'MON', annual: 'ANN' };
+
+export function organizationJsonLd(siteUrl: string, content: SiteContent) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'MedicalOrganization',
+    '@id': `${siteUrl}/#organization`,
+    name: content.brand.name,
+    description: content.brand.tagline,
+    url: `${siteUrl}/`,
+    image: shareImage(siteUrl),
+    makesOffer: MEMBERSHIP_TIERS.map(tier => ({
+      '@type': 'Offer',
+      name: `${tier.name} membership`,
+      description: content.membership.tiers[tier.id].features.join('; '),
+      url: `${siteUrl}/#membership`,
+      price: tier.prices.monthly,
+      priceCurrency: CURRENCY,
+      // Memberships open from the waitlist.
+      availability: 'https://schema.org/PreOrder',
+      priceSpecification: BILLING_PERIODS.map(period => ({
+        '@type': 'UnitPriceSpecification',
+        price: tier.prices[period],
+        priceCurrency: CURRENCY,
+        referenceQuantity: { '@type': 'QuantitativeValue', value: 1, unitCode: BILLING_UNITS[period] },
+      })),
+    })),
+  };
+}
+
+export function headTags(meta: PageMeta, siteUrl: string, content: SiteContent) {
+  const url = `${siteUrl}${meta.path}`;
+  const title = escapeHtml(meta.title);
+  const description = escapeHtml(meta.description);
+  return [
+    `<title>${title}</title>`,
+    `<meta name="description" content="${description}" />`,
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    ...(meta.noindex ? ['<meta name="robots" content="noindex" />'] : []),
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:site_name" content="${escapeHtml(content.brand.name)}" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:url" content="${escapeHtml(url)}" />`,
+    `<meta property="og:image" content="${escapeHtml(shareImage(siteUrl))}" />`,
+    `<meta property="og:locale" content="en_US" />`,
+    `<meta name="twitter:card" content="summary_large_image" />`,
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:description" content="${description}" />`,
+    `<meta name="twitter:image" content="${escapeHtml(shareImage(siteUrl))}" />`,
+    `<script type="application/ld+json">${jsonForScript(organizationJsonLd(siteUrl, content))}</script>`,
+  ].join('\n    ');
+}
+
+export function sitemapXml(siteUrl: string, paths: string[], lastModified: string) {
+  const urls = paths.map(path => `  <url>\n    <loc>${escapeHtml(`${siteUrl}${path}`)}</loc>\n    <lastmod>${lastModified}</lastmod>\n  </url>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join('\n')}\n</urlset>\n`;
+}
+
+/** Keeps crawlers out of the admin console, the API and per-booking manage links. */
+export function robotsTxt(siteUrl: string) {
+  return ['User-agent: *', 'Allow: /', 'Disallow: /admin', 'Disallow: /api/', 'Disallow: /waitlist', 'Disallow: /*?token=', '', `Sitemap: ${siteUrl}/sitemap.xml`, ''].join('\n');
+}
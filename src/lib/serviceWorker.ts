@@ -0,0 +1,100 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { CACHE_PREFIX, OFFLINE_PATH, SERVICE_WORKER_URL, type ClientMessage, type WorkerMessage } from './offline.ts';
+
+// The page's side of the service worker: registering it, noticing when a new
+// deploy's worker is waiting, and passing on what the worker reports.
+
+/** Tabs left open for days still pick up deploys. */
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+let waiting: ServiceWorker | null = null;
+let updateRequested = false;
+const listeners = new Set<() => void>();
+
+function setWaiting(worker: ServiceWorker | null) {
+  waiting = worker;
+  listeners.forEach(listener => listener());
+}
+
+function post(worker: ServiceWorker | null | undefined, message: WorkerMessage) {
+  worker?.postMessage(message);
+}
+
+/**
+ * The path the worker answered with the offline page, when it did: it serves
+ * that page in place of one it couldn't fetch, so the address is the visitor's.
+ */
+export const offlineFallbackPath = typeof document === 'undefined' || document.getElementById('root')?.dataset.prerendered !== OFFLINE_PATH
+  ? null
+  : window.location.pathname;
+
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+  const container = navigator.serviceWorker;
+
+  // The first install takes control without a reload; only an update the
+  // visitor asked for reloads the page.
+  container.addEventListener('controllerchange', () => {
+    if (updateRequested) window.location.reload();
+  });
+  window.addEventListener('online', () => post(container.controller, { type: 'flushOutbox' }));
+
+  window.addEventListener('load', async () => {
+    let registration: ServiceWorkerRegistration;
+    try {
+      registration = await container.register(SERVICE_WORKER_URL, { updateViaCache: 'none' });
+    } catch (error) {
+      console.warn('Service worker registration failed:', error);
+      return;
+    }
+    if (registration.waiting && container.controller) setWaiting(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && container.controller) setWaiting(installing);
+      });
+    });
+    setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_MS);
+  });
+}
+
+/** Whether a new version is installed and waiting for `applyUpdate`. */
+export function useUpdateAvailable() {
+  return useSyncExternalStore(
+    listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    () => waiting !== null,
+    () => false
+  );
+}
+
+/** Activates the waiting version; the page reloads once it has taken over. */
+export function applyUpdate() {
+  updateRequested = true;
+  post(waiting, { type: 'skipWaiting' });
+}
+
+export function useWorkerMessages(onMessage: (message: ClientMessage) => void) {
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handle = (event: MessageEvent) => onMessage(event.data as ClientMessage);
+    navigator.serviceWorker.addEventListener('message', handle);
+    return () => navigator.serviceWorker.removeEventListener('message', handle);
+  }, [onMessage]);
+}
+
+/** Paths of the pages the worker has cached, which the offline page can still show. */
+export async function cachedPagePaths() {
+  if (!('caches' in window)) return [];
+  const paths = new Set<string>();
+  for (const name of await caches.keys()) {
+    if (!name.startsWith(CACHE_PREFIX)) continue;
+    for (const request of await (await caches.open(name)).keys()) {
+      const { pathname } = new URL(request.url);
+      if (!pathname.startsWith('/api/') && !/\.[a-z0-9]+$/i.test(pathname)) paths.add(pathname);
+    }
+  }
+  return [...paths];
+}
@@ -0,0 +1,120 @@
+// Shared between the /api/status endpoint, the footer status pill, the public
+// status page and the admin incident form.
+
+import { asRecord, type ValidationResult } from './validation.ts';
+
+export const STATUS_PATH = '/status';
+
+/** Ordered from best to worst, so the overall state is the highest index seen. */
+export const SYSTEM_STATES = ['operational', 'degraded', 'outage'] as const;
+export type SystemState = typeof SYSTEM_STATES[number];
+
+export function worstState(states: SystemState[]): SystemState {
+  return states.reduce<SystemState>(
+    (worst, state) => SYSTEM_STATES.indexOf(state) > SYSTEM_STATES.indexOf(worst) ? state : worst,
+    'operational'
+  );
+}
+
+export interface CheckResult {
+  id: string;
+  label: string;
+  state: SystemState;
+  latencyMs: number;
+}
+
+export const INCIDENT_STATUSES = ['investigating', 'identified', 'monitoring', 'resolved'] as const;
+export type IncidentStatus = typeof INCIDENT_STATUSES[number];
+
+export const INCIDENT_IMPACTS = ['degraded', 'outage'] as const;
+export type IncidentImpact = typeof INCIDENT_IMPACTS[number];
+
+export interface IncidentUpdate {
+  status: IncidentStatus;
+  message: string;
+  createdAt: string;
+}
+
+export interface Incident {
+  id: number;
+  title: string;
+  impact: IncidentImpact;
+  status: IncidentStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+  /** Newest first. */
+  updates: IncidentUpdate[];
+}
+
+export interface StatusReport {
+  /** Worst of every check and every unresolved incident's impact. */
+  state: SystemState;
+  checkedAt: string;
+  checks: CheckResult[];
+  /** Unresolved incidents plus those resolved in the last INCIDENT_HISTORY_DAYS days, newest first. */
+  incidents: Incident[];
+}
+
+export const INCIDENT_HISTORY_DAYS = 14;
+
+export interface IncidentInput {
+  title: string;
+  impact: IncidentImpact;
+  status: IncidentStatus;
+  message: string;
+}
+
+export interface IncidentUpdateInput {
+  status: IncidentStatus;
+  message: string;
+  /** Re-grades the incident when it gets better or worse. */
+  impact?: IncidentImpact;
+}
+
+export type IncidentFieldErrors = Partial<Record<keyof IncidentInput, string>>;
+
+function readMessage(raw: Record<string, unknown>, errors: IncidentFieldErrors) {
+  const message = typeof raw.message === 'string' ? raw.message.trim() : '';
+  if (!message) errors.message = 'Describe what operators are seeing.';
+  else if (message.length > 2000) errors.message = 'Message must be 2000 characters or fewer.';
+  return message;
+}
+
+function readStatus(raw: Record<string, unknown>, errors: IncidentFieldErrors) {
+  if (!(INCIDENT_STATUSES as readonly unknown[]).includes(raw.status)) {
+    errors.status = `Status must be one of ${INCIDENT_STATUSES.join(', ')}.`;
+  }
+  return raw.status as IncidentStatus;
+}
+
+function isImpact(value: unknown): value is IncidentImpact {
+  return (INCIDENT_IMPACTS as readonly unknown[]).includes(value);
+}
+
+export function validateIncidentInput(input: unknown): ValidationResult<IncidentInput, IncidentFieldErrors> {
+  const raw = asRecord(input);
+  const errors: IncidentFieldErrors = {};
+
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  if (!title) errors.title = 'Give the incident a title.';
+  else if (title.length > 160) errors.title = 'Title must be 160 characters or fewer.';
+
+  if (!isImpact(raw.impact)) errors.impact = `Impact must be one of ${INCIDENT_IMPACTS.join(', ')}.`;
+  const status = readStatus(raw, errors);
+  const message = readMessage(raw, errors);
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { value: { title, impact: raw.impact as IncidentImpact, status, message } };
+}
+
+export function validateIncidentUpdate(input: unknown): ValidationResult<IncidentUpdateInput, IncidentFieldErrors> {
+  const raw = asRecord(input);
+  const errors: IncidentFieldErrors = {};
+
+  const status = readStatus(raw, errors);
+  const message = readMessage(raw, errors);
+  if (raw.impact !== undefined && !isImpact(raw.impact)) errors.impact = `Impact must be one of ${INCIDENT_IMPACTS.join(', ')}.`;
+
+  if (Object.keys(errors).length > 0) return { errors };
+  return { value: { status, message, ...(raw.impact !== undefined ? { impact: raw.impact as IncidentImpact } : {}) } };
+}
@@ -0,0 +1,16 @@
+// Shared between the /api/telemetry event stream and the Live Feed card, which
+// replays the same scenarios locally when the stream is unreachable.
+
+import { telemetryConfig } from '../content/index.ts';
+import type { TelemetryScenario } from '../content/schema.ts';
+
+export const TELEMETRY_STREAM_URL = '/api/telemetry';
+
+/** Server-sent event names. A `line` event's id is the line's index in its scenario. */
+export const TELEMETRY_EVENTS = { line: 'line', reset: 'reset' } as const;
+
+/** The requested scenario, or the configured default for unknown or missing ids. */
+export function telemetryScenario(id?: string | null): TelemetryScenario {
+  const { scenarios, defaultScenario } = telemetryConfig;
+  return scenarios.find(scenario => scenario.id === id) ?? scenarios.find(scenario => scenario.id === defaultScenario)!;
+}
@@ -0,0 +1,16 @@
+export type ValidationResult<T, E> = { value: T } | { errors: E };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string) {
+  return email.length <= 254 && EMAIL_PATTERN.test(email);
+}
+
+/** Treats anything that isn't a plain object as an empty one so field checks can report per-field errors. */
+export function asRecord(input: unknown) {
+  return (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+}
@@ -0,0 +1,84 @@
+// Shared between the signup form and the Express route so both sides agree on
+// what a valid waitlist entry looks like.
+
+import { assessmentAnswersSchema, type AssessmentAnswers } from './assessment.ts';
+import { MEMBERSHIP_TIERS, TIER_IDS, type TierId } from './membership.ts';
+import { readConsent, type ConsentFields } from './privacy.ts';
+import { check } from './schema.ts';
+import { asRecord, isValidEmail, normalizeEmail, type ValidationResult } from './validation.ts';
+
+export const TIER_INTERESTS = [...TIER_IDS, 'undecided'] as const;
+
+export type TierInterest = TierId | 'undecided';
+
+export const TIER_INTEREST_LABELS: Record<TierInterest, string> = {
+  ...(Object.fromEntries(MEMBERSHIP_TIERS.map(tier => [tier.id, tier.name])) as Record<TierId, string>),
+  undecided: 'Not sure yet',
+};
+
+export interface WaitlistInput extends ConsentFields {
+  name: string;
+  email: string;
+  tier: TierInterest;
+  referralCode?: string;
+  /** Self-assessment answers, attached only when the visitor opts in. */
+  assessment?: AssessmentAnswers;
+}
+
+/**
+ * The answer to every accepted signup, new or repeat, so the form never tells
+ * anyone whether an address is on the list. The position and referral link go
+ * out by email.
+ */
+export interface WaitlistResponse {
+  received: true;
+}
+
+export type WaitlistFieldErrors = Partial<Record<keyof WaitlistInput, string>>;
+
+const REFERRAL_PATTERN = /^[A-Za-z0-9-]{4,32}$/;
+
+export function validateWaitlistInput(input: unknown): ValidationResult<WaitlistInput, WaitlistFieldErrors> {
+  const raw = asRecord(input);
+  const errors: WaitlistFieldErrors = {};
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) errors.name = 'Please tell us your name.';
+  else if (name.length > 120) errors.name = 'Name must be 120 characters or fewer.';
+
+  const email = typeof raw.email === 'string' ? normalizeEmail(raw.email) : '';
+  if (!email) errors.email = 'Email is required.';
+  else if (!isValidEmail(email)) errors.email = 'Enter a valid email address.';
+
+  const tier = raw.tier;
+  if (typeof tier !== 'string' || !(TIER_INTERESTS as readonly string[]).includes(tier)) {
+    errors.tier = 'Choose a membership tier.';
+  }
+
+  const referralCode = typeof raw.referralCode === 'string' ? raw.referralCode.trim() : '';
+  if (referralCode && !REFERRAL_PATTERN.test(referralCode)) {
+    errors.referralCode = 'Referral codes are 4–32 letters, numbers or dashes.';
+  }
+
+  let assessment: AssessmentAnswers | undefined;
+  if (raw.assessment !== undefined && raw.assessment !== null) {
+    const checked = check(assessmentAnswersSchema, raw.assessment);
+    if ('issues' in checked) errors.assessment = 'Assessment answers are incomplete or out of range.';
+    else assessment = checked.value;
+  }
+
+  const consent = readConsent(raw, errors);
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return {
+    value: {
+      name,
+      email,
+      tier: tier as TierInterest,
+      ...(referralCode ? { referralCode } : {}),
+      ...(assessment ? { assessment } : {}),
+      ...consent,
+    },
+  };
+}
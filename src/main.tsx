@@ -1,10 +1,41 @@
 import {StrictMode} from 'react';
-import {createRoot} from 'react-dom/client';
-import App from './App.tsx';
+import {createRoot, hydrateRoot} from 'react-dom/client';
+import Root from './Root.tsx';
+import {loadLegalPage} from './components/LegalPage.tsx';
+import {DEFAULT_LOCALE, detectLocale} from './i18n/locales.ts';
+import {legalPageForPath} from './lib/legal.ts';
+import {registerServiceWorker} from './lib/serviceWorker.ts';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
+const app = (
   <StrictMode>
-    <App />
-  </StrictMode>,
+    <Root />
+  </StrictMode>
 );
+
+// Pages are prerendered in English (scripts/prerender.ts). Hydrate only when
+// that markup matches what this visitor would render; otherwise, say for a
+// Spanish visitor, render from scratch rather than patch over a mismatch.
+async function start() {
+  const container = document.getElementById('root')!;
+  const {pathname} = window.location;
+  if (container.dataset.prerendered !== pathname || detectLocale() !== DEFAULT_LOCALE) {
+    createRoot(container).render(app);
+    return;
+  }
+  const legalPage = legalPageForPath(pathname);
+  if (legalPage) {
+    try {
+      await loadLegalPage(legalPage, DEFAULT_LOCALE);
+    } catch {
+      createRoot(container).render(app);
+      return;
+    }
+  }
+  hydrateRoot(container, app);
+}
+
+start();
+
+// The worker is built with the production bundle (scripts/build-service-worker.ts).
+if (import.meta.env.PROD) registerServiceWorker();
@@ -0,0 +1,78 @@
+// Form submissions made while offline, kept in IndexedDB until they can be
+// sent. The worker may be stopped between the queueing and the sending, so
+// nothing here lives in memory.
+
+import { OUTBOX_ENDPOINTS, type OutboxEndpoint } from '../lib/offline.ts';
+
+const DB_NAME = 'nura-outbox';
+const STORE = 'requests';
+/** Older submissions are dropped unsent; a week-old signup is better made again. */
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface QueuedRequest {
+  id?: number;
+  endpoint: OutboxEndpoint;
+  contentType: string;
+  body: string;
+  queuedAt: number;
+}
+
+function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const open = indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+  const db = await settle(open);
+  try {
+    return await settle(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+}
+
+export function outboxEndpointFor(pathname: string) {
+  return (Object.keys(OUTBOX_ENDPOINTS) as OutboxEndpoint[]).find(endpoint => OUTBOX_ENDPOINTS[endpoint] === pathname);
+}
+
+export async function enqueue(endpoint: OutboxEndpoint, request: Request) {
+  const entry: QueuedRequest = {
+    endpoint,
+    contentType: request.headers.get('Content-Type') ?? 'application/json',
+    body: await request.text(),
+    queuedAt: Date.now(),
+  };
+  await withStore('readwrite', store => store.add(entry));
+}
+
+/**
+ * Sends queued submissions oldest first, stopping at the first that can't get
+ * through. One the server rejects outright (a 4xx other than 429) would be
+ * rejected again, so it's dropped and reported like a sent one.
+ */
+export async function sendQueued(onSent: (endpoint: OutboxEndpoint, ok: boolean) => void) {
+  const entries = await withStore('readonly', store => store.getAll() as IDBRequest<QueuedRequest[]>);
+  for (const entry of entries) {
+    if (Date.now() - entry.queuedAt > MAX_AGE_MS) {
+      await withStore('readwrite', store => store.delete(entry.id!));
+      continue;
+    }
+    let response: Response;
+    try {
+      response = await fetch(OUTBOX_ENDPOINTS[entry.endpoint], {
+        method: 'POST',
+        headers: { 'Content-Type': entry.contentType },
+        body: entry.body,
+      });
+    } catch {
+      return;
+    }
+    if (response.status === 429 || response.status >= 500) return;
+    await withStore('readwrite', store => store.delete(entry.id!));
+    onSent(entry.endpoint, response.ok);
+  }
+}
@@ -0,0 +1,148 @@
+// The service worker, bundled into dist/sw.js by scripts/build-service-worker.ts.
+//
+// - Install precaches the app shell: every prerendered page, script, stylesheet
+//   and font from the build, listed in __PRECACHE__. A new deploy changes
+//   __VERSION__, so the browser installs the new worker next to the old one;
+//   it waits until the page says the visitor agreed to reload.
+// - Pages are network first, so a deploy shows up at once, and fall back to
+//   the last copy seen, then to the offline page.
+// - Hashed files under /assets/ never change, so they're served from cache.
+//   Images go in their own cache, capped at MAX_IMAGES.
+// - Other files (the manifest, icons, robots.txt) are stale-while-revalidate.
+// - The API isn't cached: answers there are live or personal. The exception
+//   is OUTBOX_ENDPOINTS, whose submissions are queued while offline.
+
+import {
+  CACHE_PREFIX,
+  OFFLINE_PATH,
+  OUTBOX_SYNC_TAG,
+  QUEUED_STATUS,
+  type ClientMessage,
+  type OutboxEndpoint,
+  type QueuedResponse,
+  type WorkerMessage,
+} from '../lib/offline.ts';
+import { enqueue, outboxEndpointFor, sendQueued } from './outbox.ts';
+import type { ServiceWorkerScope } from './types.ts';
+
+declare const __PRECACHE__: string[];
+declare const __VERSION__: string;
+
+const worker = self as unknown as ServiceWorkerScope;
+
+const PRECACHE = `${CACHE_PREFIX}precache-${__VERSION__}`;
+const PAGES = `${CACHE_PREFIX}pages`;
+const IMAGES = `${CACHE_PREFIX}images`;
+const FILES = `${CACHE_PREFIX}files`;
+const MAX_IMAGES = 60;
+
+worker.addEventListener('install', event => {
+  // `reload` skips the HTTP cache, which could still hold the previous deploy's pages.
+  event.waitUntil(caches.open(PRECACHE).then(cache => cache.addAll(__PRECACHE__.map(url => new Request(url, { cache: 'reload' })))));
+});
+
+worker.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const stale = (await caches.keys()).filter(name => name.startsWith(`${CACHE_PREFIX}precache-`) && name !== PRECACHE);
+    await Promise.all(stale.map(name => caches.delete(name)));
+    await worker.clients.claim();
+    await flushOutbox();
+  })());
+});
+
+worker.addEventListener('message', event => {
+  const message = event.data as WorkerMessage;
+  if (message.type === 'skipWaiting') event.waitUntil(worker.skipWaiting());
+  else if (message.type === 'flushOutbox') event.waitUntil(flushOutbox());
+});
+
+worker.addEventListener('sync', event => {
+  if (event.tag === OUTBOX_SYNC_TAG) event.waitUntil(flushOutbox());
+});
+
+worker.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== worker.location.origin) return;
+
+  const endpoint = request.method === 'POST' ? outboxEndpointFor(url.pathname) : undefined;
+  if (endpoint) {
+    event.respondWith(sendOrQueue(endpoint, request));
+    return;
+  }
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') event.respondWith(page(request, url));
+  else if (url.pathname.startsWith('/assets/')) event.respondWith(immutable(request));
+  else event.respondWith(staleWhileRevalidate(request));
+});
+
+/** Pages are stored under their path alone: the HTML doesn't depend on the query, which can hold tokens. */
+async function page(request: Request, url: URL) {
+  const key = `${url.origin}${url.pathname}`;
+  try {
+    const response = await fetch(request);
+    if (response.ok) await (await caches.open(PAGES)).put(key, response.clone());
+    return response;
+  } catch {
+    return (await caches.match(key)) ?? (await caches.match(OFFLINE_PATH)) ?? Response.error();
+  }
+}
+
+async function immutable(request: Request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cacheName = request.destination === 'image' ? IMAGES : FILES;
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    if (cacheName === IMAGES) await trim(cache, MAX_IMAGES);
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request: Request) {
+  const cache = await caches.open(FILES);
+  const cached = await caches.match(request);
+  const fresh = fetch(request).then(async response => {
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  });
+  if (!cached) return fresh;
+  fresh.catch(() => undefined);
+  return cached;
+}
+
+/** Drops the oldest entries; cache keys come back in insertion order. */
+async function trim(cache: Cache, max: number) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map(key => cache.delete(key)));
+}
+
+async function sendOrQueue(endpoint: OutboxEndpoint, request: Request) {
+  // The body can only be read once; the copy is what gets queued if the network is down.
+  const copy = request.clone();
+  try {
+    return await fetch(request);
+  } catch {
+    await enqueue(endpoint, copy);
+    await worker.registration.sync?.register(OUTBOX_SYNC_TAG).catch(() => undefined);
+    return Response.json({ queued: true } satisfies QueuedResponse, { status: QUEUED_STATUS });
+  }
+}
+
+// The sync event, the page coming back online and activation can all ask for
+// a flush at once; they share one run so nothing is sent twice.
+let flushing: Promise<void> | null = null;
+
+function flushOutbox() {
+  flushing ??= sendQueued(notifyClients).finally(() => { flushing = null; });
+  return flushing;
+}
+
+function notifyClients(endpoint: OutboxEndpoint, ok: boolean) {
+  const message: ClientMessage = { type: 'outboxSent', endpoint, ok };
+  worker.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    .then(clients => clients.forEach(client => client.postMessage(message)));
+}
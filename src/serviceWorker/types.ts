@@ -0,0 +1,39 @@
+// The parts of the service worker global scope this worker uses. The project
+// compiles against the DOM library, which doesn't describe them, and the
+// WebWorker library can't be loaded alongside it.
+
+export interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+export interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Response | Promise<Response>): void;
+}
+
+export interface ExtendableMessageEvent extends ExtendableEvent {
+  readonly data: unknown;
+}
+
+export interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+export interface WindowClient {
+  postMessage(message: unknown): void;
+}
+
+export interface ServiceWorkerScope {
+  readonly location: Location;
+  /** `sync` is missing where Background Sync isn't supported (Firefox, Safari). */
+  readonly registration: ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+  readonly clients: {
+    matchAll(options?: { type?: 'window'; includeUncontrolled?: boolean }): Promise<WindowClient[]>;
+    claim(): Promise<void>;
+  };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+  addEventListener(type: 'sync', listener: (event: SyncEvent) => void): void;
+}
@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+/** Generated by plugins/responsiveImages.ts. */
+interface ResponsiveImageSource {
+  /** JPEG fallback, also usable as an absolute link-preview image. */
+  src: string;
+  /** Intrinsic size of the master, for the aspect ratio. */
+  width: number;
+  height: number;
+  /** Modern formats, best first, for <source> elements. */
+  sources: { type: string; srcSet: string }[];
+  /** A tiny blurred WebP as a data URL, shown until the image loads. */
+  placeholder: string;
+}
+
+declare module '*?responsive' {
+  const image: ResponsiveImageSource;
+  export default image;
+}
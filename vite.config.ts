@@ -1,15 +1,31 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig} from 'vite';
+import {fontPreload} from './plugins/fontPreload.ts';
+import {responsiveImages} from './plugins/responsiveImages.ts';
+import {sizeBudget} from './plugins/sizeBudget.ts';
+import {webManifest} from './plugins/webManifest.ts';
 
-export default defineConfig(({mode}) => {
-  const env = loadEnv(mode, '.', '');
+const kB = 1024;
+
+export default defineConfig(() => {
+  // Secrets such as GEMINI_API_KEY stay on the server; the client talks to /api/chat.
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
+    plugins: [
+      react(),
+      tailwindcss(),
+      responsiveImages(),
+      // The hero headline and body copy.
+      fontPreload(['outfit-latin-700-normal.woff2', 'cormorant-garamond-latin-400-italic.woff2', 'plus-jakarta-sans-latin-400-normal.woff2']),
+      webManifest({icon: 'public/icon.svg', content: 'src/content/locales/en.json', themeColor: '#2E4036', backgroundColor: '#F2F0E9'}),
+      sizeBudget([
+        {label: 'JavaScript', match: /\.js$/, gzip: true, max: 240 * kB},
+        {label: 'CSS', match: /\.css$/, gzip: true, max: 25 * kB},
+        {label: 'Fonts', match: /\.woff2$/, max: 320 * kB},
+        {label: 'Image', match: /\.(avif|webp|jpg)$/, each: true, max: 350 * kB},
+      ]),
+    ],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),